@@ -1,61 +1,181 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
 import { PaperCard } from './components/PaperCard';
 import { StatCard } from './components/StatCard';
 import { TrackerStack } from './components/TrackerStack';
 import { AboutModal } from './components/AboutModal';
-import { PaperData, DiseaseTopic, StudyType, Methodology, PublicationType } from './types';
-import { INITIAL_PAPERS, APP_NAME, APP_VERSION } from './constants';
-import { fetchLiteratureAnalysisStream, fetchAiAnalysisStream, fetchPatentStream } from './services/geminiService';
+import { TopicManager } from './components/TopicManager';
+import { EntityDictionaryManager } from './components/EntityDictionaryManager';
+import { PipelineTracker } from './components/PipelineTracker';
+import { GeneView } from './components/GeneView';
+import { CitationExportMenu } from './components/CitationExportMenu';
+import { ReferenceImporter, ImportTarget } from './components/ReferenceImporter';
+import { ZoteroSync } from './components/ZoteroSync';
+import { ArchivePackManager } from './components/ArchivePackManager';
+import { SwarmSettings } from './components/SwarmSettings';
+import { CacheInspector } from './components/CacheInspector';
+import { AgentStatusPanel } from './components/AgentStatusPanel';
+import { AuditDrawer } from './components/AuditDrawer';
+import { AgentRunStatus, DateKind, EntityDictionary, FeedType, InstalledArchivePack, PaperCollection, PaperData, SwarmConfig, TopicDefinition, TopicId, StudyType, Methodology, PublicationType } from './types';
+import { APP_NAME, APP_VERSION } from './constants';
+import { matchesTopicFilter, UNCLASSIFIED_LABEL } from './services/topics';
+import { loadTopicRegistry, saveTopicRegistry } from './services/topicRegistry';
+import { loadSwarmConfig, saveSwarmConfig } from './services/swarmConfig';
+import { initPaperStore, getDefaultPaperStore, UserRatings } from './services/store';
+import { createIdentityResolver, IdentityResolver } from './services/identity';
+import { DATE_KIND_LABELS, availableDateKinds, dateOfKind } from './services/paperDates';
+import { buildGeneIndex, entityFacets, loadEntityDictionary, matchesEntityFilter, saveEntityDictionary, withEntities } from './services/entities';
+import { buildPipelines, withTrackedAssets } from './services/pipeline';
+import { ZoteroSyncResult, ZoteroSyncState } from './services/zotero';
+import { DEFAULT_ARCHIVE_PACKS, stackArchivePacks } from './services/archive';
+import { fetchLiteratureAnalysisStream, fetchAiAnalysisStream, fetchPatentStream, fetchTrialStream, polishLinks, PolishProgress, StreamOptions } from './services/geminiService';
 import { BarChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Bar, Cell } from 'recharts';
-import { RefreshCw, BookOpen, Activity, FlaskConical, Database, History, Radio, Sparkles, FileText, ArrowDownUp, FilterX, Bookmark, ServerCog, Timer, BrainCircuit, Scale } from 'lucide-react';
+import { RefreshCw, BookOpen, Activity, FlaskConical, Database, History, Radio, Sparkles, FileText, ArrowDownUp, FilterX, Bookmark, ServerCog, Timer, BrainCircuit, Scale, ClipboardList, CalendarDays, Milestone, Dna, Unlock, X, FileInput, FolderOpen, FolderSync, Package } from 'lucide-react';
+
+type StreamTab = 'live' | 'ai' | 'patents' | 'trials';
+const STREAM_TABS: StreamTab[] = ['live', 'ai', 'patents', 'trials'];
+const TAB_FEEDS: Record<StreamTab, FeedType> = { live: 'live', ai: 'ai', patents: 'patent', trials: 'trial' };
+
+const FEED_MARKS_KEY = 'feedHighWaterMarks';
+const LAST_VISITS_KEY = 'feedLastVisits';
+const ZOTERO_SYNC_KEY = 'zoteroSync';
+const ARCHIVE_LINKS_KEY = 'archiveLinks'; // Polished links of curated archive items, which the paper store does not hold
+const ARCHIVE_PACKS_KEY = 'archivePacks';
+
+type PolishedLinks = Pick<PaperData, 'url' | 'isPolished' | 'openAccess'>;
+
+// High-water marks are kept per feed and topic selection
+const feedMarkKey = (tab: StreamTab, topics: string[]) => `${tab}:${[...topics].sort().join('|')}`;
+
+// Re-points a list at the resolver's merged records after `changed` canonical ids were merged or renamed.
+// Two entries that turned out to be one study collapse into the first.
+const syncIdentities = (list: PaperData[], identities: IdentityResolver, changed: Set<string>): PaperData[] => {
+  if (!list.some(p => changed.has(identities.canonicalId(p.id)))) return list;
+  const listed = new Set<string>();
+  return list.flatMap(p => {
+    const id = identities.canonicalId(p.id);
+    if (listed.has(id)) return [];
+    listed.add(id);
+    return [changed.has(id) ? identities.get(id) || p : p];
+  });
+};
+
+// Same, for every named collection; returns the same array when nothing in them changed
+const syncCollections = (collections: PaperCollection[], identities: IdentityResolver, changed: Set<string>): PaperCollection[] => {
+  const synced = collections.map(c => {
+    const papers = syncIdentities(c.papers, identities, changed);
+    return papers === c.papers ? c : { ...c, papers };
+  });
+  return synced.some((c, i) => c !== collections[i]) ? synced : collections;
+};
+
+// Resolves a batch and returns one merged record per study, in first-seen order
+const resolveBatch = (papers: PaperData[], identities: IdentityResolver): PaperData[] => {
+  const ids = Array.from(new Set(papers.map(p => identities.resolve(p).id)));
+  return ids.map(id => identities.get(id)!);
+};
+
+// Archive entries merge with any copy already known, but keep the fields their pack states, so a corrected
+// entry shows the correction even for a study first seen in a stream. Later packs' entries win.
+const resolveArchive = (entries: PaperData[], identities: IdentityResolver): PaperData[] => {
+  const curated = new Map<string, PaperData>();
+  entries.forEach(entry => {
+    const id = identities.resolve(entry).id;
+    curated.set(id, { ...curated.get(id), ...entry });
+  });
+  // Ids settle once the whole batch is resolved; entries that turned out to be one study collapse here
+  const listed = new Map<string, PaperData>();
+  curated.forEach((fields, id) => {
+    const canonical = identities.canonicalId(id);
+    listed.set(canonical, { ...(listed.get(canonical) || identities.get(canonical)!), ...fields, id: canonical });
+  });
+  return Array.from(listed.values());
+};
+
+const UnreadBadge = ({ count }: { count: number }) => count > 0 ? (
+  <span className="min-w-[1.25rem] px-1 py-0.5 rounded-full bg-emerald-500 text-white text-[9px] leading-none text-center" title={`${count} new since last visit`}>
+    {count}
+  </span>
+) : null;
 
 const App: React.FC = () => {
   // --- STATE ---
-  // Archive Data
-  const [archivePapers] = useState<PaperData[]>(INITIAL_PAPERS);
+  // Identity Resolution - one ID per study across the Archive, every stream and bookmarks (see services/identity.ts)
+  const [identities] = useState<IdentityResolver>(() => createIdentityResolver());
+
+  // Archive Data - stacked from the installed packs (Persisted in the paper store, loaded after mount)
+  const [archivePacks, setArchivePacks] = useState<InstalledArchivePack[]>(DEFAULT_ARCHIVE_PACKS);
+  const [archivePapers, setArchivePapers] = useState<PaperData[]>(() => resolveArchive(stackArchivePacks(DEFAULT_ARCHIVE_PACKS), identities));
   
   // Live Data (Streams)
   const [livePapers, setLivePapers] = useState<PaperData[]>([]);
   const [aiPapers, setAiPapers] = useState<PaperData[]>([]);
   const [patentPapers, setPatentPapers] = useState<PaperData[]>([]);
+  const [trialPapers, setTrialPapers] = useState<PaperData[]>([]);
 
-  // Bookmarked Data (Persisted)
-  const [savedPapers, setSavedPapers] = useState<PaperData[]>(() => {
-    try {
-      const saved = localStorage.getItem('bioinsight_bookmarks');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      console.error("Failed to load bookmarks", e);
-      return [];
-    }
-  });
+  // Bookmarked Data (Persisted in the paper store, loaded after mount)
+  const [savedPapers, setSavedPapers] = useState<PaperData[]>([]);
 
-  // User Ratings (Persisted)
-  const [userRatings, setUserRatings] = useState<Record<string, 'up' | 'down'>>(() => {
-    try {
-      const saved = localStorage.getItem('bioinsight_ratings');
-      return saved ? JSON.parse(saved) : {};
-    } catch (e) {
-      console.error("Failed to load ratings", e);
-      return {};
-    }
-  });
+  // Named collections of imported references, shown under Saved
+  const [collections, setCollections] = useState<PaperCollection[]>([]);
+  const [activeCollection, setActiveCollection] = useState<string | null>(null); // null = Saved itself
+  const [zoteroState, setZoteroState] = useState<ZoteroSyncState | null>(null);
+
+  // Topic Registry (Persisted) - drives the Sidebar, every stream query and topic classification
+  const [topicRegistry, setTopicRegistry] = useState<TopicDefinition[]>(() => loadTopicRegistry());
+
+  // Entity Dictionary (Persisted) - drugs and targets that mentions are normalized against
+  const [entityDictionary, setEntityDictionary] = useState<EntityDictionary>(() => loadEntityDictionary());
+
+  // Swarm Configuration (Persisted) - web-search agents for the Live, AI and Patent feeds
+  const [swarmConfig, setSwarmConfig] = useState<SwarmConfig>(() => loadSwarmConfig());
+
+  // User Ratings (Persisted in the paper store, loaded after mount)
+  const [userRatings, setUserRatings] = useState<UserRatings>({});
+  const [isStoreReady, setIsStoreReady] = useState<boolean>(false);
+
+  // Incremental Updates (Persisted) - per feed/topic-set high-water marks, and when each tab was last left
+  const [feedMarks, setFeedMarks] = useState<Record<string, number>>({});
+  const [lastVisits, setLastVisits] = useState<Partial<Record<StreamTab, number>>>({});
+  const listedTopicKeys = useRef<Partial<Record<StreamTab, string>>>({}); // Topic set each stream list was fetched for
+  const listedTopics = useRef<Partial<Record<StreamTab, TopicId[]>>>({}); // ...and the topics themselves, for agent retries
+  // A run with failed agents holds back its mark until retries succeed, so the next refresh still covers their window
+  const pendingMarks = useRef<Partial<Record<StreamTab, { markKey: string; at: number; failed: Set<string> }>>>({});
+
+  // Agent Execution - per-agent progress of the current/last scan, and the handle to cancel it
+  const [agentStatuses, setAgentStatuses] = useState<Record<string, AgentRunStatus>>({});
+  const scanController = useRef<AbortController | null>(null);
+
+  // Open-access link polishing over the current list
+  const [polishProgress, setPolishProgress] = useState<PolishProgress | null>(null);
+  const polishController = useRef<AbortController | null>(null);
   
   // UI State
-  const [activeTab, setActiveTab] = useState<'archive' | 'live' | 'ai' | 'patents' | 'bookmarks'>('archive');
+  const [activeTab, setActiveTab] = useState<'archive' | StreamTab | 'bookmarks' | 'pipeline' | 'genes'>('archive');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [scanStatus, setScanStatus] = useState<string>("");
   const [isAboutOpen, setIsAboutOpen] = useState<boolean>(true);
+  const [isTopicManagerOpen, setIsTopicManagerOpen] = useState<boolean>(false);
+  const [isEntityManagerOpen, setIsEntityManagerOpen] = useState<boolean>(false);
+  const [isSwarmSettingsOpen, setIsSwarmSettingsOpen] = useState<boolean>(false);
+  const [isCacheInspectorOpen, setIsCacheInspectorOpen] = useState<boolean>(false);
+  const [isImporterOpen, setIsImporterOpen] = useState<boolean>(false);
+  const [isZoteroOpen, setIsZoteroOpen] = useState<boolean>(false);
+  const [isPackManagerOpen, setIsPackManagerOpen] = useState<boolean>(false);
+  const [auditFocus, setAuditFocus] = useState<PaperData | null | undefined>(undefined); // undefined = drawer closed
   const [sortBy, setSortBy] = useState<'date' | 'relevance'>('date');
   const [cooldown, setCooldown] = useState<number>(0);
 
   // Filters
-  const [activeTopics, setActiveTopics] = useState<DiseaseTopic[]>(Object.values(DiseaseTopic));
+  const [activeTopics, setActiveTopics] = useState<TopicId[]>(() => topicRegistry.map(t => t.name));
+  const [showUnclassified, setShowUnclassified] = useState<boolean>(true);
   const [activeStudyTypes, setActiveStudyTypes] = useState<StudyType[]>(Object.values(StudyType));
   const [activeMethodologies, setActiveMethodologies] = useState<Methodology[]>(Object.values(Methodology));
   const [eraFilter, setEraFilter] = useState<'all' | '5years' | '1year'>('all');
+  const [activeDrugs, setActiveDrugs] = useState<string[]>([]); // Empty = every drug
+  const [activeTargets, setActiveTargets] = useState<string[]>([]);
+  const [dateKind, setDateKind] = useState<DateKind | 'any'>('any'); // Filters to items carrying this kind of date and sorts by it
 
   // Cooldown Timer
   useEffect(() => {
@@ -65,33 +185,137 @@ const App: React.FC = () => {
     }
   }, [cooldown]);
 
-  // Persistence
+  // Persistence - load once the store has migrated any v2 localStorage data, then write back on change
+  useEffect(() => {
+    initPaperStore()
+      .then(store => Promise.all([
+        store.loadBookmarks(),
+        store.loadRatings(),
+        store.getMeta<Record<string, number>>(FEED_MARKS_KEY),
+        store.getMeta<Partial<Record<StreamTab, number>>>(LAST_VISITS_KEY),
+        store.getMeta<Record<string, PolishedLinks>>(ARCHIVE_LINKS_KEY),
+        store.loadCollections(),
+        store.getMeta<ZoteroSyncState>(ZOTERO_SYNC_KEY),
+        store.getMeta<InstalledArchivePack[]>(ARCHIVE_PACKS_KEY)
+      ]))
+      .then(([bookmarks, ratings, marks, visits, archiveLinks, savedCollections, zoteroSync, packs]) => {
+        if (packs) {
+          setArchivePacks(packs);
+          setArchivePapers(resolveArchive(stackArchivePacks(packs), identities));
+        }
+        // Bookmarks and ratings written under older ids follow their study's canonical id
+        setSavedPapers(resolveBatch(bookmarks, identities));
+        setCollections(savedCollections.map(c => ({ ...c, papers: resolveBatch(c.papers, identities) })));
+        setUserRatings(Object.fromEntries(Object.entries(ratings).map(([id, rating]) => [identities.canonicalId(id), rating])));
+        identities.takeRenames();
+        setZoteroState(zoteroSync || null);
+        setFeedMarks(marks || {});
+        setLastVisits(visits || {});
+        if (archiveLinks) setArchivePapers(prev => prev.map(p => archiveLinks[p.id] ? { ...p, ...archiveLinks[p.id] } : p));
+        setIsStoreReady(true);
+      })
+      .catch(e => console.error("Failed to load bookmarks and ratings", e));
+  }, []);
+
   useEffect(() => {
-    localStorage.setItem('bioinsight_bookmarks', JSON.stringify(savedPapers));
-  }, [savedPapers]);
+    if (!isStoreReady) return;
+    getDefaultPaperStore().saveBookmarks(savedPapers).catch(e => console.warn("Failed to save bookmarks", e));
+  }, [savedPapers, isStoreReady]);
 
   useEffect(() => {
-    localStorage.setItem('bioinsight_ratings', JSON.stringify(userRatings));
-  }, [userRatings]);
+    if (!isStoreReady) return;
+    getDefaultPaperStore().saveCollections(collections).catch(e => console.warn("Failed to save collections", e));
+  }, [collections, isStoreReady]);
+
+  useEffect(() => {
+    if (!isStoreReady || !zoteroState) return;
+    getDefaultPaperStore().setMeta(ZOTERO_SYNC_KEY, zoteroState).catch(e => console.warn("Failed to save Zotero sync state", e));
+  }, [zoteroState, isStoreReady]);
+
+  useEffect(() => {
+    if (!isStoreReady) return;
+    getDefaultPaperStore().setMeta(ARCHIVE_PACKS_KEY, archivePacks).catch(e => console.warn("Failed to save archive packs", e));
+  }, [archivePacks, isStoreReady]);
+
+  useEffect(() => {
+    if (!isStoreReady) return;
+    getDefaultPaperStore().saveRatings(userRatings).catch(e => console.warn("Failed to save ratings", e));
+  }, [userRatings, isStoreReady]);
+
+  useEffect(() => {
+    if (!isStoreReady) return;
+    getDefaultPaperStore().setMeta(FEED_MARKS_KEY, feedMarks).catch(e => console.warn("Failed to save feed marks", e));
+  }, [feedMarks, isStoreReady]);
+
+  useEffect(() => {
+    if (!isStoreReady) return;
+    getDefaultPaperStore().setMeta(LAST_VISITS_KEY, lastVisits).catch(e => console.warn("Failed to save tab visits", e));
+  }, [lastVisits, isStoreReady]);
+
+  useEffect(() => {
+    if (!isStoreReady) return;
+    const links = Object.fromEntries(archivePapers.filter(p => p.isPolished).map(p => [p.id, { url: p.url, isPolished: p.isPolished, openAccess: p.openAccess } satisfies PolishedLinks]));
+    getDefaultPaperStore().setMeta(ARCHIVE_LINKS_KEY, links).catch(e => console.warn("Failed to save archive links", e));
+  }, [archivePapers, isStoreReady]);
+
+  // Leaving a stream tab counts as having seen everything listed there
+  const previousTab = useRef(activeTab);
+  useEffect(() => {
+    const left = previousTab.current;
+    previousTab.current = activeTab;
+    if (left !== activeTab && (STREAM_TABS as string[]).includes(left)) {
+      setLastVisits(prev => ({ ...prev, [left]: Date.now() }));
+    }
+  }, [activeTab]);
 
   // --- FILTERING LOGIC ---
+  // Drug and target mentions are extracted as a list is shown, so dictionary edits apply everywhere at once
   const currentPapers = useMemo(() => {
-    switch(activeTab) {
-        case 'live': return livePapers;
-        case 'ai': return aiPapers;
-        case 'patents': return patentPapers;
-        case 'bookmarks': return savedPapers;
-        default: return archivePapers;
-    }
-  }, [activeTab, livePapers, aiPapers, patentPapers, savedPapers, archivePapers]);
+    const list = (() => {
+      switch(activeTab) {
+          case 'live': return livePapers;
+          case 'ai': return aiPapers;
+          case 'patents': return patentPapers;
+          case 'trials': return trialPapers;
+          case 'bookmarks': return collections.find(c => c.name === activeCollection)?.papers || savedPapers;
+          default: return archivePapers;
+      }
+    })();
+    return list.map(p => withEntities(p, entityDictionary));
+  }, [activeTab, livePapers, aiPapers, patentPapers, trialPapers, savedPapers, collections, activeCollection, archivePapers, entityDictionary]);
+
+  const facets = useMemo(() => entityFacets(currentPapers), [currentPapers]);
+
+  // Everything already held, for the importer's duplicate report
+  const importListings = useMemo(() => isImporterOpen ? [
+    { label: 'Archive', papers: archivePapers },
+    { label: 'Live Feed', papers: livePapers },
+    { label: 'AI/ML Nexus', papers: aiPapers },
+    { label: 'Patents', papers: patentPapers },
+    { label: 'Trials', papers: trialPapers },
+    { label: 'Saved', papers: savedPapers },
+    ...collections.map(c => ({ label: `Collection: ${c.name}`, papers: c.papers }))
+  ] : [], [isImporterOpen, archivePapers, livePapers, aiPapers, patentPapers, trialPapers, savedPapers, collections]);
+
+  // Every feed at once: the pipeline and gene views follow an asset or gene wherever it appears. Drugs on the
+  // topic registry's lists are tracked even before they are added to the dictionary.
+  const isCrossFeedView = activeTab === 'pipeline' || activeTab === 'genes';
+  const pipelineDictionary = useMemo(() => withTrackedAssets(topicRegistry, entityDictionary), [topicRegistry, entityDictionary]);
+  const allFeeds = useMemo(() => {
+    if (!isCrossFeedView) return {};
+    const tag = (list: PaperData[]) => list.map(p => withEntities(p, pipelineDictionary));
+    return { archive: tag(archivePapers), live: tag(livePapers), ai: tag(aiPapers), patent: tag(patentPapers), trial: tag(trialPapers) };
+  }, [isCrossFeedView, archivePapers, livePapers, aiPapers, patentPapers, trialPapers, pipelineDictionary]);
+  const pipelines = useMemo(() => activeTab === 'pipeline' ? buildPipelines(topicRegistry, pipelineDictionary, allFeeds) : [], [activeTab, allFeeds, topicRegistry, pipelineDictionary]);
+  const geneIndex = useMemo(() => activeTab === 'genes' ? buildGeneIndex(allFeeds) : [], [activeTab, allFeeds]);
 
   const filteredPapers = useMemo(() => {
     const filtered = currentPapers.filter(paper => {
       // 1. Topic Match
-      const topicMatch = activeTopics.includes(paper.topic);
+      const topicMatch = matchesTopicFilter(paper, activeTopics, showUnclassified);
       
       // 2. Study Type Match (Bypassed in Streams)
-      const isStream = ['live', 'ai', 'patents'].includes(activeTab);
+      const isStream = (STREAM_TABS as string[]).includes(activeTab);
       const studyTypeMatch = isStream ? true : activeStudyTypes.includes(paper.studyType);
       
       // 3. Methodology Match (Bypassed in Streams)
@@ -106,18 +330,27 @@ const App: React.FC = () => {
           if (eraFilter === '1year') dateMatch = paperYear >= 2024;
       }
 
-      return topicMatch && studyTypeMatch && methodologyMatch && dateMatch;
+      // 5. Date Kind (e.g. only patents with a priority date)
+      const dateKindMatch = dateKind === 'any' || dateOfKind(paper, dateKind) !== undefined;
+
+      // 6. Drug / Target facets
+      const entityMatch = matchesEntityFilter(paper, activeDrugs, activeTargets);
+
+      return topicMatch && studyTypeMatch && methodologyMatch && dateMatch && dateKindMatch && entityMatch;
     });
+    const sortDate = (paper: PaperData) => new Date((dateKind !== 'any' && dateOfKind(paper, dateKind)) || paper.date).getTime();
 
     // Sort Logic
     return filtered.sort((a, b) => {
         const aRating = userRatings[a.id] === 'up' ? 1 : (userRatings[a.id] === 'down' ? -1 : 0);
         const bRating = userRatings[b.id] === 'up' ? 1 : (userRatings[b.id] === 'down' ? -1 : 0);
         if (aRating !== bRating) return bRating - aRating;
-        if (sortBy === 'date') return new Date(b.date).getTime() - new Date(a.date).getTime();
-        return (b.validationScore - a.validationScore) || (new Date(b.date).getTime() - new Date(a.date).getTime());
+        if (sortBy === 'date') return sortDate(b) - sortDate(a);
+        return (b.validationScore - a.validationScore) || (sortDate(b) - sortDate(a));
     });
-  }, [currentPapers, activeTopics, activeStudyTypes, activeMethodologies, eraFilter, activeTab, sortBy, userRatings]);
+  }, [currentPapers, activeTopics, showUnclassified, activeStudyTypes, activeMethodologies, eraFilter, dateKind, activeDrugs, activeTargets, activeTab, sortBy, userRatings]);
+
+  const dateKinds = useMemo(() => availableDateKinds(currentPapers), [currentPapers]);
 
   // --- STATS LOGIC ---
   const stats = useMemo(() => {
@@ -132,29 +365,81 @@ const App: React.FC = () => {
             p.publicationType === PublicationType.ReviewArticle ||
             p.publicationType === PublicationType.MetaAnalysis
         ).length,
+        grants: filteredPapers.filter(p => p.patent?.status === 'grant').length,
+        applications: filteredPapers.filter(p => p.patent?.status === 'application').length,
     };
   }, [filteredPapers]);
 
   const topicData = useMemo(() => {
+    // Multi-label items count once under each of their labels
     const counts: Record<string, number> = {};
-    Object.values(DiseaseTopic).forEach(t => counts[t] = 0);
+    topicRegistry.forEach(t => counts[t.name] = 0);
+    counts[UNCLASSIFIED_LABEL] = 0;
     filteredPapers.forEach(p => {
-        if (counts[p.topic] !== undefined) counts[p.topic]++;
+        if (p.topics.length === 0) counts[UNCLASSIFIED_LABEL]++;
+        p.topics.forEach(t => { if (counts[t] !== undefined) counts[t]++; });
     });
     return Object.entries(counts).map(([name, value]) => ({ name, value })).filter(i => i.value > 0);
-  }, [filteredPapers]);
+  }, [filteredPapers, topicRegistry]);
   
+  // "New since last visit": produced by a stream run after the user last left that tab.
+  // Until a tab has been visited once there is nothing to compare against, so nothing is new.
+  const isNewSinceVisit = (paper: PaperData, tab: StreamTab) => {
+    const visit = lastVisits[tab];
+    return visit !== undefined && !!paper.retrievedAt && Date.parse(paper.retrievedAt) > visit;
+  };
+
+  const unreadCounts = useMemo(() => {
+    const lists: Record<StreamTab, PaperData[]> = { live: livePapers, ai: aiPapers, patents: patentPapers, trials: trialPapers };
+    return Object.fromEntries(STREAM_TABS.map(tab => [tab, lists[tab].filter(p => isNewSinceVisit(p, tab)).length])) as Record<StreamTab, number>;
+  }, [livePapers, aiPapers, patentPapers, trialPapers, lastVisits]);
+
+  // Papers in every other feed that cite a given NCT number, so trial cards can link to them
+  const papersByNctId = useMemo(() => {
+    const index = new Map<string, PaperData[]>();
+    const seen = new Set<string>();
+    [...archivePapers, ...livePapers, ...aiPapers, ...patentPapers, ...savedPapers].forEach(p => {
+        if (p.trial || seen.has(p.id)) return;
+        seen.add(p.id);
+        (p.nctIds || []).forEach(nct => index.set(nct, [...(index.get(nct) || []), p]));
+    });
+    return index;
+  }, [archivePapers, livePapers, aiPapers, patentPapers, savedPapers]);
+
   const COLORS = ['#60A5FA', '#34D399', '#818CF8', '#F472B6', '#FBBF24', '#A78BFA', '#F87171'];
 
   // --- HANDLERS ---
   const handleToggleBookmark = (paper: PaperData) => {
     setSavedPapers(prev => {
-        const exists = prev.some(p => p.id === paper.id || (p.title === paper.title && p.authors?.[0] === paper.authors?.[0]));
-        if (exists) return prev.filter(p => !(p.id === paper.id || (p.title === paper.title && p.authors?.[0] === paper.authors?.[0])));
+        const exists = prev.some(p => p.id === paper.id);
+        if (exists) return prev.filter(p => p.id !== paper.id);
         return [paper, ...prev];
     });
   };
 
+  // Replaces a paper wherever it is listed and writes it back to the store. Extracted entities are derived
+  // at display time and not stored.
+  const handleUpdatePaper = ({ entities: _entities, ...paper }: PaperData) => {
+    const replace = (list: PaperData[]) => list.some(p => p.id === paper.id) ? list.map(p => p.id === paper.id ? paper : p) : list;
+    [setArchivePapers, setLivePapers, setAiPapers, setPatentPapers, setTrialPapers, setSavedPapers].forEach(set => set(replace));
+    setCollections(prev => prev.some(c => c.papers.some(p => p.id === paper.id)) ? prev.map(c => ({ ...c, papers: replace(c.papers) })) : prev);
+    getDefaultPaperStore().updatePapers([paper]).catch(e => console.warn("Failed to save updated paper", e));
+  };
+
+  // Polishes the whole current list (every item, not just the filtered view) until done or cancelled
+  const handlePolishLinks = async () => {
+    const controller = new AbortController();
+    polishController.current = controller;
+    try {
+      await polishLinks(currentPapers, handleUpdatePaper, { signal: controller.signal, onProgress: setPolishProgress });
+    } catch (e) {
+      if (!controller.signal.aborted) console.warn("Link polishing stopped", e);
+    } finally {
+      polishController.current = null;
+      setPolishProgress(null);
+    }
+  };
+
   const handleRatePaper = (paperId: string, rating: 'up' | 'down') => {
     setUserRatings(prev => {
         if (prev[paperId] === rating) {
@@ -166,28 +451,129 @@ const App: React.FC = () => {
     });
   };
 
+  // Imported records merge with any copy already known, like a stream batch, then land in Saved or a collection
+  const handleImportReferences = (papers: PaperData[], target: ImportTarget) => {
+    const resolved = resolveBatch(papers, identities);
+    const renames: Record<string, string> = identities.takeRenames();
+    const changed = new Set<string>([...resolved.map(p => p.id), ...Object.values(renames)]);
+    const addTo = (list: PaperData[]) => {
+      const listed = new Set(list.map(p => p.id));
+      return [...resolved.filter(p => !listed.has(p.id)), ...list];
+    };
+
+    [setArchivePapers, setLivePapers, setAiPapers, setPatentPapers, setTrialPapers].forEach(set => set(prev => syncIdentities(prev, identities, changed)));
+    setSavedPapers(prev => {
+      const synced = syncIdentities(prev, identities, changed);
+      return target.kind === 'saved' ? addTo(synced) : synced;
+    });
+    setCollections(prev => {
+      const synced = syncCollections(prev, identities, changed);
+      if (target.kind === 'saved') return synced;
+      const now = new Date().toISOString();
+      return synced.some(c => c.name === target.name)
+        ? synced.map(c => c.name === target.name ? { ...c, papers: addTo(c.papers), updatedAt: now } : c)
+        : [...synced, { name: target.name, papers: resolved, createdAt: now, updatedAt: now }];
+    });
+    if (Object.keys(renames).length > 0) {
+      setUserRatings(prev => Object.keys(prev).some(id => renames[id])
+        ? Object.fromEntries(Object.entries(prev).map(([id, rating]) => [renames[id] || id, rating]))
+        : prev);
+    }
+    setActiveTab('bookmarks');
+    setActiveCollection(target.kind === 'saved' ? null : target.name);
+  };
+
+  // Changes from Zotero replace the item wherever it is listed; items new from Zotero arrive like an import
+  const handleZoteroSynced = (result: ZoteroSyncResult) => {
+    result.updated.forEach(handleUpdatePaper);
+    if (result.removed.length > 0) setSavedPapers(prev => prev.filter(p => !result.removed.includes(p.id)));
+    if (result.added.length > 0) handleImportReferences(result.added, { kind: 'saved' });
+    setZoteroState(result.state);
+  };
+
+  // Rebuilds the Archive from the enabled packs, keeping polished links. Pack studies that merged with listed
+  // items re-key the other lists like an import.
+  const handleArchivePacksChange = (packs: InstalledArchivePack[]) => {
+    const resolved = resolveArchive(stackArchivePacks(packs), identities);
+    const polished = new Map<string, PaperData>(archivePapers.filter(p => p.isPolished).map(p => [identities.canonicalId(p.id), p]));
+    const archive = resolved.map(p => {
+      const links = polished.get(p.id);
+      return links ? { ...p, url: links.url, isPolished: links.isPolished, openAccess: links.openAccess } : p;
+    });
+    const renames: Record<string, string> = identities.takeRenames();
+    const changed = new Set<string>(Object.values(renames));
+
+    setArchivePacks(packs);
+    setArchivePapers(archive);
+    [setLivePapers, setAiPapers, setPatentPapers, setTrialPapers, setSavedPapers].forEach(set => set(prev => syncIdentities(prev, identities, changed)));
+    setCollections(prev => syncCollections(prev, identities, changed));
+    if (Object.keys(renames).length > 0) {
+      setUserRatings(prev => Object.keys(prev).some(id => renames[id])
+        ? Object.fromEntries(Object.entries(prev).map(([id, rating]) => [renames[id] || id, rating]))
+        : prev);
+    }
+  };
+
+  const handleDeleteCollection = (name: string) => {
+    if (!window.confirm(`Delete the collection "${name}"? Its items stay wherever else they are listed.`)) return;
+    setCollections(prev => prev.filter(c => c.name !== name));
+    if (activeCollection === name) setActiveCollection(null);
+  };
+
   // --- STREAM ORCHESTRATOR ---
-  const handleFetchStream = async (targetTab: 'live' | 'ai' | 'patents') => {
-    if (cooldown > 0) return;
+  const streamSetters: Record<StreamTab, React.Dispatch<React.SetStateAction<PaperData[]>>> = {
+    live: setLivePapers,
+    ai: setAiPapers,
+    patents: setPatentPapers,
+    trials: setTrialPapers
+  };
+
+  // `retryAgentIds` re-runs only those agents of the last scan, over its topics, merging into the list
+  const handleFetchStream = async (targetTab: StreamTab, retryAgentIds?: string[]) => {
+    if (isLoading || (cooldown > 0 && !retryAgentIds)) return;
     setIsLoading(true);
-    setScanStatus("Initializing Specialist Agents...");
+    setScanStatus(retryAgentIds ? "Retrying agents..." : "Initializing Specialist Agents...");
     
     // Switch to the tab immediately
     setActiveTab(targetTab); 
     
-    // Clear data for fresh fetch? Or Append? 
-    // We clear for simplicity in this version.
-    if (targetTab === 'live') setLivePapers([]);
-    if (targetTab === 'ai') setAiPapers([]);
-    if (targetTab === 'patents') setPatentPapers([]);
+    // Refreshing the same topic selection only asks for items newer than the last run and merges them in.
+    // A different selection starts a fresh list.
+    const searchTopics = retryAgentIds ? listedTopics.current[targetTab] || activeTopics : activeTopics;
+    const markKey = feedMarkKey(targetTab, searchTopics);
+    const listed = { live: livePapers, ai: aiPapers, patents: patentPapers, trials: trialPapers }[targetTab];
+    const isIncremental = !retryAgentIds && listedTopicKeys.current[targetTab] === markKey && listed.length > 0 && feedMarks[markKey] !== undefined;
+
+    const controller = new AbortController();
+    scanController.current = controller;
+    const failed = new Set<string>();
+    const options: StreamOptions = {
+        ...(isIncremental && { since: new Date(feedMarks[markKey]) }),
+        ...(retryAgentIds && { agentIds: retryAgentIds }),
+        signal: controller.signal,
+        onAgentStatus: (status) => {
+            if (status.state === 'failed' || status.state === 'cancelled') failed.add(status.id);
+            else failed.delete(status.id);
+            setAgentStatuses(prev => ({ ...prev, [status.id]: status }));
+        }
+    };
 
-    const searchTopics = activeTopics;
+    if (!retryAgentIds) {
+        if (!isIncremental) streamSetters[targetTab]([]);
+        listedTopicKeys.current[targetTab] = markKey;
+        listedTopics.current[targetTab] = searchTopics;
+        setAgentStatuses(prev => Object.fromEntries(Object.entries<AgentRunStatus>(prev).filter(([, s]) => s.feed !== TAB_FEEDS[targetTab])));
+    }
+
+    // The mark becomes the oldest run that fed this list: now, or the cached run a hit came from
+    let runStartedAt = Date.now();
     
     try {
         let stream;
-        if (targetTab === 'live') stream = fetchLiteratureAnalysisStream(searchTopics);
-        else if (targetTab === 'ai') stream = fetchAiAnalysisStream(searchTopics);
-        else if (targetTab === 'patents') stream = fetchPatentStream(searchTopics);
+        if (targetTab === 'live') stream = fetchLiteratureAnalysisStream(searchTopics, { swarms: swarmConfig }, options);
+        else if (targetTab === 'ai') stream = fetchAiAnalysisStream(searchTopics, { swarms: swarmConfig }, options);
+        else if (targetTab === 'patents') stream = fetchPatentStream(searchTopics, { swarms: swarmConfig }, options);
+        else if (targetTab === 'trials') stream = fetchTrialStream(searchTopics, {}, options);
 
         if (!stream) return;
 
@@ -197,50 +583,96 @@ const App: React.FC = () => {
             const batchSize = batch.length;
             totalFetched += batchSize;
             setScanStatus(`Processing ${totalFetched} new items...`);
+            batch.forEach(p => {
+                const retrieved = p.retrievedAt ? Date.parse(p.retrievedAt) : NaN;
+                if (retrieved < runStartedAt) runStartedAt = retrieved;
+            });
             
-            const updater = targetTab === 'live' ? setLivePapers : (targetTab === 'ai' ? setAiPapers : setPatentPapers);
-            
-            updater(prev => {
-                const normalize = (str: string) => str.toLowerCase().replace(/[^a-z0-9]/g, '');
-                const completelyNew = batch.filter(np => {
-                    const npFingerprint = normalize(np.title);
-                    const isAlreadyListed = prev.some(op => normalize(op.title) === npFingerprint);
-                    return !isAlreadyListed;
-                });
-                return [...prev, ...completelyNew];
+            // Duplicates of anything already known (in any feed) merge into that record and keep its id.
+            // Re-emitted items replace the listed copy, e.g. trials that gained topic labels.
+            const resolved = resolveBatch(batch, identities);
+            const renames: Record<string, string> = identities.takeRenames();
+            const changed = new Set<string>([...resolved.map(p => p.id), ...Object.values(renames)]);
+
+            streamSetters[targetTab](prev => {
+                const updated = syncIdentities(prev, identities, changed);
+                const listed = new Set(updated.map(p => p.id));
+                return [...updated, ...resolved.filter(p => !listed.has(p.id))];
             });
+            STREAM_TABS.filter(tab => tab !== targetTab).forEach(tab => streamSetters[tab](prev => syncIdentities(prev, identities, changed)));
+            setArchivePapers(prev => syncIdentities(prev, identities, changed));
+            setSavedPapers(prev => syncIdentities(prev, identities, changed));
+            setCollections(prev => syncCollections(prev, identities, changed));
+            if (Object.keys(renames).length > 0) {
+                setUserRatings(prev => Object.keys(prev).some(id => renames[id])
+                    ? Object.fromEntries(Object.entries(prev).map(([id, rating]) => [renames[id] || id, rating]))
+                    : prev);
+            }
         }
         
-        setCooldown(60); 
+        // Retries settle the failures of the run they belong to; that run's mark lands once none remain
+        const pending = pendingMarks.current[targetTab];
+        if (retryAgentIds && pending?.markKey === markKey) {
+            retryAgentIds.forEach(id => { if (!failed.has(id)) pending.failed.delete(id); });
+            runStartedAt = pending.at;
+            failed.clear();
+            pending.failed.forEach(id => failed.add(id));
+        }
+        if (failed.size === 0) {
+            delete pendingMarks.current[targetTab];
+            if (!retryAgentIds || pending?.markKey === markKey) setFeedMarks(prev => ({ ...prev, [markKey]: runStartedAt }));
+        } else if (!retryAgentIds) {
+            pendingMarks.current[targetTab] = { markKey, at: runStartedAt, failed };
+        }
+        if (!retryAgentIds) setCooldown(60); 
     } catch (e) {
         console.error("Stream error", e);
         setScanStatus("Error during scan.");
     } finally {
+        scanController.current = null;
         setScanStatus("");
         setIsLoading(false);
     }
   };
 
-  const handleTabClick = (tab: 'live' | 'ai' | 'patents') => {
+  const handleCancelScan = () => scanController.current?.abort();
+
+  const handleTabClick = (tab: StreamTab) => {
       setActiveTab(tab);
       // Auto-trigger if empty
-      const data = tab === 'live' ? livePapers : (tab === 'ai' ? aiPapers : patentPapers);
+      const data = { live: livePapers, ai: aiPapers, patents: patentPapers, trials: trialPapers }[tab];
       if (data.length === 0 && !isLoading) {
           handleFetchStream(tab);
       }
   };
 
   // Helpers
-  const toggleTopic = (topic: DiseaseTopic) => setActiveTopics(prev => prev.includes(topic) ? prev.filter(t => t !== topic) : [...prev, topic]);
+  const toggleTopic = (topic: TopicId) => setActiveTopics(prev => prev.includes(topic) ? prev.filter(t => t !== topic) : [...prev, topic]);
   const toggleStudyType = (type: StudyType) => setActiveStudyTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  const toggleDrug = (drug: string) => setActiveDrugs(prev => prev.includes(drug) ? prev.filter(d => d !== drug) : [...prev, drug]);
+  const toggleTarget = (target: string) => setActiveTargets(prev => prev.includes(target) ? prev.filter(t => t !== target) : [...prev, target]);
   const toggleMethodology = (methodology: Methodology) => setActiveMethodologies(prev => prev.includes(methodology) ? prev.filter(m => m !== methodology) : [...prev, methodology]);
-  const handleResetFilters = () => { setActiveTopics(Object.values(DiseaseTopic)); setActiveStudyTypes(Object.values(StudyType)); setActiveMethodologies(Object.values(Methodology)); };
+  const handleResetFilters = () => { setActiveTopics(topicRegistry.map(t => t.name)); setShowUnclassified(true); setActiveStudyTypes(Object.values(StudyType)); setActiveMethodologies(Object.values(Methodology)); setDateKind('any'); setActiveDrugs([]); setActiveTargets([]); };
+
+  // Persist registry edits; newly added topics start active, renamed/deleted ones drop out of the filter
+  const handleTopicRegistryChange = (next: TopicDefinition[]) => {
+    const previous = new Set(topicRegistry.map(t => t.name));
+    const names = new Set(next.map(t => t.name));
+    saveTopicRegistry(next);
+    setTopicRegistry(next);
+    setActiveTopics(prev => [...prev.filter(t => names.has(t)), ...next.map(t => t.name).filter(t => !previous.has(t))]);
+  };
 
-  const isStreamMode = ['live', 'ai', 'patents'].includes(activeTab);
+  const handleEntityDictionaryChange = (next: EntityDictionary) => {
+    saveEntityDictionary(next);
+    setEntityDictionary(next);
+  };
+
+  const isStreamMode = (STREAM_TABS as string[]).includes(activeTab);
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 flex flex-col font-sans selection:bg-blue-500/30">
-      <Header onOpenAbout={() => setIsAboutOpen(true)} />
+      <Header onOpenAbout={() => setIsAboutOpen(true)} onOpenSwarms={() => setIsSwarmSettingsOpen(true)} onOpenCache={() => setIsCacheInspectorOpen(true)} onOpenAudit={() => setAuditFocus(null)} />
 
       <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
         
@@ -254,13 +686,13 @@ const App: React.FC = () => {
             />
             <StatCard 
                 label={activeTab === 'patents' ? "Grants" : "Peer Reviewed"} 
-                value={stats.peerReviewed} 
+                value={activeTab === 'patents' ? stats.grants : stats.peerReviewed} 
                 icon={activeTab === 'patents' ? <Scale className="w-5 h-5 text-green-400"/> : <BookOpen className="w-5 h-5 text-green-400" />}
                 colorClass="text-green-400"
             />
             <StatCard 
                 label={activeTab === 'patents' ? "Applications" : "Preprints"}
-                value={stats.preprints} 
+                value={activeTab === 'patents' ? stats.applications : stats.preprints} 
                 icon={<FileText className="w-5 h-5 text-amber-400" />}
                 colorClass="text-amber-400"
             />
@@ -284,14 +716,25 @@ const App: React.FC = () => {
         <div className="flex flex-col lg:flex-row gap-8">
           {/* Left Sidebar */}
           <Sidebar 
+            topics={topicRegistry}
             activeTopics={activeTopics} 
             toggleTopic={toggleTopic}
+            onManageTopics={() => setIsTopicManagerOpen(true)}
+            showUnclassified={showUnclassified}
+            toggleUnclassified={() => setShowUnclassified(prev => !prev)}
             activeStudyTypes={activeStudyTypes}
             toggleStudyType={toggleStudyType}
             activeMethodologies={activeMethodologies}
             toggleMethodology={toggleMethodology}
             eraFilter={eraFilter}
             setEraFilter={setEraFilter}
+            drugFacets={facets.drugs}
+            activeDrugs={activeDrugs}
+            toggleDrug={toggleDrug}
+            targetFacets={facets.targets}
+            activeTargets={activeTargets}
+            toggleTarget={toggleTarget}
+            onManageEntities={() => setIsEntityManagerOpen(true)}
             isLiveMode={isStreamMode}
           />
 
@@ -306,19 +749,32 @@ const App: React.FC = () => {
                     </button>
                     <button onClick={() => handleTabClick('live')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'live' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
                         <Radio className="w-3.5 h-3.5" /> Live Feed
+                        <UnreadBadge count={unreadCounts.live} />
                     </button>
                     <button onClick={() => handleTabClick('ai')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'ai' ? 'bg-fuchsia-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
                         <BrainCircuit className="w-3.5 h-3.5" /> AI/ML Nexus
+                        <UnreadBadge count={unreadCounts.ai} />
                     </button>
                     <button onClick={() => handleTabClick('patents')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'patents' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
                         <Scale className="w-3.5 h-3.5" /> Patents
+                        <UnreadBadge count={unreadCounts.patents} />
+                    </button>
+                    <button onClick={() => handleTabClick('trials')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'trials' ? 'bg-teal-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
+                        <ClipboardList className="w-3.5 h-3.5" /> Trials
+                        <UnreadBadge count={unreadCounts.trials} />
                     </button>
                     <button onClick={() => setActiveTab('bookmarks')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'bookmarks' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
                         <Bookmark className="w-3.5 h-3.5" /> Saved
                     </button>
+                    <button onClick={() => setActiveTab('pipeline')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'pipeline' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
+                        <Milestone className="w-3.5 h-3.5" /> Pipeline
+                    </button>
+                    <button onClick={() => setActiveTab('genes')} className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${activeTab === 'genes' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
+                        <Dna className="w-3.5 h-3.5" /> Genes
+                    </button>
                 </div>
 
-                <div className="flex items-center gap-2 w-full md:w-auto">
+                {!isCrossFeedView && <div className="flex items-center gap-2 w-full md:w-auto">
                     <div className="relative flex items-center bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 gap-2">
                         <ArrowDownUp className="w-3.5 h-3.5 text-slate-400" />
                         <span className="text-xs text-slate-400 font-medium mr-1">Sort:</span>
@@ -333,10 +789,58 @@ const App: React.FC = () => {
                         </select>
                     </div>
 
+                    {dateKinds.length > 0 && (
+                        <div className="relative flex items-center bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 gap-2" title="Show only items with this kind of date, sorted by it">
+                            <CalendarDays className="w-3.5 h-3.5 text-slate-400" />
+                            <select
+                                value={dateKind}
+                                onChange={(e) => setDateKind(e.target.value as DateKind | 'any')}
+                                className="bg-transparent text-xs font-bold text-slate-200 focus:outline-none cursor-pointer appearance-none pr-4"
+                                style={{ backgroundImage: 'none' }}
+                            >
+                                <option value="any">Any Date</option>
+                                {dateKinds.map(kind => <option key={kind} value={kind}>{DATE_KIND_LABELS[kind]}</option>)}
+                            </select>
+                        </div>
+                    )}
+
+                    {/* Citation Export: whatever the current tab and filters show, Saved included */}
+                    <CitationExportMenu papers={filteredPapers} fileName={`bioinsight-${activeTab}-${new Date().toISOString().slice(0, 10)}`} />
+
+                    {/* Reference Import */}
+                    <button onClick={() => setIsImporterOpen(true)} className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-xs font-medium text-slate-300 hover:border-blue-500 hover:bg-slate-700 transition-all" title="Import a RIS, BibTeX, PubMed nbib or CSL-JSON library into Saved or a collection">
+                        <FileInput className="w-3.5 h-3.5 text-blue-400" /> Import
+                    </button>
+
+                    {/* Archive Packs */}
+                    {activeTab === 'archive' && (
+                        <button onClick={() => setIsPackManagerOpen(true)} className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-xs font-medium text-slate-300 hover:border-amber-400 hover:bg-slate-700 transition-all" title="Load, stack, compare, update and edit the packs the Archive is built from">
+                            <Package className="w-3.5 h-3.5 text-amber-400" /> Packs ({archivePacks.filter(p => p.enabled).length})
+                        </button>
+                    )}
+
+                    {/* Zotero Sync */}
+                    {activeTab === 'bookmarks' && (
+                        <button onClick={() => setIsZoteroOpen(true)} className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-xs font-medium text-slate-300 hover:border-red-400 hover:bg-slate-700 transition-all" title="Two-way sync of Saved with a Zotero collection">
+                            <FolderSync className="w-3.5 h-3.5 text-red-400" /> Zotero
+                        </button>
+                    )}
+
+                    {/* Open-Access Links */}
+                    {polishProgress ? (
+                        <button onClick={() => polishController.current?.abort()} className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-green-500/40 rounded-lg text-xs font-medium text-green-300" title="Stop resolving links">
+                            <Unlock className="w-3.5 h-3.5 animate-pulse" /> {polishProgress.done}/{polishProgress.total} · {polishProgress.resolved} free <X className="w-3 h-3" />
+                        </button>
+                    ) : currentPapers.some(p => !p.isPolished && !p.patent && !p.trial) && (
+                        <button onClick={handlePolishLinks} className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-xs font-medium text-slate-300 hover:border-green-500 hover:bg-slate-700 transition-all" title="Find open-access full text and PDFs for every item in this list">
+                            <Unlock className="w-3.5 h-3.5 text-green-400" /> Resolve OA Links
+                        </button>
+                    )}
+
                     {/* Refresh Button */}
                     {isStreamMode && (
                         <button 
-                            onClick={() => handleFetchStream(activeTab as any)}
+                            onClick={() => handleFetchStream(activeTab as StreamTab)}
                             disabled={isLoading || cooldown > 0}
                             className={`flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-xs font-medium transition-all ${isLoading || cooldown > 0 ? 'opacity-50 cursor-not-allowed' : 'hover:border-blue-500 hover:bg-slate-700 text-slate-300'}`}
                         >
@@ -344,11 +848,45 @@ const App: React.FC = () => {
                             {isLoading ? scanStatus : cooldown > 0 ? `Cooldown (${cooldown}s)` : 'Fetch Latest'}
                         </button>
                     )}
-                </div>
+                </div>}
              </div>
 
+             {/* Collections */}
+             {activeTab === 'bookmarks' && collections.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <button onClick={() => setActiveCollection(null)} className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs transition-all ${activeCollection === null ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-200' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}>
+                        <Bookmark className="w-3 h-3" /> Saved ({savedPapers.length})
+                    </button>
+                    {collections.map(c => (
+                        <span key={c.name} className={`flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full border text-xs transition-all ${activeCollection === c.name ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-200' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}>
+                            <button onClick={() => setActiveCollection(c.name)} className="flex items-center gap-1.5">
+                                <FolderOpen className="w-3 h-3" /> {c.name} ({c.papers.length})
+                            </button>
+                            <button onClick={() => handleDeleteCollection(c.name)} className="p-0.5 rounded-full hover:bg-slate-700 hover:text-red-400" title="Delete collection">
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+             )}
+
+             {/* Agent Progress */}
+             {isStreamMode && (
+                <AgentStatusPanel
+                    statuses={Object.values<AgentRunStatus>(agentStatuses).filter(s => s.feed === TAB_FEEDS[activeTab as StreamTab])}
+                    isRunning={isLoading}
+                    onCancel={handleCancelScan}
+                    onRetry={(ids) => handleFetchStream(activeTab as StreamTab, ids)}
+                />
+             )}
+
+             {activeTab === 'pipeline' && (
+                <PipelineTracker pipelines={pipelines} onManageAssets={() => setIsTopicManagerOpen(true)} />
+             )}
+             {activeTab === 'genes' && <GeneView genes={geneIndex} />}
+
              {/* Chart Area */}
-             {filteredPapers.length > 0 && (
+             {!isCrossFeedView && filteredPapers.length > 0 && (
                 <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 mb-6">
                     <div className="h-32 w-full">
                         <ResponsiveContainer width="100%" height="100%">
@@ -369,23 +907,25 @@ const App: React.FC = () => {
              )}
 
              {/* Content List */}
-             <div className="space-y-1">
+             {!isCrossFeedView && <div className="space-y-1">
                 {/* Empty State for Streams */}
                 {isStreamMode && currentPapers.length === 0 && !isLoading && (
                     <div className="text-center py-12 border-2 border-dashed border-slate-700 rounded-xl bg-slate-800/30">
                         {activeTab === 'ai' ? <BrainCircuit className="w-12 h-12 text-fuchsia-500 mx-auto mb-3" /> : 
                          activeTab === 'patents' ? <Scale className="w-12 h-12 text-amber-500 mx-auto mb-3" /> :
+                         activeTab === 'trials' ? <ClipboardList className="w-12 h-12 text-teal-500 mx-auto mb-3" /> :
                          <Radio className="w-12 h-12 text-blue-500 mx-auto mb-3" />}
                         <h3 className="text-lg font-bold text-slate-200">
-                            {activeTab === 'ai' ? 'AI/ML Clinical Nexus' : activeTab === 'patents' ? 'Patent Intelligence' : 'Live Feed'}
+                            {activeTab === 'ai' ? 'AI/ML Clinical Nexus' : activeTab === 'patents' ? 'Patent Intelligence' : activeTab === 'trials' ? 'Trial Registry' : 'Live Feed'}
                         </h3>
                         <p className="text-slate-400 mt-2 max-w-sm mx-auto mb-4">
                             {activeTab === 'ai' ? 'Scan for recent AI-driven clinical cohorts and imaging studies. (Wet-lab excluded)' :
                              activeTab === 'patents' ? 'Search for recent IP filings in CVD & Obesity.' :
+                             activeTab === 'trials' ? 'Pull recently updated studies from ClinicalTrials.gov.' :
                              'System ready to scan parallel channels.'}
                         </p>
                         <button 
-                            onClick={() => handleFetchStream(activeTab as any)}
+                            onClick={() => handleFetchStream(activeTab as StreamTab)}
                             className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-2 rounded-lg font-semibold shadow-lg"
                         >
                             Start Scan
@@ -410,15 +950,61 @@ const App: React.FC = () => {
                         onToggleBookmark={() => handleToggleBookmark(paper)}
                         userRating={userRatings[paper.id]}
                         onRate={(rating) => handleRatePaper(paper.id, rating)}
+                        linkedPapers={paper.trial ? papersByNctId.get(paper.trial.nctId) : undefined}
+                        isNew={isStreamMode && isNewSinceVisit(paper, activeTab as StreamTab)}
+                        onInspect={() => setAuditFocus(paper)}
+                        onUpdate={handleUpdatePaper}
                     />
                 ))}
-             </div>
+             </div>}
 
           </div>
         </div>
       </main>
 
       <AboutModal isOpen={isAboutOpen} onClose={() => setIsAboutOpen(false)} />
+      <TopicManager
+        isOpen={isTopicManagerOpen}
+        onClose={() => setIsTopicManagerOpen(false)}
+        topics={topicRegistry}
+        onChange={handleTopicRegistryChange}
+      />
+      <EntityDictionaryManager
+        isOpen={isEntityManagerOpen}
+        onClose={() => setIsEntityManagerOpen(false)}
+        dictionary={entityDictionary}
+        onChange={handleEntityDictionaryChange}
+      />
+      <SwarmSettings
+        isOpen={isSwarmSettingsOpen}
+        onClose={() => setIsSwarmSettingsOpen(false)}
+        config={swarmConfig}
+        onSave={config => setSwarmConfig(saveSwarmConfig(config))}
+      />
+      <CacheInspector isOpen={isCacheInspectorOpen} onClose={() => setIsCacheInspectorOpen(false)} />
+      <ReferenceImporter
+        isOpen={isImporterOpen}
+        onClose={() => setIsImporterOpen(false)}
+        listings={importListings}
+        collections={collections.map(c => c.name)}
+        onImport={handleImportReferences}
+      />
+      <ZoteroSync
+        isOpen={isZoteroOpen}
+        onClose={() => setIsZoteroOpen(false)}
+        savedPapers={savedPapers}
+        syncState={zoteroState}
+        canonicalId={id => identities.canonicalId(id)}
+        onSynced={handleZoteroSynced}
+      />
+      <ArchivePackManager
+        isOpen={isPackManagerOpen}
+        onClose={() => setIsPackManagerOpen(false)}
+        packs={archivePacks}
+        topics={topicRegistry.map(t => t.name)}
+        onChange={handleArchivePacksChange}
+      />
+      <AuditDrawer isOpen={auditFocus !== undefined} onClose={() => setAuditFocus(undefined)} focusPaper={auditFocus} />
     </div>
   );
 };
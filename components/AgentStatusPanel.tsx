@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, XCircle, Loader2, Clock, RotateCw, Ban, Square } from 'lucide-react';
+import { AgentRunState, AgentRunStatus } from '../types';
+
+interface AgentStatusPanelProps {
+  statuses: AgentRunStatus[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetry: (agentIds: string[]) => void;
+}
+
+const STATE_STYLES: Record<AgentRunState, { icon: React.ReactNode; label: string; className: string }> = {
+  queued: { icon: <Clock className="w-3.5 h-3.5" />, label: 'Queued', className: 'text-slate-500' },
+  running: { icon: <Loader2 className="w-3.5 h-3.5 animate-spin" />, label: 'Running', className: 'text-blue-400' },
+  retrying: { icon: <RotateCw className="w-3.5 h-3.5 animate-pulse" />, label: 'Backing off', className: 'text-amber-400' },
+  succeeded: { icon: <CheckCircle2 className="w-3.5 h-3.5" />, label: 'Done', className: 'text-emerald-400' },
+  failed: { icon: <XCircle className="w-3.5 h-3.5" />, label: 'Failed', className: 'text-red-400' },
+  cancelled: { icon: <Ban className="w-3.5 h-3.5" />, label: 'Cancelled', className: 'text-slate-500' }
+};
+
+// Re-renders once a second while any agent is backing off, so the countdown moves
+const useTicker = (active: boolean) => {
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+};
+
+const detail = (status: AgentRunStatus): string => {
+  switch (status.state) {
+    case 'succeeded': return `${status.itemCount ?? 0} item${status.itemCount === 1 ? '' : 's'}${status.attempt > 1 ? ` after ${status.attempt} attempts` : ''}`;
+    case 'retrying': {
+      const seconds = status.retryAt ? Math.max(0, Math.ceil((status.retryAt - Date.now()) / 1000)) : 0;
+      return `Attempt ${status.attempt} failed, retrying in ${seconds}s`;
+    }
+    case 'running': return status.attempt > 1 ? `Attempt ${status.attempt}` : '';
+    default: return '';
+  }
+};
+
+export const AgentStatusPanel: React.FC<AgentStatusPanelProps> = ({ statuses, isRunning, onCancel, onRetry }) => {
+  useTicker(statuses.some(s => s.state === 'retrying'));
+  if (statuses.length === 0) return null;
+
+  const failedIds = statuses.filter(s => s.state === 'failed' || s.state === 'cancelled').map(s => s.id);
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Agents</h3>
+        <div className="flex items-center gap-2">
+          {isRunning ? (
+            <button onClick={onCancel} className="flex items-center gap-1.5 px-2.5 py-1 rounded text-[11px] font-semibold text-red-300 border border-red-500/30 hover:bg-red-500/10 transition-colors">
+              <Square className="w-3 h-3" /> Cancel scan
+            </button>
+          ) : failedIds.length > 1 && (
+            <button onClick={() => onRetry(failedIds)} className="flex items-center gap-1.5 px-2.5 py-1 rounded text-[11px] font-semibold text-slate-300 border border-slate-600 hover:bg-slate-700 transition-colors">
+              <RotateCw className="w-3 h-3" /> Retry {failedIds.length} agents
+            </button>
+          )}
+        </div>
+      </div>
+      <ul className="space-y-1.5">
+        {statuses.map(status => {
+          const style = STATE_STYLES[status.state];
+          return (
+            <li key={status.id} className="flex items-center gap-3 text-xs">
+              <span className={`flex items-center gap-1.5 w-28 shrink-0 font-medium ${style.className}`}>{style.icon} {style.label}</span>
+              <span className="text-slate-200 font-medium shrink-0">{status.name}</span>
+              <span className="text-slate-500 truncate" title={status.error}>
+                {detail(status)}
+                {status.error && (status.state === 'failed' || status.state === 'retrying') && <span className="text-red-300/80"> · {status.error}</span>}
+              </span>
+              {!isRunning && (status.state === 'failed' || status.state === 'cancelled') && (
+                <button onClick={() => onRetry([status.id])} className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded text-[11px] text-slate-300 hover:bg-slate-700 transition-colors shrink-0">
+                  <RotateCw className="w-3 h-3" /> Retry
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,536 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, Download, Upload, Save, Package, PackagePlus, ChevronUp, ChevronDown, Pencil, GitCompare, RefreshCw, ArrowLeft } from 'lucide-react';
+import { ArchivePack, InstalledArchivePack, Methodology, PaperData, PublicationType, ResearchModality, StudyType, TopicId } from '../types';
+import {
+  ArchivePackDiff, ArchivePackIssue, BUNDLED_ARCHIVE_PACKS, PackInstallOutcome, VersionBump,
+  availableUpdates, bumpVersion, compareVersions, diffArchivePacks, exportArchivePack, fetchArchivePack, importArchivePack,
+  installArchivePack, installOutcome, moveArchivePack, publishArchivePack, removeArchivePack, setArchivePackEnabled, validateArchivePack
+} from '../services/archive';
+
+interface ArchivePackManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  packs: InstalledArchivePack[];
+  topics: TopicId[];
+  onChange: (packs: InstalledArchivePack[]) => void;
+}
+
+// A pack waiting for confirmation, shown with what it would change
+interface PendingPack {
+  pack: ArchivePack;
+  outcome: PackInstallOutcome;
+  source: string;
+}
+
+const OUTCOME_LABELS: Record<PackInstallOutcome, string> = { installed: 'Install', update: 'Update', downgrade: 'Downgrade', reinstall: 'Replace' };
+
+// List fields are edited one item per line, parsed on blur like the swarm settings
+const toLines = (list: string[] = []) => list.join('\n');
+const fromLines = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+
+const newEntry = (): PaperData => ({
+  id: `entry-${Date.now().toString(36)}`,
+  title: '',
+  journalOrConference: '',
+  date: new Date().toISOString().slice(0, 10),
+  authors: [],
+  topics: [],
+  publicationType: PublicationType.PeerReviewed,
+  studyType: StudyType.ClinicalTrial,
+  methodology: Methodology.Statistical,
+  modality: ResearchModality.ClinicalData,
+  abstractHighlight: '',
+  drugAndTarget: '',
+  context: '',
+  validationScore: 100
+});
+
+const PackDiffSummary = ({ diff }: { diff: ArchivePackDiff }) => (
+  <div className="text-xs space-y-1">
+    <p className="text-slate-400">
+      {diff.added.length} added · {diff.changed.length} changed · {diff.removed.length} removed · {diff.unchanged} unchanged
+    </p>
+    <ul className="max-h-40 overflow-y-auto space-y-0.5">
+      {diff.added.map(p => <li key={`a-${p.id}`} className="text-green-400 truncate">+ {p.title}</li>)}
+      {diff.changed.map(c => <li key={`c-${c.after.id}`} className="text-amber-300 truncate">~ {c.after.title} <span className="text-slate-500">({c.fields.join(', ')})</span></li>)}
+      {diff.removed.map(p => <li key={`r-${p.id}`} className="text-red-400 truncate">− {p.title}</li>)}
+    </ul>
+  </div>
+);
+
+// Installed packs (stack order, enable, update, compare, export) and an editor that publishes a new version
+export const ArchivePackManager: React.FC<ArchivePackManagerProps> = ({ isOpen, onClose, packs, topics, onChange }) => {
+  const [pending, setPending] = useState<PendingPack | null>(null);
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ArchivePackIssue[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Editor
+  const [draft, setDraft] = useState<ArchivePack | null>(null);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [entryFilter, setEntryFilter] = useState('');
+  const [bump, setBump] = useState<VersionBump>('patch');
+  const [changeNotes, setChangeNotes] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPending(null);
+    setCompare(null);
+    setDraft(null);
+    setIssues([]);
+    setNotice(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const installedIds = new Set(packs.map(p => p.pack.id));
+  const catalog = BUNDLED_ARCHIVE_PACKS.filter(pack => !installedIds.has(pack.id));
+  const updates = availableUpdates(packs, BUNDLED_ARCHIVE_PACKS);
+  const installedPack = (id: string) => packs.find(p => p.pack.id === id)?.pack;
+
+  const offer = (pack: ArchivePack, source: string) => {
+    setIssues([]);
+    setNotice(null);
+    setPending({ pack, outcome: installOutcome(packs, pack), source });
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    onChange(installArchivePack(packs, pending.pack));
+    setNotice(`${OUTCOME_LABELS[pending.outcome]}: ${pending.pack.name} v${pending.pack.version}`);
+    setPending(null);
+  };
+
+  const handleLoadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { pack, issues: found } = importArchivePack(await file.text());
+    if (pack) offer(pack, file.name);
+    else { setIssues(found); setPending(null); }
+  };
+
+  const handleCheckUpdate = async (installed: ArchivePack) => {
+    if (!installed.sourceUrl) return;
+    setCheckingId(installed.id);
+    setIssues([]);
+    setNotice(null);
+    try {
+      const { pack, issues: found } = await fetchArchivePack(installed.sourceUrl);
+      if (!pack) setIssues(found);
+      else if (pack.id !== installed.id) setIssues([{ path: 'id', reason: `${installed.sourceUrl} holds the pack "${pack.id}", not "${installed.id}"` }]);
+      else if (compareVersions(pack.version, installed.version) <= 0) setNotice(`${installed.name} is up to date (v${installed.version}).`);
+      else offer(pack, installed.sourceUrl);
+    } catch (e) {
+      setIssues([{ path: '', reason: `Could not fetch ${installed.sourceUrl}: ${(e as Error).message}` }]);
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const handleExport = (pack: ArchivePack) => {
+    const blob = new Blob([exportArchivePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${pack.id}-${pack.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemove = (pack: ArchivePack) => {
+    if (!window.confirm(`Remove the pack "${pack.name}"? Its papers leave the Archive unless another pack lists them.`)) return;
+    onChange(removeArchivePack(packs, pack.id));
+    if (compare && (compare.from === pack.id || compare.to === pack.id)) setCompare(null);
+  };
+
+  // --- EDITOR ---
+
+  const openEditor = (pack: ArchivePack) => {
+    setDraft(pack);
+    setSelectedId(pack.papers[0]?.id ?? '');
+    setEntryFilter('');
+    setBump('patch');
+    setChangeNotes('');
+    setIssues([]);
+    setNotice(null);
+    setPending(null);
+  };
+
+  // Unpublished until its first version, 1.0.0 by default
+  const handleNewPack = () => {
+    openEditor({
+      schemaVersion: 1,
+      id: `pack-${Date.now().toString(36)}`,
+      name: 'New pack',
+      version: '0.0.0',
+      updatedAt: new Date().toISOString().slice(0, 10),
+      changelog: [],
+      papers: []
+    });
+    setBump('major');
+  };
+
+  const entry = draft?.papers.find(p => p.id === selectedId);
+  const updateDraft = (patch: Partial<ArchivePack>) => setDraft(prev => prev && ({ ...prev, ...patch }));
+  const updateEntry = (patch: Partial<PaperData>) =>
+    setDraft(prev => prev && ({ ...prev, papers: prev.papers.map(p => p.id === selectedId ? { ...p, ...patch } : p) }));
+
+  const handleAddEntry = () => {
+    const created = newEntry();
+    setDraft(prev => prev && ({ ...prev, papers: [...prev.papers, created] }));
+    setSelectedId(created.id);
+    setEntryFilter('');
+  };
+
+  const handleDeleteEntry = () => {
+    if (!draft) return;
+    const remaining = draft.papers.filter(p => p.id !== selectedId);
+    updateDraft({ papers: remaining });
+    setSelectedId(remaining[0]?.id ?? '');
+  };
+
+  // A published edit is a new version; the changelog note is what curators read before updating
+  const handlePublish = () => {
+    if (!draft) return;
+    const notes = fromLines(changeNotes);
+    if (notes.length === 0) { setIssues([{ path: 'changelog', reason: 'Describe what changed in this version' }]); return; }
+    const { pack, issues: found } = validateArchivePack(publishArchivePack(draft, bump, notes));
+    setIssues(found);
+    if (!pack) return;
+    if (draft.changelog.length === 0 && installedIds.has(pack.id)) { setIssues([{ path: 'id', reason: `A pack with the id "${pack.id}" is already installed` }]); return; }
+    const before = installedPack(pack.id);
+    const diff = before ? diffArchivePacks(before, pack) : null;
+    onChange(installArchivePack(packs, pack));
+    setDraft(null);
+    setNotice(`Published ${pack.name} v${pack.version}${diff ? `: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed` : ''}.`);
+  };
+
+  const inputClass = "mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+  const labelClass = "text-xs font-semibold text-slate-400 uppercase tracking-wider";
+  const iconButton = "p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white transition-colors disabled:opacity-30";
+  const needle = entryFilter.trim().toLowerCase();
+  const listedEntries = draft ? draft.papers.filter(p => !needle || p.title.toLowerCase().includes(needle) || p.id.includes(needle)) : [];
+  const pendingBase = pending ? installedPack(pending.pack.id) : undefined;
+  const compareFrom = compare ? installedPack(compare.from) : undefined;
+  const compareTo = compare ? installedPack(compare.to) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              {draft && (
+                <button onClick={() => { setDraft(null); setIssues([]); }} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors" title="Back to packs without publishing">
+                  <ArrowLeft className="w-4 h-4" />
+                </button>
+              )}
+              <Package className="w-5 h-5 text-amber-400" /> {draft ? `Edit ${draft.name}` : 'Archive Packs'}
+            </h2>
+            <p className="text-[10px] font-mono text-slate-500 mt-1">
+              {draft ? `${draft.id} · v${draft.version} · ${draft.papers.length} entries` : `${packs.filter(p => p.enabled).length} of ${packs.length} packs stacked · later packs override earlier ones`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {!draft && (
+              <>
+                <button onClick={() => fileInput.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 rounded hover:bg-slate-700 text-slate-300 text-xs font-medium transition-colors" title="Load a pack JSON file">
+                  <Upload className="w-3.5 h-3.5" /> Load pack
+                </button>
+                <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleLoadFile} />
+                <button onClick={handleNewPack} className="flex items-center gap-1.5 px-3 py-1.5 rounded hover:bg-slate-700 text-slate-300 text-xs font-medium transition-colors">
+                  <Plus className="w-3.5 h-3.5" /> New pack
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {!draft ? (
+          <div className="p-6 space-y-5 max-h-[65vh] overflow-y-auto">
+            {/* Installed */}
+            <section className="space-y-2">
+              {packs.length === 0 && <p className="text-sm text-slate-500 italic">No packs installed. The Archive is empty.</p>}
+              {packs.map(({ pack, enabled }, i) => (
+                <div key={pack.id} className={`flex items-center gap-3 p-3 rounded-lg border border-slate-700 bg-slate-900/40 ${enabled ? '' : 'opacity-60'}`}>
+                  <input type="checkbox" checked={enabled} onChange={e => onChange(setArchivePackEnabled(packs, pack.id, e.target.checked))} className="accent-blue-500" title="Show in the Archive" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-200 truncate">{pack.name} <span className="text-[10px] font-mono text-slate-500">v{pack.version}</span></p>
+                    <p className="text-[11px] text-slate-500 truncate">{pack.papers.length} papers · updated {pack.updatedAt}{pack.description ? ` · ${pack.description}` : ''}</p>
+                    {pack.changelog[0] && <p className="text-[11px] text-slate-400 truncate">v{pack.changelog[0].version}: {pack.changelog[0].notes.join(' ')}</p>}
+                  </div>
+                  <button onClick={() => onChange(moveArchivePack(packs, pack.id, -1))} disabled={i === 0} className={iconButton} title="Move up (overridden by the packs below)"><ChevronUp className="w-4 h-4" /></button>
+                  <button onClick={() => onChange(moveArchivePack(packs, pack.id, 1))} disabled={i === packs.length - 1} className={iconButton} title="Move down (overrides the packs above)"><ChevronDown className="w-4 h-4" /></button>
+                  <button onClick={() => setCompare({ from: pack.id, to: packs.find(p => p.pack.id !== pack.id)?.pack.id ?? pack.id })} disabled={packs.length < 2} className={iconButton} title="Compare with another pack"><GitCompare className="w-4 h-4" /></button>
+                  {pack.sourceUrl && (
+                    <button onClick={() => handleCheckUpdate(pack)} disabled={checkingId !== null} className={iconButton} title={`Check ${pack.sourceUrl} for a newer version`}>
+                      <RefreshCw className={`w-4 h-4 ${checkingId === pack.id ? 'animate-spin' : ''}`} />
+                    </button>
+                  )}
+                  <button onClick={() => openEditor(pack)} className={iconButton} title="Edit entries and publish a new version"><Pencil className="w-4 h-4" /></button>
+                  <button onClick={() => handleExport(pack)} className={iconButton} title="Export pack JSON"><Download className="w-4 h-4" /></button>
+                  <button onClick={() => handleRemove(pack)} className="p-1.5 rounded hover:bg-red-900/40 text-red-400 transition-colors" title="Remove pack"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              ))}
+            </section>
+
+            {/* Bundled */}
+            {(catalog.length > 0 || updates.length > 0) && (
+              <section className="pt-4 border-t border-slate-700 space-y-2">
+                <span className={labelClass}>Bundled packs</span>
+                {[...updates, ...catalog].map(pack => (
+                  <div key={pack.id} className="flex items-center gap-3 text-xs">
+                    <span className="flex-1 min-w-0 truncate text-slate-300">{pack.name} <span className="font-mono text-slate-500">v{pack.version}</span> <span className="text-slate-500">· {pack.papers.length} papers{pack.description ? ` · ${pack.description}` : ''}</span></span>
+                    <button onClick={() => offer(pack, 'bundled with the app')} className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 font-medium transition-colors">
+                      <PackagePlus className="w-3.5 h-3.5" /> {installedIds.has(pack.id) ? `Update from v${installedPack(pack.id)?.version}` : 'Add'}
+                    </button>
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {/* Pending install */}
+            {pending && (
+              <section className="p-4 rounded-lg border border-blue-500/40 bg-blue-500/5 space-y-3">
+                <p className="text-sm text-slate-200">
+                  {OUTCOME_LABELS[pending.outcome]} <span className="font-medium">{pending.pack.name}</span> v{pending.pack.version}
+                  {pendingBase && ` (installed: v${pendingBase.version})`} <span className="text-xs text-slate-500">from {pending.source}</span>
+                </p>
+                <ul className="text-xs text-slate-400 space-y-0.5">
+                  {pending.pack.changelog
+                    .filter(c => !pendingBase || pending.outcome !== 'update' || compareVersions(c.version, pendingBase.version) > 0)
+                    .slice(0, 5)
+                    .map(c => <li key={c.version}><span className="font-mono text-slate-300">v{c.version}</span> {c.date}: {c.notes.join(' ')}</li>)}
+                </ul>
+                {pendingBase && <PackDiffSummary diff={diffArchivePacks(pendingBase, pending.pack)} />}
+                {pending.outcome === 'downgrade' && <p className="text-xs text-amber-300">This file is older than the installed version; applying it replaces the newer entries.</p>}
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setPending(null)} className="px-3 py-1.5 rounded hover:bg-slate-700 text-slate-400 text-xs font-medium transition-colors">Discard</button>
+                  <button onClick={handleApply} className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors">
+                    <PackagePlus className="w-3.5 h-3.5" /> {OUTCOME_LABELS[pending.outcome]}
+                  </button>
+                </div>
+              </section>
+            )}
+
+            {/* Compare */}
+            {compare && compareFrom && compareTo && (
+              <section className="p-4 rounded-lg border border-slate-700 space-y-3">
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <GitCompare className="w-3.5 h-3.5" />
+                  <select value={compare.from} onChange={e => setCompare({ ...compare, from: e.target.value })} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200">
+                    {packs.map(p => <option key={p.pack.id} value={p.pack.id}>{p.pack.name} v{p.pack.version}</option>)}
+                  </select>
+                  →
+                  <select value={compare.to} onChange={e => setCompare({ ...compare, to: e.target.value })} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200">
+                    {packs.map(p => <option key={p.pack.id} value={p.pack.id}>{p.pack.name} v{p.pack.version}</option>)}
+                  </select>
+                  <button onClick={() => setCompare(null)} className="ml-auto p-1 rounded-full hover:bg-slate-700"><X className="w-3.5 h-3.5" /></button>
+                </div>
+                <PackDiffSummary diff={diffArchivePacks(compareFrom, compareTo)} />
+              </section>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row max-h-[65vh]">
+            {/* Entry List */}
+            <div className="md:w-64 shrink-0 border-b md:border-b-0 md:border-r border-slate-700 p-3 space-y-1 overflow-y-auto">
+              <input value={entryFilter} onChange={e => setEntryFilter(e.target.value)} placeholder="Filter entries" className="w-full mb-2 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500" />
+              {listedEntries.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setSelectedId(p.id)}
+                  className={`w-full text-left px-3 py-2 rounded text-xs font-medium transition-colors ${selectedId === p.id ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`}
+                >
+                  <span className="line-clamp-2">{p.title || 'Untitled entry'}</span>
+                  <span className="block text-[10px] opacity-70 font-mono">{p.id} · {p.date.slice(0, 4)}</span>
+                </button>
+              ))}
+              <button onClick={handleAddEntry} className="w-full flex items-center gap-2 px-3 py-2 rounded text-xs font-medium hover:bg-slate-700 text-blue-300 transition-colors">
+                <Plus className="w-3 h-3" /> New entry
+              </button>
+            </div>
+
+            {/* Pack and Entry Editor */}
+            <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block">
+                  <span className={labelClass}>Pack name</span>
+                  <input value={draft.name} onChange={e => updateDraft({ name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="block">
+                  <span className={labelClass}>Pack id</span>
+                  <input value={draft.id} onChange={e => updateDraft({ id: e.target.value.trim() })} disabled={draft.changelog.length > 0} className={`${inputClass} font-mono disabled:opacity-60`} title="Fixed once published; a pack with the same id is an update" />
+                </label>
+                <label className="block">
+                  <span className={labelClass}>Description</span>
+                  <input value={draft.description || ''} onChange={e => updateDraft({ description: e.target.value || undefined })} className={inputClass} />
+                </label>
+                <label className="block">
+                  <span className={labelClass}>Update URL</span>
+                  <input value={draft.sourceUrl || ''} onChange={e => updateDraft({ sourceUrl: e.target.value.trim() || undefined })} placeholder="https://… (optional)" className={`${inputClass} font-mono text-xs`} />
+                </label>
+              </div>
+
+              {entry ? (
+                <React.Fragment key={entry.id}>
+                  <div className="pt-4 border-t border-slate-700 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <label className="block sm:col-span-3">
+                      <span className={labelClass}>Title</span>
+                      <input value={entry.title} onChange={e => updateEntry({ title: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block sm:col-span-2">
+                      <span className={labelClass}>Journal or conference</span>
+                      <input value={entry.journalOrConference} onChange={e => updateEntry({ journalOrConference: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Date</span>
+                      <input type="date" value={entry.date} onChange={e => updateEntry({ date: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block sm:col-span-2">
+                      <span className={labelClass}>URL</span>
+                      <input value={entry.url || ''} onChange={e => updateEntry({ url: e.target.value.trim() || undefined })} className={`${inputClass} font-mono text-xs`} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>DOI</span>
+                      <input value={entry.doi || ''} onChange={e => updateEntry({ doi: e.target.value.trim() || undefined })} className={`${inputClass} font-mono text-xs`} />
+                    </label>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <label className="block">
+                      <span className={labelClass}>Authors (one per line)</span>
+                      <textarea rows={4} defaultValue={toLines(entry.authors)} onBlur={e => updateEntry({ authors: fromLines(e.target.value) })} className={`${inputClass} text-xs`} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Keywords (one per line)</span>
+                      <textarea rows={4} defaultValue={toLines(entry.keywords)} onBlur={e => updateEntry({ keywords: fromLines(e.target.value) })} className={`${inputClass} text-xs`} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>NCT IDs (one per line)</span>
+                      <textarea rows={4} defaultValue={toLines(entry.nctIds)} onBlur={e => updateEntry({ nctIds: fromLines(e.target.value).map(id => id.toUpperCase()) })} className={`${inputClass} font-mono text-xs`} />
+                    </label>
+                  </div>
+                  <div>
+                    <span className={labelClass}>Topics</span>
+                    <div className="mt-1 flex flex-wrap gap-2">
+                      {Array.from(new Set([...topics, ...entry.topics])).map(t => (
+                        <label key={t} className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-700 text-xs text-slate-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={entry.topics.includes(t)}
+                            onChange={e => updateEntry({ topics: e.target.checked ? [...entry.topics, t] : entry.topics.filter(x => x !== t) })}
+                            className="accent-blue-500"
+                          />
+                          {t}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <label className="block">
+                      <span className={labelClass}>Publication</span>
+                      <select value={entry.publicationType} onChange={e => updateEntry({ publicationType: e.target.value as PublicationType })} className={inputClass}>
+                        {Object.values(PublicationType).map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Study type</span>
+                      <select value={entry.studyType} onChange={e => updateEntry({ studyType: e.target.value as StudyType })} className={inputClass}>
+                        {Object.values(StudyType).map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Methodology</span>
+                      <select value={entry.methodology} onChange={e => updateEntry({ methodology: e.target.value as Methodology })} className={inputClass}>
+                        {Object.values(Methodology).map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Modality</span>
+                      <select value={entry.modality} onChange={e => updateEntry({ modality: e.target.value as ResearchModality })} className={inputClass}>
+                        {Object.values(ResearchModality).map(v => <option key={v} value={v}>{v}</option>)}
+                      </select>
+                    </label>
+                  </div>
+                  <label className="block">
+                    <span className={labelClass}>Highlight</span>
+                    <textarea rows={2} value={entry.abstractHighlight} onChange={e => updateEntry({ abstractHighlight: e.target.value })} className={inputClass} />
+                  </label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className={labelClass}>Drug and target</span>
+                      <input value={entry.drugAndTarget} onChange={e => updateEntry({ drugAndTarget: e.target.value })} placeholder="Target: GLP-1, Drug: Semaglutide" className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Context</span>
+                      <input value={entry.context} onChange={e => updateEntry({ context: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Funding</span>
+                      <input value={entry.funding || ''} onChange={e => updateEntry({ funding: e.target.value || undefined })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>Affiliations (";"-separated)</span>
+                      <input
+                        defaultValue={(entry.affiliations || []).join('; ')}
+                        onBlur={e => updateEntry({ affiliations: e.target.value.split(';').map(s => s.trim()).filter(Boolean) })}
+                        className={inputClass}
+                      />
+                    </label>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input type="checkbox" checked={!!entry.authorsVerified} onChange={e => updateEntry({ authorsVerified: e.target.checked || undefined })} className="accent-blue-500" />
+                      Authors verified
+                    </label>
+                    <button onClick={handleDeleteEntry} className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded hover:bg-red-900/40 text-red-400 text-xs font-medium transition-colors">
+                      <Trash2 className="w-3.5 h-3.5" /> Delete entry
+                    </button>
+                  </div>
+                </React.Fragment>
+              ) : (
+                <p className="pt-4 border-t border-slate-700 text-sm text-slate-500 italic">No entries yet. Add one from the list.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 bg-slate-800/50 space-y-2">
+          {issues.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5 max-h-24 overflow-y-auto">
+              {issues.map((issue, i) => <li key={i}><span className="font-mono">{issue.path || 'file'}</span>: {issue.reason}</li>)}
+            </ul>
+          )}
+          {notice && <p className="text-xs text-teal-300">{notice}</p>}
+          {draft ? (
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <input value={changeNotes} onChange={e => setChangeNotes(e.target.value)} placeholder="What changed in this version" className="flex-1 min-w-[12rem] bg-slate-900 border border-slate-700 rounded px-3 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500" />
+              <select value={bump} onChange={e => setBump(e.target.value as VersionBump)} className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200" title="Patch: corrections · Minor: added entries · Major: removed or re-scoped">
+                <option value="patch">Patch</option>
+                <option value="minor">Minor</option>
+                <option value="major">Major</option>
+              </select>
+              <button onClick={handlePublish} className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors">
+                <Save className="w-3.5 h-3.5" /> Publish v{bumpVersion(draft.version, bump)}
+              </button>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <button onClick={onClose} className="px-3 py-1.5 rounded hover:bg-slate-700 text-slate-400 text-xs font-medium transition-colors">Close</button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { X, ScrollText, Download, Trash2, ChevronDown, ChevronRight, CheckCircle2, XCircle, Link2, AlertTriangle, FlaskConical, Loader2 } from 'lucide-react';
+import { PaperData } from '../types';
+import { AgentRunRecord, RejectionReason, getDefaultAuditLog } from '../services/auditLog';
+import { EvaluationReport, Verdict, evaluateGoldenSet, getDefaultGoldenSet } from '../services/evaluation';
+import { getDefaultRecorder } from '../services/llm';
+
+interface AuditDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  focusPaper?: PaperData | null; // Opened from a paper card: show how that item was verified
+}
+
+const REJECTION_LABELS: Record<RejectionReason, string> = {
+  'invalid-record': 'Invalid record',
+  'no-grounding': 'No search results',
+  'no-matching-chunk': 'No matching source',
+  'unparseable-date': 'Unreadable date',
+  'before-cutoff': 'Outside window',
+  'no-classification': 'Not classified'
+};
+
+const VERDICT_STYLES: Record<Verdict, string> = {
+  'true-positive': 'text-emerald-400',
+  'true-negative': 'text-slate-400',
+  'false-positive': 'text-red-400',
+  'false-negative': 'text-amber-400'
+};
+
+const formatTime = (iso: string) => iso ? new Date(iso).toLocaleTimeString() : '';
+
+const percent = (n: number) => `${(n * 100).toFixed(0)}%`;
+
+const downloadJson = (json: string, name: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Replays the golden set through the verification rules; makes no network calls
+const EvaluationPanel: React.FC<{ report: EvaluationReport }> = ({ report }) => (
+  <section className="bg-slate-900/60 border border-slate-700 rounded-xl p-4 space-y-3">
+    <div className="flex items-baseline justify-between">
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Verification Evaluation</div>
+      <button onClick={() => downloadJson(JSON.stringify(report, null, 2), 'bioinsight-evaluation')} className="text-xs text-slate-400 hover:text-white">
+        <Download className="w-3.5 h-3.5 inline mr-1" />Report
+      </button>
+    </div>
+    <div className="grid grid-cols-3 gap-2 text-center">
+      {([['Precision', report.precision], ['Recall', report.recall], ['F1', report.f1]] as const).map(([label, value]) => (
+        <div key={label} className="bg-slate-800 rounded-lg py-2">
+          <div className="text-lg font-bold text-white">{percent(value)}</div>
+          <div className="text-[10px] text-slate-500 uppercase">{label}</div>
+        </div>
+      ))}
+    </div>
+    <p className="text-xs text-slate-500">
+      {report.cases.length} cases · {report.truePositives} TP · {report.falsePositives} FP · {report.falseNegatives} FN · {report.trueNegatives} TN · {report.fieldMismatchCount} field mismatches
+    </p>
+    <ul className="space-y-2 text-xs">
+      {report.cases.map(result => (
+        <li key={result.caseId}>
+          <div className="text-slate-300">
+            <span className="font-mono">{result.caseId}</span>
+            <span className="text-slate-500"> · P {percent(result.precision)} · R {percent(result.recall)}</span>
+            {result.error && <span className="text-red-300"> · {result.error}</span>}
+          </div>
+          <ul className="pl-3 mt-1 space-y-0.5">
+            {result.items.map((item, i) => (
+              <li key={i}>
+                <span className={`${VERDICT_STYLES[item.verdict]} uppercase text-[10px] mr-1.5`}>{item.verdict}</span>
+                <span className="text-slate-300">{item.title}</span>
+                {!item.labelled && <span className="text-slate-500"> (unlabelled)</span>}
+                {item.rejection && <span className="text-slate-500"> · {REJECTION_LABELS[item.rejection]}</span>}
+                {item.note && <span className="block text-slate-500">{item.note}</span>}
+                {item.fieldMismatches.map(m => <span key={m} className="block text-red-300">{m}</span>)}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  </section>
+);
+
+const Verification: React.FC<{ paper: PaperData }> = ({ paper }) => {
+  const audit = getDefaultAuditLog();
+  const found = audit.findForPaper(paper);
+  return (
+    <section className="bg-slate-900/60 border border-slate-700 rounded-xl p-4 space-y-2">
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Verification</div>
+      <div className="text-sm font-semibold text-slate-100">{paper.title}</div>
+      {found ? (
+        <dl className="text-xs text-slate-300 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+          <dt className="text-slate-500">Agent</dt><dd>{found.run.agentName} · {formatTime(found.run.startedAt)}</dd>
+          <dt className="text-slate-500">Matched by</dt><dd>{found.item.matchedBy === 'exact-url' ? 'Exact URL match' : found.item.matchedBy === 'fuzzy-title' ? 'Title overlap with a search result' : 'Registry record'}</dd>
+          {found.item.chunk && (
+            <>
+              <dt className="text-slate-500">Source</dt>
+              <dd className="break-all">
+                <a href={found.item.chunk.uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{found.item.chunk.title || found.item.chunk.uri}</a>
+                {found.item.chunk.snippet && <p className="text-slate-500 mt-1">{found.item.chunk.snippet}</p>}
+              </dd>
+            </>
+          )}
+          {found.run.query && (<><dt className="text-slate-500">Query</dt><dd className="font-mono break-all">{found.run.query}</dd></>)}
+        </dl>
+      ) : (
+        <p className="text-xs text-slate-500">
+          No run recorded for this item in this session. It may come from the Archive, from a cached feed, or from an earlier session.
+        </p>
+      )}
+    </section>
+  );
+};
+
+const RunEntry: React.FC<{ run: AgentRunRecord }> = ({ run }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  return (
+    <li className="border border-slate-700 rounded-lg">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs hover:bg-slate-700/40 transition-colors">
+        {isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-slate-500" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-500" />}
+        <span className="font-semibold text-slate-200">{run.agentName}</span>
+        <span className="text-slate-500 uppercase text-[10px]">{run.feed} · {run.kind}</span>
+        <span className="ml-auto flex items-center gap-3 shrink-0">
+          {run.error && <AlertTriangle className="w-3.5 h-3.5 text-red-400" />}
+          <span className="text-emerald-400">{run.accepted.length} accepted</span>
+          <span className={run.rejected.length > 0 ? 'text-amber-400' : 'text-slate-500'}>{run.rejected.length} rejected</span>
+          <span className="text-slate-500 font-mono">{formatTime(run.startedAt)}</span>
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3 text-xs text-slate-300 border-t border-slate-700/50 pt-3">
+          {run.error && <p className="text-red-300">Failed: {run.error}</p>}
+          {run.query && <p><span className="text-slate-500">Query </span><span className="font-mono break-all">{run.query}</span></p>}
+          <p className="text-slate-500">{run.providerId} · {run.model}{run.cutoffDate ? ` · cutoff ${run.cutoffDate.split('T')[0]}` : ''}</p>
+
+          {run.accepted.length > 0 && (
+            <ul className="space-y-1">
+              {run.accepted.map(a => (
+                <li key={a.paperId} className="flex gap-2">
+                  <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400 shrink-0 mt-0.5" />
+                  <span>
+                    {a.title}
+                    {a.chunk && <span className="block text-slate-500 break-all"><Link2 className="w-3 h-3 inline mr-1" />{a.matchedBy}: {a.chunk.uri}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {run.rejected.length > 0 && (
+            <ul className="space-y-1">
+              {run.rejected.map((r, i) => (
+                <li key={i} className="flex gap-2">
+                  <XCircle className="w-3.5 h-3.5 text-amber-400 shrink-0 mt-0.5" />
+                  <span>
+                    {r.title} <span className="text-amber-300/80">· {REJECTION_LABELS[r.reason]}</span>
+                    {(r.detail || r.url) && <span className="block text-slate-500 break-all">{[r.detail, r.url].filter(Boolean).join(' · ')}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {run.validationIssues.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-slate-400">Validation issues ({run.validationIssues.length})</summary>
+              <ul className="mt-1 pl-4 list-disc text-slate-400">{run.validationIssues.map((v, i) => <li key={i}>{v}</li>)}</ul>
+            </details>
+          )}
+          {run.chunks.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-slate-400">Grounding chunks ({run.chunks.length})</summary>
+              <ul className="mt-1 pl-4 list-disc text-slate-400 break-all">{run.chunks.map((c, i) => <li key={i}>{c.title ? `${c.title} — ` : ''}{c.uri}</li>)}</ul>
+            </details>
+          )}
+          <details>
+            <summary className="cursor-pointer text-slate-400">Prompt</summary>
+            <pre className="mt-1 p-2 bg-slate-900 rounded text-[11px] whitespace-pre-wrap max-h-64 overflow-y-auto">{run.prompt.trim()}</pre>
+          </details>
+          <details>
+            <summary className="cursor-pointer text-slate-400">Raw model output</summary>
+            <pre className="mt-1 p-2 bg-slate-900 rounded text-[11px] whitespace-pre-wrap max-h-64 overflow-y-auto">{run.rawText || '(empty)'}</pre>
+          </details>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export const AuditDrawer: React.FC<AuditDrawerProps> = ({ isOpen, onClose, focusPaper }) => {
+  const audit = getDefaultAuditLog();
+  const runs = useSyncExternalStore(audit.subscribe, audit.list);
+  const recorder = getDefaultRecorder();
+  const [evaluation, setEvaluation] = useState<EvaluationReport | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleEvaluate = async () => {
+    setIsEvaluating(true);
+    try {
+      setEvaluation(await evaluateGoldenSet(getDefaultGoldenSet()));
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      {/* Drawer */}
+      <div className="relative bg-slate-800 border-l border-slate-700 w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="flex items-center gap-2 text-xl font-bold text-white">
+            <ScrollText className="w-5 h-5 text-blue-400" /> Agent Run Log
+            <span className="text-xs font-normal text-slate-500">{runs.length} runs this session</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <button onClick={handleEvaluate} disabled={isEvaluating} title="Score the verification rules against the labelled golden set" className="flex items-center gap-1.5 px-2.5 py-1 rounded text-xs text-slate-300 border border-slate-600 hover:bg-slate-700 disabled:opacity-40 transition-colors">
+              {isEvaluating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FlaskConical className="w-3.5 h-3.5" />} Evaluate
+            </button>
+            {recorder && (
+              <button onClick={() => downloadJson(recorder.export(), 'bioinsight-llm-recordings')} title="LLM responses captured this session (LLM_RECORD=true)" className="flex items-center gap-1.5 px-2.5 py-1 rounded text-xs text-slate-300 border border-slate-600 hover:bg-slate-700 transition-colors">
+                <Download className="w-3.5 h-3.5" /> Recordings
+              </button>
+            )}
+            <button onClick={() => downloadJson(audit.export(), 'bioinsight-agent-runs')} disabled={runs.length === 0} className="flex items-center gap-1.5 px-2.5 py-1 rounded text-xs text-slate-300 border border-slate-600 hover:bg-slate-700 disabled:opacity-40 transition-colors">
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            <button onClick={() => audit.clear()} disabled={runs.length === 0} className="flex items-center gap-1.5 px-2.5 py-1 rounded text-xs text-slate-400 hover:text-red-300 hover:bg-slate-700 disabled:opacity-40 transition-colors">
+              <Trash2 className="w-3.5 h-3.5" /> Clear
+            </button>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+          {focusPaper && <Verification paper={focusPaper} />}
+          {evaluation && <EvaluationPanel report={evaluation} />}
+          {runs.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-12">No agent runs yet. Runs are recorded when a feed is scanned (cache hits make no calls).</p>
+          ) : (
+            <ul className="space-y-2">
+              {runs.map(run => <RunEntry key={run.runId} run={run} />)}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
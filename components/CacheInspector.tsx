@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, HardDrive, Trash2, RefreshCw } from 'lucide-react';
+import { FeedType } from '../types';
+import { CacheEntryInfo, getDefaultPaperStore } from '../services/store';
+
+interface CacheInspectorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FEED_LABELS: Record<FeedType, string> = { live: 'Live Feed', ai: 'AI Feed', patent: 'Patents', trial: 'Trials' };
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+export const CacheInspector: React.FC<CacheInspectorProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+  const [paperCount, setPaperCount] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const store = getDefaultPaperStore();
+      const [list, count] = await Promise.all([store.listEntries(), store.countPapers()]);
+      setEntries(list);
+      setPaperCount(count);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || 'Paper store unavailable');
+    }
+  }, []);
+
+  useEffect(() => { if (isOpen) refresh(); }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const handleInvalidate = async (feed?: FeedType) => {
+    await getDefaultPaperStore().invalidate(feed);
+    await refresh();
+  };
+
+  const feeds = (Object.keys(FEED_LABELS) as FeedType[]).map(feed => {
+    const rows = entries.filter(e => e.feed === feed);
+    return { feed, rows, size: rows.reduce((sum, e) => sum + e.sizeBytes, 0) };
+  });
+  const totalSize = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-3xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-blue-400" /> Cache Inspector
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">{entries.length} feed entries · {paperCount} papers · {formatBytes(totalSize)}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={refresh} className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white transition-colors" title="Refresh">
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleInvalidate()} className="flex items-center gap-1.5 px-3 py-1.5 rounded hover:bg-red-900/40 text-red-400 text-xs font-medium transition-colors">
+              <Trash2 className="w-3.5 h-3.5" /> Clear all
+            </button>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[65vh] overflow-y-auto">
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {feeds.map(({ feed, rows, size }) => (
+            <section key={feed}>
+              <div className="flex items-center gap-2 mb-2">
+                <h3 className="text-sm font-bold text-slate-300">{FEED_LABELS[feed]}</h3>
+                <span className="text-[10px] text-slate-500">{rows.length} entries · {formatBytes(size)}</span>
+                <button
+                  onClick={() => handleInvalidate(feed)}
+                  disabled={rows.length === 0}
+                  className="ml-auto text-[10px] uppercase tracking-wider px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-red-300 hover:border-red-500/40 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                >
+                  Invalidate
+                </button>
+              </div>
+              {rows.length === 0 ? (
+                <p className="text-xs text-slate-600 italic">Nothing cached.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-[10px] uppercase tracking-wider text-slate-500">
+                      <th className="py-1 font-medium">Topics</th>
+                      <th className="py-1 font-medium text-right">Items</th>
+                      <th className="py-1 font-medium text-right">Size</th>
+                      <th className="py-1 font-medium text-right">Age</th>
+                      <th className="py-1 font-medium text-right">Expires</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.key} className="border-t border-slate-700/50 text-slate-400" title={row.key}>
+                        <td className="py-1.5 pr-2 text-slate-300">{row.topics.join(', ') || '—'}</td>
+                        <td className="py-1.5 text-right font-mono">{row.itemCount}</td>
+                        <td className="py-1.5 text-right font-mono">{formatBytes(row.sizeBytes)}</td>
+                        <td className="py-1.5 text-right font-mono">{formatDuration(row.ageMs)}</td>
+                        <td className={`py-1.5 text-right font-mono ${row.expiresInMs <= 0 ? 'text-red-400' : ''}`}>
+                          {row.expiresInMs <= 0 ? 'expired' : `in ${formatDuration(row.expiresInMs)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Quote } from 'lucide-react';
+import { PaperData } from '../types';
+import { CITATION_FORMATS, CitationFormat, exportCitations } from '../services/citations';
+
+interface CitationExportMenuProps {
+  papers: PaperData[];
+  fileName: string; // Without extension
+  compact?: boolean; // Icon-only trigger, for cards
+}
+
+const downloadCitations = (papers: PaperData[], format: CitationFormat, fileName: string) => {
+  const { extension, mimeType } = CITATION_FORMATS[format];
+  const blob = new Blob([exportCitations(papers, format)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${extension}`;
+  link.click();
+  // Some browsers start the download after click() returns; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const CitationExportMenu: React.FC<CitationExportMenuProps> = ({ papers, fileName, compact }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: CitationFormat) => {
+    downloadCitations(papers, format, fileName);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" onMouseLeave={() => setIsOpen(false)}>
+      {compact ? (
+        <button onClick={() => setIsOpen(!isOpen)} className="p-1 text-slate-500 hover:text-blue-400 transition-colors" title="Export citation">
+          <Quote className="w-3.5 h-3.5" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={papers.length === 0}
+          className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-xs font-medium text-slate-300 hover:border-blue-500 hover:bg-slate-700 transition-all disabled:opacity-50"
+          title="Export the items in this view as citations"
+        >
+          <Quote className="w-3.5 h-3.5 text-blue-400" /> Cite {papers.length}
+        </button>
+      )}
+      {isOpen && (
+        <div className={`absolute z-30 ${compact ? 'right-0 bottom-full' : 'right-0 top-full'} pt-1 pb-1`}>
+          <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1 min-w-[9rem]">
+            {(Object.keys(CITATION_FORMATS) as CitationFormat[]).map(format => (
+              <button key={format} onClick={() => handleExport(format)} className="w-full flex items-center justify-between gap-3 px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800 hover:text-white">
+                {CITATION_FORMATS[format].label}
+                <span className="font-mono text-[10px] text-slate-500">.{CITATION_FORMATS[format].extension}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, RotateCcw, Save, Pill } from 'lucide-react';
+import { DrugDefinition, EntityDictionary, TargetDefinition } from '../types';
+import { DEFAULT_DICTIONARY, removeDrug, removeTarget, upsertDrug, upsertTarget, validateDrug, validateTarget } from '../services/entities';
+import { parseTermList } from '../services/topicRegistry';
+
+interface EntityDictionaryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  dictionary: EntityDictionary;
+  onChange: (dictionary: EntityDictionary) => void;
+}
+
+type EntryKind = 'drug' | 'target';
+
+const NEW_ENTRY = '__new__';
+
+const inputClass = "mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+
+export const EntityDictionaryManager: React.FC<EntityDictionaryManagerProps> = ({ isOpen, onClose, dictionary, onChange }) => {
+  const [kind, setKind] = useState<EntryKind>('drug');
+  const [selected, setSelected] = useState<string>(dictionary.drugs[0]?.name ?? NEW_ENTRY);
+  const [name, setName] = useState('');
+  const [synonyms, setSynonyms] = useState('');
+  const [codes, setCodes] = useState('');
+  const [targets, setTargets] = useState('');
+  const [mechanism, setMechanism] = useState('');
+  const [indications, setIndications] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const currentDrug = kind === 'drug' ? dictionary.drugs.find(d => d.name === selected) : undefined;
+  const currentTarget = kind === 'target' ? dictionary.targets.find(t => t.symbol === selected) : undefined;
+
+  // Load the selected entry into the form
+  useEffect(() => {
+    setName(currentDrug?.name ?? currentTarget?.symbol ?? '');
+    setSynonyms((currentDrug ?? currentTarget)?.synonyms.join('\n') ?? '');
+    setCodes(currentDrug?.codes.join('\n') ?? '');
+    setTargets(currentDrug?.targets.join('\n') ?? '');
+    setMechanism(currentDrug?.mechanism ?? '');
+    setIndications(currentDrug?.indications?.join('\n') ?? '');
+    setError(null);
+  }, [kind, selected, dictionary]);
+
+  if (!isOpen) return null;
+
+  const switchKind = (next: EntryKind) => {
+    setKind(next);
+    setSelected((next === 'drug' ? dictionary.drugs[0]?.name : dictionary.targets[0]?.symbol) ?? NEW_ENTRY);
+  };
+
+  const handleSave = () => {
+    if (kind === 'drug') {
+      const draft: DrugDefinition = {
+        ...currentDrug,
+        name: name.trim(),
+        synonyms: parseTermList(synonyms),
+        codes: parseTermList(codes),
+        targets: parseTermList(targets).map(t => t.toUpperCase()),
+        mechanism: mechanism.trim(),
+        indications: parseTermList(indications)
+      };
+      const problem = validateDrug(draft, dictionary, currentDrug?.name);
+      if (problem) { setError(problem.message); return; }
+      onChange(upsertDrug(dictionary, draft, currentDrug?.name));
+      setSelected(draft.name);
+    } else {
+      const draft: TargetDefinition = { ...currentTarget, symbol: name.trim().toUpperCase(), synonyms: parseTermList(synonyms) };
+      const problem = validateTarget(draft, dictionary, currentTarget?.symbol);
+      if (problem) { setError(problem.message); return; }
+      onChange(upsertTarget(dictionary, draft, currentTarget?.symbol));
+      setSelected(draft.symbol);
+    }
+  };
+
+  const handleDelete = () => {
+    if (currentDrug) onChange(removeDrug(dictionary, currentDrug.name));
+    if (currentTarget) onChange(removeTarget(dictionary, currentTarget.symbol));
+    setSelected(NEW_ENTRY);
+  };
+
+  const entries = kind === 'drug'
+    ? dictionary.drugs.map(d => ({ key: d.name, label: d.name, detail: d.mechanism || d.targets.join(', ') }))
+    : dictionary.targets.map(t => ({ key: t.symbol, label: t.symbol, detail: t.synonyms.slice(0, 2).join(', ') }));
+  const isExisting = !!(currentDrug || currentTarget);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-3xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Pill className="w-5 h-5 text-teal-400" /> Drug & Target Dictionary
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row max-h-[70vh]">
+          {/* Entry List */}
+          <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-slate-700 p-3 space-y-1 overflow-y-auto">
+            <div className="flex bg-slate-900 rounded p-0.5 mb-2">
+              {(['drug', 'target'] as const).map(k => (
+                <button key={k} onClick={() => switchKind(k)} className={`flex-1 px-2 py-1 rounded text-xs font-bold transition-colors ${kind === k ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}>
+                  {k === 'drug' ? `Drugs (${dictionary.drugs.length})` : `Targets (${dictionary.targets.length})`}
+                </button>
+              ))}
+            </div>
+            {entries.map(e => (
+              <button
+                key={e.key}
+                onClick={() => setSelected(e.key)}
+                className={`w-full text-left px-3 py-2 rounded text-xs font-medium transition-colors ${selected === e.key ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`}
+              >
+                {e.label}
+                {e.detail && <span className="block text-[10px] opacity-70 truncate">{e.detail}</span>}
+              </button>
+            ))}
+            <button
+              onClick={() => setSelected(NEW_ENTRY)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded text-xs font-medium transition-colors ${selected === NEW_ENTRY ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-blue-300'}`}
+            >
+              <Plus className="w-3 h-3" /> New {kind}
+            </button>
+            <button
+              onClick={() => { onChange(DEFAULT_DICTIONARY); switchKind(kind); }}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded text-xs text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> Restore defaults
+            </button>
+          </div>
+
+          {/* Entry Editor */}
+          <div className="flex-1 p-6 overflow-y-auto">
+            <section className="space-y-3">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{kind === 'drug' ? 'Name (INN)' : 'HGNC Symbol'}</span>
+                <input value={name} onChange={e => setName(e.target.value)} placeholder={kind === 'drug' ? 'e.g. Survodutide' : 'e.g. GLP1R'} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Synonyms</span>
+                <textarea
+                  value={synonyms}
+                  onChange={e => setSynonyms(e.target.value)}
+                  rows={3}
+                  placeholder={kind === 'drug' ? 'Brand names and spellings, one per line' : 'Protein and receptor names, one per line'}
+                  className={inputClass}
+                />
+              </label>
+              {kind === 'drug' && (
+                <>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Development Codes</span>
+                    <textarea value={codes} onChange={e => setCodes(e.target.value)} rows={2} placeholder="e.g. LY3437943. Spaces and hyphens are ignored when matching." className={`${inputClass} font-mono`} />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Targets</span>
+                    <textarea value={targets} onChange={e => setTargets(e.target.value)} rows={2} placeholder="Gene symbols from the Targets list, one per line" className={`${inputClass} font-mono`} />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Mechanism Class</span>
+                    <input value={mechanism} onChange={e => setMechanism(e.target.value)} placeholder="e.g. GLP-1 receptor agonist" className={inputClass} />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Indications</span>
+                    <textarea value={indications} onChange={e => setIndications(e.target.value)} rows={2} placeholder="e.g. Obesity. Left empty, the pipeline view uses the conditions of the asset's trials." className={inputClass} />
+                  </label>
+                </>
+              )}
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <div className="flex items-center gap-2">
+                <button onClick={handleSave} className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors">
+                  <Save className="w-3.5 h-3.5" /> {isExisting ? 'Save changes' : `Add ${kind}`}
+                </button>
+                {isExisting && (
+                  <button onClick={handleDelete} className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-red-900/40 text-red-400 text-xs font-medium transition-colors">
+                    <Trash2 className="w-3.5 h-3.5" /> Delete
+                  </button>
+                )}
+              </div>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
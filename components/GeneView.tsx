@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Dna, ExternalLink, Search } from 'lucide-react';
+import { GeneSummary } from '../services/entities';
+import { FEED_ORDER, FeedBadge } from './PipelineTracker';
+
+interface GeneViewProps {
+  genes: GeneSummary[];
+}
+
+// Genes on the left, most-cited first; every item naming the selected gene on the right, across feeds
+export const GeneView: React.FC<GeneViewProps> = ({ genes }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const listed = genes.filter(g => !query || g.symbol.includes(query.toUpperCase()) || g.name?.toLowerCase().includes(query.toLowerCase()));
+  const gene = genes.find(g => g.symbol === selected) ?? listed[0];
+
+  if (genes.length === 0) {
+    return (
+      <div className="text-center py-12 border border-slate-700 rounded-xl bg-slate-800/50">
+        <Dna className="w-10 h-10 text-indigo-400 mx-auto mb-3" />
+        <h4 className="text-slate-300 font-bold">No gene mentions yet</h4>
+        <p className="text-slate-500 text-sm mt-2 max-w-sm mx-auto">Genes are read from genetics, single-cell and transcriptomics items and from anything citing an rsID.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      {/* Gene List */}
+      <div className="md:w-60 shrink-0 bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-1 max-h-[70vh] overflow-y-auto">
+        <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 mb-2">
+          <Search className="w-3.5 h-3.5 text-slate-500" />
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Filter genes" className="bg-transparent text-xs text-slate-200 focus:outline-none w-full" />
+        </div>
+        {listed.map(g => (
+          <button
+            key={g.symbol}
+            onClick={() => setSelected(g.symbol)}
+            className={`w-full flex items-center justify-between px-3 py-2 rounded text-xs transition-colors ${gene?.symbol === g.symbol ? 'bg-indigo-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`}
+          >
+            <span className="font-mono font-bold">{g.symbol}</span>
+            <span className="opacity-70">{g.items.length}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Gene Detail */}
+      {gene && (
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="bg-slate-800 border border-slate-700 rounded-xl p-5">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h2 className="text-xl font-bold text-white font-mono">{gene.symbol}</h2>
+                {gene.name && <p className="text-sm text-slate-400">{gene.name}</p>}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {FEED_ORDER.filter(f => gene.feedCounts[f] > 0).map(f => <FeedBadge key={f} feed={f} count={gene.feedCounts[f]} />)}
+              </div>
+            </div>
+            {gene.variants.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {gene.variants.map(v => (
+                  <a
+                    key={v.rsId}
+                    href={`https://www.ncbi.nlm.nih.gov/snp/${v.rsId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-1.5 py-0.5 rounded border border-indigo-500/30 bg-indigo-500/10 text-indigo-300 text-[10px] font-mono hover:border-indigo-400"
+                  >
+                    {v.rsId}{v.label && ` · ${v.label}`}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-slate-800 border border-slate-700 rounded-xl divide-y divide-slate-700/50">
+            {gene.items.map(({ paper, feeds }) => (
+              <div key={paper.id} className="p-4">
+                <div className="flex flex-wrap items-center gap-1.5 mb-1">
+                  <span className="font-mono text-[10px] text-slate-400">{paper.date}</span>
+                  {feeds.map(f => <FeedBadge key={f} feed={f} />)}
+                  <span className="text-[10px] text-slate-500">{paper.modality}</span>
+                </div>
+                <p className="text-sm text-slate-200 leading-snug">
+                  {paper.title}
+                  {paper.url && (
+                    <a href={paper.url} target="_blank" rel="noopener noreferrer" className="inline-flex ml-1.5 text-slate-500 hover:text-blue-400 align-middle">
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">{paper.journalOrConference}</p>
+                {paper.entities?.variants?.some(v => v.gene === gene.symbol) && (
+                  <p className="text-[10px] text-indigo-300 font-mono mt-1">
+                    {paper.entities.variants.filter(v => v.gene === gene.symbol).map(v => v.rsId).join(' · ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,15 @@
 import React from 'react';
-import { Zap, Activity, Info } from 'lucide-react';
+import { Zap, Activity, Info, Network, HardDrive, ScrollText } from 'lucide-react';
 import { APP_NAME } from '../constants';
 
 interface HeaderProps {
   onOpenAbout: () => void;
+  onOpenSwarms: () => void;
+  onOpenCache: () => void;
+  onOpenAudit: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onOpenAbout }) => {
+export const Header: React.FC<HeaderProps> = ({ onOpenAbout, onOpenSwarms, onOpenCache, onOpenAudit }) => {
   return (
     <header className="bg-slate-900 border-b border-slate-700 sticky top-0 z-50 backdrop-blur-md bg-opacity-90">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -28,6 +31,30 @@ export const Header: React.FC<HeaderProps> = ({ onOpenAbout }) => {
              <span className="text-xs text-slate-300 font-medium">System Operational</span>
            </div>
            
+           <button 
+             onClick={onOpenAudit}
+             className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
+             title="Agent run log"
+           >
+             <ScrollText className="w-5 h-5" />
+           </button>
+
+           <button 
+             onClick={onOpenCache}
+             className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
+             title="Cache inspector"
+           >
+             <HardDrive className="w-5 h-5" />
+           </button>
+
+           <button 
+             onClick={onOpenSwarms}
+             className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
+             title="Swarm configuration"
+           >
+             <Network className="w-5 h-5" />
+           </button>
+
            <button 
              onClick={onOpenAbout}
              className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors"
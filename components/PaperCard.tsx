@@ -1,7 +1,117 @@
 import React, { useState } from 'react';
-import { PaperData, PublicationType, Methodology, ResearchModality, DiseaseTopic } from '../types';
-import { FileText, CheckCircle2, FlaskConical, BrainCircuit, Layers, ShieldCheck, ShieldAlert, ExternalLink, ChevronDown, ChevronUp, Building2, Wallet, Tags, Dna, Link2, Check, Radio, Sparkles, Bookmark, ThumbsUp, ThumbsDown, Biohazard, Newspaper, Microscope, BookOpen, Scale, Search, FileSearch } from 'lucide-react';
+import { OaStatus, OpenAccessInfo, PaperData, PublicationType, Methodology, ResearchModality, DiseaseTopic, TopicId } from '../types';
+import { FileText, CheckCircle2, FlaskConical, BrainCircuit, Layers, ShieldCheck, ShieldAlert, ExternalLink, ChevronDown, ChevronUp, Building2, Wallet, Tags, Dna, Link2, Check, Radio, Sparkles, Bookmark, ThumbsUp, ThumbsDown, Biohazard, Newspaper, Microscope, BookOpen, Scale, Search, FileSearch, ClipboardList, Users, CalendarClock, Bug, CalendarX2, Pill, Lock, Unlock, StickyNote, X } from 'lucide-react';
 import { runLinkPolisher } from '../services/geminiService';
+import { formatPublicationNumber } from '../services/patents';
+import { UNCLASSIFIED_LABEL } from '../services/topics';
+import { DATE_KIND_LABELS, allDates, describeDate, primaryDate } from '../services/paperDates';
+import { CitationExportMenu } from './CitationExportMenu';
+import { baseCitationKey } from '../services/citations';
+
+// Low-confidence dates are marked "~" in amber: a bare year or similar, not a date anyone printed.
+// The tooltip lists every known date with its kind and source.
+const PaperDateLabel: React.FC<{ paper: PaperData }> = ({ paper }) => {
+  const primary = primaryDate(paper);
+  const tooltip = allDates(paper).map(d => `${d.date}: ${describeDate(d)}`).join('\n') || 'Date provenance not recorded';
+  const others = paper.otherDates || [];
+  if (primary?.confidence === 'low') {
+    return (
+      <span className="flex items-center gap-1 text-amber-400" title={tooltip}>
+        <CalendarX2 className="w-3 h-3" /> ~{primary.precision === 'year' ? primary.date.slice(0, 4) : primary.date}
+      </span>
+    );
+  }
+  return (
+    <span className={primary?.confidence === 'medium' ? 'border-b border-dotted border-slate-500' : ''} title={tooltip}>
+      {paper.date}
+      {others.map(d => <span key={d.kind} className="text-slate-500"> · {DATE_KIND_LABELS[d.kind]} {d.date}</span>)}
+    </span>
+  );
+};
+
+const OA_STYLES: Record<OaStatus, string> = {
+  gold: 'text-yellow-300 border-yellow-500/30 bg-yellow-500/10',
+  hybrid: 'text-orange-300 border-orange-500/30 bg-orange-500/10',
+  bronze: 'text-amber-600 border-amber-700/40 bg-amber-700/10',
+  green: 'text-green-300 border-green-500/30 bg-green-500/10',
+  closed: 'text-slate-500 border-slate-600 bg-slate-800',
+  unknown: 'text-slate-400 border-slate-600 bg-slate-800'
+};
+
+// OA class and license, then direct PDF / full-text links when a free copy was found
+const OpenAccessLinks: React.FC<{ info: OpenAccessInfo }> = ({ info }) => (
+  <span className="flex items-center gap-1.5 text-[10px]">
+    <span
+      className={`flex items-center gap-1 px-1.5 py-0.5 rounded border font-bold uppercase ${OA_STYLES[info.status]}`}
+      title={`${info.status === 'unknown' ? 'Found by web search; license unknown' : `Open access: ${info.status}`}${info.hostType ? ` (${info.hostType} copy)` : ''} · via ${info.source} · ${info.resolvedAt.split('T')[0]}`}
+    >
+      {info.status === 'closed' ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+      {info.status === 'unknown' ? 'Full text' : info.status === 'closed' ? 'Closed' : `OA ${info.status}`}
+      {info.license && <span className="font-mono normal-case opacity-80">{info.license}</span>}
+    </span>
+    {info.pdfUrl && <a href={info.pdfUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline decoration-blue-400/30">PDF</a>}
+    {info.fullTextUrl && <a href={info.fullTextUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline decoration-blue-400/30">Full text</a>}
+  </span>
+);
+
+// Tags and notes on a saved item; both sync with the Zotero collection (see services/zotero)
+const SavedAnnotations: React.FC<{ paper: PaperData; onUpdate: (paper: PaperData) => void }> = ({ paper, onUpdate }) => {
+  const [tag, setTag] = useState('');
+  const [note, setNote] = useState('');
+  const tags = paper.keywords || [];
+  const notes = paper.notes || [];
+
+  const addTag = () => {
+    const value = tag.trim();
+    if (value && !tags.includes(value)) onUpdate({ ...paper, keywords: [...tags, value] });
+    setTag('');
+  };
+  const addNote = () => {
+    if (note.trim()) onUpdate({ ...paper, notes: [...notes, note.trim()] });
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-2 md:col-span-2">
+      <div className="flex items-center gap-2 text-slate-400 text-xs font-semibold uppercase">
+        <StickyNote className="w-3.5 h-3.5" /> Tags & Notes
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5 pl-5">
+        {tags.map(t => (
+          <span key={t} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full border border-slate-600 bg-slate-900/50 text-[11px] text-slate-300">
+            {t}
+            <button onClick={() => onUpdate({ ...paper, keywords: tags.filter(k => k !== t) })} className="hover:text-red-400" title="Remove tag"><X className="w-3 h-3" /></button>
+          </span>
+        ))}
+        <input
+          value={tag}
+          onChange={e => setTag(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') addTag(); }}
+          placeholder="Add tag"
+          className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-[11px] text-slate-200 focus:outline-none focus:border-blue-500"
+        />
+      </div>
+      <ul className="space-y-1 pl-5">
+        {notes.map((n, i) => (
+          <li key={i} className="flex items-start gap-2 text-xs text-slate-300 bg-slate-900/40 border border-slate-700/50 rounded px-2 py-1.5">
+            <span className="flex-1 whitespace-pre-wrap">{n}</span>
+            <button onClick={() => onUpdate({ ...paper, notes: notes.filter((_, j) => j !== i) })} className="text-slate-500 hover:text-red-400" title="Delete note"><X className="w-3 h-3" /></button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-start gap-2 pl-5">
+        <textarea
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          rows={2}
+          placeholder="Add a note"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+        />
+        <button onClick={addNote} disabled={!note.trim()} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 disabled:opacity-50">Add</button>
+      </div>
+    </div>
+  );
+};
 
 interface PaperCardProps {
   paper: PaperData;
@@ -9,20 +119,26 @@ interface PaperCardProps {
   onToggleBookmark: () => void;
   userRating?: 'up' | 'down';
   onRate: (rating: 'up' | 'down') => void;
+  linkedPapers?: PaperData[]; // Items from other feeds citing this trial's NCT number
+  isNew?: boolean; // Arrived since the user last visited this feed
+  onInspect?: () => void; // Opens the agent run log at the run that produced this item
+  onUpdate?: (paper: PaperData) => void; // Persists a changed copy, e.g. after link polishing
 }
 
-export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onToggleBookmark, userRating, onRate }) => {
+export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onToggleBookmark, userRating, onRate, linkedPapers, isNew, onInspect, onUpdate }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [copied, setCopied] = useState(false);
   
   // Link Polishing State
   const [isPolishing, setIsPolishing] = useState(false);
-  const [currentUrl, setCurrentUrl] = useState(paper.url);
-  const [linkPolished, setLinkPolished] = useState(paper.isPolished || false);
+  const currentUrl = paper.url;
+  const openAccess = paper.openAccess;
   
   const isPreprint = paper.publicationType === PublicationType.Preprint;
   const isNews = paper.publicationType === PublicationType.News;
   const isPatent = paper.publicationType === PublicationType.Patent;
+  const trial = paper.trial;
+  const patent = paper.patent;
   const isLive = paper.isLive;
   
   const getValidationColor = (score: number) => {
@@ -45,19 +161,18 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
   };
 
   // Helper to visually distinguish specific MASH subtypes based on title
-  const getDisplayTopic = () => {
-      if (paper.topic === DiseaseTopic.MASH) {
+  const getDisplayTopic = (topic: TopicId) => {
+      if (topic === DiseaseTopic.MASH) {
           const t = paper.title.toUpperCase();
           if (t.includes('NASH') || t.includes('NONALCOHOLIC')) return 'NASH';
           if (t.includes('MASLD')) return 'MASLD';
           if (t.includes('MASH') || t.includes('METABOLIC')) return 'MASH';
           return 'MASH / NASH';
       }
-      return paper.topic;
+      return topic;
   };
 
   const { icon: ModalityIcon, colorClass: modalityClass, iconColor: modalityIconColor } = getModalityConfig(paper.modality);
-  const displayTopic = getDisplayTopic();
 
   const handleCopyLink = async () => {
     if (currentUrl) {
@@ -73,11 +188,8 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
 
   const handleImproveLink = async () => {
       setIsPolishing(true);
-      const betterUrl = await runLinkPolisher(paper);
-      if (betterUrl) {
-          setCurrentUrl(betterUrl);
-          setLinkPolished(true);
-      }
+      const polished = await runLinkPolisher(paper);
+      if (polished) onUpdate?.(polished);
       setIsPolishing(false);
   };
 
@@ -86,6 +198,7 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
       if (isPreprint) return 'text-amber-400 border-amber-400/30 bg-amber-400/10';
       if (isNews) return 'text-orange-400 border-orange-400/30 bg-orange-400/10';
       if (isPatent) return 'text-amber-300 border-amber-500/30 bg-amber-500/10'; // Gold/Amber for Patents
+      if (trial) return 'text-teal-300 border-teal-500/30 bg-teal-500/10';
       if (paper.methodology === Methodology.AIML) return 'text-fuchsia-400 border-fuchsia-400/30 bg-fuchsia-400/10'; // Special for AI
       return 'text-cyan-400 border-cyan-400/30 bg-cyan-400/10';
   };
@@ -96,6 +209,7 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
   if (userRating === 'up') containerClasses += ` border-l-green-500 border-slate-700 shadow-green-900/10`;
   else if (userRating === 'down') containerClasses += ` border-l-slate-600 border-slate-700 opacity-60 hover:opacity-100 grayscale-[0.5] hover:grayscale-0`;
   else if (isPatent) containerClasses += ` border-l-amber-500 border-slate-700`;
+  else if (trial) containerClasses += ` border-l-teal-500 border-slate-700`;
   else if (paper.methodology === Methodology.AIML) containerClasses += ` border-l-fuchsia-500 border-slate-700`;
   else if (isLive) containerClasses += ` border-l-blue-500 border-slate-700 shadow-blue-900/10`;
   else containerClasses += ` border-l-slate-600 border-slate-700`;
@@ -117,16 +231,44 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
         <div className="flex-1 space-y-3 w-full min-w-0">
             {/* Header Row: Type & Tags */}
             <div className="flex flex-wrap items-center gap-2 mb-1 pr-20">
+                {isNew && (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border text-emerald-300 border-emerald-500/40 bg-emerald-500/15" title="New since your last visit to this feed">
+                        New
+                    </span>
+                )}
                 <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border flex items-center gap-1 ${getTypeStyles()}`}>
-                    {isPatent ? <Scale className="w-3 h-3"/> : isNews ? <Newspaper className="w-3 h-3" /> : paper.methodology === Methodology.AIML ? <BrainCircuit className="w-3 h-3" /> : <FileText className="w-3 h-3" />}
+                    {isPatent ? <Scale className="w-3 h-3"/> : trial ? <ClipboardList className="w-3 h-3" /> : isNews ? <Newspaper className="w-3 h-3" /> : paper.methodology === Methodology.AIML ? <BrainCircuit className="w-3 h-3" /> : <FileText className="w-3 h-3" />}
                     {paper.publicationType}
                 </span>
-                <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border text-slate-300 border-slate-600 bg-slate-700/50">
-                    {displayTopic}
-                </span>
+                {paper.topics.length === 0 ? (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border border-dashed text-slate-500 border-slate-600" title="No disease topic could be assigned">
+                        {UNCLASSIFIED_LABEL}
+                    </span>
+                ) : paper.topics.map(topic => {
+                    const confidence = paper.topicConfidence?.[topic];
+                    return (
+                        <span
+                            key={topic}
+                            className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border text-slate-300 border-slate-600 bg-slate-700/50 ${confidence !== undefined && confidence < 0.5 ? 'opacity-60' : ''}`}
+                            title={confidence !== undefined ? `Topic confidence ${Math.round(confidence * 100)}%` : undefined}
+                        >
+                            {getDisplayTopic(topic)}
+                        </span>
+                    );
+                })}
                 <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border text-purple-300 border-purple-500/30 bg-purple-500/10">
                     {paper.studyType}
                 </span>
+                {paper.doiStatus === 'resolved' && (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border flex items-center gap-1 text-green-300 border-green-500/30 bg-green-500/10" title="DOI resolved on Crossref; metadata taken from the registry">
+                        <ShieldCheck className="w-3 h-3" /> DOI Verified
+                    </span>
+                )}
+                {(paper.doiStatus === 'not-found' || paper.doiStatus === 'title-mismatch') && (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded border flex items-center gap-1 text-red-300 border-red-500/30 bg-red-500/10" title={paper.doiStatus === 'not-found' ? `DOI ${paper.doi} does not resolve on Crossref` : `DOI ${paper.doi} belongs to a different title on Crossref`}>
+                        <ShieldAlert className="w-3 h-3" /> {paper.doiStatus === 'not-found' ? 'DOI Unresolved' : 'DOI Mismatch'}
+                    </span>
+                )}
             </div>
 
             {/* Title */}
@@ -147,16 +289,46 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
                     {paper.journalOrConference}
                 </span>
                 <span className="text-slate-600">|</span>
-                <span>{paper.date}</span>
+                <PaperDateLabel paper={paper} />
                 <span className="text-slate-600">|</span>
                 <div className="flex items-center gap-1.5" title="Authors/Assignee">
                     {/* If Patent, authors array holds Assignee */}
                     <span className="italic truncate max-w-[150px] sm:max-w-[250px]">
-                        {isPatent ? `Assignee: ${paper.authors.join(', ')}` : paper.authors.join(', ')}
+                        {isPatent ? `Assignee: ${paper.authors.join(', ')}` : trial ? `Sponsor: ${paper.authors.join(', ')}` : paper.authors.join(', ')}
                     </span>
                 </div>
             </div>
 
+            {/* Trial Registry Details */}
+            {trial && (
+                <div className="flex flex-wrap items-center gap-2 text-[11px] font-mono">
+                    <span className="px-2 py-0.5 rounded border text-teal-300 border-teal-500/30 bg-teal-500/10">{trial.nctId}</span>
+                    <span className="px-2 py-0.5 rounded border text-slate-300 border-slate-600 bg-slate-700/50">{trial.phase}</span>
+                    <span className="px-2 py-0.5 rounded border text-slate-300 border-slate-600 bg-slate-700/50">{trial.status}</span>
+                    {trial.enrollment !== undefined && (
+                        <span className="flex items-center gap-1 text-slate-400"><Users className="w-3 h-3" /> n={trial.enrollment.toLocaleString()}</span>
+                    )}
+                    {trial.primaryCompletionDate && (
+                        <span className="flex items-center gap-1 text-slate-400" title="Primary completion date"><CalendarClock className="w-3 h-3" /> PCD {trial.primaryCompletionDate}</span>
+                    )}
+                </div>
+            )}
+
+            {/* Patent Bibliographic Data */}
+            {patent && (
+                <div className="flex flex-wrap items-center gap-2 text-[11px] font-mono">
+                    <span className="px-2 py-0.5 rounded border text-amber-300 border-amber-500/30 bg-amber-500/10">{formatPublicationNumber(patent)}</span>
+                    <span className={`px-2 py-0.5 rounded border ${patent.status === 'grant' ? 'text-green-300 border-green-500/30 bg-green-500/10' : 'text-slate-300 border-slate-600 bg-slate-700/50'}`}>
+                        {patent.status === 'grant' ? 'Granted' : patent.status === 'application' ? 'Application' : 'Status unknown'}
+                    </span>
+                    {patent.priorityDate && <span className="text-slate-400">Priority {patent.priorityDate}</span>}
+                    {patent.filingDate && <span className="text-slate-400">Filed {patent.filingDate}</span>}
+                    {patent.familyMembers.length > 1 && (
+                        <span className="text-slate-400" title={patent.familyMembers.join(', ')}>+{patent.familyMembers.length - 1} family members</span>
+                    )}
+                </div>
+            )}
+
             {/* The "Intelligence" Section */}
             <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50 mt-3 space-y-2">
                 <div className="flex items-start gap-2">
@@ -167,7 +339,7 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pt-1">
                      <div className="flex items-center gap-2 text-xs">
                         <Microscope className="w-3.5 h-3.5 text-teal-400" />
-                        <span className="text-slate-400">Target:</span>
+                        <span className="text-slate-400">{trial ? 'Interventions:' : 'Target:'}</span>
                         <span className="text-teal-300 font-mono">{paper.drugAndTarget}</span>
                      </div>
                      <div className="flex items-center gap-2 text-xs">
@@ -176,12 +348,67 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
                         <span className={`${modalityClass} px-1.5 py-0.5 rounded border`}>{paper.modality}</span>
                      </div>
                 </div>
+
+                {paper.entities && (
+                    <div className="flex flex-wrap items-center gap-1.5 pt-1 text-[10px]">
+                        <Pill className="w-3.5 h-3.5 text-teal-400" />
+                        {paper.entities.drugs.map(d => (
+                            <span key={d} className="px-1.5 py-0.5 rounded border border-teal-500/30 bg-teal-500/10 text-teal-300 font-medium">{d}</span>
+                        ))}
+                        {paper.entities.targets.map(t => (
+                            <span key={t} className="px-1.5 py-0.5 rounded border border-slate-600 bg-slate-900/50 text-slate-300 font-mono">{t}</span>
+                        ))}
+                        {paper.entities.genes?.filter(g => !paper.entities!.targets.includes(g)).map(g => (
+                            <span key={g} className="px-1.5 py-0.5 rounded border border-indigo-500/30 bg-indigo-500/10 text-indigo-300 font-mono">{g}</span>
+                        ))}
+                        {paper.entities.variants?.map(v => (
+                            <span key={v.rsId} className="text-indigo-300 font-mono" title={[v.gene, v.label].filter(Boolean).join(' ')}>{v.rsId}</span>
+                        ))}
+                        {paper.entities.mechanisms.map(m => (
+                            <span key={m} className="text-slate-500 italic">{m}</span>
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* Expandable Details Section */}
             {isExpanded && (
                 <div className="mt-3 pt-3 border-t border-slate-700/50 animate-in fade-in slide-in-from-top-2 duration-200">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {trial && (
+                            <div className="space-y-1 md:col-span-2">
+                                <div className="flex items-center gap-2 text-slate-400 text-xs font-semibold uppercase">
+                                    <BookOpen className="w-3.5 h-3.5" /> Linked Publications ({linkedPapers?.length || 0})
+                                </div>
+                                {linkedPapers && linkedPapers.length > 0 ? (
+                                    <ul className="text-xs text-slate-300 space-y-0.5 pl-5 list-disc marker:text-slate-600">
+                                        {linkedPapers.map(lp => (
+                                            <li key={lp.id}>
+                                                {lp.url ? <a href={lp.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-400">{lp.title}</a> : lp.title}
+                                                <span className="text-slate-500"> · {lp.journalOrConference}, {lp.date}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-xs text-slate-500 pl-5">No papers in other feeds cite {trial.nctId} yet.</p>
+                                )}
+                            </div>
+                        )}
+                        {patent && (
+                            <div className="space-y-1 md:col-span-2">
+                                <div className="flex items-center gap-2 text-slate-400 text-xs font-semibold uppercase">
+                                    <Scale className="w-3.5 h-3.5" /> Patent Details
+                                </div>
+                                <dl className="text-xs text-slate-300 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 pl-5">
+                                    {patent.claimsSummary && (<><dt className="text-slate-500">Claim 1</dt><dd>{patent.claimsSummary}</dd></>)}
+                                    {patent.cpcClasses.length > 0 && (<><dt className="text-slate-500">CPC</dt><dd className="font-mono">{patent.cpcClasses.join(', ')}</dd></>)}
+                                    {patent.ipcClasses.length > 0 && (<><dt className="text-slate-500">IPC</dt><dd className="font-mono">{patent.ipcClasses.join(', ')}</dd></>)}
+                                    {patent.familyId && (<><dt className="text-slate-500">Family</dt><dd className="font-mono">{patent.familyId}</dd></>)}
+                                    {patent.familyMembers.length > 0 && (<><dt className="text-slate-500">Members</dt><dd className="font-mono">{patent.familyMembers.join(', ')}</dd></>)}
+                                </dl>
+                            </div>
+                        )}
+                        {isBookmarked && onUpdate && <SavedAnnotations paper={paper} onUpdate={onUpdate} />}
                         {paper.affiliations && paper.affiliations.length > 0 && (
                             <div className="space-y-1">
                                 <div className="flex items-center gap-2 text-slate-400 text-xs font-semibold uppercase">
@@ -213,30 +440,56 @@ export const PaperCard: React.FC<PaperCardProps> = ({ paper, isBookmarked, onTog
                 <div className="flex md:flex-col gap-1 md:gap-2">
                     <button onClick={(e) => { e.stopPropagation(); onRate('up'); }} className={`p-2 rounded-lg transition-colors ${userRating === 'up' ? 'bg-green-500 text-white shadow-lg' : 'bg-slate-700 text-slate-400 hover:text-green-400'}`}><ThumbsUp className="w-3.5 h-3.5" /></button>
                     <button onClick={(e) => { e.stopPropagation(); onRate('down'); }} className={`p-2 rounded-lg transition-colors ${userRating === 'down' ? 'bg-red-500 text-white shadow-lg' : 'bg-slate-700 text-slate-400 hover:text-red-400'}`}><ThumbsDown className="w-3.5 h-3.5" /></button>
+                    {onInspect && paper.isLive && (
+                        <button onClick={(e) => { e.stopPropagation(); onInspect(); }} className="p-2 rounded-lg transition-colors bg-slate-700 text-slate-400 hover:text-amber-300" title="How was this verified?"><Bug className="w-3.5 h-3.5" /></button>
+                    )}
                 </div>
             </div>
 
-            <div className={`hidden md:flex flex-col items-center justify-center w-16 h-16 rounded-full border-2 ${getValidationColor(paper.validationScore)}`}>
-                <span className="text-lg font-bold">{paper.validationScore}</span>
-                <span className="text-[8px] uppercase font-bold">Score</span>
+            <div className="relative group/score hidden md:block">
+                <div className={`flex flex-col items-center justify-center w-16 h-16 rounded-full border-2 cursor-help ${getValidationColor(paper.validationScore)}`}>
+                    <span className="text-lg font-bold">{paper.validationScore}</span>
+                    <span className="text-[8px] uppercase font-bold">Score</span>
+                </div>
+                {/* Score Breakdown Tooltip */}
+                <div className="absolute right-0 top-full mt-2 w-64 z-20 hidden group-hover/score:block bg-slate-900 border border-slate-700 rounded-lg p-3 shadow-xl text-left">
+                    <div className="text-[10px] uppercase font-bold text-slate-400 mb-2">How this score was computed</div>
+                    {paper.scoreBreakdown ? (
+                        <ul className="space-y-1.5">
+                            {paper.scoreBreakdown.map(c => (
+                                <li key={c.label} className="text-xs">
+                                    <div className="flex justify-between text-slate-200">
+                                        <span>{c.label}</span>
+                                        <span className="font-mono">{c.points}/{c.max}</span>
+                                    </div>
+                                    <div className="text-[10px] text-slate-500">{c.detail}</div>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-xs text-slate-400">Curated archive entry, scored by hand.</p>
+                    )}
+                </div>
             </div>
             
             <div className="flex flex-col items-end gap-2 md:mt-auto">
-                {currentUrl && (
-                    <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2">
+                    <CitationExportMenu papers={[paper]} fileName={baseCitationKey(paper)} compact />
+                    {currentUrl && (<>
                         <button onClick={handleCopyLink} className="p-1 hover:text-green-400 text-slate-500 transition-colors" title="Copy Link">
                             {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Link2 className="w-3.5 h-3.5" />}
                         </button>
-                        {isLive && !linkPolished && !isPatent && (
-                            <button onClick={handleImproveLink} disabled={isPolishing} className={`p-1 rounded text-slate-500 hover:text-yellow-400 transition-colors ${isPolishing ? 'animate-spin' : ''}`} title="Find Direct PDF">
+                        {openAccess && openAccess.source !== 'none' && <OpenAccessLinks info={openAccess} />}
+                        {!paper.isPolished && onUpdate && !isPatent && !trial && (
+                            <button onClick={handleImproveLink} disabled={isPolishing} className={`p-1 rounded text-slate-500 hover:text-yellow-400 transition-colors ${isPolishing ? 'animate-spin' : ''}`} title="Find open-access full text">
                                 <FileSearch className="w-3.5 h-3.5" />
                             </button>
                         )}
                         <a href={currentUrl} target="_blank" rel="noopener noreferrer" className={`flex items-center gap-1 text-xs px-2 py-1 rounded transition-colors text-blue-400 hover:text-blue-300 underline decoration-blue-400/30`}>
-                            {isPatent ? 'View Patent' : 'Read Source'} <ExternalLink className="w-3 h-3" />
+                            {isPatent ? 'View Patent' : trial ? 'View Registry' : 'Read Source'} <ExternalLink className="w-3 h-3" />
                         </a>
-                    </div>
-                )}
+                    </>)}
+                </div>
             </div>
         </div>
       </div>
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Milestone, ExternalLink, Trophy, ArrowLeft, Settings2, History, Radio, BrainCircuit, Scale, ClipboardList } from 'lucide-react';
+import { AssetPipeline, PIPELINE_STAGES, PipelineEvent, PipelineFeed } from '../services/pipeline';
+
+interface PipelineTrackerProps {
+  pipelines: AssetPipeline[];
+  onManageAssets: () => void; // Tracked assets are the drugs on the topic registry's lists
+}
+
+const FEED_STYLES: Record<PipelineFeed, { label: string; icon: React.ElementType; className: string }> = {
+  archive: { label: 'Archive', icon: History, className: 'text-slate-300 border-slate-600 bg-slate-700/40' },
+  live: { label: 'Live', icon: Radio, className: 'text-blue-300 border-blue-500/30 bg-blue-500/10' },
+  ai: { label: 'AI/ML', icon: BrainCircuit, className: 'text-fuchsia-300 border-fuchsia-500/30 bg-fuchsia-500/10' },
+  patent: { label: 'Patent', icon: Scale, className: 'text-amber-300 border-amber-500/30 bg-amber-500/10' },
+  trial: { label: 'Trial', icon: ClipboardList, className: 'text-teal-300 border-teal-500/30 bg-teal-500/10' }
+};
+
+export const FeedBadge: React.FC<{ feed: PipelineFeed; count?: number }> = ({ feed, count }) => {
+  const { label, icon: Icon, className } = FEED_STYLES[feed];
+  return <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] ${className}`}><Icon className="w-3 h-3" />{label}{count !== undefined && ` ${count}`}</span>;
+};
+
+export const FEED_ORDER = Object.keys(FEED_STYLES) as PipelineFeed[];
+
+const StageBadge: React.FC<{ stage?: string }> = ({ stage }) => stage ? (
+  <span className="px-1.5 py-0.5 rounded border border-indigo-500/30 bg-indigo-500/10 text-indigo-300 text-[10px] font-bold whitespace-nowrap">{stage}</span>
+) : <span className="text-slate-600 text-[10px]">—</span>;
+
+// Stage ladder: reached stages show the date they were first seen
+const StageProgression: React.FC<{ pipeline: AssetPipeline }> = ({ pipeline }) => (
+  <div className="flex flex-wrap items-center gap-1">
+    {PIPELINE_STAGES.map((stage, i) => {
+      const milestone = pipeline.milestones.find(m => m.stage === stage);
+      return (
+        <React.Fragment key={stage}>
+          {i > 0 && <div className={`h-px w-4 ${milestone ? 'bg-indigo-400' : 'bg-slate-700'}`} />}
+          <div className={`px-2 py-1 rounded-lg border text-[10px] text-center ${milestone ? 'border-indigo-500/40 bg-indigo-500/10 text-indigo-200' : 'border-slate-700 text-slate-600'}`}>
+            <div className="font-bold">{stage}</div>
+            {milestone && <div className="font-mono opacity-70">{milestone.firstSeen}</div>}
+          </div>
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+const TimelineEntry: React.FC<{ event: PipelineEvent }> = ({ event }) => {
+  const { paper } = event;
+  return (
+    <li className="relative pl-6 pb-4">
+      <span className={`absolute left-0 top-1.5 w-2.5 h-2.5 rounded-full ${event.isReadout ? 'bg-yellow-400' : 'bg-slate-500'}`} />
+      <div className="flex flex-wrap items-center gap-1.5 text-[10px] mb-1">
+        <span className="font-mono text-slate-400">{paper.date}</span>
+        {event.feeds.map(feed => <FeedBadge key={feed} feed={feed} />)}
+        {event.stage && <StageBadge stage={event.stage} />}
+        {event.isReadout && <span className="flex items-center gap-1 text-yellow-400 font-bold"><Trophy className="w-3 h-3" /> Readout</span>}
+      </div>
+      <p className="text-sm text-slate-200 leading-snug">
+        {paper.title}
+        {paper.url && (
+          <a href={paper.url} target="_blank" rel="noopener noreferrer" className="inline-flex ml-1.5 text-slate-500 hover:text-blue-400 align-middle">
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </p>
+      <p className="text-xs text-slate-500">
+        {paper.trial ? `${paper.trial.nctId} · ${paper.trial.status} · ${paper.trial.sponsor}` : paper.journalOrConference}
+      </p>
+    </li>
+  );
+};
+
+export const PipelineTracker: React.FC<PipelineTrackerProps> = ({ pipelines, onManageAssets }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const asset = pipelines.find(p => p.drug.name === selected);
+
+  if (asset) {
+    return (
+      <div className="space-y-4">
+        <button onClick={() => setSelected(null)} className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200">
+          <ArrowLeft className="w-3.5 h-3.5" /> Pipeline overview
+        </button>
+
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-5 space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h2 className="text-xl font-bold text-white">{asset.drug.name}</h2>
+              <p className="text-sm text-slate-400">{asset.drug.mechanism}{asset.indications.length > 0 && ` · ${asset.indications.join(', ')}`}</p>
+              {asset.drug.codes.length > 0 && <p className="text-xs text-slate-500 font-mono mt-0.5">{asset.drug.codes.join(' · ')}</p>}
+            </div>
+            <div className="text-right text-xs text-slate-400">
+              <div>Latest activity</div>
+              <div className="font-mono text-slate-200">{asset.latestActivity ?? '—'}</div>
+            </div>
+          </div>
+          <StageProgression pipeline={asset} />
+        </div>
+
+        {asset.readouts.length > 0 && (
+          <div className="bg-slate-800 border border-slate-700 rounded-xl p-5">
+            <h3 className="text-xs font-bold text-yellow-400 uppercase tracking-wider mb-3 flex items-center gap-2"><Trophy className="w-3.5 h-3.5" /> Key Readouts</h3>
+            <ul className="space-y-2">
+              {asset.readouts.map(r => (
+                <li key={r.paper.id} className="flex items-start gap-2 text-sm">
+                  <span className="font-mono text-xs text-slate-500 mt-0.5 shrink-0">{r.paper.date}</span>
+                  <StageBadge stage={r.stage} />
+                  <span className="text-slate-200">{r.paper.abstractHighlight || r.paper.title}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-5">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Timeline ({asset.events.length})</h3>
+          {asset.events.length === 0 ? (
+            <p className="text-sm text-slate-500">Nothing mentions {asset.drug.name} yet. Scan the live, patent and trial feeds to fill the timeline.</p>
+          ) : (
+            <ul className="border-l border-slate-700 ml-1">
+              {asset.events.map(e => <TimelineEntry key={e.paper.id} event={e} />)}
+            </ul>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-slate-700">
+        <h2 className="text-sm font-bold text-white flex items-center gap-2"><Milestone className="w-4 h-4 text-indigo-400" /> Pipeline Overview</h2>
+        <button onClick={onManageAssets} className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200" title="Tracked assets are the drugs listed on each topic in the Topic Manager">
+          <Settings2 className="w-3.5 h-3.5" /> Tracked assets
+        </button>
+      </div>
+      {pipelines.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500">No assets are tracked. Add drugs to a topic in the Topic Manager.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 uppercase tracking-wider text-[10px]">
+              <tr className="border-b border-slate-700">
+                <th className="text-left font-semibold px-4 py-2">Asset</th>
+                <th className="text-left font-semibold px-4 py-2">Mechanism</th>
+                <th className="text-left font-semibold px-4 py-2">Indication</th>
+                <th className="text-left font-semibold px-4 py-2">Stage</th>
+                <th className="text-right font-semibold px-4 py-2">Readouts</th>
+                <th className="text-left font-semibold px-4 py-2">Coverage</th>
+                <th className="text-left font-semibold px-4 py-2">Latest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pipelines.map(p => (
+                <tr key={p.drug.name} onClick={() => setSelected(p.drug.name)} className="border-b border-slate-700/50 hover:bg-slate-700/40 cursor-pointer">
+                  <td className="px-4 py-3 font-bold text-slate-200">{p.drug.name}</td>
+                  <td className="px-4 py-3 text-slate-400">{p.drug.mechanism}</td>
+                  <td className="px-4 py-3 text-slate-400">{p.indications.join(', ') || '—'}</td>
+                  <td className="px-4 py-3"><StageBadge stage={p.stage} /></td>
+                  <td className="px-4 py-3 text-right text-yellow-400 font-mono">{p.readouts.length}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex gap-1">
+                      {FEED_ORDER.filter(f => p.feedCounts[f] > 0).map(f => <FeedBadge key={f} feed={f} count={p.feedCounts[f]} />)}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 font-mono text-slate-400">{p.latestActivity ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Upload, FileInput, CheckCircle2, AlertTriangle, Copy, ServerCog } from 'lucide-react';
+import { AgentRunStatus, PaperData } from '../types';
+import { IMPORT_FORMATS, ImportFormat, ImportListing, ParsedLibrary, buildImportPreview, parseReferenceLibrary } from '../services/citations';
+import { classifyImportedPapers } from '../services/geminiService';
+import { UNCLASSIFIED_LABEL } from '../services/topics';
+
+export type ImportTarget = { kind: 'saved' } | { kind: 'collection'; name: string };
+
+interface ReferenceImporterProps {
+  isOpen: boolean;
+  onClose: () => void;
+  listings: ImportListing[]; // Everything already held, for the duplicate report
+  collections: string[];
+  onImport: (papers: PaperData[], target: ImportTarget) => void;
+}
+
+const NEW_COLLECTION = '__new__';
+
+// Read a library file, preview it with its duplicate report while the classifier labels it, then commit
+// the chosen entries to Saved or a named collection. Nothing is stored until "Import" is pressed.
+export const ReferenceImporter: React.FC<ReferenceImporterProps> = ({ isOpen, onClose, listings, collections, onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [formatChoice, setFormatChoice] = useState<ImportFormat | 'auto'>('auto');
+  const [library, setLibrary] = useState<ParsedLibrary | null>(null);
+  const [papers, setPapers] = useState<PaperData[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [classifying, setClassifying] = useState<Record<string, AgentRunStatus> | null>(null);
+  const [target, setTarget] = useState<'saved' | string>('saved');
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const classifyController = useRef<AbortController | null>(null);
+  const fileText = useRef('');
+
+  const preview = useMemo(() => buildImportPreview(papers, listings), [papers, listings]);
+
+  const reset = () => {
+    classifyController.current?.abort();
+    setLibrary(null);
+    setPapers([]);
+    setSelected(new Set());
+    setFileName('');
+    setError(null);
+  };
+
+  useEffect(() => { if (!isOpen) reset(); }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const classify = async (parsed: PaperData[]) => {
+    const controller = new AbortController();
+    classifyController.current = controller;
+    setClassifying({});
+    try {
+      const labelled = await classifyImportedPapers(parsed, {
+        signal: controller.signal,
+        onAgentStatus: status => setClassifying(prev => prev && ({ ...prev, [status.id]: status }))
+      });
+      if (!controller.signal.aborted) setPapers(labelled);
+    } finally {
+      // A newer run (another file or format) owns the progress display
+      if (classifyController.current === controller) {
+        classifyController.current = null;
+        setClassifying(null);
+      }
+    }
+  };
+
+  const load = (text: string, name: string, format: ImportFormat | 'auto') => {
+    classifyController.current?.abort();
+    const parsed = parseReferenceLibrary(text, name, format === 'auto' ? undefined : format);
+    setLibrary(parsed);
+    setPapers(parsed.papers);
+    // Duplicates of held items and repeats within the file start unticked
+    const report = buildImportPreview(parsed.papers, listings);
+    setSelected(new Set(report.flatMap((item, i) => item.duplicateOf || item.repeatOf !== undefined ? [] : [i])));
+    if (parsed.papers.length > 0) classify(parsed.papers);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    fileText.current = await file.text();
+    setFileName(file.name);
+    load(fileText.current, file.name, formatChoice);
+  };
+
+  const toggle = (index: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    return next;
+  });
+
+  const handleImport = () => {
+    const name = target === NEW_COLLECTION ? newName.trim() : target;
+    if (!name) { setError('Name the new collection.'); return; }
+    const chosen = papers.filter((_, i) => selected.has(i));
+    if (chosen.length === 0) { setError('Select at least one entry.'); return; }
+    classifyController.current?.abort();
+    onImport(chosen, target === 'saved' ? { kind: 'saved' } : { kind: 'collection', name });
+    onClose();
+  };
+
+  const statuses = Object.values<AgentRunStatus>(classifying || {});
+  const duplicates = preview.filter(item => item.duplicateOf || item.repeatOf !== undefined).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <FileInput className="w-5 h-5 text-blue-400" /> Import References
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[75vh] overflow-y-auto">
+          {/* File */}
+          <section className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium cursor-pointer transition-colors">
+              <Upload className="w-3.5 h-3.5" /> Choose file…
+              <input type="file" accept=".ris,.bib,.bibtex,.nbib,.medline,.txt,.json" className="hidden" onChange={handleFile} />
+            </label>
+            <select
+              value={formatChoice}
+              onChange={e => {
+                const format = e.target.value as ImportFormat | 'auto';
+                setFormatChoice(format);
+                if (fileName) load(fileText.current, fileName, format);
+              }}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300"
+            >
+              <option value="auto">Detect format</option>
+              {(Object.keys(IMPORT_FORMATS) as ImportFormat[]).map(f => <option key={f} value={f}>{IMPORT_FORMATS[f].label}</option>)}
+            </select>
+            {fileName && <span className="text-xs text-slate-400 font-mono">{fileName}{library?.format && ` · ${IMPORT_FORMATS[library.format].label}`}</span>}
+            {!fileName && <span className="text-xs text-slate-500">RIS, BibTeX, PubMed MEDLINE/nbib or CSL-JSON</span>}
+          </section>
+
+          {library?.issues.map(issue => (
+            <p key={issue} className="text-xs text-amber-300 flex items-center gap-1.5"><AlertTriangle className="w-3.5 h-3.5" /> {issue}</p>
+          ))}
+
+          {/* Preview & Duplicate Report */}
+          {preview.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <span className="text-slate-300 font-bold">
+                  {preview.length} entries · {selected.size} selected
+                  {duplicates > 0 && <span className="text-amber-300 font-normal"> · {duplicates} already held or repeated</span>}
+                </span>
+                {classifying ? (
+                  <button onClick={() => classifyController.current?.abort()} className="flex items-center gap-1.5 text-blue-300 hover:text-white" title="Stop classifying; unlabelled entries import as Unclassified">
+                    <ServerCog className="w-3.5 h-3.5 animate-pulse" />
+                    Classifying {statuses.filter(s => s.state === 'succeeded' || s.state === 'failed').length}/{statuses.length || '…'} batches <X className="w-3 h-3" />
+                  </button>
+                ) : papers.some(p => p.topics.length === 0) && (
+                  <button onClick={() => classify(papers)} className="text-blue-300 hover:text-white">Classify again</button>
+                )}
+              </div>
+              <div className="border border-slate-700 rounded-lg divide-y divide-slate-700/50 max-h-[45vh] overflow-y-auto">
+                {preview.map((item, i) => (
+                  <label key={`${item.paper.id}-${i}`} className={`flex items-start gap-3 p-3 cursor-pointer hover:bg-slate-700/30 ${selected.has(i) ? '' : 'opacity-60'}`}>
+                    <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} className="mt-1 accent-blue-500" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm text-slate-200 leading-snug">{item.paper.title}</p>
+                      <p className="text-[11px] text-slate-500 truncate">
+                        {item.paper.authors.slice(0, 3).join(', ')}{item.paper.authors.length > 3 && ' et al.'} · {item.paper.journalOrConference || '—'} · {item.paper.date || 'no date'}
+                        {item.paper.doi && <span className="font-mono"> · {item.paper.doi}</span>}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <span className="px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 text-[10px]">{item.paper.publicationType}</span>
+                        {item.paper.topics.length > 0
+                          ? item.paper.topics.map(t => <span key={t} className="px-1.5 py-0.5 rounded bg-blue-500/10 border border-blue-500/30 text-blue-300 text-[10px]">{t}</span>)
+                          : <span className="px-1.5 py-0.5 rounded bg-slate-700/50 text-slate-500 text-[10px]">{UNCLASSIFIED_LABEL}</span>}
+                        {item.paper.topics.length > 0 && <span className="px-1.5 py-0.5 rounded bg-slate-700/50 text-slate-400 text-[10px]">{item.paper.studyType} · {item.paper.modality}</span>}
+                      </div>
+                      {item.duplicateOf && (
+                        <p className="text-[11px] text-amber-300 mt-1 flex items-center gap-1">
+                          <Copy className="w-3 h-3" /> Already in {item.duplicateOf.label} ({item.duplicateOf.match === 'identifier' ? 'same identifier' : 'same title, author and year'})
+                        </p>
+                      )}
+                      {item.repeatOf !== undefined && (
+                        <p className="text-[11px] text-amber-300 mt-1 flex items-center gap-1"><Copy className="w-3 h-3" /> Repeats entry {item.repeatOf + 1} in this file</p>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Destination */}
+          {preview.length > 0 && (
+            <section className="pt-4 border-t border-slate-700 flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Add to</span>
+              <select
+                value={target}
+                onChange={e => { setTarget(e.target.value); setError(null); }}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300"
+              >
+                <option value="saved">Saved</option>
+                {collections.map(c => <option key={c} value={c}>Collection: {c}</option>)}
+                <option value={NEW_COLLECTION}>New collection…</option>
+              </select>
+              {target === NEW_COLLECTION && (
+                <input
+                  value={newName}
+                  onChange={e => { setNewName(e.target.value); setError(null); }}
+                  placeholder="e.g. NASH library"
+                  className="bg-slate-900 border border-slate-700 rounded px-3 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                />
+              )}
+              <button onClick={handleImport} className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors">
+                <CheckCircle2 className="w-3.5 h-3.5" /> Import {selected.size}
+              </button>
+            </section>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
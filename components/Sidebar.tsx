@@ -1,28 +1,86 @@
-import React from 'react';
-import { DiseaseTopic, StudyType, Methodology } from '../types';
-import { Filter, ChevronDown, CalendarRange, FlaskConical, Microscope, Clock, Check, Radio, Ban } from 'lucide-react';
+import React, { useState } from 'react';
+import { StudyType, Methodology, TopicDefinition, TopicId } from '../types';
+import { Filter, ChevronDown, CalendarRange, FlaskConical, Microscope, Clock, Check, Radio, Ban, Settings2, Pill } from 'lucide-react';
+import { EntityFacet } from '../services/entities';
 
 interface SidebarProps {
-  activeTopics: DiseaseTopic[];
-  toggleTopic: (topic: DiseaseTopic) => void;
+  topics: TopicDefinition[];
+  activeTopics: TopicId[];
+  toggleTopic: (topic: TopicId) => void;
+  onManageTopics: () => void;
+  showUnclassified: boolean;
+  toggleUnclassified: () => void;
   activeStudyTypes: StudyType[];
   toggleStudyType: (type: StudyType) => void;
   activeMethodologies: Methodology[];
   toggleMethodology: (methodology: Methodology) => void;
   eraFilter: 'all' | '5years' | '1year';
   setEraFilter: (era: 'all' | '5years' | '1year') => void;
+  drugFacets: EntityFacet[];
+  activeDrugs: string[];
+  toggleDrug: (drug: string) => void;
+  targetFacets: EntityFacet[];
+  activeTargets: string[];
+  toggleTarget: (target: string) => void;
+  onManageEntities: () => void;
   isLiveMode: boolean;
 }
 
+const FACET_PREVIEW = 8;
+
+// Values in the current list, most frequent first; selected values stay visible even at zero
+const FacetGroup: React.FC<{ label: string; facets: EntityFacet[]; active: string[]; toggle: (value: string) => void; mono?: boolean }> = ({ label, facets, active, toggle, mono }) => {
+  const [showAll, setShowAll] = useState(false);
+  const missing = active.filter(v => !facets.some(f => f.value === v)).map(value => ({ value, count: 0 }));
+  const all = [...facets, ...missing];
+  const visible = showAll ? all : all.filter((f, i) => i < FACET_PREVIEW || active.includes(f.value));
+  return (
+    <div className="space-y-1.5">
+      <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">{label}</div>
+      {all.length === 0 ? (
+        <p className="text-xs text-slate-600">None in this list</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {visible.map(({ value, count }) => (
+            <button
+              key={value}
+              onClick={() => toggle(value)}
+              className={`px-2 py-0.5 rounded border text-[11px] transition-colors ${mono ? 'font-mono' : ''} ${active.includes(value) ? 'bg-teal-600 border-teal-500 text-white' : 'border-slate-600 text-slate-400 hover:text-slate-200 hover:border-slate-500'}`}
+            >
+              {value} <span className="opacity-60">{count}</span>
+            </button>
+          ))}
+          {all.length > FACET_PREVIEW && (
+            <button onClick={() => setShowAll(!showAll)} className="px-2 py-0.5 text-[11px] text-blue-400 hover:text-blue-300">
+              {showAll ? 'Less' : `+${all.length - visible.length} more`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const Sidebar: React.FC<SidebarProps> = ({ 
+  topics,
   activeTopics, 
   toggleTopic, 
+  onManageTopics,
+  showUnclassified,
+  toggleUnclassified,
   activeStudyTypes,
   toggleStudyType,
   activeMethodologies,
   toggleMethodology,
   eraFilter,
   setEraFilter,
+  drugFacets,
+  activeDrugs,
+  toggleDrug,
+  targetFacets,
+  activeTargets,
+  toggleTarget,
+  onManageEntities,
   isLiveMode
 }) => {
   return (
@@ -66,10 +124,17 @@ export const Sidebar: React.FC<SidebarProps> = ({
         <div className="flex items-center gap-2 mb-4 text-slate-300 font-semibold">
           {isLiveMode ? <Radio className="w-4 h-4 text-blue-400 animate-pulse" /> : <Filter className="w-4 h-4" />}
           <span>Disease Topics</span>
+          <button
+            onClick={onManageTopics}
+            className="ml-auto p-1 rounded text-slate-500 hover:text-blue-300 hover:bg-slate-700 transition-colors"
+            title="Manage topics & synonyms"
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
         </div>
         <div className="space-y-2">
-          {Object.values(DiseaseTopic).map((topic) => (
-            <label key={topic} className="flex items-center gap-3 cursor-pointer group">
+          {topics.map(({ name: topic, synonyms, drugs }) => (
+            <label key={topic} className="flex items-center gap-3 cursor-pointer group" title={[...synonyms, ...drugs].join(', ')}>
               <div className="relative flex items-center">
                 <input 
                   type="checkbox" 
@@ -82,7 +147,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
               <span className="text-sm text-slate-400 group-hover:text-slate-200 transition-colors">{topic}</span>
             </label>
           ))}
+          {/* Items no topic label could be assigned to (never silently filed under a default) */}
+          <label className="flex items-center gap-3 cursor-pointer group pt-2 border-t border-slate-700/50">
+            <div className="relative flex items-center">
+              <input 
+                type="checkbox" 
+                className="peer h-4 w-4 appearance-none rounded border border-slate-600 bg-slate-900 checked:bg-slate-500 checked:border-slate-500 transition-colors"
+                checked={showUnclassified}
+                onChange={toggleUnclassified}
+              />
+              <CheckIcon className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-white opacity-0 peer-checked:opacity-100 pointer-events-none" />
+            </div>
+            <span className="text-sm italic text-slate-500 group-hover:text-slate-300 transition-colors">Unclassified</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Drugs & Targets Panel (ALWAYS ACTIVE) - facets from the entity dictionary */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-4">
+        <div className="flex items-center gap-2 text-slate-300 font-semibold">
+          <Pill className="w-4 h-4" />
+          <span>Drugs & Targets</span>
+          <button
+            onClick={onManageEntities}
+            className="ml-auto p-1 rounded text-slate-500 hover:text-blue-300 hover:bg-slate-700 transition-colors"
+            title="Edit drug & target dictionary"
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
         </div>
+        <FacetGroup label="Drug" facets={drugFacets} active={activeDrugs} toggle={toggleDrug} />
+        <FacetGroup label="Target" facets={targetFacets} active={activeTargets} toggle={toggleTarget} mono />
       </div>
 
       {/* Study Types Panel - MASKED IN LIVE MODE */}
@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Plus, Trash2, RotateCcw, Download, Upload, Save, Network } from 'lucide-react';
+import { SwarmAgentConfig, SwarmConfig } from '../types';
+import { DEFAULT_SWARM_CONFIG, SwarmConfigIssue, buildSwarmQuery, exportSwarmConfig, importSwarmConfig, swarmCutoffDate, validateSwarmConfig } from '../services/swarmConfig';
+
+interface SwarmSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: SwarmConfig;
+  onSave: (config: SwarmConfig) => void;
+}
+
+// Text-area friendly views of the list fields: one item per line, keyword-group terms separated by "|".
+// List textareas are uncontrolled and parsed on blur so blank lines survive while typing.
+const toLines = (list: string[]) => list.join('\n');
+const fromLines = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+const groupsToText = (groups: string[][]) => groups.map(g => g.join(' | ')).join('\n');
+const textToGroups = (text: string) => fromLines(text).map(line => line.split('|').map(s => s.trim()).filter(Boolean));
+
+const FEED_LABELS: Record<SwarmAgentConfig['feed'], string> = { live: 'Live Feed', ai: 'AI Feed', patent: 'Patents' };
+
+export const SwarmSettings: React.FC<SwarmSettingsProps> = ({ isOpen, onClose, config, onSave }) => {
+  const [draft, setDraft] = useState<SwarmConfig>(config);
+  const [selectedId, setSelectedId] = useState<string>(config.agents[0]?.id ?? '');
+  const [issues, setIssues] = useState<SwarmConfigIssue[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [formVersion, setFormVersion] = useState(0); // Remounts the list textareas when the draft is replaced
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Start from the saved configuration each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(config);
+    setSelectedId(config.agents[0]?.id ?? '');
+    setIssues([]);
+    setNotice(null);
+    setFormVersion(v => v + 1);
+  }, [isOpen, config]);
+
+  if (!isOpen) return null;
+
+  const agent = draft.agents.find(a => a.id === selectedId);
+  const updateAgent = (patch: Partial<SwarmAgentConfig>) =>
+    setDraft(prev => ({ ...prev, agents: prev.agents.map(a => a.id === selectedId ? { ...a, ...patch } : a) }));
+
+  const handleAdd = () => {
+    const id = `agent-${Date.now().toString(36)}`;
+    setDraft(prev => ({ ...prev, agents: [...prev.agents, { id, name: 'New Agent', feed: 'live', enabled: true, sites: [], keywordGroups: [], exclusions: [], lookbackDays: 30 }] }));
+    setSelectedId(id);
+  };
+
+  const handleDelete = () => {
+    const remaining = draft.agents.filter(a => a.id !== selectedId);
+    setDraft(prev => ({ ...prev, agents: remaining }));
+    setSelectedId(remaining[0]?.id ?? '');
+  };
+
+  const handleSave = () => {
+    const { config: valid, issues: found } = validateSwarmConfig(draft);
+    setIssues(found);
+    if (!valid) return;
+    onSave(valid);
+    onClose();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSwarmConfig(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bioinsight-swarms-r${draft.revision}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { config: imported, issues: found } = importSwarmConfig(await file.text());
+    setIssues(found);
+    if (!imported) { setNotice(null); return; }
+    setDraft(imported);
+    setSelectedId(imported.agents[0]?.id ?? '');
+    setFormVersion(v => v + 1);
+    setNotice(`Loaded ${imported.agents.length} agents from ${file.name}. Save to apply.`);
+  };
+
+  const preview = agent ? buildSwarmQuery(agent, '<topics>', swarmCutoffDate(agent.lookbackDays)) : '';
+  const inputClass = "mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+  const labelClass = "text-xs font-semibold text-slate-400 uppercase tracking-wider";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-4xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Network className="w-5 h-5 text-blue-400" /> Swarm Configuration
+            </h2>
+            <p className="text-[10px] font-mono text-slate-500 mt-1">schema v{draft.version} · revision {draft.revision} · {new Date(draft.updatedAt).toLocaleString()}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInput.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 rounded hover:bg-slate-700 text-slate-300 text-xs font-medium transition-colors" title="Import configuration JSON">
+              <Upload className="w-3.5 h-3.5" /> Import
+            </button>
+            <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button onClick={handleExport} className="flex items-center gap-1.5 px-3 py-1.5 rounded hover:bg-slate-700 text-slate-300 text-xs font-medium transition-colors" title="Export configuration JSON">
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row max-h-[65vh]">
+          {/* Agent List */}
+          <div className="md:w-60 shrink-0 border-b md:border-b-0 md:border-r border-slate-700 p-3 space-y-1 overflow-y-auto">
+            {draft.agents.map(a => (
+              <button
+                key={a.id}
+                onClick={() => setSelectedId(a.id)}
+                className={`w-full text-left px-3 py-2 rounded text-xs font-medium transition-colors ${selectedId === a.id ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-400'} ${a.enabled ? '' : 'opacity-50'}`}
+              >
+                {a.name}
+                <span className="block text-[10px] opacity-70">{FEED_LABELS[a.feed]} · {a.lookbackDays}d{a.enabled ? '' : ' · disabled'}</span>
+              </button>
+            ))}
+            <button onClick={handleAdd} className="w-full flex items-center gap-2 px-3 py-2 rounded text-xs font-medium hover:bg-slate-700 text-blue-300 transition-colors">
+              <Plus className="w-3 h-3" /> New agent
+            </button>
+            <button
+              onClick={() => { setDraft({ ...DEFAULT_SWARM_CONFIG, revision: draft.revision }); setSelectedId(DEFAULT_SWARM_CONFIG.agents[0].id); setFormVersion(v => v + 1); }}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded text-xs text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> Restore defaults
+            </button>
+            <label className="block px-3 pt-3 border-t border-slate-700/50">
+              <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Registry lookback (days)</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.registryLookbackDays}
+                onChange={e => setDraft(prev => ({ ...prev, registryLookbackDays: Number(e.target.value) }))}
+                className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-2 px-3">
+              <label className="block">
+                <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Parallel agents</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={draft.maxConcurrentAgents}
+                  onChange={e => setDraft(prev => ({ ...prev, maxConcurrentAgents: Number(e.target.value) }))}
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                />
+              </label>
+              <label className="block">
+                <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Attempts</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={6}
+                  value={draft.maxAttempts}
+                  onChange={e => setDraft(prev => ({ ...prev, maxAttempts: Number(e.target.value) }))}
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                />
+              </label>
+            </div>
+          </div>
+
+          {/* Agent Editor */}
+          <div className="flex-1 p-6 space-y-4 overflow-y-auto">
+            {agent ? (
+              <React.Fragment key={`${agent.id}-${formVersion}`}>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <label className="block sm:col-span-2">
+                    <span className={labelClass}>Name</span>
+                    <input value={agent.name} onChange={e => updateAgent({ name: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="block">
+                    <span className={labelClass}>Feed</span>
+                    <select value={agent.feed} onChange={e => updateAgent({ feed: e.target.value as SwarmAgentConfig['feed'] })} className={inputClass}>
+                      {Object.entries(FEED_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                  </label>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className={labelClass}>Sites (one per line)</span>
+                    <textarea rows={6} defaultValue={toLines(agent.sites)} onBlur={e => updateAgent({ sites: fromLines(e.target.value) })} className={`${inputClass} font-mono text-xs`} />
+                  </label>
+                  <label className="block">
+                    <span className={labelClass}>Exclusions (one per line)</span>
+                    <textarea rows={6} defaultValue={toLines(agent.exclusions)} onBlur={e => updateAgent({ exclusions: fromLines(e.target.value) })} className={`${inputClass} font-mono text-xs`} />
+                  </label>
+                </div>
+                <label className="block">
+                  <span className={labelClass}>Keyword groups (one group per line, terms separated by "|")</span>
+                  <textarea rows={3} defaultValue={groupsToText(agent.keywordGroups)} onBlur={e => updateAgent({ keywordGroups: textToGroups(e.target.value) })} className={`${inputClass} font-mono text-xs`} />
+                </label>
+                <div className="flex items-end gap-6">
+                  <label className="block w-32">
+                    <span className={labelClass}>Lookback (days)</span>
+                    <input type="number" min={1} value={agent.lookbackDays} onChange={e => updateAgent({ lookbackDays: Number(e.target.value) })} className={inputClass} />
+                  </label>
+                  <label className="flex items-center gap-2 pb-2 text-sm text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={agent.enabled} onChange={e => updateAgent({ enabled: e.target.checked })} className="accent-blue-500" />
+                    Enabled
+                  </label>
+                  <button onClick={handleDelete} className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded hover:bg-red-900/40 text-red-400 text-xs font-medium transition-colors">
+                    <Trash2 className="w-3.5 h-3.5" /> Delete agent
+                  </button>
+                </div>
+                <div>
+                  <span className={labelClass}>Query preview</span>
+                  <p className="mt-1 p-3 rounded bg-slate-900 border border-slate-700 text-[11px] font-mono text-slate-400 break-all">{preview}</p>
+                </div>
+              </React.Fragment>
+            ) : (
+              <p className="text-sm text-slate-500 italic">No agents configured. Web-search stages will be skipped.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 bg-slate-800/50 space-y-2">
+          {issues.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5 max-h-24 overflow-y-auto">
+              {issues.map((issue, i) => <li key={i}><span className="font-mono">{issue.path || 'file'}</span>: {issue.reason}</li>)}
+            </ul>
+          )}
+          {notice && <p className="text-xs text-teal-300">{notice}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded hover:bg-slate-700 text-slate-400 text-xs font-medium transition-colors">Cancel</button>
+            <button onClick={handleSave} className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors">
+              <Save className="w-3.5 h-3.5" /> Save configuration
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
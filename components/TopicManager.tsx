@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2, RotateCcw, Upload, Save, Tags } from 'lucide-react';
+import { TopicDefinition, TopicId } from '../types';
+import { DEFAULT_TOPICS, importMeshTree, parseTermList, removeTopic, upsertTopic, validateTopicDefinition } from '../services/topicRegistry';
+
+interface TopicManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  topics: TopicDefinition[];
+  onChange: (topics: TopicDefinition[]) => void;
+}
+
+const NEW_TOPIC = '__new__';
+
+export const TopicManager: React.FC<TopicManagerProps> = ({ isOpen, onClose, topics, onChange }) => {
+  const [selected, setSelected] = useState<TopicId>(topics[0]?.name ?? NEW_TOPIC);
+  const [name, setName] = useState('');
+  const [synonyms, setSynonyms] = useState('');
+  const [drugs, setDrugs] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [meshText, setMeshText] = useState('');
+  const [meshTarget, setMeshTarget] = useState<TopicId>('');
+  const [meshStatus, setMeshStatus] = useState<string | null>(null);
+
+  // Load the selected topic into the form
+  useEffect(() => {
+    const topic = topics.find(t => t.name === selected);
+    setName(topic?.name ?? '');
+    setSynonyms(topic?.synonyms.join('\n') ?? '');
+    setDrugs(topic?.drugs.join('\n') ?? '');
+    setError(null);
+  }, [selected, topics]);
+
+  if (!isOpen) return null;
+
+  const current = topics.find(t => t.name === selected);
+
+  const handleSave = () => {
+    const draft: TopicDefinition = {
+      ...current,
+      name: name.trim(),
+      synonyms: parseTermList(synonyms),
+      drugs: parseTermList(drugs)
+    };
+    const problem = validateTopicDefinition(draft, topics, current?.name);
+    if (problem) { setError(problem.message); return; }
+    onChange(upsertTopic(topics, draft, current?.name));
+    setSelected(draft.name);
+  };
+
+  const handleDelete = () => {
+    if (!current) return;
+    const next = removeTopic(topics, current.name);
+    onChange(next);
+    setSelected(next[0]?.name ?? NEW_TOPIC);
+  };
+
+  const handleMeshImport = (text: string) => {
+    if (!text.trim()) return;
+    const result = importMeshTree(topics, text, meshTarget || undefined);
+    if (result.termCount === 0) { setMeshStatus('No MeSH headings found in the input.'); return; }
+    onChange(result.registry);
+    setMeshText('');
+    setMeshStatus(`Imported ${result.termCount} terms` +
+      (result.added.length ? ` · new: ${result.added.join(', ')}` : '') +
+      (result.extended.length ? ` · extended: ${result.extended.join(', ')}` : ''));
+  };
+
+  const handleMeshFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) handleMeshImport(await file.text());
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-3xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Tags className="w-5 h-5 text-blue-400" /> Topic Registry
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row max-h-[70vh]">
+          {/* Topic List */}
+          <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-slate-700 p-3 space-y-1 overflow-y-auto">
+            {topics.map(t => (
+              <button
+                key={t.name}
+                onClick={() => setSelected(t.name)}
+                className={`w-full text-left px-3 py-2 rounded text-xs font-medium transition-colors ${selected === t.name ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-400'}`}
+              >
+                {t.name}
+                <span className="block text-[10px] opacity-70">{t.synonyms.length} synonyms · {t.drugs.length} drugs</span>
+              </button>
+            ))}
+            <button
+              onClick={() => setSelected(NEW_TOPIC)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded text-xs font-medium transition-colors ${selected === NEW_TOPIC ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-blue-300'}`}
+            >
+              <Plus className="w-3 h-3" /> New topic
+            </button>
+            <button
+              onClick={() => { onChange(DEFAULT_TOPICS); setSelected(DEFAULT_TOPICS[0].name); }}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded text-xs text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> Restore defaults
+            </button>
+          </div>
+
+          <div className="flex-1 p-6 space-y-6 overflow-y-auto">
+            {/* Topic Editor */}
+            <section className="space-y-3">
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Name</span>
+                <input
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="e.g. Alzheimer's Disease"
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Synonyms</span>
+                <textarea
+                  value={synonyms}
+                  onChange={e => setSynonyms(e.target.value)}
+                  rows={5}
+                  placeholder="One per line. Used for search expansion and to recognise the topic in model output."
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Drugs & Pipeline Assets</span>
+                <textarea
+                  value={drugs}
+                  onChange={e => setDrugs(e.target.value)}
+                  rows={2}
+                  placeholder="One per line. Added to search queries only."
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                />
+              </label>
+              {current?.meshTreeNumbers && current.meshTreeNumbers.length > 0 && (
+                <p className="text-[10px] font-mono text-slate-500">MeSH: {current.meshTreeNumbers.join(', ')}</p>
+              )}
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <div className="flex items-center gap-2">
+                <button onClick={handleSave} className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors">
+                  <Save className="w-3.5 h-3.5" /> {current ? 'Save changes' : 'Add topic'}
+                </button>
+                {current && (
+                  <button onClick={handleDelete} className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-red-900/40 text-red-400 text-xs font-medium transition-colors">
+                    <Trash2 className="w-3.5 h-3.5" /> Delete
+                  </button>
+                )}
+              </div>
+            </section>
+
+            {/* MeSH Import */}
+            <section className="pt-6 border-t border-slate-700 space-y-3">
+              <h3 className="text-sm font-bold text-slate-300 flex items-center gap-2">
+                <Upload className="w-4 h-4 text-teal-400" /> Import MeSH Terms
+              </h3>
+              <p className="text-xs text-slate-500">
+                Paste an indented term tree (e.g. <span className="font-mono">Heart Diseases [C14.280]</span>) or MeSH ASCII descriptor records.
+                Each top-level heading becomes a topic; narrower terms and entry terms become its synonyms.
+              </p>
+              <textarea
+                value={meshText}
+                onChange={e => setMeshText(e.target.value)}
+                rows={5}
+                className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-teal-500"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={meshTarget}
+                  onChange={e => setMeshTarget(e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300"
+                >
+                  <option value="">Create/extend by heading</option>
+                  {topics.map(t => <option key={t.name} value={t.name}>Add all to {t.name}</option>)}
+                </select>
+                <button onClick={() => handleMeshImport(meshText)} className="px-3 py-1.5 rounded bg-teal-700 hover:bg-teal-600 text-white text-xs font-medium transition-colors">
+                  Import
+                </button>
+                <label className="px-3 py-1.5 rounded hover:bg-slate-700 text-slate-400 text-xs font-medium cursor-pointer transition-colors">
+                  From file…
+                  <input type="file" accept=".txt,.bin,.ascii" className="hidden" onChange={handleMeshFile} />
+                </label>
+              </div>
+              {meshStatus && <p className="text-xs text-teal-300">{meshStatus}</p>}
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, RefreshCw, ServerCog, AlertTriangle, CheckCircle2, Library, FolderSync } from 'lucide-react';
+import { PaperData } from '../types';
+import {
+  ZoteroCollection, ZoteroConfig, ZoteroSyncReport, ZoteroSyncResult, ZoteroSyncState,
+  emptySyncState, getDefaultZoteroClient, isZoteroConfigured, loadZoteroConfig, saveZoteroConfig, syncZoteroCollection
+} from '../services/zotero';
+import { classifyImportedPapers } from '../services/geminiService';
+
+interface ZoteroSyncProps {
+  isOpen: boolean;
+  onClose: () => void;
+  savedPapers: PaperData[];
+  syncState: ZoteroSyncState | null;
+  canonicalId: (id: string) => string;
+  onSynced: (result: ZoteroSyncResult) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = { title: 'Title', abstract: 'Abstract', date: 'Date', doi: 'DOI', url: 'URL', item: 'Item' };
+
+const clip = (text: string) => text.length > 80 ? `${text.slice(0, 80)}…` : text;
+
+// Connection settings and the sync itself. Items new from Zotero are classified like imported references
+// before they reach Saved.
+export const ZoteroSync: React.FC<ZoteroSyncProps> = ({ isOpen, onClose, savedPapers, syncState, canonicalId, onSynced }) => {
+  const [config, setConfig] = useState<ZoteroConfig>(() => loadZoteroConfig());
+  const [collections, setCollections] = useState<ZoteroCollection[] | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [report, setReport] = useState<ZoteroSyncReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => { if (!isOpen) { setReport(null); setError(null); } }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<ZoteroConfig>) => {
+    setConfig(prev => saveZoteroConfig({ ...prev, ...patch }));
+    setError(null);
+  };
+
+  const handleLoadCollections = async () => {
+    setError(null);
+    try {
+      const found = await getDefaultZoteroClient(config).listCollections();
+      setCollections(found.sort((a, b) => a.data.name.localeCompare(b.data.name)));
+    } catch (e) {
+      setError(`Could not read collections: ${(e as Error).message}`);
+    }
+  };
+
+  const handleSync = async () => {
+    const run = new AbortController();
+    controller.current = run;
+    setReport(null);
+    setError(null);
+    try {
+      const result = await syncZoteroCollection(savedPapers, syncState || emptySyncState(config.collectionKey), getDefaultZoteroClient(config), {
+        collectionKey: config.collectionKey,
+        collectionName: config.collectionName,
+        conflictPolicy: config.conflictPolicy,
+        canonicalId,
+        signal: run.signal,
+        onProgress: setProgress
+      });
+      const unlabelled = result.added.filter(p => p.topics.length === 0);
+      if (unlabelled.length > 0) {
+        setProgress(`Classifying ${unlabelled.length} new items...`);
+        const labelled = new Map((await classifyImportedPapers(unlabelled, { signal: run.signal })).map(p => [p.id, p]));
+        result.added = result.added.map(p => labelled.get(p.id) || p);
+      }
+      onSynced(result);
+      setReport(result.report);
+    } catch (e) {
+      if (!run.signal.aborted) setError(`Sync stopped: ${(e as Error).message}`);
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  const inputClass = "mt-1 w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500";
+  const labelClass = "text-xs font-semibold text-slate-400 uppercase tracking-wider";
+  const isLinkedCollection = syncState?.collectionKey === config.collectionKey;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm transition-opacity" onClick={onClose} />
+
+      <div className="relative bg-slate-800 border border-slate-700 rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <FolderSync className="w-5 h-5 text-red-400" /> Zotero Sync
+          </h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[75vh] overflow-y-auto">
+          {/* Connection */}
+          <section className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="block">
+              <span className={labelClass}>Library</span>
+              <select value={config.library.type} onChange={e => update({ library: { ...config.library, type: e.target.value as ZoteroConfig['library']['type'] } })} className={inputClass}>
+                <option value="user">My library</option>
+                <option value="group">Group library</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{config.library.type === 'user' ? 'User ID' : 'Group ID'}</span>
+              <input value={config.library.id} onChange={e => update({ library: { ...config.library, id: e.target.value.trim() } })} placeholder="e.g. 475425" className={`${inputClass} font-mono`} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>API key</span>
+              <input type="password" value={config.apiKey} onChange={e => update({ apiKey: e.target.value.trim() })} placeholder="Read/write key" className={`${inputClass} font-mono`} />
+            </label>
+          </section>
+
+          <section className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+            <label className="block sm:col-span-2">
+              <span className={labelClass}>Collection</span>
+              {collections ? (
+                <select
+                  value={config.collectionKey}
+                  onChange={e => update({ collectionKey: e.target.value, collectionName: collections.find(c => c.key === e.target.value)?.data.name || '' })}
+                  className={inputClass}
+                >
+                  <option value="">Choose a collection…</option>
+                  {collections.map(c => <option key={c.key} value={c.key}>{c.data.name}</option>)}
+                </select>
+              ) : (
+                <div className={`${inputClass} text-slate-400`}>{config.collectionName || 'None chosen'}</div>
+              )}
+            </label>
+            <button
+              onClick={handleLoadCollections}
+              disabled={!config.library.id || !config.apiKey}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              <Library className="w-3.5 h-3.5" /> {collections ? 'Reload' : 'Load'} collections
+            </button>
+          </section>
+
+          <label className="block">
+            <span className={labelClass}>When a field changed on both sides</span>
+            <select value={config.conflictPolicy} onChange={e => update({ conflictPolicy: e.target.value as ZoteroConfig['conflictPolicy'] })} className={inputClass}>
+              <option value="zotero">Keep the Zotero version</option>
+              <option value="local">Keep the Saved version</option>
+            </select>
+          </label>
+
+          {/* Sync */}
+          <section className="pt-4 border-t border-slate-700 flex flex-wrap items-center gap-3">
+            {progress ? (
+              <button onClick={() => controller.current?.abort()} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-700 text-blue-300 text-xs font-medium" title="Stop syncing">
+                <ServerCog className="w-3.5 h-3.5 animate-pulse" /> {progress} <X className="w-3 h-3" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSync}
+                disabled={!isZoteroConfigured(config)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className="w-3.5 h-3.5" /> Sync {savedPapers.length} saved items
+              </button>
+            )}
+            <span className="text-xs text-slate-500">
+              {isLinkedCollection && syncState?.lastSyncedAt
+                ? `Last synced ${new Date(syncState.lastSyncedAt).toLocaleString()} · ${syncState.links.length} linked items`
+                : 'Not synced with this collection yet; items on both sides are matched by identifier or title first.'}
+            </span>
+          </section>
+
+          {error && <p className="text-xs text-red-400 flex items-center gap-1.5"><AlertTriangle className="w-3.5 h-3.5" /> {error}</p>}
+
+          {/* Report */}
+          {report && (
+            <section className="space-y-3">
+              <p className="text-xs text-slate-300 flex items-center gap-1.5">
+                <CheckCircle2 className="w-3.5 h-3.5 text-green-400" />
+                {report.added} added to Saved · {report.created} added to Zotero · {report.pulled} updated from Zotero · {report.pushed} updated in Zotero
+                · {report.removedLocally} removed from Saved · {report.removedRemotely} removed from the collection
+              </p>
+              {report.conflicts.length > 0 && (
+                <div className="border border-amber-500/30 rounded-lg divide-y divide-slate-700/50">
+                  <p className="px-3 py-2 text-xs font-bold text-amber-300">{report.conflicts.length} changed on both sides</p>
+                  {report.conflicts.map((c, i) => (
+                    <div key={`${c.paperId}-${c.field}-${i}`} className="px-3 py-2 text-xs">
+                      <p className="text-slate-200 truncate">{c.title}</p>
+                      <p className="text-slate-500">
+                        {FIELD_LABELS[c.field] || c.field}: Saved “{clip(c.local)}” · Zotero “{clip(c.remote)}” → kept the {c.kept === 'zotero' ? 'Zotero' : 'Saved'} version
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {report.failures.map(f => <p key={f} className="text-xs text-amber-300 flex items-center gap-1.5"><AlertTriangle className="w-3.5 h-3.5" /> {f}</p>)}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
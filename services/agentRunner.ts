@@ -0,0 +1,171 @@
+import { AgentRunStatus, FeedType } from "../types";
+
+// --- AGENT EXECUTION ---
+// Runs a feed's agents with bounded concurrency, retries transient failures with exponential backoff,
+// and reports each agent's progress. A rate-limit response pauses every agent in the pool, not just the
+// one that hit it, since they share the same API key. Cancellation goes through one AbortSignal.
+
+export interface RetryPolicy {
+    maxAttempts: number; // Including the first try
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60_000 };
+
+export const isAbortError = (e: unknown): boolean => (e as { name?: string } | null)?.name === 'AbortError';
+
+const abortError = () => new DOMException('Scan cancelled', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw abortError();
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) { reject(abortError()); return; }
+        const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+        const onAbort = () => { clearTimeout(timer); reject(abortError()); };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// HTTP status from adapter errors (`status`), the Gemini SDK (`status`) or a "responded 503" message
+const errorStatus = (e: unknown): number | undefined => {
+    const status = (e as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') return status;
+    const match = String((e as Error)?.message ?? '').match(/\b(?:responded|status|code)\D{0,3}(\d{3})\b/i);
+    return match ? Number(match[1]) : undefined;
+};
+
+export const isRateLimitError = (e: unknown): boolean =>
+    errorStatus(e) === 429 || /RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(String((e as Error)?.message ?? ''));
+
+// Rate limits, server errors and network failures are worth another attempt; bad requests, auth errors
+// and cancellations are not
+export const isRetryableError = (e: unknown): boolean => {
+    if (isAbortError(e)) return false;
+    if (isRateLimitError(e)) return true;
+    const status = errorStatus(e);
+    if (status !== undefined) return status === 408 || status >= 500;
+    return e instanceof TypeError; // fetch() network failure
+};
+
+// Server hint first (Retry-After header, Gemini's "retry in 12.5s" / retryDelay "12s"), else exponential with jitter
+export const retryDelayMs = (e: unknown, attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number => {
+    const retryAfter = (e as { retryAfter?: string } | null)?.retryAfter;
+    const hinted = retryAfter && /^\d+(\.\d+)?$/.test(retryAfter.trim())
+        ? Number(retryAfter) * 1000
+        : (() => {
+            const match = String((e as Error)?.message ?? '').match(/retry(?:Delay)?\D{0,6}(\d+(?:\.\d+)?)\s*s\b/i);
+            return match ? Number(match[1]) * 1000 : undefined;
+        })();
+    if (hinted !== undefined) return Math.min(hinted, policy.maxDelayMs);
+    const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+    return Math.min(exponential * (0.75 + Math.random() * 0.5), policy.maxDelayMs);
+};
+
+export const describeError = (e: unknown): string => {
+    if (isAbortError(e)) return 'Cancelled';
+    const status = errorStatus(e);
+    const message = String((e as Error)?.message ?? e).slice(0, 200);
+    if (isRateLimitError(e)) return `Rate limited: ${message}`;
+    return status && !message.includes(String(status)) ? `${status}: ${message}` : message;
+};
+
+// --- POOL ---
+
+export interface AgentContext {
+    agentId: string;
+    signal?: AbortSignal;
+    // Wraps one request (an LLM call, a registry query) in the pool's retry policy
+    retry: <R>(request: () => Promise<R>) => Promise<R>;
+}
+
+export interface AgentJob<T> {
+    id: string;
+    name: string;
+    feed: FeedType;
+    run: (context: AgentContext) => Promise<T[]>;
+}
+
+export interface AgentPoolOptions {
+    concurrency?: number;
+    policy?: RetryPolicy;
+    signal?: AbortSignal;
+    onStatus?: (status: AgentRunStatus) => void;
+}
+
+export interface AgentOutcome<T> {
+    job: AgentJob<T>;
+    items: T[];
+}
+
+// Yields each agent's items as soon as that agent finishes, in completion order. Failed and cancelled
+// agents yield nothing; their status carries the reason. Never throws for an agent failure.
+export async function* runAgentPool<T>(jobs: AgentJob<T>[], options: AgentPoolOptions = {}): AsyncGenerator<AgentOutcome<T>, void, unknown> {
+    const { signal, onStatus } = options;
+    const policy = options.policy || DEFAULT_RETRY_POLICY;
+    const concurrency = Math.max(1, options.concurrency ?? 2);
+    let pausedUntil = 0; // Shared rate-limit backoff
+
+    const report = (job: AgentJob<T>, patch: Omit<AgentRunStatus, 'id' | 'name' | 'feed' | 'updatedAt'>) =>
+        onStatus?.({ id: job.id, name: job.name, feed: job.feed, ...patch, updatedAt: Date.now() });
+
+    jobs.forEach(job => report(job, { state: 'queued', attempt: 0 }));
+
+    const execute = async (job: AgentJob<T>): Promise<AgentOutcome<T>> => {
+        let attempt = 0;
+        const retry = async <R>(request: () => Promise<R>): Promise<R> => {
+            for (let tries = 1; ; tries++) {
+                if (pausedUntil > Date.now()) await sleep(pausedUntil - Date.now(), signal);
+                throwIfAborted(signal);
+                attempt++;
+                report(job, { state: 'running', attempt });
+                try {
+                    return await request();
+                } catch (e) {
+                    if (tries >= policy.maxAttempts || !isRetryableError(e) || signal?.aborted) throw e;
+                    const delay = retryDelayMs(e, tries, policy);
+                    if (isRateLimitError(e)) pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+                    report(job, { state: 'retrying', attempt, error: describeError(e), retryAt: Date.now() + delay });
+                    console.warn(`[${job.name}] ${describeError(e)}; retrying in ${Math.round(delay / 1000)}s`);
+                    await sleep(delay, signal);
+                }
+            }
+        };
+
+        try {
+            throwIfAborted(signal);
+            report(job, { state: 'running', attempt: 1 });
+            const items = await job.run({ agentId: job.id, signal, retry });
+            report(job, { state: 'succeeded', attempt: Math.max(attempt, 1), itemCount: items.length });
+            return { job, items };
+        } catch (e) {
+            if (isAbortError(e) || signal?.aborted) report(job, { state: 'cancelled', attempt });
+            else {
+                console.warn(`Agent ${job.name} failed: ${describeError(e)}`);
+                report(job, { state: 'failed', attempt, error: describeError(e) });
+            }
+            return { job, items: [] };
+        }
+    };
+
+    const queue = [...jobs];
+    const running = new Map<string, Promise<AgentOutcome<T>>>();
+    const launch = () => {
+        while (running.size < concurrency && queue.length > 0 && !signal?.aborted) {
+            const job = queue.shift()!;
+            running.set(job.id, execute(job));
+        }
+    };
+
+    launch();
+    while (running.size > 0) {
+        const outcome = await Promise.race(running.values());
+        running.delete(outcome.job.id);
+        launch();
+        if (outcome.items.length > 0) yield outcome;
+    }
+    // Jobs never started because the scan was cancelled
+    queue.forEach(job => report(job, { state: 'cancelled', attempt: 0 }));
+}
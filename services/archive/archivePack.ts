@@ -0,0 +1,223 @@
+import { ArchivePack, ArchivePackChange, Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../../types";
+import { coerceEnum } from "../paperSchema";
+import { mapToDiseaseTopic } from "../topics";
+import { HttpFetch, httpError } from "../sources";
+
+// --- ARCHIVE PACKS ---
+// The Archive tab is built from packs: JSON files holding curated papers with a semantic version and a
+// changelog. A file is checked by validateArchivePack before it is installed, whether it came from disk,
+// from its source URL or from the pack editor, so a bad entry never reaches the Archive.
+
+export const ARCHIVE_PACK_SCHEMA_VERSION = 1;
+
+export interface ArchivePackIssue {
+    path: string; // e.g. "papers[3].date"
+    reason: string;
+}
+
+// --- VERSIONS ---
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export const isPackVersion = (version: string): boolean => SEMVER.test(version);
+
+// Negative when `a` is older than `b`
+export const compareVersions = (a: string, b: string): number => {
+    const [pa, pb] = [a, b].map(v => (v.match(SEMVER) || []).slice(1).map(Number));
+    for (let i = 0; i < 3; i++) {
+        const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export const bumpVersion = (version: string, bump: VersionBump): string => {
+    const [major, minor, patch] = (version.match(SEMVER) || [, '0', '0', '0']).slice(1).map(Number);
+    if (bump === 'major') return `${major + 1}.0.0`;
+    if (bump === 'minor') return `${major}.${minor + 1}.0`;
+    return `${major}.${minor}.${patch + 1}`;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// A new version of an edited pack, with its changelog entry on top
+export const publishArchivePack = (pack: ArchivePack, bump: VersionBump, notes: string[]): ArchivePack => {
+    const version = bumpVersion(pack.version, bump);
+    const change: ArchivePackChange = { version, date: today(), notes };
+    return { ...pack, schemaVersion: ARCHIVE_PACK_SCHEMA_VERSION, version, updatedAt: change.date, changelog: [change, ...pack.changelog] };
+};
+
+// --- VALIDATION ---
+
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDate = (value: unknown): value is string =>
+    typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const cleanList = (list: string[]) => list.map(s => s.trim()).filter(Boolean);
+
+const ENUM_FIELDS = {
+    publicationType: PublicationType,
+    studyType: StudyType,
+    methodology: Methodology,
+    modality: ResearchModality
+} as const;
+
+const TEXT_FIELDS = ['journalOrConference', 'abstractHighlight', 'drugAndTarget', 'context'] as const;
+const OPTIONAL_TEXT_FIELDS = ['url', 'doi', 'pmid', 'pmcid', 'abstract', 'funding'] as const;
+const OPTIONAL_LIST_FIELDS = ['affiliations', 'keywords', 'nctIds'] as const;
+
+// One curated entry. Enum values are matched like agent output ("Peer Reviewed" or "PeerReviewed");
+// topic labels are mapped to registered topics where they name one and kept as written otherwise.
+const validateEntry = (entry: unknown, path: string, issues: ArchivePackIssue[]): PaperData | null => {
+    const before = issues.length;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        issues.push({ path, reason: 'Expected an object' });
+        return null;
+    }
+    const e = entry as Record<string, unknown>;
+
+    if (typeof e.id !== 'string' || !SLUG.test(e.id)) issues.push({ path: `${path}.id`, reason: 'Missing id (lower-case letters, digits and "-")' });
+    if (typeof e.title !== 'string' || !e.title.trim()) issues.push({ path: `${path}.title`, reason: 'Missing title' });
+    if (!isDate(e.date)) issues.push({ path: `${path}.date`, reason: 'Expected a date as YYYY-MM-DD' });
+    if (!isStringList(e.authors) || cleanList(e.authors).length === 0) issues.push({ path: `${path}.authors`, reason: 'Expected a non-empty list of author names' });
+    if (e.topics !== undefined && !isStringList(e.topics)) issues.push({ path: `${path}.topics`, reason: 'Expected a list of topic names' });
+
+    const paper: Record<string, unknown> = {};
+    for (const field of TEXT_FIELDS) {
+        const value = e[field] ?? '';
+        if (typeof value === 'string') paper[field] = value.trim();
+        else issues.push({ path: `${path}.${field}`, reason: 'Expected a string' });
+    }
+    for (const field of OPTIONAL_TEXT_FIELDS) {
+        const value = e[field];
+        if (value === undefined || value === null || value === '') continue;
+        if (typeof value === 'string') paper[field] = value.trim();
+        else issues.push({ path: `${path}.${field}`, reason: 'Expected a string' });
+    }
+    for (const field of OPTIONAL_LIST_FIELDS) {
+        const value = e[field];
+        if (value === undefined || value === null) continue;
+        if (isStringList(value)) paper[field] = cleanList(value);
+        else issues.push({ path: `${path}.${field}`, reason: 'Expected a list of strings' });
+    }
+    for (const [field, enumObj] of Object.entries(ENUM_FIELDS) as [keyof typeof ENUM_FIELDS, Record<string, string>][]) {
+        const value = coerceEnum(enumObj, e[field]);
+        if (value) paper[field] = value;
+        else issues.push({ path: `${path}.${field}`, reason: `Must be one of ${Object.values(enumObj).join(', ')}` });
+    }
+    if (typeof paper.url === 'string' && !/^https?:\/\//i.test(paper.url)) issues.push({ path: `${path}.url`, reason: 'Expected an http(s) URL' });
+    const score = e.validationScore ?? 100;
+    if (typeof score !== 'number' || score < 0 || score > 100) issues.push({ path: `${path}.validationScore`, reason: 'Must be a number between 0 and 100' });
+
+    if (issues.length > before) return null;
+    const topics = cleanList((e.topics as string[] | undefined) || []).map(t => mapToDiseaseTopic(t) ?? t);
+    return {
+        ...paper,
+        id: e.id as string,
+        title: (e.title as string).trim(),
+        date: e.date as string,
+        authors: cleanList(e.authors as string[]),
+        topics: Array.from(new Set(topics)),
+        validationScore: score as number,
+        authorsVerified: e.authorsVerified === true ? true : undefined
+    } as PaperData;
+};
+
+// Accepts parsed JSON of any shape. Returns a normalized pack, or null with the reasons it was rejected.
+export const validateArchivePack = (value: unknown): { pack: ArchivePack | null; issues: ArchivePackIssue[] } => {
+    const issues: ArchivePackIssue[] = [];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { pack: null, issues: [{ path: '', reason: 'Expected a JSON object' }] };
+    }
+    const raw = value as Record<string, unknown>;
+
+    if (typeof raw.schemaVersion !== 'number') issues.push({ path: 'schemaVersion', reason: 'Missing schema version' });
+    else if (raw.schemaVersion > ARCHIVE_PACK_SCHEMA_VERSION) issues.push({ path: 'schemaVersion', reason: `Version ${raw.schemaVersion} is newer than this app supports (${ARCHIVE_PACK_SCHEMA_VERSION})` });
+    if (typeof raw.id !== 'string' || !SLUG.test(raw.id)) issues.push({ path: 'id', reason: 'Missing id (lower-case letters, digits and "-")' });
+    if (typeof raw.name !== 'string' || !raw.name.trim()) issues.push({ path: 'name', reason: 'Missing name' });
+    if (raw.description !== undefined && typeof raw.description !== 'string') issues.push({ path: 'description', reason: 'Expected a string' });
+    if (typeof raw.version !== 'string' || !isPackVersion(raw.version)) issues.push({ path: 'version', reason: 'Expected a version like 1.0.0' });
+    if (!isDate(raw.updatedAt)) issues.push({ path: 'updatedAt', reason: 'Expected a date as YYYY-MM-DD' });
+    if (raw.sourceUrl !== undefined && (typeof raw.sourceUrl !== 'string' || !/^https?:\/\//i.test(raw.sourceUrl))) {
+        issues.push({ path: 'sourceUrl', reason: 'Expected an http(s) URL' });
+    }
+
+    const changelog: ArchivePackChange[] = [];
+    if (!Array.isArray(raw.changelog) || raw.changelog.length === 0) {
+        issues.push({ path: 'changelog', reason: 'Expected a list of changes, newest first' });
+    } else {
+        raw.changelog.forEach((entry, i) => {
+            const path = `changelog[${i}]`;
+            const c = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+            if (typeof c.version !== 'string' || !isPackVersion(c.version)) issues.push({ path: `${path}.version`, reason: 'Expected a version like 1.0.0' });
+            else if (changelog.length > 0 && compareVersions(c.version, changelog[changelog.length - 1].version) >= 0) {
+                issues.push({ path: `${path}.version`, reason: 'Changes must be listed newest first' });
+            }
+            if (!isDate(c.date)) issues.push({ path: `${path}.date`, reason: 'Expected a date as YYYY-MM-DD' });
+            if (!isStringList(c.notes) || cleanList(c.notes).length === 0) issues.push({ path: `${path}.notes`, reason: 'Expected at least one note' });
+            if (typeof c.version === 'string') changelog.push({ version: c.version, date: String(c.date), notes: isStringList(c.notes) ? cleanList(c.notes) : [] });
+        });
+        if (typeof raw.version === 'string' && changelog[0] && changelog[0].version !== raw.version) {
+            issues.push({ path: 'changelog[0].version', reason: `The newest change must describe version ${raw.version}` });
+        }
+    }
+
+    if (!Array.isArray(raw.papers)) {
+        issues.push({ path: 'papers', reason: 'Expected an array of papers' });
+        return { pack: null, issues };
+    }
+    const seenIds = new Set<string>();
+    const papers: PaperData[] = [];
+    raw.papers.forEach((entry, i) => {
+        const paper = validateEntry(entry, `papers[${i}]`, issues);
+        if (!paper) return;
+        if (seenIds.has(paper.id)) issues.push({ path: `papers[${i}].id`, reason: `Duplicate id "${paper.id}"` });
+        seenIds.add(paper.id);
+        papers.push(paper);
+    });
+
+    if (issues.length > 0) return { pack: null, issues };
+    return {
+        pack: {
+            schemaVersion: ARCHIVE_PACK_SCHEMA_VERSION,
+            id: raw.id as string,
+            name: (raw.name as string).trim(),
+            description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : undefined,
+            version: raw.version as string,
+            updatedAt: raw.updatedAt as string,
+            sourceUrl: raw.sourceUrl as string | undefined,
+            changelog,
+            papers
+        },
+        issues
+    };
+};
+
+// --- IMPORT / EXPORT ---
+
+// Entries are written without the fields the app adds while showing them (entities, merge provenance)
+export const exportArchivePack = (pack: ArchivePack): string =>
+    JSON.stringify({ ...pack, papers: pack.papers.map(({ entities: _entities, provenance: _provenance, ...paper }) => paper) }, null, 2);
+
+export const importArchivePack = (text: string): { pack: ArchivePack | null; issues: ArchivePackIssue[] } => {
+    try {
+        return validateArchivePack(JSON.parse(text));
+    } catch (e: any) {
+        return { pack: null, issues: [{ path: '', reason: `Not valid JSON: ${e.message}` }] };
+    }
+};
+
+// The pack published at its source URL; rejects on network errors, resolves with issues for a bad file
+export const fetchArchivePack = async (url: string, options: { fetch?: HttpFetch; signal?: AbortSignal } = {}) => {
+    const fetchImpl: HttpFetch = options.fetch || ((input, init) => fetch(input, init));
+    const res = await fetchImpl(url, { signal: options.signal, headers: { Accept: 'application/json' } });
+    if (!res.ok) throw httpError(url, res);
+    return importArchivePack(await res.text());
+};
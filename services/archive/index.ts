@@ -0,0 +1,21 @@
+import { ArchivePack, InstalledArchivePack } from "../../types";
+import { validateArchivePack } from "./archivePack";
+import landmarkPapers from "./packs/landmark-papers.json";
+import glp1Cvots from "./packs/glp1-cvots.json";
+import mashPhase3 from "./packs/mash-phase3.json";
+
+export * from "./archivePack";
+export * from "./packStack";
+
+// Packs shipped with the app, checked like any loaded file. A newer bundled version shows up as an update
+// for the installed copy instead of replacing it, so local edits are never overwritten silently.
+export const BUNDLED_ARCHIVE_PACKS: ArchivePack[] = [landmarkPapers, glp1Cvots, mashPhase3].flatMap(raw => {
+    const { pack, issues } = validateArchivePack(raw);
+    if (!pack) console.error(`Bundled archive pack "${(raw as { id?: string }).id}" is invalid`, issues);
+    return pack ? [pack] : [];
+});
+
+// First run: the landmark papers, as the Archive has always shown
+export const DEFAULT_ARCHIVE_PACKS: InstalledArchivePack[] = BUNDLED_ARCHIVE_PACKS
+    .filter(pack => pack.id === 'landmark-papers')
+    .map(pack => ({ pack, enabled: true, installedAt: new Date(0).toISOString() }));
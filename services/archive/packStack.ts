@@ -0,0 +1,90 @@
+import { ArchivePack, InstalledArchivePack, PaperData } from "../../types";
+import { sameWork } from "../citations";
+import { compareVersions } from "./archivePack";
+
+// --- STACKING ---
+// Enabled packs are read in list order. An entry id seen in an earlier pack is replaced in place, so a team
+// pack can correct a bundled one; the same study under different ids is merged later by the identity resolver.
+
+export const stackArchivePacks = (installed: InstalledArchivePack[]): PaperData[] => {
+    const entries = new Map<string, PaperData>();
+    installed.filter(p => p.enabled).forEach(({ pack }) => pack.papers.forEach(paper => entries.set(paper.id, paper)));
+    return Array.from(entries.values());
+};
+
+// --- INSTALLING ---
+
+// installed: new pack id; update / downgrade / reinstall: replaces the pack of the same id
+export type PackInstallOutcome = 'installed' | 'update' | 'downgrade' | 'reinstall';
+
+export const installOutcome = (installed: InstalledArchivePack[], pack: ArchivePack): PackInstallOutcome => {
+    const current = installed.find(p => p.pack.id === pack.id);
+    if (!current) return 'installed';
+    const order = compareVersions(pack.version, current.pack.version);
+    return order > 0 ? 'update' : order < 0 ? 'downgrade' : 'reinstall';
+};
+
+// A replaced pack keeps its place in the stack and whether it is enabled
+export const installArchivePack = (installed: InstalledArchivePack[], pack: ArchivePack, now: Date = new Date()): InstalledArchivePack[] => {
+    const entry = { pack, enabled: true, installedAt: now.toISOString() };
+    return installed.some(p => p.pack.id === pack.id)
+        ? installed.map(p => p.pack.id === pack.id ? { ...entry, enabled: p.enabled } : p)
+        : [...installed, entry];
+};
+
+export const removeArchivePack = (installed: InstalledArchivePack[], id: string): InstalledArchivePack[] =>
+    installed.filter(p => p.pack.id !== id);
+
+export const setArchivePackEnabled = (installed: InstalledArchivePack[], id: string, enabled: boolean): InstalledArchivePack[] =>
+    installed.map(p => p.pack.id === id ? { ...p, enabled } : p);
+
+// Moves a pack up (-1) or down (+1) the stack
+export const moveArchivePack = (installed: InstalledArchivePack[], id: string, offset: -1 | 1): InstalledArchivePack[] => {
+    const from = installed.findIndex(p => p.pack.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= installed.length) return installed;
+    const next = [...installed];
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+};
+
+// Packs in `catalog` newer than the installed copy
+export const availableUpdates = (installed: InstalledArchivePack[], catalog: ArchivePack[]): ArchivePack[] =>
+    catalog.filter(pack => installed.some(p => p.pack.id === pack.id && compareVersions(pack.version, p.pack.version) > 0));
+
+// --- DIFF ---
+
+export interface ArchivePackChangeSet {
+    before: PaperData;
+    after: PaperData;
+    fields: (keyof PaperData)[];
+}
+
+export interface ArchivePackDiff {
+    added: PaperData[];
+    removed: PaperData[];
+    changed: ArchivePackChangeSet[];
+    unchanged: number;
+}
+
+// Entries pair up by id, then by identifier or title, so two different packs covering one trial compare too
+export const diffArchivePacks = (from: ArchivePack, to: ArchivePack): ArchivePackDiff => {
+    const unmatched = [...from.papers];
+    const take = (paper: PaperData) => {
+        const index = unmatched.findIndex(p => p.id === paper.id);
+        const match = index >= 0 ? index : unmatched.findIndex(p => sameWork(p, paper));
+        return match >= 0 ? unmatched.splice(match, 1)[0] : undefined;
+    };
+
+    const diff: ArchivePackDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+    for (const after of to.papers) {
+        const before = take(after);
+        if (!before) { diff.added.push(after); continue; }
+        const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)] as (keyof PaperData)[]))
+            .filter(f => f !== 'id' && JSON.stringify(before[f]) !== JSON.stringify(after[f]));
+        if (fields.length > 0) diff.changed.push({ before, after, fields });
+        else diff.unchanged++;
+    }
+    diff.removed = unmatched;
+    return diff;
+};
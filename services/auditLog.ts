@@ -0,0 +1,106 @@
+import { FeedType, PaperData } from "../types";
+import { GroundingChunk } from "./llm";
+
+// --- AGENT RUN AUDIT LOG ---
+// Every LLM-backed agent call is recorded with what it was asked, what came back, and what happened to
+// each item: accepted (and which grounding chunk verified it) or rejected (and why). Kept in memory for
+// the session, newest first, and exportable as JSON for bug reports.
+
+export type RejectionReason =
+    | 'invalid-record'      // Failed schema validation
+    | 'no-grounding'        // The search tool returned no sources at all
+    | 'no-matching-chunk'   // Neither the URL nor the title matched a grounding chunk
+    | 'unparseable-date'    // No usable date in the record or its chunk
+    | 'before-cutoff'       // Older than the agent's lookback window
+    | 'no-classification';  // The classifier returned no labels for a registry record
+
+export interface AcceptedItem {
+    paperId: string;
+    title: string;
+    url?: string;
+    chunk?: GroundingChunk; // The source that verified it; absent for registry records
+    matchedBy: 'exact-url' | 'fuzzy-title' | 'registry';
+}
+
+export interface RejectedItem {
+    title: string;
+    url?: string;
+    reason: RejectionReason;
+    detail?: string;
+}
+
+export interface AgentRunRecord {
+    runId: string;
+    agentId: string;
+    agentName: string;
+    feed: FeedType;
+    kind: 'web-search' | 'classifier';
+    providerId: string;
+    model: string;
+    startedAt: string;
+    finishedAt: string;
+    query?: string; // Search query handed to the grounding tool
+    cutoffDate?: string;
+    prompt: string;
+    rawText: string;
+    chunks: GroundingChunk[];
+    validationIssues: string[];
+    accepted: AcceptedItem[];
+    rejected: RejectedItem[];
+    error?: string; // Set when the provider call failed after retries
+}
+
+const DEFAULT_MAX_RUNS = 200;
+
+export const newRunId = (): string => `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createAuditLog = (options: { maxRuns?: number } = {}) => {
+    const maxRuns = options.maxRuns ?? DEFAULT_MAX_RUNS;
+    let runs: AgentRunRecord[] = []; // Replaced, never mutated, so React can compare snapshots
+    const listeners = new Set<() => void>();
+
+    const notify = () => listeners.forEach(l => l());
+
+    return {
+        record(run: AgentRunRecord) {
+            runs = [run, ...runs].slice(0, maxRuns);
+            notify();
+        },
+
+        list: (): AgentRunRecord[] => runs,
+
+        clear() {
+            runs = [];
+            notify();
+        },
+
+        subscribe(listener: () => void): () => void {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        // The run that produced a paper: by the run id stamped on it, else by any accepted item with its id,
+        // URL or title (merged records keep the id of whichever copy was listed first)
+        findForPaper(paper: PaperData): { run: AgentRunRecord; item: AcceptedItem } | null {
+            const candidates = paper.evidence?.auditRunId ? runs.filter(r => r.runId === paper.evidence!.auditRunId) : runs;
+            const title = paper.title.trim().toLowerCase();
+            for (const run of candidates) {
+                const item = run.accepted.find(a => a.paperId === paper.id)
+                    || run.accepted.find(a => (!!paper.url && a.url === paper.url) || a.title.trim().toLowerCase() === title);
+                if (item) return { run, item };
+            }
+            return null;
+        },
+
+        export: (): string => JSON.stringify({ exportedAt: new Date().toISOString(), runs }, null, 2)
+    };
+};
+
+export type AuditLog = ReturnType<typeof createAuditLog>;
+
+let defaultAuditLog: AuditLog | null = null;
+
+export const getDefaultAuditLog = (): AuditLog => {
+    if (!defaultAuditLog) defaultAuditLog = createAuditLog();
+    return defaultAuditLog;
+};
@@ -0,0 +1,246 @@
+import { CitationName, CitationRecord, CitationType, ImportedReference, readReferenceDate, withPatentOffice } from "./citationRecord";
+
+// --- BIBTEX ---
+// Entry types follow biblatex where classic BibTeX has none (@patent, @online); both Zotero and JabRef
+// read them. Patents carry the number, holder (assignee) and office; trial registrations the NCT id.
+
+const ENTRY_TYPES: Record<CitationType, string> = {
+    'article': 'article',
+    'review': 'article',
+    'preprint': 'misc',
+    'conference': 'inproceedings',
+    'news': 'article',
+    'patent': 'patent',
+    'trial-registration': 'online'
+};
+
+const LATEX_SPECIALS: Record<string, string> = { '\\': '\\textbackslash{}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}' };
+
+// Braces are kept balanced by escaping them; the remaining specials are escaped as LaTeX expects.
+// One pass, so the braces a replacement adds are never escaped again.
+export const escapeBibtex = (value: string): string =>
+    value
+        .replace(/[\\~^{}&%$#_]/g, c => LATEX_SPECIALS[c] ?? `\\${c}`)
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const formatName = (name: CitationName): string =>
+    name.literal ? `{${escapeBibtex(name.literal)}}` : [name.family, name.given].filter(Boolean).map(s => escapeBibtex(s!)).join(', ');
+
+const formatNames = (names: CitationName[], truncated: boolean): string | undefined =>
+    names.length ? [...names.map(formatName), ...(truncated ? ['others'] : [])].join(' and ') : undefined;
+
+// biblatex's localized patent types (patentus, patreqeu ...); other offices only get `location`
+const BIBLATEX_OFFICES: Record<string, string> = { US: 'us', EP: 'eu', DE: 'de', FR: 'fr', GB: 'uk' };
+
+const patentType = (record: CitationRecord): string | undefined => {
+    const office = BIBLATEX_OFFICES[record.patent!.office];
+    if (!office) return undefined;
+    return `${record.patent!.status === 'application' ? 'patreq' : 'patent'}${office}`;
+};
+
+export const toBibtexEntry = (record: CitationRecord): string => {
+    const fields: [string, string | undefined][] = [
+        ['title', `{${escapeBibtex(record.title)}}`], // Double braces keep the title's capitalization
+        [record.type === 'patent' ? 'holder' : 'author', formatNames(record.authors, record.authorsTruncated)]
+    ];
+    const raw = (name: string, value?: string) => fields.push([name, value ? escapeBibtex(value) : undefined]);
+    const verbatim = (name: string, value?: string) => fields.push([name, value]); // doi and url are read literally
+
+    if (record.type === 'conference') raw('booktitle', record.container);
+    else if (record.type === 'preprint') raw('howpublished', record.container);
+    else if (record.type === 'patent' || record.type === 'trial-registration') raw('organization', record.container);
+    else raw('journal', record.container);
+
+    raw('year', record.year);
+    raw('date', record.date);
+    if (record.date) raw('month', String(Number(record.date.slice(5, 7))));
+    verbatim('doi', record.doi);
+    verbatim('url', record.url);
+    if (record.pmid) {
+        raw('pmid', record.pmid);
+        raw('eprint', record.pmid);
+        raw('eprinttype', 'pubmed');
+    }
+    raw('pmcid', record.pmcid);
+    if (record.patent) {
+        raw('number', record.patent.number);
+        raw('type', patentType(record));
+        raw('location', record.patent.office);
+        raw('note', record.patent.priorityDate ? `Priority date ${record.patent.priorityDate}` : undefined);
+    }
+    if (record.trial) {
+        raw('number', record.trial.nctId);
+        raw('note', [record.trial.phase, record.trial.status].filter(Boolean).join('; '));
+    }
+    if (record.type === 'preprint') raw('note', 'Preprint');
+    if (record.type === 'review') raw('note', 'Review');
+    raw('keywords', record.keywords.join(', ') || undefined);
+    raw('abstract', record.abstract);
+
+    const body = fields
+        .filter((f): f is [string, string] => !!f[1])
+        .map(([name, value]) => `  ${name} = {${value}}`)
+        .join(',\n');
+    return `@${ENTRY_TYPES[record.type]}{${record.key},\n${body}\n}`;
+};
+
+export const toBibtex = (records: CitationRecord[]): string => records.map(toBibtexEntry).join('\n\n') + '\n';
+
+// --- BIBTEX IMPORT ---
+// A small reader for the BibTeX that reference managers write: braced or quoted values, # concatenation,
+// @string macros and month abbreviations. LaTeX is reduced to plain text; math is left as written.
+
+interface BibtexEntry {
+    type: string;
+    key: string;
+    fields: Record<string, string>;
+}
+
+const MONTH_MACROS: Record<string, string> = {
+    jan: '1', feb: '2', mar: '3', apr: '4', may: '5', jun: '6', jul: '7', aug: '8', sep: '9', oct: '10', nov: '11', dec: '12'
+};
+
+const ACCENTS: Record<string, string> = { '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', 'c': '\u0327', 'v': '\u030C', 'u': '\u0306' };
+
+const ESCAPED_LITERALS: Record<string, string> = { backslash: '\\', asciitilde: '~', asciicircum: '^' };
+
+// Escaped characters are set aside first and put back last, so "\textbackslash{}\{" reads as "\{"
+// and a literal brace is not stripped as grouping
+export const latexToText = (value: string): string => {
+    const literals: string[] = [];
+    const text = value
+        .replace(/\\text(backslash|asciitilde|asciicircum)\{\}|\\([{}&%$#_])/g, (_, name: string | undefined, c: string | undefined) =>
+            `\uE000${literals.push(name ? ESCAPED_LITERALS[name] : c!) - 1}\uE001`)
+        .replace(/\\([\"'`^~=]|[cvu](?=[\s{]))\s*\{?\\?([A-Za-z])\}?/g, (_, accent: string, letter: string) => `${letter}${ACCENTS[accent]}`)
+        .replace(/\\(ss|ae|oe|o|aa|l)\b\s*(\{\})?/gi, (_, name: string) => ({ ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł' } as Record<string, string>)[name] ?? name)
+        .replace(/\\(emph|textit|textbf|textsc|mkbibquote)\s*/g, '')
+        .replace(/(?<!\\)[{}]/g, '')
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .replace(/\s+/g, ' ')
+        .normalize('NFC')
+        .trim();
+    return text.replace(/\uE000(\d+)\uE001/g, (_, i: string) => literals[Number(i)]);
+};
+
+// Reads one value starting at `i`: {braced}, "quoted" or a bare number/macro, joined with #
+const readValue = (text: string, start: number, macros: Record<string, string>): { value: string; end: number } => {
+    let i = start;
+    let value = '';
+    for (;;) {
+        while (/\s/.test(text[i] ?? '')) i++;
+        const open = text[i];
+        if (open === '{' || open === '"') {
+            const close = open === '{' ? '}' : '"';
+            let depth = 0;
+            let j = i + 1;
+            for (; j < text.length; j++) {
+                const c = text[j];
+                if (c === '\\') { j++; continue; }
+                if (c === '{') depth++;
+                else if (c === '}' && depth > 0) depth--;
+                else if (c === close && depth === 0) break;
+            }
+            value += text.slice(i + 1, j);
+            i = j + 1;
+        } else {
+            const bare = text.slice(i).match(/^[^\s,#}]+/)?.[0] ?? '';
+            value += macros[bare.toLowerCase()] ?? bare;
+            i += bare.length;
+        }
+        while (/\s/.test(text[i] ?? '')) i++;
+        if (text[i] !== '#') return { value, end: i };
+        i++;
+    }
+};
+
+export const readBibtexEntries = (text: string): BibtexEntry[] => {
+    const entries: BibtexEntry[] = [];
+    const macros: Record<string, string> = { ...MONTH_MACROS };
+    const header = /@\s*([a-zA-Z]+)\s*[{(]/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text))) {
+        const type = match[1].toLowerCase();
+        let i = header.lastIndex;
+        if (type === 'comment' || type === 'preamble') continue;
+        let key = '';
+        if (type !== 'string') {
+            const keyMatch = text.slice(i).match(/^\s*([^\s,]*)\s*,/);
+            if (!keyMatch) continue;
+            key = keyMatch[1];
+            i += keyMatch[0].length;
+        }
+        const fields: Record<string, string> = {};
+        for (;;) {
+            const name = text.slice(i).match(/^\s*([A-Za-z][\w:.-]*)\s*=/);
+            if (!name) break;
+            const { value, end } = readValue(text, i + name[0].length, macros);
+            fields[name[1].toLowerCase()] = value;
+            i = end;
+            if (text[i] === ',') i++;
+        }
+        header.lastIndex = i;
+        if (type === 'string') Object.entries(fields).forEach(([name, value]) => { macros[name] = value; });
+        else entries.push({ type, key, fields });
+    }
+    return entries;
+};
+
+// Splits "A and B and {C and D Group}" at top-level "and"s; "others" is the BibTeX et al.
+const splitBibtexNames = (value: string): string[] => {
+    const names: string[] = [];
+    let depth = 0;
+    let current = '';
+    const tokens = value.split(/(\s+and\s+|[{}])/i);
+    for (const token of tokens) {
+        if (token === '{') depth++;
+        if (token === '}') depth--;
+        if (depth === 0 && /^\s+and\s+$/i.test(token)) {
+            names.push(current);
+            current = '';
+        } else {
+            current += token;
+        }
+    }
+    names.push(current);
+    return names.map(latexToText).filter(n => n && n.toLowerCase() !== 'others');
+};
+
+const bibtexType = (entry: BibtexEntry, nctId?: string): CitationType => {
+    const { type, fields } = entry;
+    const venue = `${fields.journal || fields.journaltitle || ''} ${fields.howpublished || ''} ${fields.eprinttype || fields.archiveprefix || ''} ${fields.note || ''}`.toLowerCase();
+    if (type === 'patent') return 'patent';
+    if (type === 'inproceedings' || type === 'conference' || type === 'proceedings') return 'conference';
+    if (nctId && (type === 'online' || type === 'misc' || type === 'electronic' || type === 'www')) return 'trial-registration';
+    if (type === 'unpublished' || /rxiv|preprint|research square|ssrn/.test(venue)) return 'preprint';
+    if (/^review$/i.test((fields.note || fields.type || '').trim())) return 'review';
+    return 'article';
+};
+
+export const parseBibtex = (text: string): ImportedReference[] => readBibtexEntries(text).map(entry => {
+    const f = (name: string) => entry.fields[name] !== undefined ? latexToText(entry.fields[name]) || undefined : undefined;
+    const nctId = [f('number'), f('url'), f('title'), f('note')].map(v => v?.match(/\bNCT\d{8}\b/i)?.[0]).find(Boolean)?.toUpperCase();
+    const type = bibtexType(entry, nctId);
+    const month = f('month');
+    const date = readReferenceDate(f('date')) ?? readReferenceDate(f('year') && `${f('year')}${month ? ` ${MONTH_MACROS[month.slice(0, 3).toLowerCase()] ?? month}` : ''}`);
+    const pmid = f('pmid') ?? (f('eprinttype')?.toLowerCase() === 'pubmed' ? f('eprint') : undefined);
+    const names = (field: string) => entry.fields[field] ? splitBibtexNames(entry.fields[field]) : [];
+    return {
+        type,
+        title: f('title') || '',
+        authors: type === 'patent' && names('holder').length ? names('holder') : names('author').length ? names('author') : names('editor'),
+        container: f('journal') || f('journaltitle') || f('booktitle') || f('howpublished') || f('organization') || f('publisher'),
+        date: date?.date,
+        datePrecision: date?.precision,
+        doi: f('doi')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+        pmid: pmid && /^\d+$/.test(pmid) ? pmid : undefined,
+        pmcid: f('pmcid')?.toUpperCase(),
+        url: entry.fields.url?.trim() || undefined,
+        abstract: f('abstract'),
+        keywords: (f('keywords') || '').split(/[,;]/).map(k => k.trim()).filter(Boolean),
+        publicationTypes: [entry.type, ...(f('type') ? [f('type')!] : [])],
+        patentNumber: type === 'patent' ? withPatentOffice(f('number'), f('location')) : undefined,
+        nctId
+    };
+});
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../../types";
+import { CslItem, assignCitationKeys, exportCitations } from ".";
+
+const paper = (id: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: 'Effects of Semaglutide on Chronic Kidney Disease in Patients with Type 2 Diabetes',
+    journalOrConference: 'The New England journal of medicine',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic', 'Katherine R Tuttle'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: 'Summary unavailable.',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 90,
+    ...extra
+});
+
+const flow = paper('flow', { doi: '10.1056/NEJMoa2403347', pmid: '38785209', keywords: ['ckd'], abstract: 'Risk fell by 24% (P<0.001) & eGFR_slope improved.' });
+const patent = paper('patent-1', {
+    title: 'GLP-1 receptor agonist formulations',
+    journalOrConference: 'USPTO',
+    date: '2024-04-11',
+    authors: ['Novo Nordisk A/S'],
+    publicationType: PublicationType.Patent,
+    patent: {
+        office: 'US', publicationNumber: '11234567', kindCode: 'B2', status: 'grant', priorityDate: '2021-06-30',
+        cpcClasses: [], ipcClasses: [], familyMembers: []
+    }
+});
+
+describe('citation keys', () => {
+    it('suffixes colliding keys in paper-id order, whatever the selection order', () => {
+        const a = paper('b-id');
+        const b = paper('a-id');
+        const keys = assignCitationKeys([a, b, paper('other', { authors: ['Tuttle KR'] })]);
+        expect(Object.fromEntries(keys)).toEqual({ 'a-id': 'perkovic2024semaglutidea', 'b-id': 'perkovic2024semaglutideb', other: 'tuttle2024semaglutide' });
+        expect(assignCitationKeys([b, a])).toEqual(assignCitationKeys([a, b]));
+    });
+});
+
+describe('citation export', () => {
+    it('writes patents with each format\'s patent type, number and office', () => {
+        expect(exportCitations([patent], 'bibtex')).toContain('@patent{novo2024glp,');
+        expect(exportCitations([patent], 'bibtex')).toMatch(/holder = \{\{Novo Nordisk A\/S\}\},[\s\S]*number = \{US11234567B2\},\n {2}type = \{patentus\},\n {2}location = \{US\}/);
+        expect(exportCitations([patent], 'ris').split('\r\n')).toEqual(expect.arrayContaining(['TY  - PAT', 'PB  - Novo Nordisk A/S', 'CY  - US', 'M1  - US11234567B2', 'M3  - Granted patent', 'Y2  - 2021/06/30']));
+        expect(JSON.parse(exportCitations([patent], 'csl-json'))[0]).toMatchObject({ type: 'patent', number: 'US11234567B2', authority: 'US', status: 'grant', author: [{ literal: 'Novo Nordisk A/S' }] });
+        expect(exportCitations([patent], 'endnote-xml')).toContain('<ref-type name="Patent">25</ref-type>');
+    });
+
+    it('writes only the part of a date that is known', () => {
+        const monthOnly = paper('m', { date: '2024-03-01', dateInfo: { kind: 'print', source: 'registry', confidence: 'high', precision: 'month' } });
+        const yearOnly = paper('y', { date: '2024-12-31', dateInfo: { kind: 'print', source: 'registry', confidence: 'high', precision: 'year' } });
+        const [month, year] = JSON.parse(exportCitations([monthOnly, yearOnly], 'csl-json')) as CslItem[];
+        expect(month.issued).toEqual({ 'date-parts': [[2024, 3]] });
+        expect(year.issued).toEqual({ 'date-parts': [[2024]] });
+        expect(exportCitations([yearOnly], 'bibtex')).not.toMatch(/\bdate = |\bmonth = /);
+        expect(exportCitations([yearOnly], 'ris')).not.toContain('DA  - ');
+    });
+
+    it('escapes BibTeX specials and keeps braces balanced', () => {
+        const bibtex = exportCitations([paper('x', { title: 'C++ {draft} ~50% & $5 #1 a_b \\ c^2' })], 'bibtex');
+        expect(bibtex).toContain('title = {{C++ \\{draft\\} \\textasciitilde{}50\\% \\& \\$5 \\#1 a\\_b \\textbackslash{} c\\textasciicircum{}2}}');
+        const unescaped = bibtex.replace(/\\[{}]/g, '');
+        expect(unescaped.split('{').length).toBe(unescaped.split('}').length);
+    });
+
+    it('writes EndNote XML that parses back to the same fields', () => {
+        const xml = exportCitations([flow, patent], 'endnote-xml');
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        expect(doc.querySelector('parsererror')).toBeNull();
+
+        const [article, granted] = Array.from(doc.querySelectorAll('record'));
+        const text = (record: Element, selector: string) => Array.from(record.querySelectorAll(selector)).map(e => e.textContent);
+        expect(text(article, 'titles > title')).toEqual([flow.title]);
+        expect(text(article, 'authors > author')).toEqual(['Perkovic, Vlado', 'Tuttle, Katherine R']);
+        expect(text(article, 'periodical > full-title')).toEqual(['The New England journal of medicine']);
+        expect(text(article, 'dates pub-dates date')).toEqual(['2024-05-24']);
+        expect(text(article, 'electronic-resource-num')).toEqual(['10.1056/NEJMoa2403347']);
+        expect(text(article, 'accession-num')).toEqual(['38785209']);
+        expect(text(article, 'abstract')).toEqual([flow.abstract]);
+        expect(text(granted, 'isbn')).toEqual(['US11234567B2']);
+        expect(text(granted, 'publisher')).toEqual(['Novo Nordisk A/S']);
+        expect(text(granted, 'authors > author')).toEqual([]);
+    });
+});
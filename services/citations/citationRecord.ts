@@ -0,0 +1,192 @@
+import { DateProvenance, PaperData, PublicationType } from "../../types";
+import { formatPublicationNumber } from "../patents";
+
+// --- CITATION RECORDS ---
+// Every export format is written from one normalized record, so a paper maps to the same entry type,
+// names and key in BibTeX, RIS, CSL-JSON and EndNote XML. Imports go the other way: each parser reads
+// its format into an ImportedReference (see referenceImport.ts).
+
+export type CitationType = 'article' | 'review' | 'preprint' | 'conference' | 'patent' | 'trial-registration' | 'news';
+
+export interface CitationName {
+    family?: string;
+    given?: string;
+    literal?: string; // Organizations: sponsors, assignees, study groups
+}
+
+export interface CitationRecord {
+    key: string;
+    type: CitationType;
+    title: string;
+    authors: CitationName[];
+    authorsTruncated: boolean; // The source list ended in "et al."
+    container?: string; // Journal, conference, preprint server, patent office or registry
+    date?: string; // YYYY-MM-DD, YYYY-MM when only the month is known; absent when only the year is
+    datePrecision?: DateProvenance['precision'];
+    year?: string;
+    doi?: string;
+    pmid?: string;
+    pmcid?: string;
+    url?: string;
+    pdfUrl?: string;
+    abstract?: string;
+    keywords: string[];
+    patent?: { number: string; office: string; kindCode?: string; status: string; priorityDate?: string; filingDate?: string; assignees: string[] };
+    trial?: { nctId: string; phase: string; status: string };
+}
+
+const TYPE_BY_PUBLICATION: Record<PublicationType, CitationType> = {
+    [PublicationType.PeerReviewed]: 'article',
+    [PublicationType.MetaAnalysis]: 'article',
+    [PublicationType.ReviewArticle]: 'review',
+    [PublicationType.Preprint]: 'preprint',
+    [PublicationType.ConferenceAbstract]: 'conference',
+    [PublicationType.Poster]: 'conference',
+    [PublicationType.Patent]: 'patent',
+    [PublicationType.TrialRegistration]: 'trial-registration',
+    [PublicationType.News]: 'news'
+};
+
+export const citationTypeOf = (paper: PaperData): CitationType =>
+    paper.patent ? 'patent' : paper.trial ? 'trial-registration' : TYPE_BY_PUBLICATION[paper.publicationType] ?? 'article';
+
+const ORGANIZATION_WORDS = /\b(group|investigators|consortium|committee|collaboration|inc|ltd|llc|gmbh|corp|corporation|company|university|institute|pharma\w*|therapeutics|a\/s|ag|plc|foundation|council|network)\b/i;
+const ET_AL = /^et\.?\s*al\.?$/i;
+
+// "Doe, Jane" / "Jane A. Doe" / "V. Perkovic" / PubMed-style "Perkovic V"
+export const splitName = (raw: string): CitationName => {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    if (ORGANIZATION_WORDS.test(name)) return { literal: name };
+    if (name.includes(',')) {
+        const [family, ...rest] = name.split(',');
+        return { family: family.trim(), given: rest.join(',').trim() || undefined };
+    }
+    const parts = name.split(' ');
+    if (parts.length === 1) return { family: name };
+    const last = parts[parts.length - 1];
+    if (/^[A-Z]{1,3}$/.test(last)) return { family: parts.slice(0, -1).join(' '), given: last.split('').join('. ') + '.' };
+    return { family: last, given: parts.slice(0, -1).join(' ') };
+};
+
+const asciiFold = (s: string) => s.normalize('NFKD').replace(/[̀-ͯ]/g, '');
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'in', 'on', 'for', 'and', 'with', 'to', 'at', 'by', 'from', 'effects', 'effect']);
+
+// firstauthor + year + first significant title word, e.g. "perkovic2024semaglutide"
+export const baseCitationKey = (paper: PaperData): string => {
+    const first = paper.authors.find(a => !ET_AL.test(a.trim()));
+    const name = first ? splitName(first) : undefined;
+    const author = asciiFold(name?.family || name?.literal?.split(' ')[0] || 'anon').toLowerCase().replace(/[^a-z0-9]/g, '');
+    const year = paper.date?.match(/^\d{4}/)?.[0] || 'nd';
+    const word = asciiFold(paper.title).toLowerCase().split(/[^a-z0-9]+/).find(w => w.length > 2 && !STOP_WORDS.has(w)) || '';
+    return `${author || 'anon'}${year}${word}`;
+};
+
+// Keys that collide within an export get a/b/c suffixes in paper-id order, so exporting the same set
+// twice gives the same keys
+export const assignCitationKeys = (papers: PaperData[]): Map<string, string> => {
+    const byBase = new Map<string, string[]>();
+    papers.forEach(p => {
+        const base = baseCitationKey(p);
+        byBase.set(base, [...(byBase.get(base) || []), p.id]);
+    });
+    const keys = new Map<string, string>();
+    for (const [base, ids] of byBase) {
+        const unique = Array.from(new Set(ids)).sort();
+        unique.forEach((id, i) => keys.set(id, unique.length === 1 ? base : `${base}${String.fromCharCode(97 + (i % 26))}${i >= 26 ? Math.floor(i / 26) : ''}`));
+    }
+    return keys;
+};
+
+export const toCitationRecord = (paper: PaperData, key: string): CitationRecord => {
+    const type = citationTypeOf(paper);
+    const names = paper.authors.filter(a => a.trim() && !ET_AL.test(a.trim()));
+    // Patent "authors" are assignees and trial "authors" sponsors: organizations, never split
+    const asOrganizations = type === 'patent' || type === 'trial-registration';
+    // A filled-in day or month is not written out: "2024" stays a year, "2024 Mar" a month
+    const precision = paper.dateInfo?.precision ?? 'day';
+    const fullDate = /^\d{4}-\d{2}-\d{2}$/.test(paper.date) ? paper.date : undefined;
+    const date = precision === 'year' ? undefined : precision === 'month' ? fullDate?.slice(0, 7) : fullDate;
+    const patent = paper.patent;
+    return {
+        key,
+        type,
+        title: paper.title,
+        authors: names.map(n => asOrganizations ? { literal: n } : splitName(n)),
+        authorsTruncated: paper.authors.some(a => ET_AL.test(a.trim())),
+        container: paper.journalOrConference || undefined,
+        date,
+        datePrecision: fullDate ? precision : undefined,
+        year: paper.date?.match(/^\d{4}/)?.[0],
+        doi: paper.doi,
+        pmid: paper.pmid,
+        pmcid: paper.pmcid,
+        url: paper.url,
+        pdfUrl: paper.openAccess?.pdfUrl,
+        abstract: paper.abstract || (paper.abstractHighlight && paper.abstractHighlight !== 'Summary unavailable.' ? paper.abstractHighlight : undefined),
+        keywords: paper.keywords || [],
+        patent: patent ? {
+            number: formatPublicationNumber(patent),
+            office: patent.office,
+            kindCode: patent.kindCode,
+            status: patent.status,
+            priorityDate: patent.priorityDate,
+            filingDate: patent.filingDate,
+            assignees: names
+        } : undefined,
+        trial: paper.trial ? { nctId: paper.trial.nctId, phase: paper.trial.phase, status: paper.trial.status } : undefined
+    };
+};
+
+export const toCitationRecords = (papers: PaperData[]): CitationRecord[] => {
+    const keys = assignCitationKeys(papers);
+    return papers.map(p => toCitationRecord(p, keys.get(p.id)!));
+};
+
+// --- IMPORTED REFERENCES ---
+
+// One entry read from a library file, before it becomes a PaperData
+export interface ImportedReference {
+    type: CitationType;
+    title: string;
+    authors: string[]; // "Family, Given" or an organization, as written; patent assignees for patents
+    container?: string;
+    date?: string; // YYYY-MM-DD
+    datePrecision?: DateProvenance['precision'];
+    doi?: string;
+    pmid?: string;
+    pmcid?: string;
+    url?: string;
+    abstract?: string;
+    keywords: string[];
+    publicationTypes: string[]; // Type labels as written: RIS TY, BibTeX entry type, MEDLINE PT, CSL type
+    patentNumber?: string; // With office prefix, e.g. "US11234567B2"
+    priorityDate?: string;
+    nctId?: string;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Library dates as written: "2024-05-24", "2024/05/24/", "2024 May 24", "20240524", "2024 May", "2024".
+// As elsewhere, a missing day is the 1st and a bare year its last day (or today, if sooner).
+export const readReferenceDate = (raw?: string): { date: string; precision: DateProvenance['precision'] } | undefined => {
+    const text = raw?.trim();
+    if (!text) return undefined;
+    const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+    const match = compact || text.match(/^(\d{4})(?:[-/ ]+(\d{1,2}|[A-Za-z]{3,})\.?(?:[-/ ]+(\d{1,2}))?)?/);
+    if (!match) return undefined;
+    const year = Number(match[1]);
+    const month = match[2] ? (/^\d+$/.test(match[2]) ? Number(match[2]) : MONTH_NAMES.indexOf(match[2].slice(0, 3).toLowerCase()) + 1) : 0;
+    const day = match[3] ? Number(match[3]) : 0;
+    if (month < 1 || month > 12) {
+        const today = new Date().toISOString().slice(0, 10);
+        const yearEnd = `${year}-12-31`;
+        return { date: yearEnd < today ? yearEnd : today, precision: 'year' };
+    }
+    if (day < 1 || day > 31) return { date: `${year}-${pad(month)}-01`, precision: 'month' };
+    return { date: `${year}-${pad(month)}-${pad(day)}`, precision: 'day' };
+};
+
+// Libraries often keep a bare patent number with the office in a separate field
+export const withPatentOffice = (number?: string, office?: string): string | undefined =>
+    number && /^\d/.test(number.trim()) && office && /^[A-Z]{2}$/.test(office.trim()) ? `${office.trim()}${number.trim()}` : number?.trim();
@@ -0,0 +1,146 @@
+import { CitationName, CitationRecord, CitationType, ImportedReference, readReferenceDate, withPatentOffice } from "./citationRecord";
+
+// --- CSL-JSON ---
+// The citeproc item schema (https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html).
+// Patents use type "patent" with the number and issuing authority; assignees are listed as authors,
+// which is how Zotero exports them.
+
+export interface CslName {
+    family?: string;
+    given?: string;
+    literal?: string;
+}
+
+export interface CslDate {
+    'date-parts'?: (number | string)[][];
+    raw?: string;
+    literal?: string;
+}
+
+export interface CslItem {
+    id: string;
+    type: string;
+    title: string;
+    author?: CslName[];
+    'container-title'?: string;
+    authority?: string;
+    number?: string;
+    genre?: string;
+    status?: string;
+    issued?: CslDate;
+    submitted?: CslDate;
+    DOI?: string;
+    PMID?: string;
+    PMCID?: string;
+    URL?: string;
+    abstract?: string;
+    keyword?: string;
+    note?: string;
+}
+
+const CSL_TYPES: Record<CitationType, string> = {
+    'article': 'article-journal',
+    'review': 'article-journal',
+    'preprint': 'article',
+    'conference': 'paper-conference',
+    'news': 'article-newspaper',
+    'patent': 'patent',
+    'trial-registration': 'webpage'
+};
+
+const dateParts = (date?: string, year?: string): CslDate | undefined => {
+    if (date) return { 'date-parts': [date.split('-').map(Number)] };
+    return year ? { 'date-parts': [[Number(year)]] } : undefined;
+};
+
+const toCslName = (name: CitationName): CslName =>
+    name.literal ? { literal: name.literal } : { family: name.family, given: name.given };
+
+export const toCslItem = (record: CitationRecord): CslItem => {
+    const item: CslItem = {
+        id: record.key,
+        type: CSL_TYPES[record.type],
+        title: record.title,
+        author: record.authors.length ? record.authors.map(toCslName) : undefined,
+        'container-title': record.type === 'patent' ? undefined : record.container,
+        issued: dateParts(record.date, record.year),
+        DOI: record.doi,
+        PMID: record.pmid,
+        PMCID: record.pmcid,
+        URL: record.url,
+        abstract: record.abstract,
+        keyword: record.keywords.join(', ') || undefined
+    };
+    if (record.type === 'preprint') item.genre = 'Preprint';
+    if (record.patent) {
+        item.number = record.patent.number;
+        item.authority = record.patent.office;
+        item.status = record.patent.status === 'unknown' ? undefined : record.patent.status;
+        item.submitted = dateParts(record.patent.filingDate);
+        item.note = record.patent.priorityDate ? `Priority date: ${record.patent.priorityDate}` : undefined;
+    }
+    if (record.trial) {
+        item.number = record.trial.nctId;
+        item.genre = 'Clinical trial registration';
+        item.status = record.trial.status || undefined;
+        item.note = record.trial.phase || undefined;
+    }
+    // JSON.stringify drops the undefined fields
+    return item;
+};
+
+export const toCslJson = (records: CitationRecord[]): string => JSON.stringify(records.map(toCslItem), null, 2);
+
+// --- CSL-JSON IMPORT ---
+
+const TYPES_BY_CSL: Record<string, CitationType> = {
+    'article-journal': 'article',
+    'article': 'preprint', // CSL's type for preprints and working papers
+    'manuscript': 'preprint',
+    'paper-conference': 'conference',
+    'speech': 'conference',
+    'patent': 'patent',
+    'article-newspaper': 'news',
+    'article-magazine': 'news'
+};
+
+const readCslDate = (date?: CslDate): ReturnType<typeof readReferenceDate> => {
+    const parts = date?.['date-parts']?.[0];
+    if (parts?.length) return readReferenceDate(parts.map(String).join('-'));
+    return readReferenceDate(date?.raw || date?.literal);
+};
+
+const cslName = (name: CslName): string =>
+    name.literal || [name.family, name.given].filter(Boolean).join(', ');
+
+// Accepts an array of items or a single item; throws on malformed JSON
+export const parseCslJson = (text: string): ImportedReference[] => {
+    const parsed: unknown = JSON.parse(text);
+    const items = (Array.isArray(parsed) ? parsed : [parsed]).filter((i): i is CslItem => !!i && typeof i === 'object');
+    return items.map(item => {
+        const nctId = [item.number, item.URL, item.title].map(v => v?.match(/\bNCT\d{8}\b/i)?.[0]).find(Boolean)?.toUpperCase();
+        const genre = (item.genre || '').toLowerCase();
+        const type: CitationType = genre === 'preprint' ? 'preprint'
+            : nctId && (item.type === 'webpage' || item.type === 'dataset') ? 'trial-registration'
+            : TYPES_BY_CSL[item.type] ?? 'article';
+        const date = readCslDate(item.issued);
+        const keywords = item.keyword ? String(item.keyword).split(/[,;]/).map(k => k.trim()).filter(Boolean) : [];
+        return {
+            type,
+            title: item.title ? String(item.title).trim() : '',
+            authors: (item.author || []).map(cslName).filter(Boolean),
+            container: item['container-title'] || undefined,
+            date: date?.date,
+            datePrecision: date?.precision,
+            doi: item.DOI?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+            pmid: item.PMID ? String(item.PMID) : undefined,
+            pmcid: item.PMCID?.toUpperCase(),
+            url: item.URL,
+            abstract: item.abstract,
+            keywords,
+            publicationTypes: [item.type, ...(item.genre ? [item.genre] : [])],
+            patentNumber: type === 'patent' ? withPatentOffice(item.number, item.authority) : undefined,
+            nctId
+        };
+    });
+};
@@ -0,0 +1,62 @@
+import { CitationName, CitationRecord, CitationType } from "./citationRecord";
+
+// --- ENDNOTE XML ---
+// The <xml><records> layout EndNote writes with File > Export > XML. ref-type numbers are EndNote's
+// own: 17 Journal Article, 25 Patent, 47 Conference Paper ... For patents EndNote reads the patent
+// number from <isbn> ("Patent Number"), the assignee from <publisher> and the office from <pub-location>.
+
+const REF_TYPES: Record<CitationType, { id: number; name: string }> = {
+    'article': { id: 17, name: 'Journal Article' },
+    'review': { id: 17, name: 'Journal Article' },
+    'preprint': { id: 43, name: 'Manuscript' },
+    'conference': { id: 47, name: 'Conference Paper' },
+    'news': { id: 23, name: 'Newspaper Article' },
+    'patent': { id: 25, name: 'Patent' },
+    'trial-registration': { id: 12, name: 'Web Page' }
+};
+
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // XML 1.0 forbids most control characters even when escaped
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const styled = (value: string) => `<style face="normal" font="default" size="100%">${escapeXml(value)}</style>`;
+
+const element = (name: string, value?: string): string => value ? `<${name}>${styled(value)}</${name}>` : '';
+
+const formatName = (name: CitationName): string =>
+    name.literal ? `${name.literal},` : [name.family, name.given].filter(Boolean).join(', ');
+
+export const toEndnoteRecord = (record: CitationRecord, recNumber: number): string => {
+    const refType = REF_TYPES[record.type];
+    const patent = record.patent;
+    const authors = patent ? [] : record.authors;
+    const parts = [
+        `<rec-number>${recNumber}</rec-number>`,
+        `<ref-type name="${refType.name}">${refType.id}</ref-type>`,
+        authors.length ? `<contributors><authors>${authors.map(a => `<author>${styled(formatName(a))}</author>`).join('')}</authors></contributors>` : '',
+        `<titles>${element('title', record.title)}${element('secondary-title', patent ? undefined : record.container)}</titles>`,
+        record.type === 'article' || record.type === 'review' ? `<periodical>${element('full-title', record.container)}</periodical>` : '',
+        record.keywords.length ? `<keywords>${record.keywords.map(k => `<keyword>${styled(k)}</keyword>`).join('')}</keywords>` : '',
+        record.year ? `<dates><year>${styled(record.year)}</year>${record.date ? `<pub-dates><date>${styled(record.date)}</date></pub-dates>` : ''}</dates>` : '',
+        element('publisher', patent ? patent.assignees.join('; ') : undefined),
+        element('pub-location', patent?.office),
+        element('isbn', patent?.number ?? record.trial?.nctId),
+        element('work-type', patent ? (patent.status === 'grant' ? 'Granted patent' : patent.status === 'application' ? 'Patent application' : undefined) : record.type === 'preprint' ? 'Preprint' : undefined),
+        element('accession-num', record.pmid),
+        element('electronic-resource-num', record.doi),
+        element('abstract', record.abstract),
+        element('notes', patent?.priorityDate ? `Priority date: ${patent.priorityDate}` : record.trial ? [record.trial.phase, record.trial.status].filter(Boolean).join('; ') : undefined),
+        record.url || record.pdfUrl ? `<urls>${record.url ? `<related-urls><url>${styled(record.url)}</url></related-urls>` : ''}${record.pdfUrl ? `<pdf-urls><url>${styled(record.pdfUrl)}</url></pdf-urls>` : ''}</urls>` : '',
+        element('custom2', record.pmcid)
+    ];
+    return `<record>${parts.join('')}</record>`;
+};
+
+export const toEndnoteXml = (records: CitationRecord[]): string =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n<xml><records>\n${records.map((r, i) => toEndnoteRecord(r, i + 1)).join('\n')}\n</records></xml>\n`;
@@ -0,0 +1,31 @@
+import { PaperData } from "../../types";
+import { toCitationRecords } from "./citationRecord";
+import { toBibtex } from "./bibtex";
+import { toRis } from "./ris";
+import { toCslJson } from "./cslJson";
+import { toEndnoteXml } from "./endnoteXml";
+
+export { toCitationRecord, toCitationRecords, assignCitationKeys, baseCitationKey, splitName, readReferenceDate, withPatentOffice } from "./citationRecord";
+export type { CitationRecord, CitationName, CitationType, ImportedReference } from "./citationRecord";
+export type { CslItem, CslName, CslDate } from "./cslJson";
+export { parseRis } from "./ris";
+export { parseBibtex, latexToText } from "./bibtex";
+export { parseNbib } from "./nbib";
+export { parseCslJson } from "./cslJson";
+export { IMPORT_FORMATS, detectImportFormat, parseReferenceLibrary, referenceToPaper, scoreImportedPaper, buildImportPreview, sameWork } from "./referenceImport";
+export type { ImportFormat, ParsedLibrary, ImportListing, ImportPreviewItem } from "./referenceImport";
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json' | 'endnote-xml';
+
+export const CITATION_FORMATS: Record<CitationFormat, { label: string; extension: string; mimeType: string }> = {
+    'bibtex': { label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+    'ris': { label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+    'csl-json': { label: 'CSL-JSON', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+    'endnote-xml': { label: 'EndNote XML', extension: 'xml', mimeType: 'application/xml' }
+};
+
+const WRITERS = { 'bibtex': toBibtex, 'ris': toRis, 'csl-json': toCslJson, 'endnote-xml': toEndnoteXml };
+
+// Keys are assigned over the whole set, so the same selection always exports with the same keys
+export const exportCitations = (papers: PaperData[], format: CitationFormat): string =>
+    WRITERS[format](toCitationRecords(papers));
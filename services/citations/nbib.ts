@@ -0,0 +1,65 @@
+import { CitationType, ImportedReference, readReferenceDate } from "./citationRecord";
+
+// --- PUBMED MEDLINE / NBIB IMPORT ---
+// PubMed's "Citation manager" and MEDLINE downloads: a four-character tag, "- ", then the value, with
+// continuation lines indented six spaces. Records start at PMID and are separated by a blank line.
+// https://www.nlm.nih.gov/bsd/mms/medlineelements.html
+
+const readNbibRecords = (text: string): [string, string][][] => {
+    const records: [string, string][][] = [];
+    let current: [string, string][] = [];
+    for (const line of text.replace(/^﻿/, '').split(/\r?\n/)) {
+        const tagged = line.match(/^([A-Z]{2,4})\s*- (.*)$/);
+        if (tagged) {
+            if (tagged[1] === 'PMID' && current.length > 0) {
+                records.push(current);
+                current = [];
+            }
+            current.push([tagged[1], tagged[2].trim()]);
+        } else if (/^\s{2,}\S/.test(line) && current.length > 0) {
+            const last = current[current.length - 1];
+            last[1] = `${last[1]} ${line.trim()}`;
+        }
+    }
+    if (current.length > 0) records.push(current);
+    return records;
+};
+
+const nbibType = (publicationTypes: string[]): CitationType => {
+    const types = publicationTypes.map(t => t.toLowerCase());
+    if (types.includes('preprint')) return 'preprint';
+    if (types.some(t => t === 'news' || t === 'newspaper article')) return 'news';
+    if (types.some(t => t === 'congress' || t === 'meeting abstract')) return 'conference';
+    if (types.some(t => t === 'review' || t === 'systematic review')) return 'review';
+    return 'article';
+};
+
+// "10.1056/NEJMoa2403347 [doi]" in LID/AID
+const taggedId = (values: string[], kind: string): string | undefined =>
+    values.map(v => v.match(new RegExp(`^(\\S+)\\s*\\[${kind}\\]$`))?.[1]).find(Boolean);
+
+export const parseNbib = (text: string): ImportedReference[] => readNbibRecords(text).map(tags => {
+    const all = (name: string) => tags.filter(([tag, value]) => tag === name && value).map(([, value]) => value);
+    const first = (name: string) => all(name)[0];
+    const publicationTypes = all('PT');
+    // Electronic publication date is a full date; DP is often only "2024 Jul"
+    const date = readReferenceDate(first('DEP')) ?? readReferenceDate(first('DP'));
+    const pmid = first('PMID');
+    return {
+        type: nbibType(publicationTypes),
+        title: first('TI') || first('BTI') || '',
+        authors: [...(all('FAU').length ? all('FAU') : all('AU')), ...all('CN')],
+        container: first('JT') || first('TA'),
+        date: date?.date,
+        datePrecision: date?.precision,
+        doi: taggedId([...all('LID'), ...all('AID')], 'doi'),
+        pmid,
+        pmcid: first('PMC'),
+        url: pmid ? `https://pubmed.ncbi.nlm.nih.gov/${pmid}/` : undefined,
+        abstract: first('AB'),
+        // MeSH headings without major-topic stars and subheadings, then author keywords
+        keywords: Array.from(new Set([...all('MH').map(h => h.replace(/\*/g, '').split('/')[0].trim()), ...all('OT')])),
+        publicationTypes,
+        nctId: all('SI').map(s => s.match(/NCT\d{8}/)?.[0]).find(Boolean)
+    };
+});
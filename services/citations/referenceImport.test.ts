@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../../types";
+import { CitationFormat, ImportFormat, buildImportPreview, detectImportFormat, exportCitations, parseReferenceLibrary } from ".";
+
+const paper = (id: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: 'Effects of Semaglutide on Chronic Kidney Disease in Patients with Type 2 Diabetes',
+    journalOrConference: 'The New England journal of medicine',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic', 'Katherine R Tuttle'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: 'Summary unavailable.',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 90,
+    ...extra
+});
+
+const flow = paper('flow', {
+    doi: '10.1056/nejmoa2403347',
+    pmid: '38785209',
+    pmcid: 'PMC11234567',
+    url: 'https://www.nejm.org/doi/full/10.1056/NEJMoa2403347',
+    keywords: ['ckd', 'glp-1'],
+    abstract: 'Risk fell by 24% (P<0.001) & the eGFR_slope improved.'
+});
+const preprint = paper('preprint', {
+    title: 'Orforglipron in obesity: a dose-finding study',
+    journalOrConference: 'medRxiv',
+    date: '2024-03-01',
+    dateInfo: { kind: 'preprint-posted', source: 'registry', confidence: 'high', precision: 'month' },
+    authors: ['Sean Wharton'],
+    publicationType: PublicationType.Preprint,
+    doi: '10.1101/2024.03.01.24303000'
+});
+const patent = paper('patent', {
+    title: 'GLP-1 receptor agonist formulations',
+    journalOrConference: 'USPTO',
+    date: '2024-04-11',
+    authors: ['Novo Nordisk A/S'],
+    publicationType: PublicationType.Patent,
+    patent: {
+        office: 'US', publicationNumber: '11234567', kindCode: 'B2', status: 'grant', priorityDate: '2021-06-30',
+        cpcClasses: [], ipcClasses: [], familyMembers: []
+    }
+});
+const trial = paper('trial', {
+    title: 'A Study of Retatrutide in Participants With Obesity (TRIUMPH-1)',
+    journalOrConference: 'ClinicalTrials.gov',
+    date: '2023-05-12',
+    authors: ['Eli Lilly and Company'],
+    publicationType: PublicationType.TrialRegistration,
+    url: 'https://clinicaltrials.gov/study/NCT05929066',
+    trial: { nctId: 'NCT05929066', phase: 'Phase 3', status: 'Recruiting', sponsor: 'Eli Lilly and Company', interventions: [], conditions: [] }
+});
+
+const ROUND_TRIPS: [CitationFormat, ImportFormat, string][] = [
+    ['bibtex', 'bibtex', 'library.bib'],
+    ['ris', 'ris', 'library.ris'],
+    ['csl-json', 'csl-json', 'library.json']
+];
+
+describe('export → import round trip', () => {
+    for (const [exportFormat, importFormat, fileName] of ROUND_TRIPS) {
+        it(`reads back what it wrote as ${importFormat}`, () => {
+            const text = exportCitations([flow, preprint, patent, trial], exportFormat);
+            const { format, papers, issues } = parseReferenceLibrary(text, fileName);
+            expect(format).toBe(importFormat);
+            expect(issues).toEqual([]);
+
+            const [article, manuscript, granted, registration] = papers;
+            expect(article).toMatchObject({
+                id: 'doi:10.1056/nejmoa2403347',
+                title: flow.title,
+                journalOrConference: flow.journalOrConference,
+                date: '2024-05-24',
+                dateInfo: { precision: 'day', source: 'import' },
+                authors: ['Perkovic, Vlado', 'Tuttle, Katherine R'],
+                publicationType: PublicationType.PeerReviewed,
+                doi: flow.doi,
+                pmid: flow.pmid,
+                pmcid: flow.pmcid,
+                url: flow.url,
+                keywords: flow.keywords,
+                abstract: flow.abstract,
+                importedFrom: fileName
+            });
+            expect(manuscript).toMatchObject({ publicationType: PublicationType.Preprint, date: '2024-03-01', dateInfo: { precision: 'month' }, doi: preprint.doi });
+            expect(granted).toMatchObject({ publicationType: PublicationType.Patent, authors: ['Novo Nordisk A/S'], patent: { office: 'US', publicationNumber: '11234567', kindCode: 'B2', status: 'grant' } });
+            expect(registration).toMatchObject({ publicationType: PublicationType.TrialRegistration, trial: { nctId: 'NCT05929066' }, authors: ['Eli Lilly and Company'] });
+
+            // Importing an export of the same library again finds every entry already held
+            const preview = buildImportPreview(parseReferenceLibrary(text, fileName).papers, [{ label: 'Saved', papers }]);
+            expect(preview.map(p => p.duplicateOf?.match)).toEqual(['identifier', 'identifier', 'identifier', 'identifier']);
+        });
+    }
+
+    it('reads a PubMed nbib record as the same work the other formats export', () => {
+        const nbib = [
+            'PMID- 38785209',
+            'OWN - NLM',
+            'DP  - 2024 Jul 11',
+            'TI  - Effects of Semaglutide on Chronic Kidney Disease in Patients with Type 2',
+            '      Diabetes.',
+            'LID - 10.1056/NEJMoa2403347 [doi]',
+            'AB  - Risk fell by 24% (P<0.001) & the eGFR_slope improved.',
+            'FAU - Perkovic, Vlado',
+            'AU  - Perkovic V',
+            'FAU - Tuttle, Katherine R',
+            'AU  - Tuttle KR',
+            'CN  - FLOW Trial Committees and Investigators',
+            'PT  - Journal Article',
+            'PT  - Randomized Controlled Trial',
+            'DEP - 20240524',
+            'TA  - N Engl J Med',
+            'JT  - The New England journal of medicine',
+            'MH  - *Diabetes Mellitus, Type 2/drug therapy',
+            'MH  - Renal Insufficiency, Chronic',
+            'OT  - ckd',
+            'SI  - ClinicalTrials.gov/NCT03819153',
+            'PMC - PMC11234567',
+            ''
+        ].join('\n');
+        const { format, papers } = parseReferenceLibrary(nbib, 'pubmed-export.txt');
+        expect(format).toBe('nbib');
+        expect(papers[0]).toMatchObject({
+            id: 'doi:10.1056/nejmoa2403347',
+            title: 'Effects of Semaglutide on Chronic Kidney Disease in Patients with Type 2 Diabetes.',
+            date: '2024-05-24',
+            authors: ['Perkovic, Vlado', 'Tuttle, Katherine R', 'FLOW Trial Committees and Investigators'],
+            pmid: '38785209',
+            pmcid: 'PMC11234567',
+            keywords: ['Diabetes Mellitus, Type 2', 'Renal Insufficiency, Chronic', 'ckd'],
+            nctIds: ['NCT03819153'],
+            url: 'https://pubmed.ncbi.nlm.nih.gov/38785209/'
+        });
+
+        const exported = parseReferenceLibrary(exportCitations([flow], 'ris'), 'library.ris').papers;
+        expect(buildImportPreview(papers, [{ label: 'Saved', papers: exported }])[0].duplicateOf).toMatchObject({ label: 'Saved', match: 'identifier' });
+    });
+});
+
+describe('detectImportFormat', () => {
+    it('goes by the file extension first', () => {
+        expect(detectImportFormat('', 'refs.BIB')).toBe('bibtex');
+        expect(detectImportFormat('', 'refs.medline')).toBe('nbib');
+        expect(detectImportFormat('TY  - JOUR', 'refs.json')).toBe('csl-json');
+    });
+
+    it('reads the content of .txt and unnamed files', () => {
+        expect(detectImportFormat('﻿\n[{"type":"article-journal"}]', 'export.txt')).toBe('csl-json');
+        expect(detectImportFormat('\nPMID- 38785209\nTI  - Title', 'pubmed-set.txt')).toBe('nbib');
+        expect(detectImportFormat('TY  - JOUR\r\nTI  - Title\r\nER  - ', 'export.txt')).toBe('ris');
+        expect(detectImportFormat('% Zotero\n@article{perkovic2024, title = {Title}}')).toBe('bibtex');
+        expect(detectImportFormat('Just some notes about papers', 'notes.txt')).toBeNull();
+    });
+
+    it('reports a file it cannot place instead of guessing', () => {
+        expect(parseReferenceLibrary('Just some notes', 'notes.txt')).toEqual({
+            format: null, papers: [], issues: ['Could not tell the format of notes.txt; expected RIS, BibTeX, PubMed nbib or CSL-JSON']
+        });
+        expect(parseReferenceLibrary('[{"title": ', 'broken.json').issues[0]).toMatch(/^CSL-JSON could not be read: /);
+    });
+});
+
+describe('buildImportPreview', () => {
+    const imported = (extra: Partial<PaperData>) => paper('', { context: 'Imported from library.ris', ...extra });
+
+    it('reports entries already held by identifier or by title, with the listing that holds them', () => {
+        const archived = paper('doi:10.1056/nejmoa2403347', { doi: '10.1056/nejmoa2403347' });
+        const saved = paper('title:tirzepatide', { title: 'Tirzepatide Once Weekly for the Treatment of Obesity', authors: ['Ania M Jastreboff'], date: '2022-06-04' });
+        const preview = buildImportPreview([
+            imported({ doi: '10.1056/NEJMoa2403347', title: 'FLOW' }),
+            imported({ title: 'Tirzepatide once weekly for the treatment of obesity.', authors: ['Jastreboff, Ania M'], date: '2022-07-21' }),
+            imported({ title: 'Retatrutide, a GIP, GLP-1 and glucagon receptor agonist, for obesity', authors: ['Jastreboff, Ania M'], date: '2023-06-26' })
+        ], [{ label: 'Archive', papers: [archived] }, { label: 'Saved', papers: [saved] }]);
+
+        expect(preview.map(p => p.duplicateOf && [p.duplicateOf.label, p.duplicateOf.paper.id, p.duplicateOf.match])).toEqual([
+            ['Archive', archived.id, 'identifier'],
+            ['Saved', saved.id, 'title'],
+            undefined
+        ]);
+    });
+
+    it('points entries repeated within the file at their first occurrence', () => {
+        const preview = buildImportPreview([
+            imported({ pmid: '38785209' }),
+            imported({ title: 'Orforglipron in obesity', pmid: '37351564' }),
+            imported({ pmid: '38785209', doi: '10.1056/nejmoa2403347' }),
+            imported({ title: 'Effects of semaglutide on chronic kidney disease in patients with type 2 diabetes' })
+        ], []);
+        expect(preview.map(p => p.repeatOf)).toEqual([undefined, undefined, 0, 0]);
+        expect(preview.every(p => !p.duplicateOf)).toBe(true);
+    });
+
+    it('reports a repeat and a duplicate together', () => {
+        const preview = buildImportPreview([imported({ pmid: '1' }), imported({ pmid: '1' })], [{ label: 'Collection: CKD', papers: [paper('pmid:1', { pmid: '1' })] }]);
+        expect(preview[1]).toMatchObject({ repeatOf: 0, duplicateOf: { label: 'Collection: CKD', match: 'identifier' } });
+    });
+});
@@ -0,0 +1,193 @@
+import { Methodology, PaperData, PatentDetails, PublicationType, ResearchModality, StudyType, TrialDetails } from "../../types";
+import { CitationType, ImportedReference } from "./citationRecord";
+import { parseRis } from "./ris";
+import { parseBibtex } from "./bibtex";
+import { parseNbib } from "./nbib";
+import { parseCslJson } from "./cslJson";
+import { canonicalIdFor, identityKeys, isFuzzyMatch } from "../identity";
+import { parsePatentNumber, patentNumberFromUrl, patentStatusFromKind } from "../patents";
+import { dateKindForPublication, paperDate, provenanceOf } from "../paperDates";
+import { computeScoreBreakdown } from "../scoring";
+import { extractNctIds } from "../sources";
+
+// --- REFERENCE IMPORT ---
+// Reads a reference library file into PaperData, then reports which entries are already known (in the
+// Archive, a feed, Saved or a collection) or repeated within the file, so nothing is committed unseen.
+// Taxonomy labels (topics, study type, modality) are left for the classifier agent; see
+// classifyImportedPapers in geminiService.ts.
+
+export type ImportFormat = 'ris' | 'bibtex' | 'nbib' | 'csl-json';
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; extensions: string[] }> = {
+    'ris': { label: 'RIS', extensions: ['ris'] },
+    'bibtex': { label: 'BibTeX', extensions: ['bib', 'bibtex'] },
+    'nbib': { label: 'PubMed (MEDLINE / nbib)', extensions: ['nbib', 'medline'] },
+    'csl-json': { label: 'CSL-JSON', extensions: ['json'] }
+};
+
+const PARSERS: Record<ImportFormat, (text: string) => ImportedReference[]> = {
+    'ris': parseRis,
+    'bibtex': parseBibtex,
+    'nbib': parseNbib,
+    'csl-json': parseCslJson
+};
+
+// By extension, then by content: PubMed's .txt downloads are MEDLINE, and .txt exports are often RIS
+export const detectImportFormat = (text: string, fileName = ''): ImportFormat | null => {
+    const extension = fileName.toLowerCase().split('.').pop() || '';
+    const byExtension = (Object.keys(IMPORT_FORMATS) as ImportFormat[]).find(f => IMPORT_FORMATS[f].extensions.includes(extension));
+    if (byExtension) return byExtension;
+    const head = text.replace(/^﻿/, '').trimStart().slice(0, 2000);
+    if (/^[[{]/.test(head)) return 'csl-json';
+    if (/^PMID- /m.test(head)) return 'nbib';
+    if (/^TY {2}- /m.test(head)) return 'ris';
+    if (/@\s*[a-zA-Z]+\s*[{(]/.test(head)) return 'bibtex';
+    return null;
+};
+
+const PUBLICATION_TYPES: Record<CitationType, PublicationType> = {
+    'article': PublicationType.PeerReviewed,
+    'review': PublicationType.ReviewArticle,
+    'preprint': PublicationType.Preprint,
+    'conference': PublicationType.ConferenceAbstract,
+    'news': PublicationType.News,
+    'patent': PublicationType.Patent,
+    'trial-registration': PublicationType.TrialRegistration
+};
+
+const publicationTypeOf = (reference: ImportedReference): PublicationType => {
+    const labels = reference.publicationTypes.map(t => t.toLowerCase());
+    if (reference.type === 'article' && labels.some(t => t.includes('meta-analysis'))) return PublicationType.MetaAnalysis;
+    if (reference.type === 'conference' && labels.some(t => t.includes('poster'))) return PublicationType.Poster;
+    return PUBLICATION_TYPES[reference.type];
+};
+
+const patentOf = (reference: ImportedReference): PatentDetails | undefined => {
+    const parsed = parsePatentNumber(reference.patentNumber || patentNumberFromUrl(reference.url));
+    if (!parsed) return undefined;
+    return {
+        office: parsed.office,
+        publicationNumber: parsed.number,
+        kindCode: parsed.kindCode,
+        status: patentStatusFromKind(parsed.office, parsed.kindCode),
+        priorityDate: reference.priorityDate,
+        cpcClasses: [],
+        ipcClasses: [],
+        familyMembers: []
+    };
+};
+
+const trialOf = (reference: ImportedReference): TrialDetails | undefined =>
+    reference.type === 'trial-registration' && reference.nctId ? {
+        nctId: reference.nctId,
+        phase: '',
+        status: '',
+        sponsor: reference.authors[0] || '',
+        interventions: [],
+        conditions: []
+    } : undefined;
+
+const firstSentence = (text?: string): string | undefined => text?.match(/^.*?[.!?](\s|$)/)?.[0].trim() || text?.slice(0, 240);
+
+// Library metadata is kept as written. Taxonomy fields get neutral defaults until the classifier runs;
+// the score is computed from the metadata (an import has no grounding evidence).
+export const referenceToPaper = (reference: ImportedReference, fileName: string): PaperData => {
+    const publicationType = publicationTypeOf(reference);
+    const patent = patentOf(reference);
+    const trial = trialOf(reference);
+    const dated = reference.date ? paperDate(reference.date, dateKindForPublication(publicationType), 'import', reference.datePrecision) : undefined;
+    const paper: PaperData = {
+        id: '',
+        title: reference.title,
+        journalOrConference: reference.container || (patent ? `${patent.office} Patent Office` : ''),
+        date: dated?.date || '',
+        dateInfo: dated ? provenanceOf(dated) : undefined,
+        otherDates: patent?.priorityDate ? [paperDate(patent.priorityDate, 'patent-priority', 'import')] : undefined,
+        authors: reference.authors.length > 0 ? reference.authors : ['Unknown'],
+        topics: [],
+        publicationType,
+        studyType: trial ? StudyType.ClinicalTrial : StudyType.PreClinical,
+        methodology: Methodology.Statistical,
+        modality: ResearchModality.Other,
+        abstractHighlight: firstSentence(reference.abstract) || 'Summary unavailable.',
+        drugAndTarget: 'N/A',
+        context: `Imported from ${fileName}`,
+        validationScore: 0,
+        url: reference.url || (reference.doi ? `https://doi.org/${reference.doi}` : undefined),
+        authorsVerified: false,
+        keywords: reference.keywords.length > 0 ? reference.keywords : undefined,
+        doi: reference.doi,
+        pmid: reference.pmid,
+        pmcid: reference.pmcid,
+        abstract: reference.abstract,
+        nctIds: Array.from(new Set([...(reference.nctId && !trial ? [reference.nctId] : []), ...extractNctIds(`${reference.title} ${reference.abstract || ''}`)])),
+        trial,
+        patent,
+        importedFrom: fileName
+    };
+    paper.id = canonicalIdFor(paper);
+    return scoreImportedPaper(paper);
+};
+
+// scorePaper leaves items without grounding evidence alone, so imports are scored here
+export const scoreImportedPaper = (paper: PaperData): PaperData => {
+    const scoreBreakdown = computeScoreBreakdown(paper);
+    return { ...paper, scoreBreakdown, validationScore: scoreBreakdown.reduce((sum, c) => sum + c.points, 0) };
+};
+
+export interface ParsedLibrary {
+    format: ImportFormat | null; // null when the file matched none of the formats
+    papers: PaperData[];
+    issues: string[]; // Entries that were skipped, and why
+}
+
+export const parseReferenceLibrary = (text: string, fileName: string, format: ImportFormat | null = detectImportFormat(text, fileName)): ParsedLibrary => {
+    if (!format) return { format: null, papers: [], issues: [`Could not tell the format of ${fileName}; expected RIS, BibTeX, PubMed nbib or CSL-JSON`] };
+    let references: ImportedReference[];
+    try {
+        references = PARSERS[format](text);
+    } catch (e) {
+        return { format, papers: [], issues: [`${IMPORT_FORMATS[format].label} could not be read: ${(e as Error).message}`] };
+    }
+    const issues: string[] = [];
+    const papers: PaperData[] = [];
+    references.forEach((reference, i) => {
+        if (!reference.title.trim()) issues.push(`Entry ${i + 1} has no title and was skipped`);
+        else papers.push(referenceToPaper(reference, fileName));
+    });
+    if (references.length === 0) issues.push(`No ${IMPORT_FORMATS[format].label} entries found in ${fileName}`);
+    return { format, papers, issues };
+};
+
+// --- DUPLICATE REPORT ---
+
+export interface ImportListing {
+    label: string; // "Archive", "Saved", "Collection: NASH library" ...
+    papers: PaperData[];
+}
+
+export interface ImportPreviewItem {
+    paper: PaperData;
+    duplicateOf?: { label: string; paper: PaperData; match: 'identifier' | 'title' };
+    repeatOf?: number; // Index of an earlier entry in the same file describing the same work
+}
+
+// How two records describe the same work: a shared DOI / PMID / NCT / patent key, or the fuzzy title rule
+export const sameWork = (a: PaperData, b: PaperData): 'identifier' | 'title' | null => {
+    const keys = new Set(identityKeys(a));
+    if (identityKeys(b).some(k => keys.has(k))) return 'identifier';
+    return isFuzzyMatch(a, b) ? 'title' : null;
+};
+
+// Each entry against everything already held, and against the entries before it in the same file
+export const buildImportPreview = (papers: PaperData[], listings: ImportListing[]): ImportPreviewItem[] =>
+    papers.map((paper, i) => {
+        const repeatOf = papers.slice(0, i).findIndex(earlier => sameWork(paper, earlier));
+        for (const listing of listings) {
+            for (const existing of listing.papers) {
+                const match = sameWork(paper, existing);
+                if (match) return { paper, duplicateOf: { label: listing.label, paper: existing, match }, repeatOf: repeatOf >= 0 ? repeatOf : undefined };
+            }
+        }
+        return { paper, repeatOf: repeatOf >= 0 ? repeatOf : undefined };
+    });
@@ -0,0 +1,124 @@
+import { CitationName, CitationRecord, CitationType, ImportedReference, readReferenceDate, withPatentOffice } from "./citationRecord";
+
+// --- RIS ---
+// Tags follow the RIS spec as Zotero, EndNote and Mendeley read it. Patents use TY PAT with the
+// assignee in PB, the office in CY and the publication number in M1 (EndNote's "Patent Number").
+
+const RIS_TYPES: Record<CitationType, string> = {
+    'article': 'JOUR',
+    'review': 'JOUR',
+    'preprint': 'UNPB',
+    'conference': 'CONF',
+    'news': 'NEWS',
+    'patent': 'PAT',
+    'trial-registration': 'ELEC'
+};
+
+const formatName = (name: CitationName): string =>
+    name.literal || [name.family, name.given].filter(Boolean).join(', ');
+
+// RIS has one value per line: newlines inside a value would start a bogus tag
+const tag = (name: string, value?: string): string[] => value ? [`${name}  - ${value.replace(/\s+/g, ' ').trim()}`] : [];
+
+export const toRisEntry = (record: CitationRecord): string => {
+    const lines: string[] = [
+        ...tag('TY', RIS_TYPES[record.type]),
+        ...tag('ID', record.key),
+        ...tag('TI', record.title)
+    ];
+    // Patent "authors" are the assignees; they go in PB below, not in AU
+    if (record.type !== 'patent') record.authors.forEach(a => lines.push(...tag('AU', formatName(a))));
+    if (record.type !== 'patent') lines.push(...tag('T2', record.container));
+    if (record.type === 'article' || record.type === 'review') lines.push(...tag('JO', record.container));
+    lines.push(...tag('PY', record.year));
+    lines.push(...tag('DA', record.date?.replace(/-/g, '/')));
+    lines.push(...tag('DO', record.doi));
+    lines.push(...tag('UR', record.url));
+    lines.push(...tag('L1', record.pdfUrl));
+    lines.push(...tag('AN', record.pmid));
+    lines.push(...tag('C2', record.pmcid));
+    if (record.patent) {
+        record.patent.assignees.forEach(a => lines.push(...tag('PB', a)));
+        lines.push(...tag('CY', record.patent.office));
+        lines.push(...tag('M1', record.patent.number));
+        lines.push(...tag('M3', record.patent.status === 'grant' ? 'Granted patent' : record.patent.status === 'application' ? 'Patent application' : undefined));
+        lines.push(...tag('Y2', record.patent.priorityDate?.replace(/-/g, '/')));
+    }
+    if (record.trial) {
+        lines.push(...tag('M1', record.trial.nctId));
+        lines.push(...tag('N1', [record.trial.phase, record.trial.status].filter(Boolean).join('; ')));
+    }
+    record.keywords.forEach(k => lines.push(...tag('KW', k)));
+    lines.push(...tag('AB', record.abstract));
+    lines.push('ER  - ');
+    return lines.join('\r\n');
+};
+
+// CRLF line ends: some EndNote versions reject RIS files without them
+export const toRis = (records: CitationRecord[]): string => records.map(toRisEntry).join('\r\n\r\n') + '\r\n';
+
+// --- RIS IMPORT ---
+
+const TYPES_BY_RIS: Record<string, CitationType> = {
+    JOUR: 'article', JFULL: 'article', MGZN: 'article', EJOUR: 'article',
+    NEWS: 'news',
+    UNPB: 'preprint', MANSCPT: 'preprint',
+    CONF: 'conference', CPAPER: 'conference', ABST: 'conference',
+    PAT: 'patent',
+    ELEC: 'article', WEB: 'article'
+};
+
+const NCT_ID = /\bNCT\d{8}\b/i;
+
+// One record's tags, in file order; continuation lines (no tag) extend the previous value
+const readRisRecords = (text: string): [string, string][][] => {
+    const records: [string, string][][] = [];
+    let current: [string, string][] | null = null;
+    for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        const tagged = line.match(/^([A-Z][A-Z0-9])  -( (.*))?$/);
+        if (tagged) {
+            const [, tag, , value = ''] = tagged;
+            if (tag === 'TY') current = [];
+            if (!current) continue;
+            if (tag === 'ER') {
+                records.push(current);
+                current = null;
+                continue;
+            }
+            current.push([tag, value.trim()]);
+        } else if (current && current.length > 0 && line.trim()) {
+            const last = current[current.length - 1];
+            last[1] = `${last[1]} ${line.trim()}`;
+        }
+    }
+    if (current && current.length > 0) records.push(current); // Missing final ER
+    return records;
+};
+
+export const parseRis = (text: string): ImportedReference[] => readRisRecords(text).map(tags => {
+    const all = (...names: string[]) => tags.filter(([tag, value]) => names.includes(tag) && value).map(([, value]) => value);
+    const first = (...names: string[]) => names.map(n => all(n)[0]).find(Boolean);
+    const typeTag = first('TY') || 'JOUR';
+    const nctId = [first('M1'), first('UR'), first('TI', 'T1')].map(v => v?.match(NCT_ID)?.[0]).find(Boolean)?.toUpperCase();
+    const type: CitationType = typeTag === 'ELEC' && nctId ? 'trial-registration' : TYPES_BY_RIS[typeTag] ?? 'article';
+    const date = readReferenceDate(first('DA')) ?? readReferenceDate(first('PY', 'Y1'));
+    const accession = first('AN');
+    return {
+        type,
+        title: first('TI', 'T1') || '',
+        authors: type === 'patent' && all('PB', 'A2').length ? all('PB', 'A2') : all('AU', 'A1'),
+        container: first('T2', 'JF', 'JO', 'BT', 'JA'),
+        date: date?.date,
+        datePrecision: date?.precision,
+        doi: first('DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+        pmid: accession && /^\d+$/.test(accession) ? accession : undefined,
+        pmcid: all('C2', 'AN').find(v => /^PMC\d+$/i.test(v))?.toUpperCase(),
+        url: first('UR'),
+        abstract: first('AB', 'N2'),
+        keywords: all('KW'),
+        publicationTypes: [typeTag, ...all('M3')],
+        patentNumber: type === 'patent' ? withPatentOffice(first('M1', 'SN'), first('CY')) : undefined,
+        priorityDate: type === 'patent' ? readReferenceDate(first('Y2'))?.date : undefined,
+        nctId
+    };
+});
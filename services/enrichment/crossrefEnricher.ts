@@ -0,0 +1,147 @@
+import { PaperData, DoiStatus, DateKind, PaperDate } from "../../types";
+import { HttpFetch, normalizeDoi } from "../sources";
+import { paperDate, primaryDate, provenanceOf } from "../paperDates";
+
+// --- CROSSREF DOI VERIFICATION ---
+// Resolves each paper's DOI against the Crossref registry (or a local stand-in at `baseUrl`).
+// Registry values replace whatever the model or the page scrape produced; papers whose DOI does not
+// resolve, or resolves to a different title, are flagged rather than silently trusted.
+// https://api.crossref.org/swagger-ui/index.html
+
+export interface CrossrefEnricherConfig {
+    fetch?: HttpFetch;
+    baseUrl?: string;
+    mailto?: string; // Joins Crossref's "polite" pool
+    titleMatchThreshold?: number; // 0-1 token overlap required to accept the registry record
+}
+
+export interface MetadataEnricher {
+    // Rejects when `signal` aborts; lookup failures leave the paper as it was
+    enrich(papers: PaperData[], signal?: AbortSignal): Promise<PaperData[]>;
+}
+
+interface CrossrefDateParts {
+    'date-parts'?: (number | null)[][];
+}
+
+interface CrossrefWork {
+    DOI: string;
+    title?: string[];
+    author?: { given?: string; family?: string; name?: string; affiliation?: { name: string }[] }[];
+    'container-title'?: string[];
+    publisher?: string;
+    'published-online'?: CrossrefDateParts;
+    'published-print'?: CrossrefDateParts;
+    'posted'?: CrossrefDateParts;
+    issued?: CrossrefDateParts;
+    funder?: { name: string; award?: string[] }[];
+}
+
+const tokenize = (s: string) => s.toLowerCase().replace(/<[^>]+>/g, '').replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(w => w.length > 2);
+
+// Share of the claimed title's tokens found in the registry title
+export const titleOverlap = (claimed: string, registry: string): number => {
+    const claimedTokens = tokenize(claimed);
+    if (claimedTokens.length === 0) return 0;
+    const registryTokens = new Set(tokenize(registry));
+    return claimedTokens.filter(t => registryTokens.has(t)).length / claimedTokens.length;
+};
+
+// Missing parts are filled like any other partial date: the 1st of the month, or the year's last day
+// (today, if sooner) for a bare year
+const toPaperDate = (parts: CrossrefDateParts | undefined, kind: DateKind): PaperDate | undefined => {
+    const [y, m, d] = parts?.['date-parts']?.[0] || [];
+    if (!y) return undefined;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    if (!m) {
+        const today = new Date().toISOString().split('T')[0];
+        const yearEnd = `${y}-12-31`;
+        return paperDate(yearEnd < today ? yearEnd : today, kind, 'registry', 'year');
+    }
+    return paperDate(`${y}-${pad(m)}-${pad(d || 1)}`, kind, 'registry', d ? 'day' : 'month');
+};
+
+const applyWork = (paper: PaperData, work: CrossrefWork, doi: string): PaperData => {
+    const authors = (work.author || [])
+        .map(a => a.name || [a.given, a.family].filter(Boolean).join(' '))
+        .filter(Boolean);
+    const affiliations = Array.from(new Set((work.author || []).flatMap(a => (a.affiliation || []).map(af => af.name))));
+    const funding = (work.funder || []).map(f => f.award?.length ? `${f.name} (${f.award.join(', ')})` : f.name).join('; ');
+    const date = toPaperDate(work['published-online'], 'epub') || toPaperDate(work['posted'], 'preprint-posted')
+        || toPaperDate(work['published-print'], 'print') || toPaperDate(work.issued, 'epub');
+    // The date it replaces stays on the record with its own provenance
+    const previous = primaryDate(paper);
+    const replaced = date && previous && previous.date !== date.date ? [previous] : [];
+
+    return {
+        ...paper,
+        doi,
+        doiStatus: 'resolved',
+        title: work.title?.[0]?.replace(/<[^>]+>/g, '').trim() || paper.title,
+        authors: authors.length > 0 ? authors : paper.authors,
+        authorsVerified: authors.length > 0,
+        journalOrConference: work['container-title']?.[0] || work.publisher || paper.journalOrConference,
+        date: date?.date || paper.date,
+        dateInfo: date ? provenanceOf(date) : paper.dateInfo,
+        otherDates: replaced.length > 0 ? [...replaced, ...(paper.otherDates || [])] : paper.otherDates,
+        affiliations: affiliations.length > 0 ? affiliations : paper.affiliations,
+        funding: funding || paper.funding,
+        // Registry-sourced links (PubMed, Europe PMC) are kept; model-proposed ones become the DOI resolver
+        url: paper.source ? paper.url : `https://doi.org/${doi}`
+    };
+};
+
+const flag = (paper: PaperData, status: DoiStatus): PaperData => ({ ...paper, doiStatus: status, authorsVerified: false });
+
+export const createCrossrefEnricher = (config: CrossrefEnricherConfig = {}): MetadataEnricher => {
+    const fetchImpl = config.fetch || fetch.bind(globalThis);
+    const base = config.baseUrl || 'https://api.crossref.org';
+    const threshold = config.titleMatchThreshold ?? 0.6;
+    const mailto = config.mailto ? `?mailto=${encodeURIComponent(config.mailto)}` : '';
+
+    const resolveOne = async (paper: PaperData, signal?: AbortSignal): Promise<PaperData> => {
+        const doi = normalizeDoi(paper.doi);
+        if (!doi) return paper.doi ? flag(paper, 'not-found') : paper;
+
+        let res: Response;
+        try {
+            res = await fetchImpl(`${base}/works/${encodeURIComponent(doi)}${mailto}`, { signal });
+        } catch (e: any) {
+            if (signal?.aborted) throw e;
+            // Network trouble says nothing about the DOI itself; leave the record as it was
+            console.warn(`[Crossref] Lookup failed for ${doi}: ${e.message}`);
+            return paper;
+        }
+
+        if (res.status === 404) return flag(paper, 'not-found');
+        if (!res.ok) {
+            console.warn(`[Crossref] ${doi} responded ${res.status}`);
+            return paper;
+        }
+
+        let body: { message?: CrossrefWork };
+        try {
+            body = await res.json();
+        } catch (e: any) {
+            if (signal?.aborted) throw e;
+            // A truncated or non-JSON body is the same kind of trouble as a failed request
+            console.warn(`[Crossref] Unreadable response for ${doi}: ${e.message}`);
+            return paper;
+        }
+        const work = body?.message;
+        if (!work) return flag(paper, 'not-found');
+
+        if (titleOverlap(paper.title, work.title?.[0] || '') < threshold) {
+            return { ...flag(paper, 'title-mismatch'), doi };
+        }
+        return applyWork(paper, work, doi);
+    };
+
+    return {
+        async enrich(papers: PaperData[], signal?: AbortSignal): Promise<PaperData[]> {
+            const enriched: PaperData[] = [];
+            for (const paper of papers) enriched.push(await resolveOne(paper, signal));
+            return enriched;
+        }
+    };
+};
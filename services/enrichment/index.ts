@@ -0,0 +1,25 @@
+import { createCrossrefEnricher, MetadataEnricher } from "./crossrefEnricher";
+import { createOpenAccessResolver, OpenAccessResolver } from "./openAccessResolver";
+import { createFixtureFetch } from "../sources";
+import crossrefFixtures from "./fixtures/crossref.json";
+import openAccessFixtures from "./fixtures/openaccess.json";
+
+export { createCrossrefEnricher, titleOverlap } from "./crossrefEnricher";
+export type { MetadataEnricher, CrossrefEnricherConfig } from "./crossrefEnricher";
+export { createOpenAccessResolver } from "./openAccessResolver";
+export type { OpenAccessResolver, OpenAccessResolverConfig } from "./openAccessResolver";
+
+// CROSSREF_BASE_URL points at a local stand-in; SOURCE_MODE=fixtures replays ./fixtures
+export const getDefaultEnricher = (): MetadataEnricher => createCrossrefEnricher({
+    fetch: process.env.SOURCE_MODE === 'fixtures' ? createFixtureFetch(crossrefFixtures) : undefined,
+    baseUrl: process.env.CROSSREF_BASE_URL,
+    mailto: process.env.CROSSREF_MAILTO
+});
+
+// UNPAYWALL_BASE_URL / EUROPEPMC_BASE_URL point at local stand-ins; SOURCE_MODE=fixtures replays ./fixtures
+export const getDefaultOpenAccessResolver = (): OpenAccessResolver => createOpenAccessResolver({
+    fetch: process.env.SOURCE_MODE === 'fixtures' ? createFixtureFetch(openAccessFixtures) : undefined,
+    unpaywallBaseUrl: process.env.UNPAYWALL_BASE_URL,
+    europePmcBaseUrl: process.env.EUROPEPMC_BASE_URL,
+    email: process.env.UNPAYWALL_EMAIL || process.env.CROSSREF_MAILTO
+});
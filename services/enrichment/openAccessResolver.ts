@@ -0,0 +1,148 @@
+import { OaStatus, OpenAccessInfo, PaperData } from "../../types";
+import { HttpFetch, normalizeDoi } from "../sources";
+
+// --- OPEN-ACCESS LINK RESOLUTION ---
+// Finds a free full-text or PDF copy of a paper and the license it is under. Unpaywall is asked first
+// (by DOI); items it has no free copy for, or that have no DOI, go to Europe PMC by DOI, PMID or PMCID.
+// Either service can be pointed at a local stand-in with `unpaywallBaseUrl` / `europePmcBaseUrl`.
+// https://unpaywall.org/products/api · https://europepmc.org/RestfulWebService
+
+export interface OpenAccessResolverConfig {
+    fetch?: HttpFetch;
+    unpaywallBaseUrl?: string;
+    europePmcBaseUrl?: string;
+    email?: string; // Unpaywall requires one on every request
+    now?: () => Date;
+}
+
+export interface OpenAccessResolver {
+    // The paper with `openAccess` set and `isPolished` true, or null when no service could be reached.
+    // A paper with no DOI, PMID or PMCID comes back as status 'unknown' from source 'none'.
+    resolve(paper: PaperData, signal?: AbortSignal): Promise<PaperData | null>;
+}
+
+interface UnpaywallLocation {
+    url?: string;
+    url_for_pdf?: string | null;
+    url_for_landing_page?: string | null;
+    license?: string | null;
+    host_type?: 'publisher' | 'repository';
+}
+
+interface UnpaywallResponse {
+    is_oa?: boolean;
+    oa_status?: OaStatus;
+    best_oa_location?: UnpaywallLocation | null;
+}
+
+interface EuropePmcFullTextUrl {
+    availabilityCode?: string; // OA, F (free), S (subscription)
+    documentStyle?: string; // pdf, html, doi
+    site?: string;
+    url: string;
+}
+
+interface EuropePmcOaResult {
+    pmcid?: string;
+    isOpenAccess?: 'Y' | 'N';
+    inEPMC?: 'Y' | 'N';
+    license?: string;
+    fullTextUrlList?: { fullTextUrl?: EuropePmcFullTextUrl[] };
+}
+
+type Lookup = Omit<OpenAccessInfo, 'resolvedAt'> | null; // null = the service could not be reached
+
+const fromUnpaywall = (body: UnpaywallResponse): Omit<OpenAccessInfo, 'resolvedAt'> => {
+    const location = body.best_oa_location;
+    if (!body.is_oa || !location) return { status: 'closed', source: 'unpaywall' };
+    const pdfUrl = location.url_for_pdf || undefined;
+    return {
+        status: body.oa_status && body.oa_status !== 'closed' ? body.oa_status : 'bronze',
+        license: location.license || undefined,
+        pdfUrl,
+        fullTextUrl: location.url_for_landing_page || (pdfUrl ? undefined : location.url),
+        hostType: location.host_type,
+        source: 'unpaywall'
+    };
+};
+
+// Europe PMC has no OA classes: a PMC copy is a repository (green) copy; a free publisher link without a
+// license is bronze, with one gold
+const fromEuropePmc = (result: EuropePmcOaResult): Omit<OpenAccessInfo, 'resolvedAt'> => {
+    const links = (result.fullTextUrlList?.fullTextUrl || []).filter(l => l.availabilityCode === 'OA' || l.availabilityCode === 'F');
+    const pdf = links.find(l => l.documentStyle === 'pdf');
+    const html = links.find(l => l.documentStyle === 'html');
+    const inPmc = result.inEPMC === 'Y' && !!result.pmcid;
+    const license = result.license || undefined;
+    if (!inPmc && links.length === 0) return { status: 'closed', source: 'europepmc' };
+    return {
+        status: inPmc ? 'green' : license ? 'gold' : 'bronze',
+        license,
+        pdfUrl: pdf?.url,
+        fullTextUrl: inPmc ? `https://europepmc.org/article/PMC/${result.pmcid}` : html?.url,
+        hostType: inPmc ? 'repository' : 'publisher',
+        source: 'europepmc'
+    };
+};
+
+const europePmcQuery = (paper: PaperData): string | undefined => {
+    if (paper.pmcid) return `PMCID:${paper.pmcid}`;
+    if (paper.pmid) return `EXT_ID:${paper.pmid} AND SRC:MED`;
+    const doi = normalizeDoi(paper.doi);
+    return doi ? `DOI:"${doi}"` : undefined;
+};
+
+export const createOpenAccessResolver = (config: OpenAccessResolverConfig = {}): OpenAccessResolver => {
+    const fetchImpl = config.fetch || fetch.bind(globalThis);
+    const unpaywallBase = config.unpaywallBaseUrl || 'https://api.unpaywall.org/v2';
+    const europePmcBase = config.europePmcBaseUrl || 'https://www.ebi.ac.uk/europepmc/webservices/rest';
+    const email = config.email || 'bioinsight@example.org';
+    const now = config.now ?? (() => new Date());
+
+    const askUnpaywall = async (doi: string, signal?: AbortSignal): Promise<Lookup> => {
+        try {
+            const res = await fetchImpl(`${unpaywallBase}/${encodeURIComponent(doi)}?email=${encodeURIComponent(email)}`, { signal });
+            if (res.status === 404) return { status: 'closed', source: 'unpaywall' };
+            if (!res.ok) {
+                console.warn(`[Unpaywall] ${doi} responded ${res.status}`);
+                return null;
+            }
+            return fromUnpaywall(await res.json());
+        } catch (e: any) {
+            if (signal?.aborted) throw e;
+            console.warn(`[Unpaywall] Lookup failed for ${doi}: ${e.message}`);
+            return null;
+        }
+    };
+
+    const askEuropePmc = async (query: string, signal?: AbortSignal): Promise<Lookup> => {
+        try {
+            const res = await fetchImpl(`${europePmcBase}/search?format=json&resultType=core&pageSize=1&query=${encodeURIComponent(query)}`, { signal });
+            if (!res.ok) {
+                console.warn(`[Europe PMC] ${query} responded ${res.status}`);
+                return null;
+            }
+            const body: { resultList?: { result?: EuropePmcOaResult[] } } = await res.json();
+            const result = body.resultList?.result?.[0];
+            return result ? fromEuropePmc(result) : { status: 'closed', source: 'europepmc' };
+        } catch (e: any) {
+            if (signal?.aborted) throw e;
+            console.warn(`[Europe PMC] Lookup failed for ${query}: ${e.message}`);
+            return null;
+        }
+    };
+
+    return {
+        async resolve(paper: PaperData, signal?: AbortSignal): Promise<PaperData | null> {
+            const doi = normalizeDoi(paper.doi);
+            const query = europePmcQuery(paper);
+            if (!doi && !query) return { ...paper, isPolished: true, openAccess: { status: 'unknown', source: 'none', resolvedAt: now().toISOString() } };
+            let found: Lookup = doi ? await askUnpaywall(doi, signal) : null;
+            if (query && (!found || found.status === 'closed')) {
+                found = (await askEuropePmc(query, signal)) ?? found;
+            }
+            if (!found) return null;
+            return { ...paper, isPolished: true, openAccess: { ...found, resolvedAt: now().toISOString() } };
+        }
+    };
+};
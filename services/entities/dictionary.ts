@@ -0,0 +1,125 @@
+import { DrugDefinition, EntityDictionary, TargetDefinition } from "../../types";
+
+// --- ENTITY DICTIONARY ---
+// Offline vocabulary that drug and target mentions are normalized against. Ships with the assets and
+// targets our topics track; users add their own, and the whole dictionary is saved in the browser. The
+// pipeline view reads mechanism and indications from here for the drugs the topic registry lists.
+
+const DICTIONARY_STORAGE_KEY = 'bioinsight_entities_v1';
+
+const drug = (name: string, synonyms: string[], codes: string[], targets: string[], mechanism: string, indications: string[]): DrugDefinition =>
+    ({ name, synonyms, codes, targets, mechanism, indications, builtIn: true });
+
+const target = (symbol: string, synonyms: string[]): TargetDefinition => ({ symbol, synonyms, builtIn: true });
+
+export const DEFAULT_DICTIONARY: EntityDictionary = {
+    drugs: [
+        drug('Semaglutide', ['Ozempic', 'Wegovy', 'Rybelsus'], ['NN9535', 'NNC0113-0217'], ['GLP1R'], 'GLP-1 receptor agonist', ['Obesity', 'Type 2 diabetes', 'MASH']),
+        drug('Tirzepatide', ['Mounjaro', 'Zepbound'], ['LY3298176'], ['GIPR', 'GLP1R'], 'GIP/GLP-1 receptor co-agonist', ['Obesity', 'Type 2 diabetes']),
+        drug('Retatrutide', [], ['LY3437943'], ['GIPR', 'GLP1R', 'GCGR'], 'GIP/GLP-1/glucagon receptor tri-agonist', ['Obesity', 'Type 2 diabetes']),
+        drug('Orforglipron', [], ['LY3502970', 'OWL833'], ['GLP1R'], 'Oral small-molecule GLP-1 receptor agonist', ['Obesity', 'Type 2 diabetes']),
+        drug('Cagrilintide', [], ['NN9838', 'AM833'], ['CALCR'], 'Amylin analogue', ['Obesity']),
+        drug('CagriSema', ['cagrilintide/semaglutide', 'cagrilintide-semaglutide'], ['NN9388'], ['CALCR', 'GLP1R'], 'Amylin analogue + GLP-1 receptor agonist', ['Obesity', 'Type 2 diabetes']),
+        drug('Amycretin', [], ['NN9487', 'NNC0487-0111'], ['GLP1R', 'CALCR'], 'GLP-1/amylin receptor co-agonist', ['Obesity']),
+        drug('Survodutide', [], ['BI 456906'], ['GCGR', 'GLP1R'], 'Glucagon/GLP-1 receptor dual agonist', ['Obesity', 'MASH']),
+        drug('Resmetirom', ['Rezdiffra'], ['MGL-3196'], ['THRB'], 'Thyroid hormone receptor-β agonist', ['MASH']),
+        drug('Lanifibranor', [], ['IVA337'], ['PPARA', 'PPARD', 'PPARG'], 'Pan-PPAR agonist', ['MASH']),
+        drug('Efruxifermin', [], ['AKR-001'], ['FGFR1', 'KLB'], 'FGF21 analogue', ['MASH']),
+        drug('Finerenone', ['Kerendia'], ['BAY 94-8862'], ['NR3C2'], 'Non-steroidal mineralocorticoid receptor antagonist', ['Heart failure', 'Diabetic kidney disease']),
+        drug('Empagliflozin', ['Jardiance'], ['BI 10773'], ['SLC5A2'], 'SGLT2 inhibitor', ['Heart failure', 'Type 2 diabetes', 'CKD']),
+        drug('Dapagliflozin', ['Farxiga', 'Forxiga'], ['BMS-512148'], ['SLC5A2'], 'SGLT2 inhibitor', ['Heart failure', 'Type 2 diabetes', 'CKD']),
+        drug('Sotagliflozin', ['Inpefa'], ['LX4211'], ['SLC5A1', 'SLC5A2'], 'SGLT1/2 inhibitor', ['Heart failure']),
+        drug('Inclisiran', ['Leqvio'], ['ALN-PCSSC'], ['PCSK9'], 'PCSK9 siRNA', ['Hypercholesterolemia']),
+        drug('Evolocumab', ['Repatha'], ['AMG 145'], ['PCSK9'], 'PCSK9 antibody', ['Hypercholesterolemia', 'ASCVD']),
+        drug('Olpasiran', [], ['AMG 890'], ['LPA'], 'Lp(a) siRNA', ['Elevated Lp(a)', 'ASCVD']),
+        drug('Pelacarsen', [], ['TQJ230', 'AKCEA-APO(a)-LRx'], ['LPA'], 'Lp(a) antisense oligonucleotide', ['Elevated Lp(a)', 'ASCVD'])
+    ],
+    targets: [
+        target('GLP1R', ['GLP-1 receptor', 'GLP-1R', 'GLP1 receptor', 'GLP-1', 'glucagon-like peptide-1 receptor']),
+        target('GIPR', ['GIP receptor', 'GIP', 'glucose-dependent insulinotropic polypeptide receptor']),
+        target('GCGR', ['glucagon receptor', 'GCG receptor']),
+        target('CALCR', ['amylin receptor', 'calcitonin receptor', 'amylin']),
+        target('THRB', ['THR-β', 'THR-beta', 'thyroid hormone receptor beta', 'thyroid hormone receptor-β']),
+        target('NR3C2', ['mineralocorticoid receptor']),
+        target('SLC5A2', ['SGLT2', 'SGLT-2', 'sodium-glucose cotransporter 2']),
+        target('SLC5A1', ['SGLT1', 'SGLT-1']),
+        target('PCSK9', []),
+        target('LPA', ['lipoprotein(a)', 'Lp(a)', 'apolipoprotein(a)']),
+        target('PPARA', ['PPARα', 'PPAR-alpha']),
+        target('PPARD', ['PPARδ', 'PPAR-delta']),
+        target('PPARG', ['PPARγ', 'PPAR-gamma']),
+        target('FGFR1', []),
+        target('KLB', ['β-Klotho', 'beta-Klotho'])
+    ]
+};
+
+let currentDictionary: EntityDictionary = DEFAULT_DICTIONARY;
+
+export const getEntityDictionary = (): EntityDictionary => currentDictionary;
+
+export const loadEntityDictionary = (): EntityDictionary => {
+    try {
+        const stored = localStorage.getItem(DICTIONARY_STORAGE_KEY);
+        if (stored) currentDictionary = JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to load entity dictionary", e);
+    }
+    return currentDictionary;
+};
+
+export const saveEntityDictionary = (dictionary: EntityDictionary) => {
+    currentDictionary = dictionary;
+    try {
+        localStorage.setItem(DICTIONARY_STORAGE_KEY, JSON.stringify(dictionary));
+    } catch (e) {
+        console.warn("Failed to save entity dictionary (likely quota)", e);
+    }
+};
+
+// --- EDITING ---
+
+export type EntityDictionaryError = { field: 'name' | 'symbol' | 'targets'; message: string };
+
+export const validateDrug = (entry: DrugDefinition, dictionary: EntityDictionary, originalName?: string): EntityDictionaryError | null => {
+    const name = entry.name.trim();
+    if (!name) return { field: 'name', message: 'Drug name is required' };
+    const clash = dictionary.drugs.find(d => d.name.toLowerCase() === name.toLowerCase() && d.name !== originalName);
+    if (clash) return { field: 'name', message: `"${clash.name}" is already in the dictionary` };
+    const unknown = entry.targets.filter(t => !dictionary.targets.some(d => d.symbol === t));
+    if (unknown.length > 0) return { field: 'targets', message: `Unknown target symbol: ${unknown.join(', ')}. Add it as a target first.` };
+    return null;
+};
+
+export const validateTarget = (entry: TargetDefinition, dictionary: EntityDictionary, originalSymbol?: string): EntityDictionaryError | null => {
+    const symbol = entry.symbol.trim();
+    if (!/^[A-Z0-9][A-Z0-9-]*$/.test(symbol)) return { field: 'symbol', message: 'Use the HGNC gene symbol, e.g. GLP1R' };
+    if (dictionary.targets.some(t => t.symbol === symbol && t.symbol !== originalSymbol)) return { field: 'symbol', message: `${symbol} is already in the dictionary` };
+    return null;
+};
+
+export const upsertDrug = (dictionary: EntityDictionary, entry: DrugDefinition, originalName?: string): EntityDictionary => {
+    const key = originalName ?? entry.name;
+    const exists = dictionary.drugs.some(d => d.name === key);
+    return {
+        ...dictionary,
+        drugs: exists ? dictionary.drugs.map(d => d.name === key ? { ...entry, builtIn: d.builtIn } : d) : [...dictionary.drugs, entry]
+    };
+};
+
+// Renaming a symbol re-points the drugs that reference it
+export const upsertTarget = (dictionary: EntityDictionary, entry: TargetDefinition, originalSymbol?: string): EntityDictionary => {
+    const key = originalSymbol ?? entry.symbol;
+    const exists = dictionary.targets.some(t => t.symbol === key);
+    return {
+        drugs: key === entry.symbol ? dictionary.drugs : dictionary.drugs.map(d => ({ ...d, targets: d.targets.map(t => t === key ? entry.symbol : t) })),
+        targets: exists ? dictionary.targets.map(t => t.symbol === key ? { ...entry, builtIn: t.builtIn } : t) : [...dictionary.targets, entry]
+    };
+};
+
+export const removeDrug = (dictionary: EntityDictionary, name: string): EntityDictionary =>
+    ({ ...dictionary, drugs: dictionary.drugs.filter(d => d.name !== name) });
+
+export const removeTarget = (dictionary: EntityDictionary, symbol: string): EntityDictionary => ({
+    drugs: dictionary.drugs.map(d => ({ ...d, targets: d.targets.filter(t => t !== symbol) })),
+    targets: dictionary.targets.filter(t => t.symbol !== symbol)
+});
@@ -0,0 +1,120 @@
+import { EntityDictionary, PaperData, PaperEntities } from "../../types";
+import { extractGenetics } from "./genes";
+
+// --- DRUG & TARGET EXTRACTION ---
+// Finds dictionary drugs (by name, brand or development code) and targets (by symbol or protein name)
+// in a paper's text, then adds the targets and mechanism of every drug found. Development codes that are
+// not in the dictionary yet ("XYZ-1234567") are kept as drugs under the code, so they can still be
+// filtered on and later added to the dictionary.
+
+interface Term {
+    pattern: RegExp;
+    kind: 'drug' | 'target';
+    key: string; // Drug name or target symbol
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive, not inside a longer word; spaces and hyphens are optional so "LY-3437943",
+// "LY 3437943" and "LY3437943" are one code
+const termPattern = (term: string): RegExp => {
+    const body = term.trim().split(/[\s-]+/).map(escapeRegExp).join('[\\s-]?');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu');
+};
+
+const compiled = new WeakMap<EntityDictionary, Term[]>();
+
+const termsOf = (dictionary: EntityDictionary): Term[] => {
+    const cached = compiled.get(dictionary);
+    if (cached) return cached;
+    const terms: Term[] = [
+        ...dictionary.drugs.flatMap(d => [d.name, ...d.synonyms, ...d.codes].filter(t => t.trim()).map(t => ({ pattern: termPattern(t), kind: 'drug' as const, key: d.name }))),
+        ...dictionary.targets.flatMap(t => [t.symbol, ...t.synonyms].filter(s => s.trim()).map(s => ({ pattern: termPattern(s), kind: 'target' as const, key: t.symbol })))
+    ];
+    compiled.set(dictionary, terms);
+    return terms;
+};
+
+// Letters then 4-7 digits. Registry, identifier and patent-office prefixes are not drugs, and neither
+// are meeting years ("ESC 2024").
+const CODE_PATTERN = /(?<![A-Za-z0-9])([A-Z]{2,4})[- ]?(\d{4,7})(?![A-Za-z0-9])/g;
+const NOT_DRUG_CODES = new Set(['NCT', 'PMC', 'PMID', 'DOI', 'ISBN', 'ISSN', 'CTRI', 'US', 'EP', 'WO', 'CN', 'JP', 'KR', 'DE', 'GB', 'FR', 'CA', 'AU', 'HGNC', 'OMIM', 'ORCID']);
+
+const compactCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+const findDevelopmentCodes = (text: string, dictionary: EntityDictionary): string[] => {
+    const known = new Set(dictionary.drugs.flatMap(d => d.codes.map(compactCode)));
+    const found = new Map<string, string>();
+    for (const match of text.matchAll(CODE_PATTERN)) {
+        if (NOT_DRUG_CODES.has(match[1]) || /^(19|20)\d{2}$/.test(match[2])) continue;
+        const compact = compactCode(match[0]);
+        if (!known.has(compact) && !found.has(compact)) found.set(compact, match[0]);
+    }
+    return Array.from(found.values());
+};
+
+const searchableText = (paper: PaperData): string => [
+    paper.title,
+    paper.abstractHighlight,
+    paper.abstract,
+    paper.drugAndTarget,
+    ...(paper.keywords || []),
+    ...(paper.trial?.interventions || []),
+    paper.patent?.claimsSummary
+].filter(Boolean).join('\n');
+
+export const extractEntities = (paper: PaperData, dictionary: EntityDictionary): PaperEntities => {
+    const text = searchableText(paper);
+    const drugs = new Set<string>();
+    const targets = new Set<string>();
+    for (const term of termsOf(dictionary)) {
+        if (!term.pattern.test(text)) continue;
+        (term.kind === 'drug' ? drugs : targets).add(term.key);
+    }
+
+    const mechanisms = new Set<string>();
+    for (const name of drugs) {
+        const entry = dictionary.drugs.find(d => d.name === name);
+        entry?.targets.forEach(t => targets.add(t));
+        if (entry?.mechanism) mechanisms.add(entry.mechanism);
+    }
+    findDevelopmentCodes(text, dictionary).forEach(code => drugs.add(code));
+
+    const entities: PaperEntities = { drugs: Array.from(drugs).sort(), targets: Array.from(targets).sort(), mechanisms: Array.from(mechanisms).sort() };
+    const { genes, variants } = extractGenetics(paper);
+    if (genes.length > 0) entities.genes = genes;
+    if (variants.length > 0) entities.variants = variants;
+    return entities;
+};
+
+// Papers with nothing found carry no `entities` at all
+export const withEntities = (paper: PaperData, dictionary: EntityDictionary): PaperData => {
+    const entities = extractEntities(paper, dictionary);
+    const isEmpty = entities.drugs.length === 0 && entities.targets.length === 0 && !entities.genes && !entities.variants;
+    if (isEmpty && !paper.entities) return paper;
+    const { entities: _previous, ...rest } = paper;
+    return isEmpty ? rest : { ...rest, entities };
+};
+
+// --- FACETS ---
+
+export interface EntityFacet {
+    value: string;
+    count: number;
+}
+
+const countValues = (values: string[][]): EntityFacet[] => {
+    const counts = new Map<string, number>();
+    values.flat().forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const entityFacets = (papers: PaperData[]): { drugs: EntityFacet[]; targets: EntityFacet[] } => ({
+    drugs: countValues(papers.map(p => p.entities?.drugs || [])),
+    targets: countValues(papers.map(p => p.entities?.targets || []))
+});
+
+// Empty selection = no filter; otherwise any selected value matches
+export const matchesEntityFilter = (paper: PaperData, drugs: string[], targets: string[]): boolean =>
+    (drugs.length === 0 || drugs.some(d => paper.entities?.drugs.includes(d) ?? false)) &&
+    (targets.length === 0 || targets.some(t => paper.entities?.targets.includes(t) ?? false));
@@ -0,0 +1,98 @@
+import { GeneDefinition, PaperData, ResearchModality, VariantMention } from "../../types";
+import { FeedItem, PipelineFeed, collectAcrossFeeds } from "../pipeline";
+import hgncTable from "./fixtures/hgnc.json";
+
+// --- GENE & VARIANT MENTIONS ---
+// Gene symbols are matched against a bundled HGNC subset (the cardiometabolic and liver genes our topics
+// touch) and normalized to the approved symbol, so "MARC1" and "Mtarc1" are both MTARC1. Symbols are
+// case-sensitive: upper case as written for human genes, or capitalized for mouse orthologs. dbSNP ids are
+// read anywhere and attributed to a gene from the table or from a symbol written right next to them.
+
+export const HGNC_GENES: GeneDefinition[] = hgncTable.genes;
+
+const KNOWN_VARIANTS = new Map<string, VariantMention>(hgncTable.variants.map(v => [v.rsId, v as VariantMention]));
+
+// Where gene names are expected; elsewhere "LPA" or "TTR" are too often something else
+export const GENETIC_MODALITIES: ResearchModality[] = [ResearchModality.Genetics, ResearchModality.SingleCell, ResearchModality.Transcriptomics];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mouseForm = (symbol: string) => symbol.charAt(0) + symbol.slice(1).toLowerCase();
+
+const SYMBOL_TERMS = HGNC_GENES.flatMap(g => [g.symbol, ...g.aliases].map(term => {
+    const forms = Array.from(new Set([term, mouseForm(term)])).map(escapeRegExp).join('|');
+    return { pattern: new RegExp(`(?<![A-Za-z0-9])(?:${forms})(?![A-Za-z0-9])`, 'g'), symbol: g.symbol };
+}));
+
+const RSID_PATTERN = /(?<![A-Za-z0-9])rs(\d{3,10})(?![0-9])/gi;
+const NEARBY = 40; // Characters either side of an rsID searched for its gene
+
+export const geneName = (symbol: string): string | undefined => HGNC_GENES.find(g => g.symbol === symbol)?.name;
+
+// Symbol -> every offset it is written at
+const findGenes = (text: string): Map<string, number[]> => {
+    const found = new Map<string, number[]>();
+    for (const { pattern, symbol } of SYMBOL_TERMS) {
+        for (const match of text.matchAll(pattern)) {
+            found.set(symbol, [...(found.get(symbol) || []), match.index ?? 0]);
+        }
+    }
+    return found;
+};
+
+const findVariants = (text: string, genes: Map<string, number[]>): VariantMention[] => {
+    const variants = new Map<string, VariantMention>();
+    for (const match of text.matchAll(RSID_PATTERN)) {
+        const rsId = `rs${match[1]}`;
+        if (variants.has(rsId)) continue;
+        const known = KNOWN_VARIANTS.get(rsId);
+        const offset = match.index ?? 0;
+        const nearest = Array.from(genes).flatMap(([symbol, offsets]) => offsets.map(o => ({ symbol, distance: Math.abs(o - offset) })))
+            .filter(g => g.distance <= NEARBY)
+            .sort((a, b) => a.distance - b.distance)[0];
+        variants.set(rsId, known ?? { rsId, gene: nearest?.symbol });
+    }
+    return Array.from(variants.values());
+};
+
+const geneticText = (paper: PaperData): string => [
+    paper.title,
+    paper.abstractHighlight,
+    paper.abstract,
+    paper.drugAndTarget,
+    ...(paper.keywords || [])
+].filter(Boolean).join('\n');
+
+// Genes are read only from genetics-type items or items that cite a variant; variants from any item
+export const extractGenetics = (paper: PaperData): { genes: string[]; variants: VariantMention[] } => {
+    const text = geneticText(paper);
+    const hasVariant = /(?<![A-Za-z0-9])rs\d{3,10}/i.test(text);
+    if (!hasVariant && !GENETIC_MODALITIES.includes(paper.modality)) return { genes: [], variants: [] };
+
+    const genes = findGenes(text);
+    const variants = findVariants(text, genes);
+    const symbols = new Set([...genes.keys(), ...variants.map(v => v.gene).filter((g): g is string => !!g)]);
+    return { genes: Array.from(symbols).sort(), variants };
+};
+
+// --- GENE INDEX ---
+
+export interface GeneSummary {
+    symbol: string;
+    name?: string;
+    items: FeedItem[]; // Newest first
+    variants: VariantMention[];
+    feedCounts: Record<PipelineFeed, number>;
+    latest?: string;
+}
+
+// Every gene named in any feed, most-cited first. `sources` should already carry entities.
+export const buildGeneIndex = (sources: Partial<Record<PipelineFeed, PaperData[]>>): GeneSummary[] => {
+    const symbols = new Set(Object.values(sources).flatMap(papers => (papers || []).flatMap(p => p.entities?.genes || [])));
+    return Array.from(symbols).map(symbol => {
+        const { items, feedCounts } = collectAcrossFeeds(sources, p => p.entities?.genes?.includes(symbol) ?? false);
+        const variants = new Map<string, VariantMention>();
+        items.forEach(i => i.paper.entities?.variants?.filter(v => v.gene === symbol).forEach(v => variants.set(v.rsId, v)));
+        return { symbol, name: geneName(symbol), items, variants: Array.from(variants.values()), feedCounts, latest: items[0]?.paper.date };
+    }).sort((a, b) => b.items.length - a.items.length || a.symbol.localeCompare(b.symbol));
+};
@@ -0,0 +1,3 @@
+export * from "./dictionary";
+export * from "./extract";
+export * from "./genes";
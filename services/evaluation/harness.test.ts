@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SWARM_CONFIG, buildSwarmQuery } from "../swarmConfig";
+import { buildTopicQuery } from "../topicRegistry";
+import { createAuditLog } from "../auditLog";
+import { runHybridAgent } from "../geminiService";
+import { LlmRecording, createReplayProvider } from "../llm";
+import recordings from "../llm/fixtures/recordings.json";
+import { evaluateGoldenSet, formatEvaluationReport, getDefaultGoldenSet } from ".";
+
+// Floors for the golden set as labelled today; raise them when a verification change scores better
+const MIN_PRECISION = 0.85;
+const MIN_RECALL = 0.75;
+
+describe('golden set replay', () => {
+    it('keeps precision and recall above their floors and meets every field expectation', async () => {
+        const report = await evaluateGoldenSet(getDefaultGoldenSet());
+        const summary = formatEvaluationReport(report);
+
+        expect(report.cases.filter(c => c.error), summary).toEqual([]);
+        expect(report.precision, summary).toBeGreaterThanOrEqual(MIN_PRECISION);
+        expect(report.recall, summary).toBeGreaterThanOrEqual(MIN_RECALL);
+        // DOI override, snippet date fallback and enum mapping are checked through each label's `expect`
+        const mismatches = report.cases.flatMap(c => c.items.flatMap(i => i.fieldMismatches.map(m => `${c.caseId} / ${i.title}: ${m}`)));
+        expect(mismatches, summary).toEqual([]);
+        expect(report.fieldMismatchCount).toBe(0);
+    });
+});
+
+describe('recorded exchanges', () => {
+    it('replay through verification on a later day', async () => {
+        const agent = DEFAULT_SWARM_CONFIG.agents.find(a => a.id === 'prestige-society')!;
+        // A later cutoff changes the prompt's date bound, so replay has to match on the search query
+        const cutoff = new Date('2025-05-08T00:00:00.000Z');
+        const query = buildSwarmQuery(agent, buildTopicQuery(['Obesity', 'Diabetes']), cutoff);
+        const audit = createAuditLog();
+
+        const papers = await runHybridAgent(
+            createReplayProvider(recordings as LlmRecording[]), agent.name, query, cutoff, 'live',
+            { agentId: agent.id, retry: request => request() },
+            audit
+        );
+
+        expect(papers.map(p => p.title)).toEqual([
+            'Retatrutide for Obesity — A Phase 3 Trial',
+            'Orforglipron and HbA1c in type 2 diabetes: an open-label cohort'
+        ]);
+        const run = audit.list()[0];
+        expect(run.accepted.map(a => a.matchedBy)).toEqual(['exact-url', 'exact-url']);
+        expect(run.validationIssues).toContain('payload: Ignored text around the JSON payload');
+    });
+});
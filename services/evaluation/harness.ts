@@ -0,0 +1,238 @@
+import { DateConfidence, DateSource, PaperData, PublicationType, StudyType, Methodology } from "../../types";
+import { GroundingChunk } from "../llm";
+import { LlmRecording, createReplayProvider } from "../llm/recordingProvider";
+import { AuditLog, RejectionReason, createAuditLog } from "../auditLog";
+import { runHybridAgent } from "../geminiService";
+import { extractJsonPayload } from "../paperSchema";
+
+// --- VERIFICATION EVALUATION ---
+// Replays recorded web-search responses through the real verification path (runHybridAgent) and scores
+// what it accepts against hand labels. A case is one agent call: the model's raw text and grounding
+// chunks, plus a verdict for every title the model returned. Precision and recall are over accepted items.
+
+export interface GoldenLabel {
+    title: string; // As the model wrote it; matched case- and punctuation-insensitively
+    relevant: boolean; // Should the pipeline accept it?
+    note?: string;
+    // Checked only when the item is accepted
+    expect?: {
+        doi?: string | null; // null = the DOI must be dropped
+        date?: string; // YYYY-MM-DD
+        dateConfidence?: DateConfidence;
+        dateSource?: DateSource;
+        url?: string;
+        publicationType?: PublicationType;
+        studyType?: StudyType;
+        methodology?: Methodology;
+    };
+}
+
+export interface GoldenCase {
+    id: string;
+    description: string;
+    feed: 'live' | 'ai' | 'patent';
+    agentName: string;
+    query: string;
+    cutoffDate: string; // ISO; fixed so a case scores the same on any day
+    response: { text: string; chunks: GroundingChunk[] };
+    labels: GoldenLabel[];
+}
+
+export type Verdict = 'true-positive' | 'false-positive' | 'false-negative' | 'true-negative';
+
+export interface ItemOutcome {
+    title: string;
+    verdict: Verdict;
+    labelled: boolean; // False for accepted titles the case has no label for (counted as false positives)
+    rejection?: RejectionReason;
+    rejectionDetail?: string;
+    fieldMismatches: string[]; // "doi: expected none, got 10.1000/x"
+    note?: string;
+}
+
+export interface Counts {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    trueNegatives: number;
+}
+
+export interface Scores {
+    precision: number; // 1 when nothing was accepted
+    recall: number; // 1 when nothing should have been
+    f1: number;
+}
+
+export interface CaseResult extends Counts, Scores {
+    caseId: string;
+    description: string;
+    items: ItemOutcome[];
+    fieldMismatchCount: number;
+    error?: string;
+}
+
+export interface EvaluationReport extends Counts, Scores {
+    evaluatedAt: string;
+    cases: CaseResult[];
+    fieldMismatchCount: number;
+}
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const scoreCounts = (counts: Counts): Scores => {
+    const accepted = counts.truePositives + counts.falsePositives;
+    const relevant = counts.truePositives + counts.falseNegatives;
+    const precision = accepted === 0 ? 1 : counts.truePositives / accepted;
+    const recall = relevant === 0 ? 1 : counts.truePositives / relevant;
+    const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+    return { precision, recall, f1 };
+};
+
+const countVerdicts = (items: ItemOutcome[]): Counts => ({
+    truePositives: items.filter(i => i.verdict === 'true-positive').length,
+    falsePositives: items.filter(i => i.verdict === 'false-positive').length,
+    falseNegatives: items.filter(i => i.verdict === 'false-negative').length,
+    trueNegatives: items.filter(i => i.verdict === 'true-negative').length
+});
+
+const checkFields = (paper: PaperData, expect: GoldenLabel['expect']): string[] => {
+    if (!expect) return [];
+    const mismatches: string[] = [];
+    const compare = (field: string, expected: unknown, actual: unknown) => {
+        if (expected !== undefined && expected !== actual) {
+            mismatches.push(`${field}: expected ${expected ?? 'none'}, got ${actual ?? 'none'}`);
+        }
+    };
+    if (expect.doi === null) {
+        if (paper.doi) mismatches.push(`doi: expected none, got ${paper.doi}`);
+    } else compare('doi', expect.doi, paper.doi);
+    compare('date', expect.date, paper.date);
+    compare('dateConfidence', expect.dateConfidence, paper.dateInfo?.confidence);
+    compare('dateSource', expect.dateSource, paper.dateInfo?.source);
+    compare('url', expect.url, paper.url);
+    compare('publicationType', expect.publicationType, paper.publicationType);
+    compare('studyType', expect.studyType, paper.studyType);
+    compare('methodology', expect.methodology, paper.methodology);
+    return mismatches;
+};
+
+// The recording a case replays; the prompt is left empty so replay matches on the search query
+const caseRecording = (golden: GoldenCase): LlmRecording => ({
+    kind: 'search',
+    agentName: golden.agentName,
+    query: golden.query,
+    prompt: '',
+    text: golden.response.text,
+    chunks: golden.response.chunks,
+    model: 'golden',
+    recordedAt: golden.cutoffDate
+});
+
+export const evaluateCase = async (golden: GoldenCase, audit: AuditLog = createAuditLog()): Promise<CaseResult> => {
+    const provider = createReplayProvider([caseRecording(golden)]);
+    let papers: PaperData[] = [];
+    let error: string | undefined;
+    try {
+        papers = await runHybridAgent(
+            provider, golden.agentName, golden.query, new Date(golden.cutoffDate), golden.feed,
+            { agentId: golden.id, retry: request => request() },
+            audit
+        );
+    } catch (e) {
+        error = String((e as Error)?.message ?? e);
+    }
+
+    const run = audit.list()[0];
+    const rejections = new Map((run?.rejected || []).map(r => [normalizeTitle(r.title), r]));
+    const accepted = new Map(papers.map(p => [normalizeTitle(p.title), p]));
+
+    const items: ItemOutcome[] = golden.labels.map(label => {
+        const key = normalizeTitle(label.title);
+        const paper = accepted.get(key);
+        accepted.delete(key);
+        const rejection = rejections.get(key);
+        return {
+            title: label.title,
+            verdict: paper
+                ? (label.relevant ? 'true-positive' : 'false-positive')
+                : (label.relevant ? 'false-negative' : 'true-negative'),
+            labelled: true,
+            rejection: paper ? undefined : rejection?.reason,
+            rejectionDetail: paper ? undefined : rejection?.detail,
+            fieldMismatches: paper && label.relevant ? checkFields(paper, label.expect) : [],
+            note: label.note
+        };
+    });
+    // Anything accepted without a label is a false positive until someone labels it
+    for (const paper of accepted.values()) {
+        items.push({ title: paper.title, verdict: 'false-positive', labelled: false, fieldMismatches: [] });
+    }
+
+    const counts = countVerdicts(items);
+    return {
+        caseId: golden.id,
+        description: golden.description,
+        items,
+        ...counts,
+        ...scoreCounts(counts),
+        fieldMismatchCount: items.reduce((n, i) => n + i.fieldMismatches.length, 0),
+        error
+    };
+};
+
+// Cases run one at a time, each with its own audit log, so the session's Agent Run Log stays clean
+export const evaluateGoldenSet = async (cases: GoldenCase[]): Promise<EvaluationReport> => {
+    const results: CaseResult[] = [];
+    for (const golden of cases) results.push(await evaluateCase(golden));
+
+    const counts: Counts = {
+        truePositives: results.reduce((n, r) => n + r.truePositives, 0),
+        falsePositives: results.reduce((n, r) => n + r.falsePositives, 0),
+        falseNegatives: results.reduce((n, r) => n + r.falseNegatives, 0),
+        trueNegatives: results.reduce((n, r) => n + r.trueNegatives, 0)
+    };
+    return {
+        evaluatedAt: new Date().toISOString(),
+        cases: results,
+        ...counts,
+        ...scoreCounts(counts),
+        fieldMismatchCount: results.reduce((n, r) => n + r.fieldMismatchCount, 0)
+    };
+};
+
+// Turns a recorded search into a case to label: every title the model returned, marked not relevant.
+// Flip the ones that should be accepted and add expectations before committing it to the golden set.
+export const draftGoldenCase = (recording: LlmRecording, feed: GoldenCase['feed'], cutoffDate: string): GoldenCase => {
+    let titles: string[] = [];
+    const { value } = extractJsonPayload(recording.text);
+    if (Array.isArray(value)) titles = value.map(r => r?.title).filter((t): t is string => typeof t === 'string');
+    else console.warn(`[Evaluation] Could not read titles from the recording for ${recording.agentName || 'unknown agent'}`);
+    return {
+        id: `${recording.agentName || 'agent'}-${recording.recordedAt}`.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        description: '',
+        feed,
+        agentName: recording.agentName || 'Unknown Agent',
+        query: recording.query || '',
+        cutoffDate,
+        response: { text: recording.text, chunks: recording.chunks },
+        labels: titles.map(title => ({ title, relevant: false }))
+    };
+};
+
+const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+    const lines = [
+        `Precision ${percent(report.precision)} · Recall ${percent(report.recall)} · F1 ${percent(report.f1)}`,
+        `TP ${report.truePositives} · FP ${report.falsePositives} · FN ${report.falseNegatives} · TN ${report.trueNegatives} · field mismatches ${report.fieldMismatchCount}`
+    ];
+    for (const result of report.cases) {
+        lines.push('', `[${result.caseId}] P ${percent(result.precision)} R ${percent(result.recall)}${result.error ? ` — failed: ${result.error}` : ''}`);
+        for (const item of result.items) {
+            const why = item.rejection ? ` (${item.rejection}${item.rejectionDetail ? `: ${item.rejectionDetail}` : ''})` : '';
+            lines.push(`  ${item.verdict.padEnd(14)} ${item.title}${why}${item.labelled ? '' : ' [unlabelled]'}`);
+            item.fieldMismatches.forEach(m => lines.push(`    ${m}`));
+        }
+    }
+    return lines.join('\n');
+};
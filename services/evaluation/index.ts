@@ -0,0 +1,8 @@
+import { GoldenCase } from "./harness";
+import goldenFixtures from "./fixtures/golden.json";
+
+export * from "./harness";
+
+// Hand-labelled cases covering the title-overlap threshold, the DOI filter, the snippet date fallback,
+// enum coercion and the per-feed overrides. Known failures are labelled as such, not left out.
+export const getDefaultGoldenSet = (): GoldenCase[] => goldenFixtures as GoldenCase[];
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../types";
+import { createStreamCollector, runHybridAgent, runLinkPolisher } from "./geminiService";
+import { createAuditLog } from "./auditLog";
+import { createOpenAccessResolver } from "./enrichment";
+import { createMockProvider } from "./llm";
+
+const paper = (id: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: 'Effects of Semaglutide on Chronic Kidney Disease in Patients with Type 2 Diabetes',
+    journalOrConference: 'The New England journal of medicine',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: '',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 80,
+    isLive: true,
+    ...extra
+});
+
+describe('stream collector', () => {
+    it('lists a record once after a DOI upgrades its PMID id', () => {
+        const { collect, list } = createStreamCollector();
+        expect(collect([paper('live-pmid-38785209', { pmid: '38785209', source: 'pubmed' })]).map(p => p.id)).toEqual(['pmid:38785209']);
+
+        const merged = collect([paper('ws-flow', { doi: '10.1056/NEJMoa2403347' })]);
+        expect(merged.map(p => p.id)).toEqual(['doi:10.1056/nejmoa2403347']);
+        expect(list()).toEqual(merged);
+        expect(list()[0]).toMatchObject({ pmid: '38785209', doi: '10.1056/NEJMoa2403347' });
+    });
+
+    it('returns one record for duplicates in the same batch', () => {
+        const { collect, list } = createStreamCollector();
+        const batch = collect([paper('live-pmid-38785209', { pmid: '38785209' }), paper('epmc-1', { pmid: '38785209', doi: '10.1056/nejmoa2403347' })]);
+        expect(batch.map(p => p.id)).toEqual(['doi:10.1056/nejmoa2403347']);
+        expect(list()).toHaveLength(1);
+    });
+
+    it('claims a registry record once across sources and after it was collected', () => {
+        const { claim, collect } = createStreamCollector();
+        const pubmed = { title: paper('x').title, pmid: '38785209', authors: ['Vlado Perkovic'], date: '2024-05-24' };
+        expect(claim(pubmed)).toBe(true);
+        expect(claim({ ...pubmed, doi: '10.1056/nejmoa2403347' })).toBe(false); // Same PMID
+        expect(claim({ ...pubmed, pmid: undefined })).toBe(false); // Same title, author and year
+
+        collect([paper('ws-other', { title: 'Tirzepatide once weekly for the treatment of obesity', doi: '10.1056/nejmoa2206038' })]);
+        expect(claim({ title: 'Tirzepatide Once Weekly for the Treatment of Obesity', doi: '10.1056/NEJMoa2206038' })).toBe(false);
+        expect(claim({ title: 'Orforglipron, an oral small-molecule GLP-1 receptor agonist', pmid: '37351564' })).toBe(true);
+    });
+});
+
+describe('link polisher', () => {
+    const now = () => new Date('2024-06-01T00:00:00Z');
+    const unreachable = createOpenAccessResolver({ now, fetch: async () => { throw new Error('offline'); } });
+    const article = createMockProvider({ responses: [{ text: '', chunks: [{ uri: 'https://journals.example.org/article/123' }] }] });
+
+    it('marks a paper with no identifier as polished without asking any service', async () => {
+        const fetch = vi.fn();
+        const resolver = createOpenAccessResolver({ now, fetch });
+        const polished = await runLinkPolisher(paper('ws-1', { url: undefined }), article, resolver);
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(polished).toMatchObject({ isPolished: true, openAccess: { status: 'unknown', source: 'none', resolvedAt: '2024-06-01T00:00:00.000Z' } });
+    });
+
+    it('asks the model for a direct link when a paper has a page but no identifier', async () => {
+        expect((await runLinkPolisher(paper('ws-1', { url: 'https://news.example.org/flow' }), article, unreachable))?.openAccess)
+            .toMatchObject({ status: 'unknown', source: 'web-search', fullTextUrl: 'https://journals.example.org/article/123' });
+
+        const nothing = await runLinkPolisher(paper('ws-1', { url: 'https://news.example.org/flow' }), createMockProvider(), unreachable);
+        expect(nothing).toMatchObject({ isPolished: true, openAccess: { source: 'none' } });
+    });
+
+    it('leaves a paper for the next pass when the services cannot be reached', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(await runLinkPolisher(paper('ws-1', { pmid: '38785209', url: 'https://news.example.org/flow' }), article, unreachable)).toBeNull();
+        vi.restoreAllMocks();
+    });
+});
+
+describe('web-search agent audit', () => {
+    it('logs schema-rejected records by the url the model gave and their position', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const records = [{ title: '   ', url: 'https://www.nejm.org/doi/full/10.1056/NEJMoa2403347' }, 'FLOW trial results', { title: 'Tirzepatide once weekly for the treatment of obesity' }];
+        const provider = createMockProvider({ responses: [{ text: JSON.stringify(records) }] });
+        const audit = createAuditLog();
+
+        await runHybridAgent(provider, 'Test Agent', 'semaglutide', new Date('2024-01-01'), 'live', { agentId: 'a1', retry: request => request() }, audit);
+        expect(audit.list()[0].rejected).toEqual([
+            { title: 'Record #0', url: 'https://www.nejm.org/doi/full/10.1056/NEJMoa2403347', reason: 'invalid-record', detail: 'Missing required field "title"' },
+            { title: 'Record #1', url: undefined, reason: 'invalid-record', detail: 'Record is not an object' },
+            { title: 'Tirzepatide once weekly for the treatment of obesity', reason: 'no-grounding', url: undefined }
+        ]);
+        vi.restoreAllMocks();
+    });
+});
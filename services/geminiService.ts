@@ -1,90 +1,49 @@
-import { GoogleGenAI } from "@google/genai";
-import { PaperData, DiseaseTopic, Methodology, StudyType, ResearchModality, PublicationType, CacheEntry } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { PaperData, TopicId, Methodology, StudyType, ResearchModality, PublicationType, FeedType, SwarmConfig, AgentRunStatus } from "../types";
+import { GroundingChunk, LLMProvider, getDefaultProvider } from "./llm";
+import { PAPER_RECORDS_SCHEMA, CLASSIFICATION_SCHEMA, ClassificationRecord, extractJsonPayload, validateAgentRecords, validateClassifications, formatValidationIssue, ValidationIssue } from "./paperSchema";
+import { SourceAdapter, SourceRecord, ClinicalTrialsAdapter, TrialRecord, getDefaultSourceAdapters, getDefaultTrialsAdapter, extractNctIds } from "./sources";
+import { MetadataEnricher, OpenAccessResolver, getDefaultEnricher, getDefaultOpenAccessResolver } from "./enrichment";
+import { scorePaper } from "./scoring";
+import { mapToDiseaseTopic, normalizeLegacyTopics } from "./topics";
+import { agentsForFeed, buildSwarmQuery, getSwarmConfig, swarmCutoffDate } from "./swarmConfig";
+import { buildTopicQuery, describeTopicsForPrompt, findTopic, getTopicSearchTerms, topicVocabularyKey } from "./topicRegistry";
+import { PaperStore, getDefaultPaperStore } from "./store";
+import { parsePatentNumber, patentNumberFromUrl, patentStatusFromKind, collapsePatentFamilies } from "./patents";
+import { IdentityFields, createIdentityResolver, identityKeys, isFuzzyMatch } from "./identity";
+import { scoreImportedPaper } from "./citations";
+import { AuditLog, AgentRunRecord, getDefaultAuditLog, newRunId } from "./auditLog";
+import { claimedDates, dateKindForPublication, paperDate, provenanceOf, resolveWebSearchDate } from "./paperDates";
+import { AgentContext, AgentJob, AgentPoolOptions, DEFAULT_RETRY_POLICY, describeError, runAgentPool, throwIfAborted } from "./agentRunner";
 
 // --- CACHE CONFIGURATION ---
+// Feed results live in the IndexedDB paper store (services/store), which owns TTLs and eviction.
+// Keys keep the v2 shape so entries migrated from localStorage still hit.
 const CACHE_KEY_PREFIX = 'bioinsight_cache_v2_';
-// Live Feed: 15 Minutes
-const CACHE_TTL_LIVE = 15 * 60 * 1000; 
-// AI Feed: 24 Hours
-const CACHE_TTL_AI = 24 * 60 * 60 * 1000;
-// Patent Feed: 7 Days
-const CACHE_TTL_PATENT = 7 * 24 * 60 * 60 * 1000;
-
-// --- TOPIC EXPANSION MAP (UPDATED v2.2) ---
-// Strategy: Removed 'intitle:' constraints to improve Patent/Abstract recall.
-// Added 2024/2025 Pipeline Drugs (Retatrutide, CagriSema, etc).
-const TOPIC_EXPANSION: Record<string, string> = {
-    'MASH / NASH': '("MASH" OR "NASH" OR "MASLD" OR "Steatohepatitis")',
-    'Obesity': '("Obesity" OR "Weight Loss" OR "BMI" OR "Semaglutide" OR "Tirzepatide" OR "Retatrutide" OR "CagriSema" OR "Orforglipron" OR "Amycretin" OR "GLP-1" OR "Amylin" OR "HFpEF" OR "Sleep Apnea")',
-    'Diabetes': '("Diabetes" OR "Type 2" OR "T2D" OR "HbA1c" OR "Insulin" OR "SGLT2" OR "Finerenone" OR "Sotagliflozin")',
-    'CVD': '("Cardiovascular" OR "Heart Failure" OR "Atherosclerosis" OR "Myocardial" OR "HFrEF")',
-    'CKD': '("Chronic Kidney Disease" OR "CKD" OR "Renal Failure" OR "Nephropathy" OR "Glomerular")'
-};
 
 // --- HELPER FUNCTIONS ---
 
-const getCacheKey = (type: 'live' | 'ai' | 'patent', topics: string[]): string => {
+// `variant` separates results produced under different agent configurations (swarm revision)
+const getCacheKey = (type: FeedType, topics: string[], variant: string = ''): string => {
     const sorted = [...topics].sort().join('_');
-    return `${CACHE_KEY_PREFIX}${type}_${sorted}`;
+    return `${CACHE_KEY_PREFIX}${type}_${sorted}_${topicVocabularyKey(topics)}${variant}`;
 };
 
-const checkCache = (type: 'live' | 'ai' | 'patent', topics: string[]): PaperData[] | null => {
+const checkCache = async (store: PaperStore, type: FeedType, topics: string[], variant?: string): Promise<PaperData[] | null> => {
     try {
-        const key = getCacheKey(type, topics);
-        const stored = localStorage.getItem(key);
-        if (!stored) return null;
-
-        const entry: CacheEntry = JSON.parse(stored);
-        const now = Date.now();
-        
-        let ttl = CACHE_TTL_LIVE;
-        if (type === 'ai') ttl = CACHE_TTL_AI;
-        if (type === 'patent') ttl = CACHE_TTL_PATENT;
-
-        if (now - entry.timestamp < ttl) {
-            console.log(`[Cache Hit - ${type}] Returning ${entry.papers.length} items.`);
-            return entry.papers;
-        } else {
-            console.log(`[Cache Expired - ${type}] Removing old data.`);
-            localStorage.removeItem(key);
-            return null;
-        }
+        return await store.getFeed(getCacheKey(type, topics, variant));
     } catch (e) {
+        console.warn(`[Cache - ${type}] Paper store unavailable`, e);
         return null;
     }
 };
 
-const saveCache = (type: 'live' | 'ai' | 'patent', topics: string[], papers: PaperData[]) => {
-    try {
-        const key = getCacheKey(type, topics);
-        const entry: CacheEntry = {
-            timestamp: Date.now(),
-            papers: papers
-        };
-        localStorage.setItem(key, JSON.stringify(entry));
-    } catch (e) {
-        console.warn("Failed to save to cache (likely quota)", e);
-    }
-};
-
-const parseJSON = (text: string): any[] => {
+// Incremental runs (`merge`) add to the existing entry so a later cache hit returns the whole window
+const saveCache = async (store: PaperStore, type: FeedType, topics: string[], papers: PaperData[], variant?: string, merge = false) => {
     try {
-        const jsonBlockRegex = /```json\n([\s\S]*?)\n```/;
-        const match = text.match(jsonBlockRegex);
-        if (match) return JSON.parse(match[1]);
-        
-        const start = text.indexOf('[');
-        const end = text.lastIndexOf(']');
-        if (start !== -1 && end !== -1) {
-            return JSON.parse(text.substring(start, end + 1));
-        }
+        await store.putFeed(getCacheKey(type, topics, variant), type, topics, papers, { merge });
     } catch (e) {
-        console.warn("JSON Parse Warning", e);
+        console.warn("Failed to save to cache", e);
     }
-    return [];
 };
 
 const checkTokenOverlap = (aiTitle: string, targetText: string): boolean => {
@@ -97,36 +56,39 @@ const checkTokenOverlap = (aiTitle: string, targetText: string): boolean => {
     return (matches.length / aiTokens.length) >= 0.4;
 };
 
-// Robust mapping to ensure legacy/synonym topics map to the new "MASH / NASH" enum value
-const mapToDiseaseTopic = (input: string): DiseaseTopic => {
-    const upper = input?.toUpperCase() || '';
-    if (upper.includes('NASH') || upper.includes('MASH') || upper.includes('MASLD') || upper.includes('STEATOHEPATITIS')) {
-        return DiseaseTopic.MASH; // Returns 'MASH / NASH'
+const reportIssues = (agentName: string, issues: ValidationIssue[]) => {
+    for (const issue of issues) {
+        console.warn(`[${agentName}] ${formatValidationIssue(issue)}`, issue.value);
     }
-    // Iterate keys to find match
-    for (const key in DiseaseTopic) {
-        if (upper === key) {
-            return DiseaseTopic[key as keyof typeof DiseaseTopic];
-        }
-    }
-    // Iterate values to find match
-    for (const value of Object.values(DiseaseTopic)) {
-         if (upper === value.toUpperCase()) return value;
-    }
-    
-    return DiseaseTopic.CVD; // Default fallback
 };
 
 // --- AGENT GENERATOR CORE ---
+// Provider failures propagate so the agent runner can retry them and report the agent as failed;
+// a response that parses to nothing usable is a successful run with zero items.
+// Either way the run lands in the audit log with its prompt, raw output and per-item verdicts.
+
+// Schema-rejected records are logged by the title and url the model gave, where it gave them
+const rejectedByValidation = (issues: ValidationIssue[], payload: unknown) => issues
+    .filter(i => i.index >= 0 && !i.field)
+    .map(i => {
+        const raw = (Array.isArray(payload) ? payload[i.index] : undefined) as { title?: unknown; url?: unknown } | null | undefined;
+        return {
+            title: typeof raw?.title === 'string' && raw.title.trim() ? raw.title.trim() : `Record #${i.index}`,
+            url: typeof raw?.url === 'string' ? raw.url : undefined,
+            reason: 'invalid-record' as const,
+            detail: i.reason
+        };
+    });
 
-const runHybridAgent = async (
+export const runHybridAgent = async (
+    provider: LLMProvider,
     agentName: string, 
     searchQuery: string, 
     cutoffDate: Date,
-    feedType: 'live' | 'ai' | 'patent'
+    feedType: 'live' | 'ai' | 'patent',
+    context: AgentContext,
+    audit: AuditLog
 ): Promise<PaperData[]> => {
-    const modelId = "gemini-2.5-flash"; 
-
     // Customized System Prompts based on Feed Type
     // IMPL: Option 2 (Negative Prompt Tuning)
     let instructionBlock = `
@@ -146,6 +108,9 @@ const runHybridAgent = async (
         4.  **MAPPING:** 
             - 'authors' = Assignee/Company (e.g. Novo Nordisk).
             - 'journalOrConference' = Patent Office (e.g. USPTO, WIPO).
+            - 'publicationNumber' = Full publication number WITH kind code (e.g. US20240123456A1, EP4123456B1).
+            - 'date' = Publication date; 'priorityDate' / 'filingDate' as printed on the document.
+            - 'cpcClasses' / 'ipcClasses', 'claimsSummary' (claim 1 in one sentence), 'familyId' when listed.
         `;
     }
 
@@ -153,215 +118,661 @@ const runHybridAgent = async (
         You are the ${agentName}.
         ${instructionBlock}
         
-        **JSON SCHEMA:**
-        [
-          {
-            "url": "Exact URL from search result",
-            "title": "Full title",
-            "date": "YYYY-MM-DD",
-            "authors": ["Author 1" (or Assignee for Patents)],
-            "doi": "10.xxxx/xxxxx",
-            "topic": "CVD | CKD | MASH | NASH | MASLD | Diabetes | Obesity",
-            "publicationType": "Preprint | Peer Reviewed | Review Article | Patent",
-            "studyType": "Clinical Trial | Human Cohort | Pre-clinical | Simulated",
-            "methodology": "AI/ML | Lab Experimental | Statistical",
-            "modality": "Genetics | Proteomics | Imaging | Clinical Data | Other",
-            "abstractHighlight": "Brief 15-word summary",
-            "drugAndTarget": "Drug (Target) or N/A",
-            "context": "Why relevant? (Max 10 words)"
-          }
-        ]
+        **TOPICS:** Label 'topics' using only these names: ${describeTopicsForPrompt()}
+
+        **OUTPUT:** Respond with ONLY a JSON array matching this schema:
+        ${JSON.stringify(PAPER_RECORDS_SCHEMA)}
     `;
 
+    const run: AgentRunRecord = {
+        runId: newRunId(),
+        agentId: context.agentId,
+        agentName,
+        feed: feedType,
+        kind: 'web-search',
+        providerId: provider.id,
+        model: provider.model,
+        startedAt: new Date().toISOString(),
+        finishedAt: '',
+        query: searchQuery,
+        cutoffDate: cutoffDate.toISOString(),
+        prompt: systemPrompt,
+        rawText: '',
+        chunks: [],
+        validationIssues: [],
+        accepted: [],
+        rejected: []
+    };
+    const finish = () => audit.record({ ...run, finishedAt: new Date().toISOString() });
+
+    let text: string;
+    let groundingChunks: GroundingChunk[];
     try {
-        const response = await ai.models.generateContent({
-            model: modelId,
-            contents: systemPrompt,
-            config: {
-                temperature: 0.1, 
-                tools: [{ googleSearch: {} }]
-            }
-        });
+        ({ text, chunks: groundingChunks } = await context.retry(() => provider.generateWithSearch(systemPrompt, {
+            temperature: 0.1,
+            responseSchema: PAPER_RECORDS_SCHEMA,
+            signal: context.signal
+        })));
+    } catch (e) {
+        run.error = describeError(e);
+        finish();
+        throw e;
+    }
+    run.rawText = text;
+    run.chunks = groundingChunks;
+
+    const payload = extractJsonPayload(text);
+    const validated = payload.value === undefined ? { records: [], issues: [] } : validateAgentRecords(payload.value);
+    const aiJson = validated.records;
+    const issues = [...payload.issues, ...validated.issues];
+    reportIssues(agentName, issues);
+    run.validationIssues = issues.map(formatValidationIssue);
+    run.rejected.push(...rejectedByValidation(issues, payload.value));
+
+    if (aiJson.length > 0 && groundingChunks.length === 0) {
+        run.rejected.push(...aiJson.map(item => ({ title: item.title, url: item.url, reason: 'no-grounding' as const })));
+    }
+    if (aiJson.length === 0 || groundingChunks.length === 0) { finish(); return []; }
 
-        const aiJson = parseJSON(response?.text || "");
-        // @ts-ignore 
-        const groundingChunks = response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        
-        if (aiJson.length === 0 || groundingChunks.length === 0) return [];
+    const verifiedPapers: PaperData[] = [];
+    const cutoffTime = cutoffDate.getTime();
+
+    for (const item of aiJson) {
+        const exactChunk = item.url ? groundingChunks.find(c => c.uri === item.url) : undefined;
+        const matchedChunk = exactChunk || groundingChunks.find(c => c.title ? checkTokenOverlap(item.title, c.title) : false);
 
-        const verifiedPapers: PaperData[] = [];
-        const cutoffTime = cutoffDate.getTime();
+        if (!matchedChunk) {
+            run.rejected.push({ title: item.title, url: item.url, reason: 'no-matching-chunk', detail: `Checked ${groundingChunks.length} grounding chunks` });
+            continue;
+        }
 
-        for (const item of aiJson) {
-            const matchedChunk = groundingChunks.find((c: any) => {
-                if (!c.web?.uri) return false;
-                const exactUrlMatch = item.url && c.web.uri === item.url;
-                const titleMatch = c.web.title ? checkTokenOverlap(item.title, c.web.title) : false;
-                return exactUrlMatch || titleMatch;
-            });
+        // The model's DOI is only a claim until the Crossref pass resolves it
+        const finalUrl = matchedChunk.uri;
+        const doi = item.doi && item.doi.includes('10.') ? item.doi.trim() : undefined;
+
+        // Date Parsing & Filtering
+        const publicationType = feedType === 'patent' ? PublicationType.Patent : (item.publicationType || PublicationType.PeerReviewed);
+        const pageText = `${matchedChunk.title || ''} ${matchedChunk.snippet || ''}`;
+        const itemDate = resolveWebSearchDate(item.date, pageText, dateKindForPublication(publicationType));
+        if (!itemDate) {
+            run.rejected.push({ title: item.title, url: finalUrl, reason: 'unparseable-date', detail: `Model gave "${item.date ?? ''}"; no date on the search result` });
+            continue;
+        }
 
-            if (!matchedChunk || !matchedChunk.web?.uri) continue;
+        if (new Date(itemDate.date).getTime() < cutoffTime) {
+            run.rejected.push({ title: item.title, url: finalUrl, reason: 'before-cutoff', detail: `${itemDate.date} (${itemDate.source}) is before ${cutoffDate.toISOString().split('T')[0]}` });
+            continue;
+        }
 
-            let finalUrl = matchedChunk.web.uri;
-            if (item.doi && item.doi.includes('10.')) {
-                finalUrl = `https://doi.org/${item.doi.trim()}`;
+        const parsedNumber = feedType === 'patent' ? parsePatentNumber(item.publicationNumber || patentNumberFromUrl(finalUrl)) : null;
+
+        const paperId = `${feedType}-${Math.random().toString(36).substr(2, 9)}`;
+        run.accepted.push({ paperId, title: item.title, url: finalUrl, chunk: matchedChunk, matchedBy: exactChunk ? 'exact-url' : 'fuzzy-title' });
+        verifiedPapers.push(scorePaper({
+            id: paperId,
+            title: item.title,
+            url: finalUrl,
+            journalOrConference: item.journalOrConference || new URL(finalUrl).hostname.replace('www.', ''),
+            date: itemDate.date,
+            dateInfo: provenanceOf(itemDate),
+            otherDates: feedType === 'patent' ? claimedDates(item.priorityDate, 'patent-priority') : undefined,
+            authors: item.authors || ["Unknown"],
+            topics: item.topics || [],
+            topicConfidence: item.topicConfidence,
+            publicationType,
+            studyType: item.studyType || StudyType.PreClinical,
+            methodology: feedType === 'ai' ? Methodology.AIML : (item.methodology || Methodology.Statistical),
+            modality: item.modality || ResearchModality.Other,
+            abstractHighlight: item.abstractHighlight || "Summary unavailable.",
+            drugAndTarget: item.drugAndTarget || "N/A",
+            context: item.context || `${feedType.toUpperCase()} Feed Result`,
+            validationScore: 0,
+            authorsVerified: false,
+            isLive: true,
+            isPolished: false,
+            retrievedAt: new Date().toISOString(),
+            doi,
+            nctIds: extractNctIds(`${item.title} ${item.abstractHighlight || ''}`),
+            patent: parsedNumber ? {
+                office: parsedNumber.office,
+                publicationNumber: parsedNumber.number,
+                kindCode: parsedNumber.kindCode,
+                status: patentStatusFromKind(parsedNumber.office, parsedNumber.kindCode),
+                priorityDate: item.priorityDate,
+                filingDate: item.filingDate,
+                cpcClasses: item.cpcClasses || [],
+                ipcClasses: item.ipcClasses || [],
+                claimsSummary: item.claimsSummary,
+                familyId: item.familyId,
+                familyMembers: []
+            } : undefined,
+            evidence: {
+                grounding: exactChunk ? 'exact-url' : 'fuzzy-title',
+                groundingUri: matchedChunk.uri,
+                auditRunId: run.runId
             }
+        }));
+    }
 
-            // Date Parsing & Filtering
-            let itemDate = new Date(item.date);
-            if (isNaN(itemDate.getTime())) {
-                const snippet = (matchedChunk.web.title + " " + (matchedChunk.web.snippet || "")).toLowerCase();
-                if (snippet.includes("2024") || snippet.includes("2025")) {
-                    itemDate = new Date(); 
-                } else {
-                    continue; 
-                }
-            }
+    finish();
+    return verifiedPapers;
+};
 
-            if (itemDate.getTime() < cutoffTime) continue;
-
-            verifiedPapers.push({
-                id: `${feedType}-${Math.random().toString(36).substr(2, 9)}`,
-                title: item.title,
-                url: finalUrl,
-                journalOrConference: item.journalOrConference || new URL(finalUrl).hostname.replace('www.', ''),
-                date: itemDate.toISOString().split('T')[0],
-                authors: item.authors || ["Unknown"],
-                topic: mapToDiseaseTopic(item.topic), // Use strict mapper
-                publicationType: feedType === 'patent' ? PublicationType.Patent : ((item.publicationType in PublicationType) ? item.publicationType : PublicationType.PeerReviewed),
-                studyType: (item.studyType in StudyType) ? item.studyType : StudyType.PreClinical,
-                methodology: feedType === 'ai' ? Methodology.AIML : ((item.methodology in Methodology) ? item.methodology : Methodology.Statistical),
-                modality: (item.modality in ResearchModality) ? item.modality : ResearchModality.Other,
-                abstractHighlight: item.abstractHighlight || "Summary unavailable.",
-                drugAndTarget: item.drugAndTarget || "N/A",
-                context: item.context || `${feedType.toUpperCase()} Feed Result`,
-                validationScore: 90, 
-                authorsVerified: false,
-                isLive: true,
-                isPolished: false
-            });
-        }
+// --- SOURCE CLASSIFIER AGENT ---
+// Records from PubMed / Europe PMC / bioRxiv already carry canonical metadata, as do imported references.
+// The model only assigns our taxonomy labels and the one-line highlight.
+
+const CLASSIFIER_BATCH_SIZE = 20;
+
+// What the classifier is shown; SourceRecords satisfy it as they are
+interface ClassifierInput {
+    key: string;
+    title: string;
+    journal: string;
+    publicationTypes: string[];
+    abstract: string;
+    url: string;
+}
+
+// `toPaper` turns a labelled input into the paper to keep; unlabelled inputs are reported and dropped
+const runClassifierAgent = async <T extends ClassifierInput>(
+    provider: LLMProvider,
+    agentName: string,
+    records: T[],
+    context: AgentContext,
+    audit: AuditLog,
+    toPaper: (record: T, label: ClassificationRecord, runId: string) => PaperData
+): Promise<PaperData[]> => {
+    const papers: PaperData[] = [];
 
-        return verifiedPapers;
+    for (let i = 0; i < records.length; i += CLASSIFIER_BATCH_SIZE) {
+        const batch = records.slice(i, i + CLASSIFIER_BATCH_SIZE);
+        const listing = batch.map(r => ({
+            id: r.key,
+            title: r.title,
+            journal: r.journal,
+            publicationTypes: r.publicationTypes,
+            abstract: r.abstract.slice(0, 800)
+        }));
 
-    } catch (e: any) {
-        console.warn(`Agent ${agentName} encountered an issue: ${e.message}`);
-        return [];
+        const prompt = `
+        You are the ${agentName}. Classify each bibliographic record below. Do NOT add, remove or rename records.
+
+        **RECORDS:**
+        ${JSON.stringify(listing)}
+
+        **TOPICS:** Label 'topics' using only these names: ${describeTopicsForPrompt()}
+
+        **OUTPUT:** Respond with ONLY a JSON array, one entry per record id, matching this schema:
+        ${JSON.stringify(CLASSIFICATION_SCHEMA)}
+        `;
+
+        const run: AgentRunRecord = {
+            runId: newRunId(),
+            agentId: context.agentId,
+            agentName,
+            feed: 'live',
+            kind: 'classifier',
+            providerId: provider.id,
+            model: provider.model,
+            startedAt: new Date().toISOString(),
+            finishedAt: '',
+            prompt,
+            rawText: '',
+            chunks: [],
+            validationIssues: [],
+            accepted: [],
+            rejected: []
+        };
+        const finish = () => audit.record({ ...run, finishedAt: new Date().toISOString() });
+
+        let text: string;
+        try {
+            text = await context.retry(() => provider.complete(prompt, { temperature: 0.1, responseSchema: CLASSIFICATION_SCHEMA, signal: context.signal }));
+        } catch (e) {
+            run.error = describeError(e);
+            finish();
+            throw e;
+        }
+        run.rawText = text;
+        const payload = extractJsonPayload(text);
+        const validated = payload.value === undefined ? { records: [], issues: [] } : validateClassifications(payload.value);
+        const labels = validated.records;
+        const issues = [...payload.issues, ...validated.issues];
+        reportIssues(agentName, issues);
+        run.validationIssues = issues.map(formatValidationIssue);
+
+        const labelsById = new Map(labels.map(l => [l.id, l]));
+        for (const record of batch) {
+            const label = labelsById.get(record.key);
+            if (!label) {
+                console.warn(`[${agentName}] No classification returned for ${record.key}`);
+                run.rejected.push({ title: record.title, url: record.url, reason: 'no-classification', detail: record.key });
+                continue;
+            }
+            const paper = toPaper(record, label, run.runId);
+            run.accepted.push({ paperId: paper.id, title: record.title, url: record.url, matchedBy: 'registry' });
+            papers.push(paper);
+        }
+        finish();
     }
+
+    return papers;
 };
 
+const registryRecordToPaper = (record: SourceRecord, label: ClassificationRecord, runId: string): PaperData => scorePaper({
+    id: `live-${record.key.replace(/[^a-z0-9]+/gi, '-')}`,
+    title: record.title,
+    url: record.url,
+    journalOrConference: record.journal,
+    date: record.date,
+    dateInfo: record.date ? provenanceOf(paperDate(record.date, record.dateKind, 'registry', record.datePrecision)) : undefined,
+    otherDates: record.otherDates,
+    authors: record.authors.length > 0 ? record.authors : ["Unknown"],
+    topics: label.topics || [],
+    topicConfidence: label.topicConfidence,
+    publicationType: record.isPreprint ? PublicationType.Preprint : (label.publicationType || PublicationType.PeerReviewed),
+    studyType: label.studyType || StudyType.PreClinical,
+    methodology: label.methodology || Methodology.Statistical,
+    modality: label.modality || ResearchModality.Other,
+    abstractHighlight: label.abstractHighlight || "Summary unavailable.",
+    drugAndTarget: label.drugAndTarget || "N/A",
+    context: label.context || `${record.source} record`,
+    validationScore: 0,
+    authorsVerified: record.authors.length > 0,
+    affiliations: record.affiliations,
+    keywords: label.keywords,
+    isLive: true,
+    isPolished: false,
+    retrievedAt: new Date().toISOString(),
+    doi: record.doi,
+    pmid: record.pmid,
+    pmcid: record.pmcid,
+    abstract: record.abstract,
+    source: record.source,
+    nctIds: extractNctIds(`${record.title} ${record.abstract}`),
+    evidence: { grounding: 'registry', auditRunId: runId }
+});
+
 // --- EXPORTED STREAMS ---
 
+// Collaborators a stream can be given; anything omitted falls back to the env-configured default
+export interface FeedDependencies {
+    provider: LLMProvider;
+    sources: SourceAdapter[];
+    enricher: MetadataEnricher;
+    trials: ClinicalTrialsAdapter;
+    swarms: SwarmConfig;
+    store: PaperStore;
+    audit: AuditLog;
+}
+
+const resolveDeps = (deps: Partial<FeedDependencies>): FeedDependencies => ({
+    provider: deps.provider || getDefaultProvider(),
+    sources: deps.sources || getDefaultSourceAdapters(),
+    enricher: deps.enricher || getDefaultEnricher(),
+    trials: deps.trials || getDefaultTrialsAdapter(),
+    swarms: deps.swarms || getSwarmConfig(),
+    store: deps.store || getDefaultPaperStore(),
+    audit: deps.audit || getDefaultAuditLog()
+});
+
+const swarmVariant = (swarms: SwarmConfig) => `_r${swarms.revision}`;
+
+// Per-call options, as opposed to injected dependencies
+export interface StreamOptions {
+    since?: Date; // High-water mark: only ask for items newer than this and bypass the cached window
+    signal?: AbortSignal; // Cancels the scan; nothing is cached from a cancelled run
+    onAgentStatus?: (status: AgentRunStatus) => void;
+    agentIds?: string[]; // Run only these agents (e.g. retrying failures); results merge into the cached window
+}
+
+// A stream's fixed lookback window, narrowed to the high-water mark when one is given
+const windowStart = (defaultStart: Date, since?: Date): Date =>
+    since && since.getTime() > defaultStart.getTime() ? since : defaultStart;
+
+// Partial runs neither read the cache nor replace it
+const isPartialRun = (options: StreamOptions) => !!options.since || !!options.agentIds;
+
+const selectJobs = <T>(jobs: AgentJob<T>[], options: StreamOptions): AgentJob<T>[] =>
+    options.agentIds ? jobs.filter(j => options.agentIds!.includes(j.id)) : jobs;
+
+const poolOptions = (swarms: SwarmConfig, options: StreamOptions): AgentPoolOptions => ({
+    concurrency: swarms.maxConcurrentAgents,
+    policy: { ...DEFAULT_RETRY_POLICY, maxAttempts: swarms.maxAttempts },
+    signal: options.signal,
+    onStatus: options.onAgentStatus
+});
+
+// Web-search swarm agents share one job shape across the Live, AI and Patent feeds
+const swarmJobs = (provider: LLMProvider, audit: AuditLog, swarms: SwarmConfig, feed: 'live' | 'ai' | 'patent', topicStr: string, options: StreamOptions, enricher?: MetadataEnricher): AgentJob<PaperData>[] =>
+    agentsForFeed(swarms, feed).map(agent => ({
+        id: agent.id,
+        name: agent.name,
+        feed,
+        run: async (context) => {
+            const cutoff = windowStart(swarmCutoffDate(agent.lookbackDays), options.since);
+            const candidates = await runHybridAgent(provider, agent.name, buildSwarmQuery(agent, topicStr, cutoff), cutoff, feed, context, audit);
+            return enricher ? (await enricher.enrich(candidates, context.signal)).map(scorePaper) : candidates;
+        }
+    }));
+
+// The same article often comes back from more than one registry or swarm, and any records that overlap merge
+// into one. Incoming ids are stream-local: only canonical ids leave a stream or reach its cache, so an item
+// updated later (polished, enriched) is found under the id the app shows. Results are read back through the
+// resolver, so a record whose id was upgraded by a later merge (pmid: -> doi:) is listed once, as merged.
+// Registry jobs run side by side, so a record is claimed when it is gathered: a study that two registries
+// return is classified once.
+export const createStreamCollector = () => {
+    const identities = createIdentityResolver();
+    const ids = new Set<string>();
+    const claimed: IdentityFields[] = [];
+    const current = (paperIds: string[]): PaperData[] =>
+        Array.from(new Set(paperIds.map(identities.canonicalId))).map(id => identities.get(id)!);
+    return {
+        claim: (record: IdentityFields): boolean => {
+            const keys = identityKeys(record);
+            if (identities.find(record) || claimed.some(c => identityKeys(c).some(k => keys.includes(k)) || isFuzzyMatch(record, c))) return false;
+            claimed.push(record);
+            return true;
+        },
+        collect: (papers: PaperData[]): PaperData[] => {
+            const resolved = papers.map(identities.resolve);
+            resolved.forEach(p => ids.add(p.id));
+            return current(resolved.map(p => p.id));
+        },
+        list: (): PaperData[] => current(Array.from(ids))
+    };
+};
+
 // 1. LIVE LITERATURE STREAM (Original)
-export async function* fetchLiteratureAnalysisStream(activeTopics: string[]): AsyncGenerator<PaperData[], void, unknown> {
-    const cachedData = checkCache('live', activeTopics);
+export async function* fetchLiteratureAnalysisStream(activeTopics: string[], deps: Partial<FeedDependencies> = {}, options: StreamOptions = {}): AsyncGenerator<PaperData[], void, unknown> {
+    const { provider, sources, enricher, swarms, store, audit } = resolveDeps(deps);
+    const variant = swarmVariant(swarms);
+    const cachedData = isPartialRun(options) ? null : await checkCache(store, 'live', activeTopics, variant);
     if (cachedData) { yield cachedData; return; }
 
-    const today = new Date();
-    const thirtyDaysAgo = new Date(today.getTime() - (30 * 24 * 60 * 60 * 1000));
-    const dateStr = thirtyDaysAgo.toISOString().split('T')[0];
-
-    // Use expansion map or fallback to quotes
-    const topicStr = activeTopics.map(t => TOPIC_EXPANSION[t] || `"${t}"`).join(' OR ');
-    const structuralAnchors = '("p-value" OR "confidence interval" OR "randomized" OR "cohort")';
-
-    // Rebalanced Swarm Architecture: "Prestige" vs "Volume"
-    // Swarm A: "Prestige & Society Swarm" - Targets the "Big 6" and critical society journals (AHA, ADA, Cell, Science).
-    // Swarm B: "Aggregator & Preprint Swarm" - Targets high-volume aggregators (Elsevier, Wiley, OUP, Springer) and Preprints.
-    const swarmConfig = [
-        { 
-            name: "Prestige & Society Swarm", 
-            query: `(site:nature.com OR site:science.org OR site:nejm.org OR site:thelancet.com OR site:jamanetwork.com OR site:cell.com OR site:diabetesjournals.org OR site:ahajournals.org) ${topicStr} ${structuralAnchors} after:${dateStr} -news -editorial -commentary` 
-        },
-        { 
-            name: "Aggregator & Preprint Swarm", 
-            query: `(site:sciencedirect.com OR site:onlinelibrary.wiley.com OR site:academic.oup.com OR site:link.springer.com OR site:biorxiv.org OR site:medrxiv.org OR site:pubmed.ncbi.nlm.nih.gov) ${topicStr} after:${dateStr} -news` 
-        }
-    ];
-
-    let allCollectedPapers: PaperData[] = [];
-    for (const agent of swarmConfig) {
-        await new Promise(r => setTimeout(r, 500));
-        const batchResults = await runHybridAgent(agent.name, agent.query, thirtyDaysAgo, 'live');
-        if (batchResults.length > 0) {
-            allCollectedPapers = [...allCollectedPapers, ...batchResults];
-            yield batchResults;
+    const registryCutoff = windowStart(swarmCutoffDate(swarms.registryLookbackDays), options.since);
+
+    // Registry vocabulary (synonyms + pipeline drugs); unknown topics fall back to quoting the name
+    const topicStr = buildTopicQuery(activeTopics);
+
+    // Records already resolved or claimed by another registry are not re-classified
+    const { claim, collect, list } = createStreamCollector();
+
+    const searchTerms = Array.from(new Set(activeTopics.flatMap(t => getTopicSearchTerms(t))));
+
+    // Stage 1: Registry Agents - query PubMed, Europe PMC and bioRxiv/medRxiv directly.
+    const registryJobs: AgentJob<PaperData>[] = sources.map(source => ({
+        id: `source:${source.id}`,
+        name: source.label,
+        feed: 'live',
+        run: async (context) => {
+            const records = (await context.retry(() => source.search({ terms: searchTerms, since: registryCutoff, signal: context.signal })))
+                .filter(claim);
+            if (records.length === 0) return [];
+            return (await enricher.enrich(await runClassifierAgent(provider, `${source.label} Classifier`, records, context, audit, registryRecordToPaper), context.signal)).map(scorePaper);
         }
+    }));
+
+    // Stage 2: Web-search swarms from the swarm configuration. By default "Prestige & Society" targets the
+    // "Big 6" and society journals, and "Aggregator" targets publisher hubs for articles not yet indexed by the
+    // registries above. PubMed and preprint servers are covered natively.
+    const jobs = selectJobs([...registryJobs, ...swarmJobs(provider, audit, swarms, 'live', topicStr, options, enricher)], options);
+
+    for await (const { items } of runAgentPool(jobs, poolOptions(swarms, options))) {
+        yield collect(items);
     }
-    if (allCollectedPapers.length > 0) saveCache('live', activeTopics, allCollectedPapers);
+    const allCollectedPapers = list();
+    if (allCollectedPapers.length > 0 && !options.signal?.aborted) await saveCache(store, 'live', activeTopics, allCollectedPapers, variant, isPartialRun(options));
 }
 
 // 2. AI/ML NEXUS STREAM (New)
-export async function* fetchAiAnalysisStream(activeTopics: string[]): AsyncGenerator<PaperData[], void, unknown> {
-    const cachedData = checkCache('ai', activeTopics);
+export async function* fetchAiAnalysisStream(activeTopics: string[], deps: Partial<FeedDependencies> = {}, options: StreamOptions = {}): AsyncGenerator<PaperData[], void, unknown> {
+    const { provider, enricher, swarms, store, audit } = resolveDeps(deps);
+    const variant = swarmVariant(swarms);
+    const cachedData = isPartialRun(options) ? null : await checkCache(store, 'ai', activeTopics, variant);
     if (cachedData) { yield cachedData; return; }
 
-    const today = new Date();
-    const thirtyDaysAgo = new Date(today.getTime() - (30 * 24 * 60 * 60 * 1000));
-    const dateStr = thirtyDaysAgo.toISOString().split('T')[0];
+    // Use the registry vocabulary to ensure synonyms (NASH, MASLD) are searched
+    const topicStr = buildTopicQuery(activeTopics);
+    const { collect, list } = createStreamCollector();
 
-    // Use expansion map to ensure synonyms (NASH, MASLD) are searched
-    const topicStr = activeTopics.map(t => TOPIC_EXPANSION[t] || `"${t}"`).join(' OR '); 
-    const aiKeywords = '("Machine Learning" OR "Deep Learning" OR "Transformer" OR "Large Language Model" OR "Computer Vision" OR "Generative AI")';
-    const clinicalKeywords = '("EHR" OR "Electronic Health Records" OR "MRI" OR "CT Scan" OR "Histopathology" OR "Clinical Cohort" OR "Real-world evidence")';
-    
-    // IMPL: Option 2 (Enhanced Exclusion)
-    const exclusion = '-mouse -rat -murine -vitro -preclinical -"animal model" -editorial -commentary -"opinion"';
+    const jobs = selectJobs(swarmJobs(provider, audit, swarms, 'ai', topicStr, options, enricher), options);
+    for await (const { items } of runAgentPool(jobs, poolOptions(swarms, options))) {
+        yield collect(items);
+    }
+    const allCollectedPapers = list();
+    if (allCollectedPapers.length > 0 && !options.signal?.aborted) await saveCache(store, 'ai', activeTopics, allCollectedPapers, variant, isPartialRun(options));
+}
 
-    const query = `${topicStr} AND ${aiKeywords} AND ${clinicalKeywords} ${exclusion} after:${dateStr} (site:nature.com OR site:arxiv.org OR site:medrxiv.org OR site:pubmed.ncbi.nlm.nih.gov)`;
+// 3. PATENT STREAM (New)
+export async function* fetchPatentStream(activeTopics: string[], deps: Partial<FeedDependencies> = {}, options: StreamOptions = {}): AsyncGenerator<PaperData[], void, unknown> {
+    const { provider, swarms, store, audit } = resolveDeps(deps);
+    const variant = swarmVariant(swarms);
+    const cachedData = isPartialRun(options) ? null : await checkCache(store, 'patent', activeTopics, variant);
+    if (cachedData) { yield cachedData; return; }
+
+    // Use the registry vocabulary to ensure synonyms (NASH, MASLD) are searched
+    const topicStr = buildTopicQuery(activeTopics);
+    let candidates: PaperData[] = [];
+
+    const jobs = selectJobs(swarmJobs(provider, audit, swarms, 'patent', topicStr, options), options);
+    for await (const { items } of runAgentPool(jobs, poolOptions(swarms, options))) {
+        candidates = [...candidates, ...items];
+    }
 
-    const batchResults = await runHybridAgent("AI Specialist Agent", query, thirtyDaysAgo, 'ai');
+    // US/EP/WO publications of one invention come back as separate hits; show one card per family
+    const batchResults = createStreamCollector().collect(collapsePatentFamilies(candidates));
     if (batchResults.length > 0) {
         yield batchResults;
-        saveCache('ai', activeTopics, batchResults);
+        if (!options.signal?.aborted) await saveCache(store, 'patent', activeTopics, batchResults, variant, isPartialRun(options));
     }
 }
 
-// 3. PATENT STREAM (New)
-export async function* fetchPatentStream(activeTopics: string[]): AsyncGenerator<PaperData[], void, unknown> {
-    const cachedData = checkCache('patent', activeTopics);
+// 4. CLINICAL TRIAL REGISTRY STREAM
+// Reads ClinicalTrials.gov directly; no LLM involved. Each active topic is queried separately and
+// a trial found by several topic vocabularies carries all of those labels.
+const trialToPaper = (trial: TrialRecord, topics: TopicId[]): PaperData => scorePaper({
+    id: `trial-${trial.nctId}`,
+    title: trial.title,
+    url: trial.url,
+    journalOrConference: 'ClinicalTrials.gov',
+    date: trial.lastUpdated,
+    dateInfo: trial.lastUpdated ? provenanceOf(paperDate(trial.lastUpdated, 'registry-update', 'registry')) : undefined,
+    authors: [trial.sponsor, ...trial.collaborators],
+    topics,
+    publicationType: PublicationType.TrialRegistration,
+    studyType: trial.studyType === 'OBSERVATIONAL' ? StudyType.HumanCohort : StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.ClinicalData,
+    abstractHighlight: trial.summary || "Summary unavailable.",
+    drugAndTarget: trial.interventions.join(', ') || "N/A",
+    context: `${trial.phase} · ${trial.status}`,
+    validationScore: 0,
+    authorsVerified: true,
+    isLive: true,
+    retrievedAt: new Date().toISOString(),
+    nctIds: [trial.nctId],
+    trial: {
+        nctId: trial.nctId,
+        phase: trial.phase,
+        status: trial.status,
+        sponsor: trial.sponsor,
+        enrollment: trial.enrollment,
+        interventions: trial.interventions,
+        conditions: trial.conditions,
+        primaryCompletionDate: trial.primaryCompletionDate
+    },
+    evidence: { grounding: 'registry' }
+});
+
+export async function* fetchTrialStream(activeTopics: string[], deps: Partial<FeedDependencies> = {}, options: StreamOptions = {}): AsyncGenerator<PaperData[], void, unknown> {
+    const { trials, swarms, store } = resolveDeps(deps);
+    const cachedData = isPartialRun(options) ? null : await checkCache(store, 'trial', activeTopics);
     if (cachedData) { yield cachedData; return; }
 
     const today = new Date();
-    const ninetyDaysAgo = new Date(today.getTime() - (90 * 24 * 60 * 60 * 1000)); // Patents move slower
-    const dateStr = ninetyDaysAgo.toISOString().split('T')[0];
+    const updatedSince = windowStart(new Date(today.getTime() - (90 * 24 * 60 * 60 * 1000)), options.since); // Registry updates are sparse
+
+    const byNct = new Map<string, { record: TrialRecord; topics: TopicId[] }>();
+
+    // One registry query per topic; each is its own agent so a failed topic can be retried alone
+    const jobs = selectJobs(activeTopics.map((topicName): AgentJob<PaperData> => ({
+        id: `trials:${topicName}`,
+        name: `${trials.label}: ${topicName}`,
+        feed: 'trial',
+        run: async (context) => {
+            const topic = findTopic(topicName) ? topicName : mapToDiseaseTopic(topicName);
+            const records = await context.retry(() => trials.search({ conditionTerms: getTopicSearchTerms(topicName), since: updatedSince, signal: context.signal }));
+            const fresh: TrialRecord[] = [];
+            for (const r of records) {
+                const existing = byNct.get(r.nctId);
+                if (existing) {
+                    if (topic && !existing.topics.includes(topic)) existing.topics.push(topic);
+                } else {
+                    byNct.set(r.nctId, { record: r, topics: topic ? [topic] : [] });
+                    fresh.push(r);
+                }
+            }
+            return fresh.map(r => trialToPaper(r, byNct.get(r.nctId)!.topics));
+        }
+    })), options);
 
-    // Use expansion map to ensure synonyms (NASH, MASLD) are searched
-    const topicStr = activeTopics.map(t => TOPIC_EXPANSION[t] || `"${t}"`).join(' OR ');
-    const typeKeywords = '("Method" OR "System" OR "Composition" OR "Apparatus")';
+    for await (const { items } of runAgentPool(jobs, poolOptions(swarms, options))) {
+        yield items;
+    }
 
-    // Target Google Patents or similar repositories
-    const query = `(site:patents.google.com/patent/ OR site:freepatentsonline.com) ${topicStr} AND ${typeKeywords} after:${dateStr}`;
+    // Re-emit with the final label sets so trials matched by later topics pick up every label
+    const allCollectedTrials = Array.from(byNct.values()).map(({ record, topics }) => trialToPaper(record, topics));
+    if (allCollectedTrials.some(t => t.topics.length > 1)) yield allCollectedTrials;
+    if (allCollectedTrials.length > 0 && !options.signal?.aborted) await saveCache(store, 'trial', activeTopics, allCollectedTrials, undefined, isPartialRun(options));
+}
 
-    const batchResults = await runHybridAgent("Patent Clerk Agent", query, ninetyDaysAgo, 'patent');
-    if (batchResults.length > 0) {
-        yield batchResults;
-        saveCache('patent', activeTopics, batchResults);
-    }
+// --- IMPORT CLASSIFIER (EXPOSED) ---
+// Imported references go through the same classifier agent as registry records, so they get topic, study
+// type and modality labels by the same rules as feed items. The library's own metadata is kept; its
+// publication type stands unless it only said "article". Items the model did not label (or a cancelled
+// run) come back unchanged, i.e. Unclassified.
+
+interface ImportClassifierInput extends ClassifierInput {
+    paper: PaperData;
 }
 
-// --- ON-DEMAND LINK POLISHER (EXPOSED) ---
-export const runLinkPolisher = async (paper: PaperData): Promise<string | null> => {
-    if (!paper.url) return null;
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Find the DIRECT PDF or Full Text HTML link for the scientific paper titled "${paper.title}". The current link is "${paper.url}". Return ONLY the new URL.`,
-            config: { tools: [{ googleSearch: {} }] }
+const labelImportedPaper = ({ paper }: ImportClassifierInput, label: ClassificationRecord): PaperData => scoreImportedPaper({
+    ...paper,
+    topics: label.topics || [],
+    topicConfidence: label.topicConfidence,
+    publicationType: paper.publicationType === PublicationType.PeerReviewed && label.publicationType ? label.publicationType : paper.publicationType,
+    studyType: paper.trial ? paper.studyType : (label.studyType || paper.studyType),
+    methodology: label.methodology || paper.methodology,
+    modality: label.modality || paper.modality,
+    abstractHighlight: label.abstractHighlight || paper.abstractHighlight,
+    drugAndTarget: label.drugAndTarget || paper.drugAndTarget,
+    keywords: Array.from(new Set([...(paper.keywords || []), ...(label.keywords || [])]))
+});
+
+// One agent per batch, so a failed batch can be told apart and the rest still land
+export const classifyImportedPapers = async (
+    papers: PaperData[],
+    options: { signal?: AbortSignal; onAgentStatus?: (status: AgentRunStatus) => void; provider?: LLMProvider; audit?: AuditLog } = {}
+): Promise<PaperData[]> => {
+    const provider = options.provider || getDefaultProvider();
+    const audit = options.audit || getDefaultAuditLog();
+    const inputs: ImportClassifierInput[] = papers.map(paper => ({
+        key: paper.id,
+        title: paper.title,
+        journal: paper.journalOrConference,
+        publicationTypes: [paper.publicationType],
+        abstract: paper.abstract || '',
+        url: paper.url || '',
+        paper
+    }));
+    const jobs: AgentJob<PaperData>[] = [];
+    for (let i = 0; i < inputs.length; i += CLASSIFIER_BATCH_SIZE) {
+        const batch = inputs.slice(i, i + CLASSIFIER_BATCH_SIZE);
+        jobs.push({
+            id: `import:${i / CLASSIFIER_BATCH_SIZE + 1}`,
+            name: `Import Classifier ${i + 1}-${i + batch.length}`,
+            feed: 'live',
+            run: (context) => runClassifierAgent(provider, 'Import Classifier', batch, context, audit, labelImportedPaper)
         });
-        
-        // @ts-ignore
-        const chunks = response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        const betterChunk = chunks.find((c: any) => {
-            const uri = c.web?.uri?.toLowerCase();
-            return uri && 
-                   !uri.includes('/toc/') && 
-                   !uri.includes('/issue/') && 
+    }
+    const labelled = new Map<string, PaperData>();
+    for await (const { items } of runAgentPool(jobs, { signal: options.signal, onStatus: options.onAgentStatus })) {
+        items.forEach(p => labelled.set(p.id, p));
+    }
+    return papers.map(p => labelled.get(p.id) ?? p);
+};
+
+// --- LINK POLISHER (EXPOSED) ---
+// Open-access resolution first (Unpaywall, then Europe PMC); web-search items with no identifier to
+// resolve by fall back to asking the model for a direct full-text link. The result is the updated paper,
+// to be written back to wherever it is stored; null when a lookup service could not be reached.
+export const runLinkPolisher = async (
+    paper: PaperData,
+    provider: LLMProvider = getDefaultProvider(),
+    resolver: OpenAccessResolver = getDefaultOpenAccessResolver(),
+    signal?: AbortSignal
+): Promise<PaperData | null> => {
+    const resolved = await resolver.resolve(paper, signal);
+    if (resolved?.openAccess?.source !== 'none' || !paper.url) return resolved;
+    try {
+        const { chunks } = await provider.generateWithSearch(
+            `Find the DIRECT PDF or Full Text HTML link for the scientific paper titled "${paper.title}". The current link is "${paper.url}". Return ONLY the new URL.`
+        );
+
+        const betterChunk = chunks.find(c => {
+            const uri = c.uri.toLowerCase();
+            return !uri.includes('/toc/') &&
+                   !uri.includes('/issue/') &&
                    (uri.includes('.pdf') || uri.includes('/full/') || uri.includes('/article/'));
         });
-        
-        return betterChunk?.web?.uri || null;
+        if (!betterChunk) return resolved;
+        const isPdf = betterChunk.uri.toLowerCase().includes('.pdf');
+        return {
+            ...paper,
+            isPolished: true,
+            openAccess: {
+                status: 'unknown',
+                pdfUrl: isPdf ? betterChunk.uri : undefined,
+                fullTextUrl: isPdf ? undefined : betterChunk.uri,
+                source: 'web-search',
+                resolvedAt: new Date().toISOString()
+            }
+        };
     } catch (e) {
+        console.warn(`[Link Polisher] Search fallback failed for "${paper.title}"`, e);
         return null;
     }
+};
+
+export interface PolishProgress {
+    done: number;
+    total: number;
+    resolved: number; // Items with a free full-text or PDF location
+}
+
+// Polishes every item not polished yet, one at a time, handing each update to `onPaper` as it lands so
+// a long batch can be cancelled without losing what it already found
+export const polishLinks = async (
+    papers: PaperData[],
+    onPaper: (paper: PaperData) => void,
+    options: { signal?: AbortSignal; onProgress?: (progress: PolishProgress) => void; provider?: LLMProvider; resolver?: OpenAccessResolver } = {}
+): Promise<PolishProgress> => {
+    const pending = papers.filter(p => !p.isPolished && !p.patent && !p.trial);
+    const resolver = options.resolver || getDefaultOpenAccessResolver();
+    const progress: PolishProgress = { done: 0, total: pending.length, resolved: 0 };
+    options.onProgress?.({ ...progress });
+    for (const paper of pending) {
+        throwIfAborted(options.signal);
+        const polished = await runLinkPolisher(paper, options.provider, resolver, options.signal);
+        progress.done++;
+        if (polished) {
+            if (polished.openAccess?.pdfUrl || polished.openAccess?.fullTextUrl) progress.resolved++;
+            onPaper(polished);
+        }
+        options.onProgress?.({ ...progress });
+    }
+    return progress;
 };
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../types";
+import { canonicalIdFor, createIdentityResolver, identityKeys, isFuzzyMatch, mergeRecords } from "./identity";
+
+const paper = (id: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: 'Semaglutide reduces kidney outcomes among adults with type diabetes and chronic disease',
+    journalOrConference: 'NEJM',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic', 'Katherine R Tuttle'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: 'Kidney outcomes fell by 24%.',
+    drugAndTarget: 'Semaglutide (GLP-1R)',
+    context: 'web search',
+    validationScore: 60,
+    isLive: true,
+    ...extra
+});
+
+const trial = { nctId: 'nct03819153', phase: 'Phase 3', status: 'Completed', sponsor: 'Novo Nordisk A/S', interventions: [], conditions: [] };
+
+describe('identityKeys', () => {
+    it('lists DOI, PMID and NCT keys, strongest first', () => {
+        expect(identityKeys({ title: 'x', doi: 'https://doi.org/10.1056/NEJMoa2403347', pmid: ' 38785209 ', trial })).toEqual([
+            'doi:10.1056/nejmoa2403347', 'pmid:38785209', 'nct:NCT03819153'
+        ]);
+    });
+
+    it('keys a paper that only cites a trial by its own identifiers', () => {
+        expect(identityKeys(paper('p', { nctIds: ['NCT03819153'] }))).toEqual([]);
+    });
+
+    it('keys patents by publication number, family and collapsed members', () => {
+        const patent = {
+            office: 'US', publicationNumber: '20240123456', status: 'application' as const, cpcClasses: [], ipcClasses: [],
+            familyId: 'F-77', familyMembers: ['US20240123456A1', 'EP4123456B1']
+        };
+        expect(identityKeys({ title: 'x', patent })).toEqual(['patent:US20240123456', 'patent-family:F-77', 'patent:EP4123456']);
+    });
+});
+
+describe('canonicalIdFor', () => {
+    it('uses the strongest identifier', () => {
+        expect(canonicalIdFor(paper('p', { pmid: '38785209', doi: '10.1056/NEJMoa2403347' }))).toBe('doi:10.1056/nejmoa2403347');
+    });
+
+    it('falls back to a title, first author and year fingerprint', () => {
+        const id = canonicalIdFor(paper('a'));
+        expect(id).toMatch(/^title:/);
+        expect(canonicalIdFor(paper('b', { authors: ['Perkovic V'], title: 'Semaglutide Reduces Kidney Outcomes among Adults with Type Diabetes and Chronic Disease.' }))).toBe(id);
+        expect(canonicalIdFor(paper('c', { date: '2023-05-24' }))).not.toBe(id);
+    });
+});
+
+describe('isFuzzyMatch', () => {
+    const base = paper('a');
+
+    it('matches titles at or above 0.85 token overlap', () => {
+        // 12 shared tokens of 14 (0.86) still match; 12 of 15 (0.80) do not. Short words are ignored.
+        expect(isFuzzyMatch(base, paper('b', { title: `${base.title}: a randomized trial` }))).toBe(true);
+        expect(isFuzzyMatch(base, paper('b', { title: `${base.title}: a randomized placebo trial` }))).toBe(false);
+    });
+
+    it('rejects a contradicting first author, year, identifier or record kind', () => {
+        expect(isFuzzyMatch(base, paper('b', { authors: ['Katherine R Tuttle'] }))).toBe(false);
+        expect(isFuzzyMatch(base, paper('b', { date: '2022-01-01' }))).toBe(false);
+        expect(isFuzzyMatch(base, paper('b', { date: '2025-01-01' }))).toBe(true); // Print a year after the epub
+        expect(isFuzzyMatch(paper('a', { doi: '10.1/a' }), paper('b', { doi: '10.1/b' }))).toBe(false);
+        expect(isFuzzyMatch(paper('a', { pmid: '1' }), paper('b', { pmid: '2' }))).toBe(false);
+        expect(isFuzzyMatch(base, paper('b', { trial }))).toBe(false);
+    });
+
+    it('ignores missing authors and years', () => {
+        expect(isFuzzyMatch(base, paper('b', { authors: ['Unknown'], date: '' }))).toBe(true);
+    });
+});
+
+describe('mergeRecords', () => {
+    const webSearch = paper('ws-1', { journalOrConference: 'NEJM', authors: ['Unknown'], keywords: ['ckd'] });
+    const registry = paper('pubmed-1', {
+        source: 'pubmed',
+        evidence: { grounding: 'registry' },
+        pmid: '38785209',
+        journalOrConference: 'The New England journal of medicine',
+        abstractHighlight: 'Summary unavailable.',
+        topics: ['Obesity'],
+        keywords: ['kidney'],
+        validationScore: 85,
+        scoreBreakdown: [{ label: 'Registry', points: 85, max: 100, detail: 'PubMed record' }]
+    });
+
+    it('prefers registry values and records where each field came from', () => {
+        const merged = mergeRecords(webSearch, registry);
+
+        expect(merged.id).toBe('ws-1');
+        expect(merged).toMatchObject({ journalOrConference: 'The New England journal of medicine', authors: ['Vlado Perkovic', 'Katherine R Tuttle'], pmid: '38785209' });
+        // Placeholders in the preferred copy are filled from the other one
+        expect(merged.abstractHighlight).toBe('Kidney outcomes fell by 24%.');
+        expect(merged.topics).toEqual(['Obesity', 'Diabetes']);
+        expect(merged.keywords).toEqual(['kidney', 'ckd']);
+        expect(merged.provenance).toMatchObject({
+            journalOrConference: 'pubmed',
+            authors: 'pubmed',
+            pmid: 'pubmed',
+            abstractHighlight: 'web-search',
+            topics: 'pubmed',
+            validationScore: 'pubmed',
+            date: 'pubmed'
+        });
+        expect(merged.validationScore).toBe(85);
+    });
+
+    it('keeps provenance from earlier merges', () => {
+        const once = mergeRecords(webSearch, registry);
+        const twice = mergeRecords(once, paper('epmc-1', { source: 'europepmc', evidence: { grounding: 'registry' }, abstract: 'Full abstract.' }));
+        expect(twice.provenance).toMatchObject({ journalOrConference: 'pubmed', abstract: 'europepmc' });
+    });
+
+    it('lets a real date replace a low-confidence one', () => {
+        const snippet = paper('ws-2', { date: '2024-12-31', dateInfo: { kind: 'epub', source: 'page-metadata', confidence: 'low', precision: 'year' } });
+        const dated = paper('ws-3', { date: '2024-05-24', dateInfo: { kind: 'epub', source: 'registry', confidence: 'high', precision: 'day' }, source: 'pubmed' });
+        const merged = mergeRecords(dated, snippet);
+        expect(merged).toMatchObject({ date: '2024-05-24', dateInfo: { confidence: 'high' } });
+        expect(mergeRecords(snippet, { ...dated, evidence: undefined }).date).toBe('2024-05-24');
+    });
+});
+
+describe('createIdentityResolver', () => {
+    it('reports renames when a stronger identifier upgrades the canonical id', () => {
+        const identities = createIdentityResolver();
+        const first = identities.resolve(paper('live-pmid-1', { pmid: '1' }));
+        expect(first.id).toBe('pmid:1');
+        expect(identities.takeRenames()).toEqual({ 'live-pmid-1': 'pmid:1' });
+
+        const upgraded = identities.resolve(paper('ws-9', { pmid: '1', doi: '10.1/X' }));
+        expect(upgraded.id).toBe('doi:10.1/x');
+        expect(identities.takeRenames()).toEqual({ 'pmid:1': 'doi:10.1/x', 'ws-9': 'doi:10.1/x' });
+        expect(identities.canonicalId('live-pmid-1')).toBe('doi:10.1/x');
+        expect(identities.get('pmid:1')).toBe(upgraded);
+        expect(identities.takeRenames()).toEqual({});
+    });
+
+    it('collapses rename chains to the current id', () => {
+        const identities = createIdentityResolver();
+        identities.resolve(paper('ws-1', { pmid: undefined }));
+        identities.resolve(paper('pubmed-1', { pmid: '1', source: 'pubmed' }));
+        identities.resolve(paper('crossref-1', { pmid: '1', doi: '10.1/x' }));
+
+        const renames = identities.takeRenames();
+        expect(renames['ws-1']).toBe('doi:10.1/x');
+        expect(renames[canonicalIdFor(paper('ws-1'))]).toBe('doi:10.1/x');
+        expect(renames['pmid:1']).toBe('doi:10.1/x');
+    });
+
+    it('finds records by any identity key, a known id or a fuzzy title', () => {
+        const identities = createIdentityResolver();
+        const stored = identities.resolve(paper('live-1', { pmid: '1', doi: '10.1/x' }));
+        expect(identities.find({ title: 'Other', pmid: '1' })).toBe(stored);
+        expect(identities.find({ title: 'Other', id: 'live-1' })).toBe(stored);
+        expect(identities.find({ title: stored.title, authors: stored.authors, date: '2024-06-01' })).toBe(stored);
+        expect(identities.find({ title: 'Tirzepatide once weekly for the treatment of obesity' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,235 @@
+import { PaperData, PaperProvenance } from "../types";
+import { parsePatentNumber } from "./patents";
+
+// --- IDENTITY RESOLUTION & RECORD MERGING ---
+// One study, one ID. Records from the Archive, registry agents, web-search swarms, patents and trials are
+// matched on DOI, PMID, NCT number or patent publication number, falling back to a fuzzy title + first
+// author + year comparison. Duplicates are merged field by field; `provenance` records where each field's
+// value came from. The canonical ID is derived from the strongest identifier, so the same study gets the
+// same ID in every feed and across sessions, and bookmarks and ratings follow it.
+
+// The subset needed to identify a record; SourceRecords from the registry adapters satisfy it too
+export type IdentityFields = Pick<PaperData, 'title'> & Partial<Pick<PaperData, 'doi' | 'pmid' | 'authors' | 'date' | 'trial' | 'patent'>>;
+
+export const normalizeDoi = (doi: string): string =>
+    doi.trim().toLowerCase().replace(/^https?:\/\/(dx\.)?doi\.org\//, '').replace(/^doi:\s*/, '');
+
+const normalizeTitle = (title: string): string =>
+    title.toLowerCase().normalize('NFKD').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// "Smith J", "Smith, John" and "John Smith" all yield "smith"
+const firstAuthorSurname = (authors?: string[]): string | undefined => {
+    const first = authors?.find(a => a && a !== 'Unknown');
+    if (!first) return undefined;
+    if (first.includes(',')) return first.split(',')[0].trim().toLowerCase();
+    const tokens = first.trim().split(/\s+/);
+    const last = tokens[tokens.length - 1];
+    const surname = tokens.length > 1 && /^[A-Z]{1,3}$/.test(last) ? tokens[0] : last;
+    return surname.toLowerCase().replace(/[^a-zÀ-ɏ-]/g, '');
+};
+
+const yearOf = (date?: string): number | undefined => {
+    const match = date?.match(/^(\d{4})/);
+    return match ? Number(match[1]) : undefined;
+};
+
+const hashString = (text: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    return (hash >>> 0).toString(36);
+};
+
+const patentKey = (raw: string): string | undefined => {
+    const parsed = parsePatentNumber(raw);
+    return parsed ? `patent:${parsed.office}${parsed.number}` : undefined;
+};
+
+// Exact identifiers, strongest first. A paper that merely cites an NCT number is not the trial record,
+// so only registry entries contribute `nct:` keys.
+export const identityKeys = (record: IdentityFields): string[] => {
+    const keys: string[] = [];
+    if (record.doi) keys.push(`doi:${normalizeDoi(record.doi)}`);
+    if (record.pmid) keys.push(`pmid:${record.pmid.trim()}`);
+    if (record.trial?.nctId) keys.push(`nct:${record.trial.nctId.toUpperCase()}`);
+    if (record.patent) {
+        const own = patentKey(`${record.patent.office}${record.patent.publicationNumber}`);
+        if (own) keys.push(own);
+        if (record.patent.familyId) keys.push(`patent-family:${record.patent.familyId}`);
+        record.patent.familyMembers.forEach(m => {
+            const key = patentKey(m);
+            if (key && !keys.includes(key)) keys.push(key);
+        });
+    }
+    return keys;
+};
+
+export const canonicalIdFor = (record: IdentityFields): string => {
+    const [strongest] = identityKeys(record);
+    if (strongest) return strongest;
+    const fingerprint = [normalizeTitle(record.title), firstAuthorSurname(record.authors) || '', yearOf(record.date) ?? ''].join('|');
+    return `title:${hashString(fingerprint)}`;
+};
+
+const titleTokens = (title: string) => new Set(normalizeTitle(title).split(' ').filter(t => t.length > 2));
+
+// Near-identical titles (Jaccard >= 0.85 on 3+ letter tokens), and no contradiction on first author, year,
+// DOI/PMID or record kind - a trial registration and its results paper often share a title but are not one record
+export const isFuzzyMatch = (a: IdentityFields, b: IdentityFields): boolean => {
+    if (!!a.trial !== !!b.trial || !!a.patent !== !!b.patent) return false;
+    if (a.doi && b.doi && normalizeDoi(a.doi) !== normalizeDoi(b.doi)) return false;
+    if (a.pmid && b.pmid && a.pmid.trim() !== b.pmid.trim()) return false;
+    const [ta, tb] = [titleTokens(a.title), titleTokens(b.title)];
+    if (ta.size === 0 || tb.size === 0) return false;
+    const shared = Array.from(ta).filter(t => tb.has(t)).length;
+    if (shared / (ta.size + tb.size - shared) < 0.85) return false;
+
+    const [sa, sb] = [firstAuthorSurname(a.authors), firstAuthorSurname(b.authors)];
+    if (sa && sb && sa !== sb) return false;
+    const [ya, yb] = [yearOf(a.date), yearOf(b.date)];
+    if (ya !== undefined && yb !== undefined && Math.abs(ya - yb) > 1) return false;
+    return true;
+};
+
+// --- MERGING ---
+
+// Where a record came from, as recorded in provenance
+export const recordOrigin = (paper: PaperData): string => {
+    if (paper.source) return paper.source;
+    if (paper.importedFrom) return 'import';
+    if (paper.trial) return 'clinicaltrials';
+    if (!paper.isLive) return 'archive';
+    if (paper.patent) return 'patent-search';
+    return 'web-search';
+};
+
+// Registry metadata beats the curated archive, which beats LLM-extracted web-search results
+const authority = (paper: PaperData): number => {
+    if (paper.evidence?.grounding === 'registry') return 3;
+    if (!paper.isLive) return 2;
+    return paper.doiStatus === 'resolved' ? 2 : 1;
+};
+
+const PLACEHOLDERS = new Set(['', 'Unknown', 'N/A', 'Summary unavailable.']);
+
+const isPresent = (value: unknown): boolean => {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return !PLACEHOLDERS.has(value.trim());
+    if (Array.isArray(value)) return value.length > 0 && !(value.length === 1 && PLACEHOLDERS.has(String(value[0])));
+    return true;
+};
+
+const UNION_FIELDS = new Set<keyof PaperData>(['topics', 'nctIds', 'keywords', 'notes', 'affiliations']);
+// Taken together from one record so the score always matches its breakdown
+const SCORE_FIELDS: (keyof PaperData)[] = ['validationScore', 'scoreBreakdown', 'evidence'];
+// Also taken together, so a date never carries another record's provenance
+const DATE_FIELDS: (keyof PaperData)[] = ['date', 'dateInfo'];
+const SKIP_FIELDS = new Set<keyof PaperData>(['id', 'provenance', 'topicConfidence', 'retrievedAt', 'otherDates', ...SCORE_FIELDS, ...DATE_FIELDS]);
+
+const provenanceOf = (paper: PaperData, field: string): string => paper.provenance?.[field] ?? recordOrigin(paper);
+
+export const mergeRecords = (existing: PaperData, incoming: PaperData): PaperData => {
+    const [preferred, other] = authority(incoming) > authority(existing) ? [incoming, existing] : [existing, incoming];
+    const merged: Record<string, unknown> = { id: existing.id };
+    const provenance: PaperProvenance = {};
+
+    const fields = new Set([...Object.keys(preferred), ...Object.keys(other)] as (keyof PaperData)[]);
+    for (const field of fields) {
+        if (SKIP_FIELDS.has(field)) continue;
+        const [p, o] = [preferred[field], other[field]];
+        if (UNION_FIELDS.has(field) && Array.isArray(p) && Array.isArray(o)) {
+            merged[field] = Array.from(new Set([...p, ...o]));
+            provenance[field] = isPresent(p) ? provenanceOf(preferred, field) : provenanceOf(other, field);
+            continue;
+        }
+        const source = isPresent(p) || !isPresent(o) ? preferred : other;
+        merged[field] = source[field];
+        if (source[field] !== undefined) provenance[field] = provenanceOf(source, field);
+    }
+
+    const scored = preferred.scoreBreakdown || !other.scoreBreakdown ? preferred : other;
+    SCORE_FIELDS.forEach(f => { if (scored[f] !== undefined) merged[f] = scored[f]; });
+    provenance.validationScore = provenanceOf(scored, 'validationScore');
+
+    // A low-confidence date (a bare year from a snippet) yields to a real one from the other copy
+    const dated = !isPresent(preferred.date) || (preferred.dateInfo?.confidence === 'low' && isPresent(other.date) && other.dateInfo?.confidence !== 'low')
+        ? other : preferred;
+    DATE_FIELDS.forEach(f => { if (dated[f] !== undefined) merged[f] = dated[f]; });
+    provenance.date = provenanceOf(dated, 'date');
+    const otherDates = [...(preferred.otherDates || []), ...(other.otherDates || [])]
+        .filter((d, i, all) => all.findIndex(x => x.kind === d.kind) === i);
+    if (otherDates.length > 0) merged.otherDates = otherDates;
+
+    // Highest confidence per label; earliest retrieval, so a re-found study is not "new" again
+    const confidence = { ...other.topicConfidence };
+    Object.entries(preferred.topicConfidence || {}).forEach(([t, c]) => { confidence[t] = Math.max(confidence[t] ?? 0, c); });
+    if (Object.keys(confidence).length > 0) merged.topicConfidence = confidence;
+    const retrieved = [existing.retrievedAt, incoming.retrievedAt].filter((d): d is string => !!d).sort();
+    if (retrieved.length > 0) merged.retrievedAt = retrieved[0];
+
+    merged.provenance = provenance;
+    return merged as unknown as PaperData;
+};
+
+// --- RESOLVER ---
+// Session-wide registry of merged records. `resolve` returns the merged record under its canonical ID;
+// `takeRenames` reports IDs that now point elsewhere (an incoming record's own ID, or a canonical ID that
+// was upgraded when a stronger identifier arrived) so callers can re-key bookmarks, ratings and lists.
+
+export const createIdentityResolver = () => {
+    const records = new Map<string, PaperData>(); // canonical ID -> merged record
+    const keyIndex = new Map<string, string>(); // identity key -> canonical ID
+    const aliases = new Map<string, string>(); // any ID seen -> canonical ID
+    let renames: Record<string, string> = {};
+
+    const canonicalId = (id: string): string => {
+        let current = id;
+        for (let hops = 0; aliases.has(current) && aliases.get(current) !== current && hops < 10; hops++) current = aliases.get(current)!;
+        return current;
+    };
+
+    const find = (record: IdentityFields & { id?: string }): PaperData | undefined => {
+        for (const key of identityKeys(record)) {
+            const id = keyIndex.get(key);
+            if (id) return records.get(canonicalId(id));
+        }
+        if (record.id && aliases.has(record.id)) return records.get(canonicalId(record.id));
+        for (const candidate of records.values()) {
+            if (isFuzzyMatch(record, candidate)) return candidate;
+        }
+        return undefined;
+    };
+
+    const alias = (from: string, to: string) => {
+        if (from === to) return;
+        aliases.set(from, to);
+        renames[from] = to;
+    };
+
+    const resolve = (paper: PaperData): PaperData => {
+        const existing = find(paper);
+        const merged = existing ? mergeRecords(existing, paper) : { ...paper, provenance: paper.provenance ?? {} };
+        const id = canonicalIdFor(merged);
+        merged.id = id;
+
+        if (existing && existing.id !== id) {
+            records.delete(existing.id);
+            alias(existing.id, id);
+        }
+        alias(paper.id, id);
+        aliases.set(id, id);
+        records.set(id, merged);
+        identityKeys(merged).forEach(k => keyIndex.set(k, id));
+        return merged;
+    };
+
+    const takeRenames = (): Record<string, string> => {
+        const taken = renames;
+        renames = {};
+        // Collapse chains so every old ID maps straight to the current canonical ID
+        return Object.fromEntries(Object.keys(taken).map(from => [from, canonicalId(from)]));
+    };
+
+    return { resolve, find, canonicalId, takeRenames, get: (id: string) => records.get(canonicalId(id)) };
+};
+
+export type IdentityResolver = ReturnType<typeof createIdentityResolver>;
@@ -0,0 +1,60 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GenerationOptions, GroundedGeneration, GroundingChunk, LLMProvider } from "./provider";
+
+export interface GeminiProviderConfig {
+    apiKey?: string;
+    model?: string;
+}
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+const extractChunks = (response: GenerateContentResponse): GroundingChunk[] => {
+    const raw = response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const chunks: GroundingChunk[] = [];
+    for (const c of raw) {
+        if (!c.web?.uri) continue;
+        chunks.push({ uri: c.web.uri, title: c.web.title });
+    }
+    return chunks;
+};
+
+export const createGeminiProvider = (config: GeminiProviderConfig = {}): LLMProvider => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    const defaultModel = config.model || DEFAULT_GEMINI_MODEL;
+
+    return {
+        id: 'gemini',
+        model: defaultModel,
+
+        async generateWithSearch(prompt: string, options: GenerationOptions = {}): Promise<GroundedGeneration> {
+            const response = await ai.models.generateContent({
+                model: options.model || defaultModel,
+                contents: prompt,
+                // Gemini 2.5 rejects responseJsonSchema alongside the search tool,
+                // so the schema travels in the prompt for grounded calls.
+                config: {
+                    temperature: options.temperature,
+                    abortSignal: options.signal,
+                    tools: [{ googleSearch: {} }]
+                }
+            });
+            return { text: response?.text || "", chunks: extractChunks(response) };
+        },
+
+        async complete(prompt: string, options: GenerationOptions = {}): Promise<string> {
+            const response = await ai.models.generateContent({
+                model: options.model || defaultModel,
+                contents: prompt,
+                config: {
+                    temperature: options.temperature,
+                    abortSignal: options.signal,
+                    ...(options.responseSchema && {
+                        responseMimeType: 'application/json',
+                        responseJsonSchema: options.responseSchema
+                    })
+                }
+            });
+            return response?.text || "";
+        }
+    };
+};
@@ -0,0 +1,52 @@
+import { LLMProvider } from "./provider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+import { LlmRecorder, LlmRecording, createRecordingProvider, createReplayProvider } from "./recordingProvider";
+import recordedExchanges from "./fixtures/recordings.json";
+
+export * from "./provider";
+export { createGeminiProvider } from "./geminiProvider";
+export { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+export { createMockProvider } from "./mockProvider";
+export { createRecordingProvider, createReplayProvider, agentNameOfPrompt, searchQueryOfPrompt } from "./recordingProvider";
+export type { LlmRecording, LlmRecorder } from "./recordingProvider";
+
+let defaultProvider: LLMProvider | null = null;
+let defaultRecorder: LlmRecorder | null = null;
+
+// Selects the backend from build-time env (see vite.config.ts). Gemini remains the default.
+// LLM_PROVIDER=replay serves ./fixtures/recordings.json; LLM_RECORD=true captures every exchange for export.
+export const getDefaultProvider = (): LLMProvider => {
+    if (defaultProvider) return defaultProvider;
+
+    const kind = process.env.LLM_PROVIDER || 'gemini';
+    if (kind === 'mock') {
+        defaultProvider = createMockProvider();
+    } else if (kind === 'replay') {
+        defaultProvider = createReplayProvider(recordedExchanges as LlmRecording[]);
+    } else if (kind === 'openai') {
+        defaultProvider = createOpenAiCompatibleProvider({
+            baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+            model: process.env.LLM_MODEL || 'llama3.1',
+            apiKey: process.env.LLM_API_KEY
+        });
+    } else {
+        defaultProvider = createGeminiProvider({ apiKey: process.env.API_KEY, model: process.env.LLM_MODEL });
+    }
+    if (process.env.LLM_RECORD === 'true') {
+        defaultRecorder = createRecordingProvider(defaultProvider);
+        defaultProvider = defaultRecorder.provider;
+    }
+    return defaultProvider;
+};
+
+// Null unless LLM_RECORD=true
+export const getDefaultRecorder = (): LlmRecorder | null => {
+    getDefaultProvider();
+    return defaultRecorder;
+};
+
+export const setDefaultProvider = (provider: LLMProvider) => {
+    defaultProvider = provider;
+};
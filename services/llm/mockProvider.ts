@@ -0,0 +1,39 @@
+import { GroundedGeneration, GroundingChunk, LLMProvider } from "./provider";
+
+// Deterministic provider for offline development and demos.
+// Responses are matched against the prompt in declaration order; the first hit wins.
+
+export interface MockResponse {
+    match?: string | RegExp; // Omit to match any prompt
+    text: string;
+    chunks?: GroundingChunk[];
+}
+
+export interface MockProviderConfig {
+    responses?: MockResponse[];
+    fallbackText?: string;
+}
+
+export const createMockProvider = (config: MockProviderConfig = {}): LLMProvider => {
+    const responses = config.responses || [];
+    const fallbackText = config.fallbackText ?? "[]";
+
+    const resolve = (prompt: string): GroundedGeneration => {
+        const hit = responses.find(r => {
+            if (r.match === undefined) return true;
+            return typeof r.match === 'string' ? prompt.includes(r.match) : r.match.test(prompt);
+        });
+        return { text: hit ? hit.text : fallbackText, chunks: hit?.chunks || [] };
+    };
+
+    return {
+        id: 'mock',
+        model: 'mock-deterministic',
+        async generateWithSearch(prompt: string) {
+            return resolve(prompt);
+        },
+        async complete(prompt: string) {
+            return resolve(prompt).text;
+        }
+    };
+};
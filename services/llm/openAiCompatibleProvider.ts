@@ -0,0 +1,69 @@
+import { GenerationOptions, GroundedGeneration, GroundingChunk, LLMProvider } from "./provider";
+
+// Talks to any server exposing the OpenAI `/chat/completions` route (Ollama, vLLM, LM Studio...).
+// These servers have no built-in search tool, so grounding only works when the backend
+// returns a `citations` array (Perplexity-style) alongside the completion.
+
+export interface OpenAiCompatibleConfig {
+    baseUrl: string; // e.g. http://localhost:11434/v1
+    model: string;
+    apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string } }[];
+    citations?: (string | { url?: string; title?: string; snippet?: string })[];
+}
+
+const toChunks = (citations: ChatCompletionResponse['citations']): GroundingChunk[] => {
+    if (!Array.isArray(citations)) return [];
+    const chunks: GroundingChunk[] = [];
+    for (const c of citations) {
+        if (typeof c === 'string') chunks.push({ uri: c });
+        else if (c?.url) chunks.push({ uri: c.url, title: c.title, snippet: c.snippet });
+    }
+    return chunks;
+};
+
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LLMProvider => {
+    const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const post = async (prompt: string, options: GenerationOptions): Promise<ChatCompletionResponse> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+        const res = await fetch(endpoint, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: options.model || config.model,
+                temperature: options.temperature,
+                ...(options.responseSchema && {
+                    response_format: { type: 'json_schema', json_schema: { name: 'response', schema: options.responseSchema } }
+                }),
+                messages: [{ role: 'user', content: prompt }]
+            }),
+            signal: options.signal
+        });
+        if (!res.ok) throw Object.assign(new Error(`${endpoint} responded ${res.status}`), { status: res.status, retryAfter: res.headers.get('Retry-After') ?? undefined });
+        return res.json();
+    };
+
+    return {
+        id: 'openai-compatible',
+        model: config.model,
+
+        async generateWithSearch(prompt: string, options: GenerationOptions = {}): Promise<GroundedGeneration> {
+            const body = await post(prompt, options);
+            return {
+                text: body.choices?.[0]?.message?.content || "",
+                chunks: toChunks(body.citations)
+            };
+        },
+
+        async complete(prompt: string, options: GenerationOptions = {}): Promise<string> {
+            const body = await post(prompt, options);
+            return body.choices?.[0]?.message?.content || "";
+        }
+    };
+};
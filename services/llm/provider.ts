@@ -0,0 +1,34 @@
+// --- LLM PROVIDER CONTRACT ---
+// Every model backend (Gemini, OpenAI-compatible servers, the offline mock) implements this
+// interface so the feeds and the link polisher never touch a vendor SDK directly.
+
+export interface GroundingChunk {
+    uri: string;
+    title?: string;
+    snippet?: string;
+}
+
+export interface GenerationOptions {
+    temperature?: number;
+    // Override the provider's default model for a single call
+    model?: string;
+    // JSON schema the response must satisfy. Enforced server-side where the backend supports it,
+    // otherwise callers still validate the text they get back.
+    responseSchema?: object;
+    // Aborts the request when the user cancels a scan
+    signal?: AbortSignal;
+}
+
+export interface GroundedGeneration {
+    text: string;
+    chunks: GroundingChunk[];
+}
+
+export interface LLMProvider {
+    readonly id: 'gemini' | 'openai-compatible' | 'mock';
+    readonly model: string;
+    // Generation backed by a web search tool; returns the sources the answer was grounded on
+    generateWithSearch(prompt: string, options?: GenerationOptions): Promise<GroundedGeneration>;
+    // Plain completion with no tools attached
+    complete(prompt: string, options?: GenerationOptions): Promise<string>;
+}
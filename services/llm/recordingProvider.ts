@@ -0,0 +1,105 @@
+import { GenerationOptions, GroundedGeneration, GroundingChunk, LLMProvider } from "./provider";
+
+// --- RECORD / REPLAY ---
+// The recorder wraps a real provider and keeps every exchange, so a session against live Gemini can be
+// saved as a fixture file. The replay provider serves those exchanges back without a network, matching
+// each prompt to a recording by exact text, then by search query, then by agent name.
+
+export interface LlmRecording {
+    kind: 'search' | 'complete';
+    agentName?: string; // "You are the <agent>." line of the prompt
+    query?: string; // Search query with its date bound removed, so recordings replay on any day
+    prompt: string;
+    text: string;
+    chunks: GroundingChunk[];
+    model: string;
+    recordedAt: string;
+}
+
+export const agentNameOfPrompt = (prompt: string): string | undefined => prompt.match(/You are the ([^.\n]+)\./)?.[1].trim();
+
+export const searchQueryOfPrompt = (prompt: string): string | undefined =>
+    prompt.match(/query: `([^`]*)`/)?.[1].replace(/\s*after:\d{4}-\d{2}-\d{2}/, '').trim();
+
+export const createRecordingProvider = (inner: LLMProvider) => {
+    let recordings: LlmRecording[] = [];
+
+    const keep = (kind: LlmRecording['kind'], prompt: string, options: GenerationOptions, result: GroundedGeneration) => {
+        recordings = [...recordings, {
+            kind,
+            agentName: agentNameOfPrompt(prompt),
+            query: kind === 'search' ? searchQueryOfPrompt(prompt) : undefined,
+            prompt,
+            text: result.text,
+            chunks: result.chunks,
+            model: options.model || inner.model,
+            recordedAt: new Date().toISOString()
+        }];
+    };
+
+    const provider: LLMProvider = {
+        id: inner.id,
+        model: inner.model,
+        async generateWithSearch(prompt: string, options: GenerationOptions = {}) {
+            const result = await inner.generateWithSearch(prompt, options);
+            keep('search', prompt, options, result);
+            return result;
+        },
+        async complete(prompt: string, options: GenerationOptions = {}) {
+            const text = await inner.complete(prompt, options);
+            keep('complete', prompt, options, { text, chunks: [] });
+            return text;
+        }
+    };
+
+    return {
+        provider,
+        list: (): LlmRecording[] => recordings,
+        clear: () => { recordings = []; },
+        export: (): string => JSON.stringify(recordings, null, 2)
+    };
+};
+
+export type LlmRecorder = ReturnType<typeof createRecordingProvider>;
+
+export interface ReplayProviderConfig {
+    fallbackText?: string; // Served when nothing matches; "[]" reads as an agent with no results
+}
+
+export const createReplayProvider = (recordings: LlmRecording[], config: ReplayProviderConfig = {}): LLMProvider => {
+    const fallbackText = config.fallbackText ?? "[]";
+    const used = new Set<LlmRecording>();
+
+    // Unused recordings first, so repeated identical calls replay in recorded order
+    const pick = (kind: LlmRecording['kind'], prompt: string): LlmRecording | undefined => {
+        const candidates = recordings.filter(r => r.kind === kind);
+        const query = kind === 'search' ? searchQueryOfPrompt(prompt) : undefined;
+        const agentName = agentNameOfPrompt(prompt);
+        const matchers: ((r: LlmRecording) => boolean)[] = [
+            r => r.prompt === prompt,
+            r => query !== undefined && r.query === query,
+            r => agentName !== undefined && r.agentName === agentName
+        ];
+        for (const matches of matchers) {
+            const hits = candidates.filter(matches);
+            const hit = hits.find(r => !used.has(r)) || hits[hits.length - 1];
+            if (hit) { used.add(hit); return hit; }
+        }
+        return undefined;
+    };
+
+    return {
+        id: 'mock',
+        model: 'replay',
+        async generateWithSearch(prompt: string) {
+            const hit = pick('search', prompt);
+            if (!hit) console.warn(`[Replay] No recording for search prompt of ${agentNameOfPrompt(prompt) || 'unknown agent'}`);
+            return { text: hit?.text ?? fallbackText, chunks: hit?.chunks ?? [] };
+        },
+        async complete(prompt: string) {
+            const hit = pick('complete', prompt);
+            if (!hit) console.warn(`[Replay] No recording for completion prompt of ${agentNameOfPrompt(prompt) || 'unknown agent'}`);
+            return hit?.text ?? fallbackText;
+        }
+    };
+};
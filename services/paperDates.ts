@@ -0,0 +1,143 @@
+import { DateConfidence, DateKind, DateProvenance, DateSource, PaperData, PaperDate, PublicationType } from "../types";
+
+// --- DATE PROVENANCE ---
+// A paper's `date` drives sorting and every feed's lookback cutoff, so each one records what kind of date
+// it is, where it came from, and how far to trust it. Web-search items prefer a full date printed on the
+// matched search result over the model's claim; a bare year is kept only as a low-confidence upper bound.
+
+export const DATE_KIND_LABELS: Record<DateKind, string> = {
+    'epub': 'Published online',
+    'print': 'Print issue',
+    'preprint-posted': 'Preprint posted',
+    'patent-publication': 'Patent publication',
+    'patent-priority': 'Patent priority',
+    'conference': 'Conference',
+    'registry-update': 'Registry update'
+};
+
+export const DATE_SOURCE_LABELS: Record<DateSource, string> = {
+    'registry': 'registry record',
+    'page-metadata': 'search result',
+    'model': 'model extraction',
+    'import': 'imported library'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const pad = (n: number | string) => String(n).padStart(2, '0');
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+const today = () => new Date().toISOString().split('T')[0];
+
+const isRealDate = (year: number, month: number, day: number) => {
+    const d = new Date(Date.UTC(year, month - 1, day));
+    return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+};
+
+export interface LooseDate {
+    date: string; // YYYY-MM-DD
+    precision: DateProvenance['precision'];
+}
+
+// Reads the most specific date in free text: "2025-05-21", "May 21, 2025", "21 May 2025", "2024 Mar",
+// "March 2024", then a bare year. A bare year becomes Dec 31 (or today, if sooner) so that, used against a
+// cutoff, it only rejects items that are certainly too old. Future dates are ignored.
+export const parseLooseDate = (text: string): LooseDate | null => {
+    if (!text) return null;
+    const now = today();
+    const candidates: [RegExp, (m: RegExpMatchArray) => [number, number, number] | null, LooseDate['precision']][] = [
+        [/\b(20\d{2})-(\d{2})-(\d{2})\b/, m => [Number(m[1]), Number(m[2]), Number(m[3])], 'day'],
+        [new RegExp(`\\b${MONTH}\\s+(\\d{1,2}),?\\s+(20\\d{2})\\b`, 'i'), m => [Number(m[3]), monthNumber(m[1]), Number(m[2])], 'day'],
+        [new RegExp(`\\b(\\d{1,2})\\s+${MONTH},?\\s+(20\\d{2})\\b`, 'i'), m => [Number(m[3]), monthNumber(m[2]), Number(m[1])], 'day'],
+        [new RegExp(`\\b(20\\d{2})\\s+${MONTH}(?![a-z])`, 'i'), m => [Number(m[1]), monthNumber(m[2]), 1], 'month'],
+        [new RegExp(`\\b${MONTH}\\s+(20\\d{2})\\b`, 'i'), m => [Number(m[2]), monthNumber(m[1]), 1], 'month']
+    ];
+    for (const [pattern, read, precision] of candidates) {
+        const match = text.match(pattern);
+        const parts = match ? read(match) : null;
+        if (!parts || !isRealDate(...parts)) continue;
+        const date = `${parts[0]}-${pad(parts[1])}-${pad(parts[2])}`;
+        if (date <= now) return { date, precision };
+    }
+
+    const currentYear = Number(now.slice(0, 4));
+    const years = (text.match(/\b20\d{2}\b/g) || []).map(Number).filter(y => y <= currentYear);
+    if (years.length === 0) return null;
+    const yearEnd = `${Math.max(...years)}-12-31`;
+    return { date: yearEnd < now ? yearEnd : now, precision: 'year' };
+};
+
+// Registry dates are trusted; a full date printed on the page nearly so; the model's own date is a claim
+export const dateConfidenceFor = (source: DateSource, precision: DateProvenance['precision']): DateConfidence => {
+    if (precision === 'year') return 'low';
+    if (source === 'model') return 'medium';
+    return precision === 'day' ? 'high' : 'medium';
+};
+
+export const paperDate = (date: string, kind: DateKind, source: DateSource, precision: DateProvenance['precision'] = 'day'): PaperDate =>
+    ({ date, kind, source, precision, confidence: dateConfidenceFor(source, precision) });
+
+// What a web-search item's date most likely denotes, from how the item was classified
+export const dateKindForPublication = (publicationType: PublicationType): DateKind => {
+    switch (publicationType) {
+        case PublicationType.Patent: return 'patent-publication';
+        case PublicationType.Preprint: return 'preprint-posted';
+        case PublicationType.ConferenceAbstract:
+        case PublicationType.Poster: return 'conference';
+        default: return 'epub';
+    }
+};
+
+// The model's date as written: ISO first, then the loose forms ("May 21, 2025"); "Recently published" is none
+export const parseModelDate = (raw?: string): LooseDate | null => {
+    const match = raw?.trim().match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+    if (!match) return raw ? parseLooseDate(raw) : null;
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3] || 1)];
+    if (!isRealDate(year, month, day)) return null;
+    return { date: `${match[1]}-${match[2]}-${pad(day)}`, precision: match[3] ? 'day' : 'month' };
+};
+
+const PRECISION_RANK: Record<DateProvenance['precision'], number> = { day: 3, month: 2, year: 1 };
+
+// The most precise of the search result's date and the model's; on a tie the search result wins
+export const resolveWebSearchDate = (modelDate: string | undefined, pageText: string, kind: DateKind): PaperDate | null => {
+    const page = parseLooseDate(pageText);
+    const model = parseModelDate(modelDate);
+    if (page && (!model || PRECISION_RANK[page.precision] >= PRECISION_RANK[model.precision])) {
+        return paperDate(page.date, kind, 'page-metadata', page.precision);
+    }
+    return model ? paperDate(model.date, kind, 'model', model.precision) : null;
+};
+
+// Dates the model read off a document, e.g. a patent's priority date; none when it gave nothing usable
+export const claimedDates = (raw: string | undefined, kind: DateKind): PaperDate[] => {
+    const parsed = parseModelDate(raw);
+    return parsed ? [paperDate(parsed.date, kind, 'model', parsed.precision)] : [];
+};
+
+export const provenanceOf = ({ date: _date, ...provenance }: PaperDate): DateProvenance => provenance;
+
+// --- READING ---
+
+// The paper's main date with its provenance; items saved before provenance was recorded report none
+export const primaryDate = (paper: PaperData): PaperDate | null =>
+    paper.dateInfo ? { ...paper.dateInfo, date: paper.date } : null;
+
+export const allDates = (paper: PaperData): PaperDate[] => {
+    const primary = primaryDate(paper);
+    return [...(primary ? [primary] : []), ...(paper.otherDates || [])];
+};
+
+// The date of one kind, for sorting and filtering by e.g. priority date across a patent list
+export const dateOfKind = (paper: PaperData, kind: DateKind): string | undefined =>
+    allDates(paper).find(d => d.kind === kind)?.date;
+
+export const availableDateKinds = (papers: PaperData[]): DateKind[] => {
+    const kinds = new Set(papers.flatMap(p => allDates(p).map(d => d.kind)));
+    return (Object.keys(DATE_KIND_LABELS) as DateKind[]).filter(k => kinds.has(k));
+};
+
+export const describeDate = (date: PaperDate): string => {
+    const precision = date.precision === 'day' ? '' : date.precision === 'month' ? ', month only' : ', year only (latest possible day shown)';
+    return `${DATE_KIND_LABELS[date.kind]} · from ${DATE_SOURCE_LABELS[date.source]} · ${date.confidence} confidence${precision}`;
+};
@@ -0,0 +1,318 @@
+import { PublicationType, StudyType, Methodology, ResearchModality, TopicConfidence, TopicId } from "../types";
+import { mapToDiseaseTopic, splitTopicLabels, buildTopicLabels } from "./topics";
+
+// --- STRUCTURED AGENT OUTPUT ---
+// The agent asks the model for an array of AgentPaperRecord objects. The JSON schema below is sent
+// to the provider, and validateAgentRecords() re-checks the payload at runtime because search-grounded
+// calls cannot always enforce a schema server-side.
+
+export interface AgentPaperRecord {
+    title: string;
+    url?: string;
+    doi?: string;
+    date?: string;
+    authors?: string[];
+    journalOrConference?: string;
+    topics?: TopicId[]; // Mapped from the model's labels; empty = Unclassified
+    topicConfidence?: TopicConfidence;
+    publicationType?: PublicationType;
+    studyType?: StudyType;
+    methodology?: Methodology;
+    modality?: ResearchModality;
+    abstractHighlight?: string;
+    drugAndTarget?: string;
+    context?: string;
+    affiliations?: string[];
+    funding?: string;
+    keywords?: string[];
+    // Patent mode only
+    publicationNumber?: string;
+    priorityDate?: string;
+    filingDate?: string;
+    cpcClasses?: string[];
+    ipcClasses?: string[];
+    claimsSummary?: string;
+    familyId?: string;
+}
+
+// Classification-only output for records that came from a bibliographic source adapter.
+// `id` echoes the SourceRecord key so results can be joined back to the canonical metadata.
+export type ClassificationRecord = Pick<AgentPaperRecord,
+    'topics' | 'topicConfidence' | 'publicationType' | 'studyType' | 'methodology' | 'modality' | 'abstractHighlight' | 'drugAndTarget' | 'context' | 'keywords'
+> & { id: string };
+
+export interface ValidationIssue {
+    index: number; // Position in the model's array, -1 for payload-level problems
+    field?: keyof AgentPaperRecord; // Absent when the whole record was rejected
+    reason: string;
+    value?: unknown;
+}
+
+export interface ValidationResult {
+    records: AgentPaperRecord[];
+    issues: ValidationIssue[];
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+export const PAPER_RECORDS_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            url: { type: 'string', description: 'Exact URL from a search result' },
+            title: { type: 'string', description: 'Full title' },
+            date: { type: 'string', description: 'Publication date, YYYY-MM-DD' },
+            authors: { ...stringArray, description: 'Author names (Assignee for patents)' },
+            doi: { type: 'string', description: '10.xxxx/xxxxx' },
+            journalOrConference: { type: 'string' },
+            topics: {
+                type: 'array',
+                description: 'Every listed topic the item addresses (empty if none apply)',
+                items: {
+                    type: 'object',
+                    properties: {
+                        label: { type: 'string', description: 'A topic name from the TOPICS list' },
+                        confidence: { type: 'number', description: '0-1' }
+                    },
+                    required: ['label']
+                }
+            },
+            publicationType: { type: 'string', enum: Object.values(PublicationType) },
+            studyType: { type: 'string', enum: Object.values(StudyType) },
+            methodology: { type: 'string', enum: Object.values(Methodology) },
+            modality: { type: 'string', enum: Object.values(ResearchModality) },
+            abstractHighlight: { type: 'string', description: 'Brief 15-word summary' },
+            drugAndTarget: { type: 'string', description: 'Drug (Target) or N/A' },
+            context: { type: 'string', description: 'Why relevant? (Max 10 words)' },
+            affiliations: stringArray,
+            funding: { type: 'string' },
+            keywords: stringArray,
+            publicationNumber: { type: 'string', description: 'Patents only: full number with kind code, e.g. US20240123456A1' },
+            priorityDate: { type: 'string', description: 'Patents only: earliest priority date, YYYY-MM-DD' },
+            filingDate: { type: 'string', description: 'Patents only: YYYY-MM-DD' },
+            cpcClasses: { ...stringArray, description: 'Patents only: CPC codes, e.g. A61K38/26' },
+            ipcClasses: { ...stringArray, description: 'Patents only: IPC codes' },
+            claimsSummary: { type: 'string', description: 'Patents only: one-sentence summary of independent claim 1' },
+            familyId: { type: 'string', description: 'Patents only: DOCDB/INPADOC family ID if shown' }
+        },
+        required: ['title'] // url is optional: items without one are verified against the search results by title
+    }
+};
+
+const paperProperties = PAPER_RECORDS_SCHEMA.items.properties;
+
+export const CLASSIFICATION_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', description: 'The id given for the record, unchanged' },
+            topics: paperProperties.topics,
+            publicationType: paperProperties.publicationType,
+            studyType: paperProperties.studyType,
+            methodology: paperProperties.methodology,
+            modality: paperProperties.modality,
+            abstractHighlight: paperProperties.abstractHighlight,
+            drugAndTarget: paperProperties.drugAndTarget,
+            context: paperProperties.context,
+            keywords: stringArray
+        },
+        required: ['id', 'topics']
+    }
+};
+
+// --- PAYLOAD EXTRACTION ---
+
+// Accepts a bare JSON document, a fenced ```json block anywhere in the text, or else the outermost [ ... ]
+// span. Grounded calls cannot enforce a response schema and often wrap the array in prose; that prose is
+// reported as a payload issue alongside the value instead of failing the response. `value` is undefined
+// only when no JSON could be read.
+export const extractJsonPayload = (text: string): { value?: unknown; issues: ValidationIssue[] } => {
+    const trimmed = (text || '').trim();
+    if (!trimmed) return { issues: [{ index: -1, reason: 'Empty model response' }] };
+
+    try {
+        return { value: JSON.parse(trimmed), issues: [] };
+    } catch {
+        // fall through to the embedded payload
+    }
+
+    const fenced = trimmed.match(/```(?:json)?[ \t]*\n([\s\S]*?)\n?```/);
+    const start = trimmed.indexOf('[');
+    const end = trimmed.lastIndexOf(']');
+    const span = fenced ? fenced[0] : start !== -1 && end > start ? trimmed.slice(start, end + 1) : null;
+    if (span === null) return { issues: [{ index: -1, reason: 'Response contains no JSON payload', value: trimmed.slice(0, 200) }] };
+
+    let value: unknown;
+    try {
+        value = JSON.parse(fenced ? fenced[1] : span);
+    } catch (e: any) {
+        return { issues: [{ index: -1, reason: `Response is not valid JSON: ${e.message}`, value: trimmed.slice(0, 200) }] };
+    }
+    const prose = trimmed.replace(span, ' ').replace(/\s+/g, ' ').trim();
+    return { value, issues: prose ? [{ index: -1, reason: 'Ignored text around the JSON payload', value: prose.slice(0, 200) }] : [] };
+};
+
+// --- ENUM COERCION ---
+
+const normalizeToken = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Matches model output against enum VALUES first ("Peer Reviewed"), then KEYS ("PeerReviewed"),
+// then an unambiguous prefix of a value ("Human Cohort" -> "Human Cohort (Non-RCT)").
+export const coerceEnum = <V extends string>(enumObj: Record<string, V>, input: unknown): V | undefined => {
+    if (typeof input !== 'string') return undefined;
+    const needle = normalizeToken(input);
+    if (!needle) return undefined;
+
+    const entries = Object.entries(enumObj);
+    const byValue = entries.find(([, v]) => normalizeToken(v) === needle);
+    if (byValue) return byValue[1];
+    const byKey = entries.find(([k]) => normalizeToken(k) === needle);
+    if (byKey) return byKey[1];
+
+    if (needle.length >= 4) {
+        const prefixed = entries.filter(([, v]) => normalizeToken(v).startsWith(needle));
+        if (prefixed.length === 1) return prefixed[0][1];
+    }
+    return undefined;
+};
+
+// --- RECORD VALIDATION ---
+
+const STRING_FIELDS = [
+    'url', 'doi', 'date', 'journalOrConference', 'abstractHighlight', 'drugAndTarget', 'context', 'funding',
+    'publicationNumber', 'priorityDate', 'filingDate', 'claimsSummary', 'familyId'
+] as const;
+const LIST_FIELDS = ['authors', 'affiliations', 'keywords', 'cpcClasses', 'ipcClasses'] as const;
+
+type EnumField = 'publicationType' | 'studyType' | 'methodology' | 'modality';
+
+// Keyed by record field so a coerced value is typed as that field's enum
+const ENUM_FIELDS: { [K in EnumField]: Record<string, NonNullable<AgentPaperRecord[K]>> } = {
+    publicationType: PublicationType,
+    studyType: StudyType,
+    methodology: Methodology,
+    modality: ResearchModality
+};
+
+const setEnumField = <K extends EnumField>(record: Partial<AgentPaperRecord>, field: K, value: unknown): boolean => {
+    const coerced = coerceEnum(ENUM_FIELDS[field], value);
+    if (coerced !== undefined) record[field] = coerced;
+    return coerced !== undefined;
+};
+
+const toStringList = (raw: unknown): string[] | undefined => {
+    if (typeof raw === 'string') return raw.split(/[;,]/).map(s => s.trim()).filter(Boolean);
+    if (!Array.isArray(raw)) return undefined;
+    return raw.filter((v): v is string => typeof v === 'string' && v.trim().length > 0).map(v => v.trim());
+};
+
+// Accepts [{label, confidence}], plain string lists, or a legacy single `topic` string.
+// Labels that name none of our topics are reported; an empty result means Unclassified.
+const validateTopics = (item: Record<string, unknown>, index: number, record: Partial<AgentPaperRecord>, issues: ValidationIssue[]) => {
+    const raw = item.topics ?? item.topic;
+    if (raw === undefined || raw === null) return;
+
+    const entries: unknown[] = Array.isArray(raw) ? raw : typeof raw === 'string' ? splitTopicLabels(raw) : [raw];
+    const mapped: { topic: TopicId; confidence?: number }[] = [];
+
+    for (const entry of entries) {
+        const fields = typeof entry === 'object' && entry !== null ? entry as { label?: unknown; confidence?: unknown } : {};
+        const label = typeof entry === 'string' ? entry : fields.label;
+        const confidence = fields.confidence;
+        if (typeof label !== 'string') {
+            issues.push({ index, field: 'topics', reason: 'Topic entry has no label', value: entry });
+            continue;
+        }
+        const topic = mapToDiseaseTopic(label);
+        if (!topic) {
+            issues.push({ index, field: 'topics', reason: `Not a recognised topic "${label}"`, value: entry });
+            continue;
+        }
+        const validConfidence = typeof confidence === 'number' && confidence >= 0 && confidence <= 1;
+        if (confidence !== undefined && !validConfidence) {
+            issues.push({ index, field: 'topicConfidence', reason: 'Confidence must be a number between 0 and 1', value: confidence });
+        }
+        mapped.push({ topic, confidence: validConfidence ? confidence : undefined });
+    }
+
+    const { topics, topicConfidence } = buildTopicLabels(mapped);
+    record.topics = topics;
+    record.topicConfidence = topicConfidence;
+};
+
+// Copies every optional field that passes its type check onto `record`; failures become field issues
+const validateOptionalFields = (item: Record<string, unknown>, index: number, record: Partial<AgentPaperRecord>, issues: ValidationIssue[]) => {
+    for (const field of STRING_FIELDS) {
+        const value = item[field];
+        if (value === undefined || value === null || value === '') continue;
+        if (typeof value === 'string') record[field] = value.trim();
+        else issues.push({ index, field, reason: 'Expected a string', value });
+    }
+
+    for (const field of LIST_FIELDS) {
+        const value = item[field];
+        if (value === undefined || value === null) continue;
+        const list = toStringList(value);
+        if (list) {
+            if (Array.isArray(value) && list.length < value.length) {
+                issues.push({ index, field, reason: `Dropped ${value.length - list.length} non-string entries`, value });
+            }
+            record[field] = list;
+        } else {
+            issues.push({ index, field, reason: 'Expected a list of strings', value });
+        }
+    }
+
+    for (const field of Object.keys(ENUM_FIELDS) as EnumField[]) {
+        const value = item[field];
+        if (value === undefined || value === null || value === '') continue;
+        if (!setEnumField(record, field, value)) issues.push({ index, field, reason: `Not a recognised ${field}`, value });
+    }
+};
+
+// Shared walk over the model's array; `key` is the one field a record cannot exist without
+const validateRecordList = <T extends Partial<AgentPaperRecord>>(payload: unknown, key: 'title' | 'id'): { records: T[]; issues: ValidationIssue[] } => {
+    const issues: ValidationIssue[] = [];
+    const records: T[] = [];
+
+    if (!Array.isArray(payload)) {
+        issues.push({ index: -1, reason: 'Expected a JSON array of records', value: typeof payload });
+        return { records, issues };
+    }
+
+    payload.forEach((raw, index) => {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            issues.push({ index, reason: 'Record is not an object', value: raw });
+            return;
+        }
+        const item = raw as Record<string, unknown>;
+        const keyValue = item[key];
+
+        if (typeof keyValue !== 'string' || !keyValue.trim()) {
+            issues.push({ index, reason: `Missing required field "${key}"`, value: keyValue });
+            return;
+        }
+
+        const record = { [key]: keyValue.trim() } as unknown as T;
+        validateOptionalFields(item, index, record, issues);
+        validateTopics(item, index, record, issues);
+        records.push(record);
+    });
+
+    return { records, issues };
+};
+
+export const validateAgentRecords = (payload: unknown): ValidationResult =>
+    validateRecordList<AgentPaperRecord>(payload, 'title');
+
+export const validateClassifications = (payload: unknown): { records: ClassificationRecord[]; issues: ValidationIssue[] } => {
+    const { records, issues } = validateRecordList<Partial<AgentPaperRecord> & { id: string }>(payload, 'id');
+    return { records: records as ClassificationRecord[], issues };
+};
+
+export const formatValidationIssue = (issue: ValidationIssue): string => {
+    const where = issue.index < 0 ? 'payload' : `record #${issue.index}${issue.field ? `.${issue.field}` : ''}`;
+    return `${where}: ${issue.reason}`;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { Methodology, PaperData, PatentDetails, PublicationType, ResearchModality, StudyType } from "../types";
+import { collapsePatentFamilies } from "./patents";
+
+const patent = (id: string, details: Partial<PatentDetails> & Pick<PatentDetails, 'office' | 'publicationNumber'>, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: 'GLP-1 receptor agonist formulations',
+    journalOrConference: `${details.office} Patent Office`,
+    date: '2024-04-11',
+    authors: ['Novo Nordisk A/S'],
+    topics: ['Obesity'],
+    publicationType: PublicationType.Patent,
+    studyType: StudyType.PreClinical,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: '',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 70,
+    patent: { status: 'application', kindCode: 'A1', cpcClasses: [], ipcClasses: [], familyMembers: [], ...details },
+    ...extra
+});
+
+describe('collapsePatentFamilies', () => {
+    it('joins a member without a family ID through a member that lists its number', () => {
+        const us = patent('us', { office: 'US', publicationNumber: '11234567', kindCode: 'B2', status: 'grant', familyId: 'F-77', familyMembers: ['EP4123456A1'], priorityDate: '2021-06-30' });
+        const ep = patent('ep', { office: 'EP', publicationNumber: '4123456', priorityDate: '2021-06-01' }, { title: 'Formulations of GLP-1 receptor agonists' });
+        const wo = patent('wo', { office: 'WO', publicationNumber: '2022012345', familyId: 'F-77' });
+
+        const [family, ...rest] = collapsePatentFamilies([ep, wo, us]);
+        expect(rest).toEqual([]);
+        expect(family.id).toBe('us');
+        expect(family.patent).toMatchObject({ familyId: 'F-77', priorityDate: '2021-06-01' });
+        expect(family.patent?.familyMembers.sort()).toEqual(['EP4123456A1', 'US11234567B2', 'WO2022012345A1']);
+    });
+
+    it('links members through a chain of listed numbers', () => {
+        const wo = patent('wo', { office: 'WO', publicationNumber: '2022012345', familyMembers: ['EP4123456A1'] }, { title: 'Oral semaglutide tablets' });
+        const ep = patent('ep', { office: 'EP', publicationNumber: '4123456', familyMembers: ['US20240123456A1'] }, { title: 'Tablet compositions' });
+        const us = patent('us', { office: 'US', publicationNumber: '20240123456', familyId: 'F-9' }, { title: 'Solid oral compositions' });
+        const collapsed = collapsePatentFamilies([wo, ep, us]);
+        expect(collapsed).toHaveLength(1);
+        expect(collapsed[0]).toMatchObject({ id: 'us', patent: { familyId: 'F-9' } });
+    });
+
+    it('joins identical titles and assignees unless they carry different family IDs', () => {
+        const a = patent('a', { office: 'US', publicationNumber: '1', familyId: 'F-1' });
+        const b = patent('b', { office: 'EP', publicationNumber: '2' });
+        const c = patent('c', { office: 'US', publicationNumber: '3', familyId: 'F-2' });
+        const other = patent('d', { office: 'US', publicationNumber: '4' }, { authors: ['Eli Lilly and Company'] });
+
+        expect(collapsePatentFamilies([a, b, c, other]).map(p => [p.id, p.patent?.familyMembers.sort()])).toEqual([
+            ['a', ['EP2A1', 'US1A1']],
+            ['c', []],
+            ['d', []]
+        ]);
+    });
+});
@@ -0,0 +1,136 @@
+import { PaperData, PatentDetails, PatentStatus } from "../types";
+
+// --- PATENT METADATA & FAMILY COLLAPSING ---
+
+export interface ParsedPatentNumber {
+    office: string; // Two-letter authority code: US, EP, WO, CN ...
+    number: string; // Digits/serial without the office prefix
+    kindCode?: string;
+}
+
+// Accepts "US 2024/0123456 A1", "US20240123456A1", "EP4123456B1", "WO2024/012345" ...
+export const parsePatentNumber = (raw?: string): ParsedPatentNumber | null => {
+    if (!raw) return null;
+    const compact = raw.toUpperCase().replace(/[\s,/-]/g, '');
+    const match = compact.match(/^([A-Z]{2})(\d{4,})([A-Z]\d?)?$/);
+    if (!match) return null;
+    return { office: match[1], number: match[2], kindCode: match[3] };
+};
+
+// Google Patents URLs embed the publication number: /patent/US20240123456A1/en
+export const patentNumberFromUrl = (url?: string): string | undefined => {
+    const match = url?.match(/patents\.google\.com\/patent\/([A-Z]{2}\d+[A-Z]\d?)/i);
+    return match?.[1].toUpperCase();
+};
+
+// Kind codes per WIPO ST.16. WO publications are always applications.
+export const patentStatusFromKind = (office: string, kindCode?: string): PatentStatus => {
+    if (!kindCode) return 'unknown';
+    if (office === 'WO') return 'application';
+    const letter = kindCode.charAt(0);
+    if (office === 'US') {
+        if (letter === 'B' || letter === 'E' || letter === 'S' || letter === 'P') return 'grant';
+        if (letter === 'A') return 'application';
+        return 'unknown';
+    }
+    if (letter === 'B' || letter === 'C') return 'grant';
+    if (letter === 'A') return 'application';
+    return 'unknown';
+};
+
+export const formatPublicationNumber = (p: Pick<PatentDetails, 'office' | 'publicationNumber' | 'kindCode'>): string =>
+    `${p.office}${p.publicationNumber}${p.kindCode || ''}`;
+
+const normalizeTitle = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Family ID, own publication number and listed member numbers, without kind codes
+const familyIdentifiers = (paper: PaperData): string[] => {
+    const patent = paper.patent;
+    if (!patent) return [];
+    const members = patent.familyMembers.map(n => parsePatentNumber(n)).filter((n): n is ParsedPatentNumber => !!n);
+    return [
+        ...(patent.familyId ? [`family:${patent.familyId}`] : []),
+        ...[patent, ...members.map(m => ({ office: m.office, publicationNumber: m.number }))].map(m => `number:${m.office}${m.publicationNumber}`)
+    ];
+};
+
+const titleKey = (paper: PaperData): string => `title:${normalizeTitle(paper.title)}|${(paper.authors[0] || '').toLowerCase()}`;
+
+// Papers are one family when they share a family ID or a publication number, so a member without a
+// family ID joins through any member that lists it. Identical title and first assignee also link
+// papers, unless that would join two different family IDs. Groups keep the order of their first member.
+const groupFamilies = (papers: PaperData[]): PaperData[][] => {
+    const parent = papers.map((_, i) => i);
+    const familyIds = papers.map(p => new Set(p.patent?.familyId ? [p.patent.familyId] : []));
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+    const union = (a: number, b: number, keepFamiliesApart: boolean) => {
+        const [ra, rb] = [root(a), root(b)];
+        if (ra === rb) return;
+        if (keepFamiliesApart && familyIds[ra].size > 0 && familyIds[rb].size > 0 && ![...familyIds[rb]].some(f => familyIds[ra].has(f))) return;
+        parent[rb] = ra;
+        familyIds[rb].forEach(f => familyIds[ra].add(f));
+    };
+    const link = (keysOf: (p: PaperData) => string[], keepFamiliesApart: boolean) => {
+        const first = new Map<string, number>();
+        papers.forEach((p, i) => keysOf(p).forEach(key => {
+            const j = first.get(key);
+            if (j === undefined) first.set(key, i);
+            else union(j, i, keepFamiliesApart);
+        }));
+    };
+    link(familyIdentifiers, false);
+    link(p => [titleKey(p)], true);
+
+    const groups = new Map<number, PaperData[]>();
+    papers.forEach((p, i) => groups.set(root(i), [...(groups.get(root(i)) || []), p]));
+    return Array.from(groups.values());
+};
+
+const OFFICE_PREFERENCE = ['US', 'EP', 'WO'];
+
+// Granted members represent the family first, then US > EP > WO > others, then the earliest filing
+const representativeRank = (p: PaperData): [number, number, string] => {
+    const patent = p.patent;
+    const statusRank = patent?.status === 'grant' ? 0 : patent?.status === 'application' ? 1 : 2;
+    const officeIndex = OFFICE_PREFERENCE.indexOf(patent?.office || '');
+    return [statusRank, officeIndex === -1 ? OFFICE_PREFERENCE.length : officeIndex, patent?.filingDate || '9999'];
+};
+
+const compareRank = (a: PaperData, b: PaperData): number => {
+    const [ra, rb] = [representativeRank(a), representativeRank(b)];
+    for (let i = 0; i < ra.length; i++) {
+        if (ra[i] < rb[i]) return -1;
+        if (ra[i] > rb[i]) return 1;
+    }
+    return 0;
+};
+
+// Collapses US/EP/WO members of one family into a single card listing every member
+export const collapsePatentFamilies = (papers: PaperData[]): PaperData[] => {
+    return groupFamilies(papers).map(members => {
+        if (members.length === 1) return members[0];
+        const [representative] = [...members].sort(compareRank);
+        if (!representative.patent) return representative;
+
+        const memberNumbers = new Set<string>(representative.patent.familyMembers);
+        members.forEach(m => {
+            if (m.patent) {
+                memberNumbers.add(formatPublicationNumber(m.patent));
+                m.patent.familyMembers.forEach(n => memberNumbers.add(n));
+            }
+        });
+        const priorityDates = members.map(m => m.patent?.priorityDate).filter((d): d is string => !!d).sort();
+
+        return {
+            ...representative,
+            patent: {
+                ...representative.patent,
+                familyId: representative.patent.familyId ?? members.find(m => m.patent?.familyId)?.patent?.familyId,
+                priorityDate: priorityDates[0] || representative.patent.priorityDate,
+                cpcClasses: Array.from(new Set(members.flatMap(m => m.patent?.cpcClasses || []))),
+                ipcClasses: Array.from(new Set(members.flatMap(m => m.patent?.ipcClasses || []))),
+                familyMembers: Array.from(memberNumbers)
+            }
+        };
+    });
+};
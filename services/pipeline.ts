@@ -0,0 +1,169 @@
+import { DrugDefinition, EntityDictionary, FeedType, PaperData, PublicationType, StudyType, TopicDefinition } from "../types";
+
+// --- DRUG PIPELINE TRACKER ---
+// One timeline per tracked asset, built from every feed's items whose extracted entities name it (see
+// services/entities). Tracked assets are the drugs on the topic registry's lists, so a drug added in the
+// Topic Manager is followed here too. Development stage is read from the trial registry phase where there is one, and
+// otherwise from the item's text ("phase 2b", "FDA approval"); patents carry no stage. A readout is a
+// published result from a clinical phase, as opposed to a registry entry or a patent.
+
+export type PipelineFeed = 'archive' | FeedType;
+
+export const PIPELINE_STAGES = ['Pre-clinical', 'Phase 1', 'Phase 2', 'Phase 3', 'Filed', 'Approved'] as const;
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export interface FeedItem {
+    paper: PaperData;
+    feeds: PipelineFeed[]; // Every feed the item appeared in
+}
+
+export interface PipelineEvent extends FeedItem {
+    stage?: PipelineStage;
+    isReadout: boolean;
+}
+
+export interface StageMilestone {
+    stage: PipelineStage;
+    firstSeen: string; // Date of the earliest item at this stage
+    paperId: string;
+}
+
+export interface AssetPipeline {
+    drug: DrugDefinition;
+    events: PipelineEvent[]; // Newest first
+    stage?: PipelineStage; // Furthest stage seen
+    milestones: StageMilestone[]; // In stage order
+    readouts: PipelineEvent[];
+    indications: string[]; // From the dictionary, else the conditions of the asset's trials
+    latestActivity?: string;
+    feedCounts: Record<PipelineFeed, number>;
+}
+
+const stageRank = (stage: PipelineStage) => PIPELINE_STAGES.indexOf(stage);
+
+const PHASE_WORDS: Record<string, number> = { 'i': 1, 'ii': 2, 'iii': 3, '1': 1, '2': 2, '3': 3 };
+const PHASE_PATTERN = /\bphase\s*(iii|ii|i|[123])[ab]?(?:\s*[/-]\s*(iii|ii|i|[123])[ab]?)?\b/gi;
+const APPROVED_PATTERN = /\b(fda|ema|mhra|pmda|chmp)\b[^.]{0,40}\b(approv\w*|authori[sz]ation)\b|\bapproved for\b/i;
+const FILED_PATTERN = /\b(s?nda|bla|maa)\b|\bregulatory (submission|filing)\b|\bsubmitted (to|for) (the )?(fda|ema)\b/i;
+const READOUT_PATTERN = /\b(results?|topline|top-line|met (its|the) primary endpoint|primary endpoint|efficacy and safety|weight (loss|reduction)|randomi[sz]ed)\b/i;
+
+const phaseStage = (phase: number): PipelineStage => `Phase ${Math.min(3, Math.max(1, phase))}` as PipelineStage;
+
+// Highest phase named in the text: "Phase 2/3" and "phase IIb" count as 3 and 2
+const phaseInText = (text: string): PipelineStage | undefined => {
+    const phases = Array.from(text.matchAll(PHASE_PATTERN)).flatMap(m => [m[1], m[2]])
+        .filter((p): p is string => !!p)
+        .map(p => PHASE_WORDS[p.toLowerCase()]);
+    return phases.length > 0 ? phaseStage(Math.max(...phases)) : undefined;
+};
+
+export const stageOf = (paper: PaperData): PipelineStage | undefined => {
+    if (paper.publicationType === PublicationType.Patent) return undefined;
+    if (paper.trial) return phaseInText(paper.trial.phase);
+    const text = [paper.title, paper.abstractHighlight, paper.context].filter(Boolean).join('\n');
+    if (APPROVED_PATTERN.test(text)) return 'Approved';
+    if (FILED_PATTERN.test(text)) return 'Filed';
+    return phaseInText(text) ?? (paper.studyType === StudyType.PreClinical ? 'Pre-clinical' : undefined);
+};
+
+export const isReadout = (paper: PaperData, stage = stageOf(paper)): boolean => {
+    if (paper.trial || paper.publicationType === PublicationType.Patent || paper.publicationType === PublicationType.News) return false;
+    if (!stage || stage === 'Pre-clinical') return false;
+    return paper.studyType === StudyType.ClinicalTrial || READOUT_PATTERN.test(`${paper.title}\n${paper.abstractHighlight}`);
+};
+
+const mentions = (paper: PaperData, drug: DrugDefinition) => paper.entities?.drugs.includes(drug.name) ?? false;
+
+const emptyCounts = (): Record<PipelineFeed, number> => ({ archive: 0, live: 0, ai: 0, patent: 0, trial: 0 });
+
+// The items of every feed that pass `include`, newest first. An item found in several feeds (same
+// canonical id) is listed once with all of them.
+export const collectAcrossFeeds = (sources: Partial<Record<PipelineFeed, PaperData[]>>, include: (paper: PaperData) => boolean): { items: FeedItem[]; feedCounts: Record<PipelineFeed, number> } => {
+    const byId = new Map<string, FeedItem>();
+    const feedCounts = emptyCounts();
+    for (const [feed, papers] of Object.entries(sources) as [PipelineFeed, PaperData[]][]) {
+        for (const paper of papers.filter(include)) {
+            feedCounts[feed]++;
+            const existing = byId.get(paper.id);
+            if (existing) existing.feeds.push(feed);
+            else byId.set(paper.id, { paper, feeds: [feed] });
+        }
+    }
+    const items = Array.from(byId.values()).sort((a, b) => b.paper.date.localeCompare(a.paper.date));
+    return { items, feedCounts };
+};
+
+// `sources` should already carry entities
+export const buildAssetPipeline = (drug: DrugDefinition, sources: Partial<Record<PipelineFeed, PaperData[]>>): AssetPipeline => {
+    const { items, feedCounts } = collectAcrossFeeds(sources, p => mentions(p, drug));
+    const events: PipelineEvent[] = items.map(item => {
+        const stage = stageOf(item.paper);
+        return { ...item, stage, isReadout: isReadout(item.paper, stage) };
+    });
+
+    const milestones = new Map<PipelineStage, StageMilestone>();
+    for (const event of events) {
+        if (!event.stage) continue;
+        const seen = milestones.get(event.stage);
+        if (!seen || event.paper.date < seen.firstSeen) {
+            milestones.set(event.stage, { stage: event.stage, firstSeen: event.paper.date, paperId: event.paper.id });
+        }
+    }
+    const reached = Array.from(milestones.values()).sort((a, b) => stageRank(a.stage) - stageRank(b.stage));
+
+    const conditions = new Map<string, number>();
+    events.forEach(e => e.paper.trial?.conditions.forEach(c => conditions.set(c, (conditions.get(c) ?? 0) + 1)));
+    const trialIndications = Array.from(conditions).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([c]) => c);
+
+    return {
+        drug,
+        events,
+        stage: reached[reached.length - 1]?.stage,
+        milestones: reached,
+        readouts: events.filter(e => e.isReadout),
+        indications: drug.indications?.length ? drug.indications : trialIndications,
+        latestActivity: events[0]?.paper.date,
+        feedCounts
+    };
+};
+
+// --- TRACKED ASSETS ---
+
+const termKey = (term: string) => term.trim().toLowerCase();
+
+// Registry drugs with their dictionary entry, matched by name, brand or development code. Entries naming a
+// target instead ("GLP-1", "SGLT2", "Amylin") are drug classes, not assets, and are left out. A drug the
+// dictionary does not know is followed by its name, with the topics that list it as indications.
+export const trackedAssets = (registry: TopicDefinition[], dictionary: EntityDictionary): DrugDefinition[] => {
+    const drugsByTerm = new Map<string, DrugDefinition>();
+    dictionary.drugs.forEach(d => [d.name, ...d.synonyms, ...d.codes].forEach(t => drugsByTerm.set(termKey(t), d)));
+    const targetTerms = new Set(dictionary.targets.flatMap(t => [t.symbol, ...t.synonyms]).map(termKey));
+
+    const assets = new Map<string, DrugDefinition>();
+    for (const topic of registry) {
+        for (const name of topic.drugs) {
+            const key = termKey(name);
+            const known = drugsByTerm.get(key);
+            if (known) {
+                assets.set(known.name, known);
+            } else if (key && !targetTerms.has(key)) {
+                const listed = assets.get(name.trim());
+                assets.set(name.trim(), listed
+                    ? { ...listed, indications: [...(listed.indications || []), topic.name] }
+                    : { name: name.trim(), synonyms: [], codes: [], targets: [], mechanism: '', indications: [topic.name] });
+            }
+        }
+    }
+    return Array.from(assets.values());
+};
+
+// The dictionary papers should be tagged with for the pipeline view: registry drugs it lacks are added
+// under their own name, so mentions of them are found like any other drug's
+export const withTrackedAssets = (registry: TopicDefinition[], dictionary: EntityDictionary): EntityDictionary => {
+    const missing = trackedAssets(registry, dictionary).filter(a => !dictionary.drugs.some(d => d.name === a.name));
+    return missing.length > 0 ? { ...dictionary, drugs: [...dictionary.drugs, ...missing] } : dictionary;
+};
+
+// `sources` should carry entities extracted with withTrackedAssets(registry, dictionary)
+export const buildPipelines = (registry: TopicDefinition[], dictionary: EntityDictionary, sources: Partial<Record<PipelineFeed, PaperData[]>>): AssetPipeline[] =>
+    trackedAssets(registry, dictionary).map(d => buildAssetPipeline(d, sources));
@@ -0,0 +1,103 @@
+import { PaperData, PublicationType, StudyType, ScoreComponent } from "../types";
+import { describeDate, primaryDate } from "./paperDates";
+
+// --- EVIDENCE-BASED VALIDATION SCORE ---
+// validationScore is the sum of independent, explainable components (max 100).
+// Each component keeps a human-readable detail so PaperCard can show the breakdown.
+
+// Flagship journals and the publishers' own domains
+const TIER_1_DOMAINS = ['nature.com', 'science.org', 'nejm.org', 'thelancet.com', 'jamanetwork.com', 'cell.com'];
+// Society journals, publisher hubs and bibliographic registries
+const TIER_2_DOMAINS = [
+    'ahajournals.org', 'diabetesjournals.org', 'sciencedirect.com', 'onlinelibrary.wiley.com', 'academic.oup.com',
+    'link.springer.com', 'pubmed.ncbi.nlm.nih.gov', 'europepmc.org', 'doi.org', 'patents.google.com',
+    'clinicaltrials.gov'
+];
+const PREPRINT_DOMAINS = ['biorxiv.org', 'medrxiv.org', 'arxiv.org'];
+
+const PUBLICATION_POINTS: Record<PublicationType, number> = {
+    [PublicationType.MetaAnalysis]: 10,
+    [PublicationType.PeerReviewed]: 10,
+    [PublicationType.ReviewArticle]: 8,
+    [PublicationType.Patent]: 8,
+    [PublicationType.Preprint]: 5,
+    [PublicationType.ConferenceAbstract]: 5,
+    [PublicationType.Poster]: 3,
+    [PublicationType.News]: 1,
+    [PublicationType.TrialRegistration]: 8
+};
+
+const STUDY_POINTS: Record<StudyType, number> = {
+    [StudyType.ClinicalTrial]: 10,
+    [StudyType.HumanCohort]: 8,
+    [StudyType.PreClinical]: 5,
+    [StudyType.Simulated]: 4
+};
+
+const hostOf = (url?: string): string => {
+    try {
+        return url ? new URL(url).hostname.replace(/^www\./, '') : '';
+    } catch {
+        return '';
+    }
+};
+
+const matchesDomain = (host: string, domains: string[]) => domains.some(d => host === d || host.endsWith(`.${d}`));
+
+const groundingComponent = (paper: PaperData): ScoreComponent => {
+    const max = 30;
+    switch (paper.evidence?.grounding) {
+        case 'registry': return { label: 'Source match', points: 30, max, detail: `Returned by ${paper.source || 'a registry'} API` };
+        case 'exact-url': return { label: 'Source match', points: 25, max, detail: 'Exact URL match in search grounding' };
+        case 'fuzzy-title': return { label: 'Source match', points: 12, max, detail: 'Fuzzy title match in search grounding' };
+        default: return { label: 'Source match', points: 0, max, detail: 'No grounding evidence recorded' };
+    }
+};
+
+const doiComponent = (paper: PaperData): ScoreComponent => {
+    const max = 20;
+    if (paper.doiStatus === 'resolved') return { label: 'DOI', points: 20, max, detail: 'Resolved on Crossref' };
+    if (paper.doiStatus === 'not-found') return { label: 'DOI', points: 0, max, detail: 'DOI does not resolve' };
+    if (paper.doiStatus === 'title-mismatch') return { label: 'DOI', points: 0, max, detail: 'DOI belongs to a different title' };
+    if (paper.publicationType === PublicationType.Patent) return { label: 'DOI', points: 10, max, detail: 'Not applicable to patents' };
+    if (paper.trial) return { label: 'DOI', points: 10, max, detail: 'Not applicable to registry entries' };
+    return { label: 'DOI', points: 5, max, detail: 'No DOI to verify' };
+};
+
+const dateComponent = (paper: PaperData): ScoreComponent => {
+    const max = 15;
+    const date = primaryDate(paper);
+    if (!date) return { label: 'Date', points: 5, max, detail: 'No date provenance recorded' };
+    const detail = describeDate(date);
+    if (date.confidence === 'high') return { label: 'Date', points: 15, max, detail };
+    if (date.confidence === 'medium') return { label: 'Date', points: 10, max, detail };
+    return { label: 'Date', points: 5, max, detail };
+};
+
+const domainComponent = (paper: PaperData): ScoreComponent => {
+    const max = 15;
+    const host = hostOf(paper.url);
+    if (!host) return { label: 'Domain', points: 0, max, detail: 'No source URL' };
+    if (matchesDomain(host, TIER_1_DOMAINS)) return { label: 'Domain', points: 15, max, detail: `Tier 1 journal (${host})` };
+    if (matchesDomain(host, TIER_2_DOMAINS)) return { label: 'Domain', points: 10, max, detail: `Tier 2 publisher/registry (${host})` };
+    if (matchesDomain(host, PREPRINT_DOMAINS)) return { label: 'Domain', points: 7, max, detail: `Preprint server (${host})` };
+    return { label: 'Domain', points: 3, max, detail: `Unranked domain (${host})` };
+};
+
+export const computeScoreBreakdown = (paper: PaperData): ScoreComponent[] => [
+    groundingComponent(paper),
+    doiComponent(paper),
+    dateComponent(paper),
+    domainComponent(paper),
+    { label: 'Publication type', points: PUBLICATION_POINTS[paper.publicationType] ?? 0, max: 10, detail: paper.publicationType },
+    { label: 'Study design', points: STUDY_POINTS[paper.studyType] ?? 0, max: 10, detail: paper.studyType }
+];
+
+// Returns a copy with validationScore and scoreBreakdown recomputed from the current metadata.
+// Curated items (no recorded evidence) keep their hand-assigned score.
+export const scorePaper = (paper: PaperData): PaperData => {
+    if (!paper.evidence) return paper;
+    const scoreBreakdown = computeScoreBreakdown(paper);
+    const validationScore = scoreBreakdown.reduce((sum, c) => sum + c.points, 0);
+    return { ...paper, validationScore, scoreBreakdown };
+};
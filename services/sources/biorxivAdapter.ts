@@ -0,0 +1,100 @@
+import { DEFAULT_MAX_RESULTS, HttpFetch, SourceAdapter, SourceQuery, SourceRecord, getJson, mentionsAnyTerm, normalizeDoi, toIsoDate } from "./sourceAdapter";
+
+// bioRxiv/medRxiv "details" API. It has no keyword search, so we page through the date window
+// and keep records whose title or abstract mentions a query term.
+// https://api.biorxiv.org/
+
+export interface BiorxivAdapterConfig {
+    fetch?: HttpFetch;
+    baseUrl?: string;
+    servers?: ('biorxiv' | 'medrxiv')[];
+    maxPages?: number; // Each page is 100 records
+}
+
+interface BiorxivRecord {
+    doi: string;
+    title: string;
+    authors: string; // "Smith, J.; Doe, A."
+    author_corresponding_institution?: string;
+    date: string;
+    version?: string;
+    category?: string;
+    abstract?: string;
+    published?: string; // Journal DOI once published, otherwise "NA"
+    server?: string;
+}
+
+interface BiorxivResponse {
+    messages?: { status?: string; total?: number | string }[];
+    collection?: BiorxivRecord[];
+}
+
+const PAGE_SIZE = 100;
+
+// "Smith, J. A." -> "J. A. Smith"
+const flipAuthor = (raw: string): string => {
+    const [last, first] = raw.split(',').map(s => s.trim());
+    return first ? `${first} ${last}` : last;
+};
+
+export const mapBiorxivRecord = (r: BiorxivRecord, server: 'biorxiv' | 'medrxiv'): SourceRecord | null => {
+    const doi = normalizeDoi(r.doi);
+    if (!doi || !r.title) return null;
+    const label = server === 'medrxiv' ? 'medRxiv' : 'bioRxiv';
+
+    return {
+        key: `doi:${doi}`,
+        source: server,
+        title: r.title.trim(),
+        abstract: (r.abstract || '').trim(),
+        authors: r.authors.split(';').map(s => s.trim()).filter(Boolean).map(flipAuthor),
+        affiliations: r.author_corresponding_institution ? [r.author_corresponding_institution] : [],
+        journal: label,
+        date: r.date,
+        dateKind: 'preprint-posted',
+        url: `https://www.${server}.org/content/${doi}v${r.version || '1'}`,
+        doi,
+        isPreprint: true,
+        publicationTypes: ['Preprint', ...(r.category ? [r.category] : [])]
+    };
+};
+
+export const createBiorxivAdapter = (config: BiorxivAdapterConfig = {}): SourceAdapter => {
+    const fetchImpl = config.fetch || fetch.bind(globalThis);
+    const base = config.baseUrl || 'https://api.biorxiv.org';
+    const servers = config.servers || ['biorxiv', 'medrxiv'];
+    const maxPages = config.maxPages ?? 3;
+
+    return {
+        id: 'biorxiv+medrxiv',
+        label: 'bioRxiv / medRxiv',
+
+        async search(query: SourceQuery): Promise<SourceRecord[]> {
+            const limit = query.maxResults || DEFAULT_MAX_RESULTS;
+            const from = toIsoDate(query.since);
+            const to = toIsoDate(query.until || new Date());
+            const matches: SourceRecord[] = [];
+            // The same preprint appears once per version; keep the latest one only
+            const seen = new Set<string>();
+
+            for (const server of servers) {
+                for (let page = 0; page < maxPages && matches.length < limit; page++) {
+                    const body = await getJson<BiorxivResponse>(fetchImpl, `${base}/details/${server}/${from}/${to}/${page * PAGE_SIZE}/json`, query.signal);
+                    const collection = body.collection || [];
+
+                    for (const raw of [...collection].reverse()) {
+                        if (!mentionsAnyTerm(`${raw.title} ${raw.abstract || ''}`, query.terms)) continue;
+                        const record = mapBiorxivRecord(raw, server);
+                        if (!record || seen.has(record.key)) continue;
+                        seen.add(record.key);
+                        matches.push(record);
+                    }
+
+                    if (collection.length < PAGE_SIZE) break;
+                }
+            }
+
+            return matches.slice(0, limit);
+        }
+    };
+};
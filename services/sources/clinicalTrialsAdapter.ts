@@ -0,0 +1,130 @@
+import { TrialDetails } from "../../types";
+import { DEFAULT_MAX_RESULTS, HttpFetch, getJson, toIsoDate } from "./sourceAdapter";
+
+// ClinicalTrials.gov v2 REST API. Studies are matched on condition terms and restricted to
+// records updated inside the lookback window.
+// https://clinicaltrials.gov/data-api/api
+
+export interface ClinicalTrialsAdapterConfig {
+    fetch?: HttpFetch;
+    baseUrl?: string;
+}
+
+export interface TrialQuery {
+    conditionTerms: string[];
+    since: Date;
+    maxResults?: number;
+    signal?: AbortSignal;
+}
+
+export interface TrialRecord extends TrialDetails {
+    title: string;
+    summary: string;
+    lastUpdated: string; // YYYY-MM-DD
+    studyType: 'INTERVENTIONAL' | 'OBSERVATIONAL' | 'EXPANDED_ACCESS' | string;
+    collaborators: string[];
+    url: string;
+}
+
+interface CtgovStudy {
+    protocolSection?: {
+        identificationModule?: { nctId?: string; briefTitle?: string; officialTitle?: string };
+        statusModule?: {
+            overallStatus?: string;
+            primaryCompletionDateStruct?: { date?: string };
+            lastUpdatePostDateStruct?: { date?: string };
+        };
+        sponsorCollaboratorsModule?: { leadSponsor?: { name?: string }; collaborators?: { name?: string }[] };
+        descriptionModule?: { briefSummary?: string };
+        conditionsModule?: { conditions?: string[] };
+        designModule?: { studyType?: string; phases?: string[]; enrollmentInfo?: { count?: number } };
+        armsInterventionsModule?: { interventions?: { type?: string; name?: string }[] };
+    };
+}
+
+interface CtgovResponse {
+    studies?: CtgovStudy[];
+    nextPageToken?: string;
+}
+
+const NCT_PATTERN = /\bNCT\d{8}\b/gi;
+
+// Pulls registry numbers out of free text (titles, abstracts) so papers can be joined to trials
+export const extractNctIds = (text?: string): string[] => {
+    if (!text) return [];
+    return Array.from(new Set((text.match(NCT_PATTERN) || []).map(id => id.toUpperCase())));
+};
+
+// "PHASE2", "PHASE3" -> "Phase 2/3"; "EARLY_PHASE1" -> "Early Phase 1"; "NA" -> "N/A"
+export const formatPhases = (phases?: string[]): string => {
+    if (!phases || phases.length === 0) return 'N/A';
+    if (phases.length === 1 && phases[0] === 'NA') return 'N/A';
+    const early = phases.some(p => p.startsWith('EARLY_'));
+    const numbers = phases.map(p => p.replace(/\D/g, '')).filter(Boolean);
+    return `${early ? 'Early ' : ''}Phase ${numbers.join('/')}`;
+};
+
+// "ACTIVE_NOT_RECRUITING" -> "Active, not recruiting"
+export const formatStatus = (status?: string): string => {
+    if (!status) return 'Unknown';
+    const words = status.toLowerCase().split('_');
+    const text = words.join(' ').replace('active not', 'active, not');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// ClinicalTrials.gov dates can be "2025-03" or "2025-03-14"
+const padDate = (date?: string): string => {
+    if (!date) return '';
+    return date.length === 7 ? `${date}-01` : date;
+};
+
+export const mapCtgovStudy = (study: CtgovStudy): TrialRecord | null => {
+    const p = study.protocolSection;
+    const nctId = p?.identificationModule?.nctId;
+    const title = p?.identificationModule?.briefTitle || p?.identificationModule?.officialTitle;
+    if (!nctId || !title) return null;
+
+    return {
+        nctId,
+        title,
+        summary: p?.descriptionModule?.briefSummary || '',
+        phase: formatPhases(p?.designModule?.phases),
+        status: formatStatus(p?.statusModule?.overallStatus),
+        sponsor: p?.sponsorCollaboratorsModule?.leadSponsor?.name || 'Unknown',
+        collaborators: (p?.sponsorCollaboratorsModule?.collaborators || []).map(c => c.name || '').filter(Boolean),
+        enrollment: p?.designModule?.enrollmentInfo?.count,
+        interventions: (p?.armsInterventionsModule?.interventions || [])
+            .map(i => i.type ? `${i.name} (${i.type.toLowerCase()})` : i.name || '')
+            .filter(Boolean),
+        conditions: p?.conditionsModule?.conditions || [],
+        primaryCompletionDate: padDate(p?.statusModule?.primaryCompletionDateStruct?.date) || undefined,
+        lastUpdated: padDate(p?.statusModule?.lastUpdatePostDateStruct?.date),
+        studyType: p?.designModule?.studyType || 'UNKNOWN',
+        url: `https://clinicaltrials.gov/study/${nctId}`
+    };
+};
+
+export const createClinicalTrialsAdapter = (config: ClinicalTrialsAdapterConfig = {}) => {
+    const fetchImpl = config.fetch || fetch.bind(globalThis);
+    const base = config.baseUrl || 'https://clinicaltrials.gov/api/v2';
+
+    return {
+        id: 'clinicaltrials' as const,
+        label: 'ClinicalTrials.gov',
+
+        async search(query: TrialQuery): Promise<TrialRecord[]> {
+            const cond = query.conditionTerms.map(t => `"${t.replace(/"/g, '')}"`).join(' OR ');
+            const url = `${base}/studies?format=json&sort=${encodeURIComponent('LastUpdatePostDate:desc')}`
+                + `&pageSize=${query.maxResults || DEFAULT_MAX_RESULTS}`
+                + `&query.cond=${encodeURIComponent(cond)}`
+                + `&filter.advanced=${encodeURIComponent(`AREA[LastUpdatePostDate]RANGE[${toIsoDate(query.since)},MAX]`)}`;
+
+            const body = await getJson<CtgovResponse>(fetchImpl, url, query.signal);
+            return (body.studies || [])
+                .map(mapCtgovStudy)
+                .filter((t): t is TrialRecord => t !== null);
+        }
+    };
+};
+
+export type ClinicalTrialsAdapter = ReturnType<typeof createClinicalTrialsAdapter>;
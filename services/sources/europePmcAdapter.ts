@@ -0,0 +1,94 @@
+import { paperDate } from "../paperDates";
+import { DEFAULT_MAX_RESULTS, HttpFetch, SourceAdapter, SourceQuery, SourceRecord, getJson, normalizeDoi, quoteTerm, toIsoDate } from "./sourceAdapter";
+
+// Europe PMC REST search with resultType=core, which inlines abstracts and structured author lists.
+// https://europepmc.org/RestfulWebService
+
+export interface EuropePmcAdapterConfig {
+    fetch?: HttpFetch;
+    baseUrl?: string;
+}
+
+interface EuropePmcResult {
+    id: string;
+    source: string; // MED, PMC, PPR (preprint) ...
+    pmid?: string;
+    pmcid?: string;
+    doi?: string;
+    title?: string;
+    authorString?: string;
+    authorList?: { author?: { fullName?: string; collectiveName?: string; authorAffiliationDetailsList?: { authorAffiliation?: { affiliation?: string }[] } }[] };
+    abstractText?: string;
+    journalInfo?: { journal?: { title?: string }; printPublicationDate?: string };
+    bookOrReportDetails?: { publisher?: string };
+    firstPublicationDate?: string;
+    pubTypeList?: { pubType?: string[] };
+}
+
+interface EuropePmcResponse {
+    resultList?: { result?: EuropePmcResult[] };
+}
+
+const stripTags = (s: string) => s.replace(/<[^>]+>/g, '').trim();
+
+export const mapEuropePmcResult = (r: EuropePmcResult): SourceRecord | null => {
+    if (!r.title) return null;
+    const isPreprint = r.source === 'PPR';
+    const printDate = /^\d{4}-\d{2}-\d{2}$/.test(r.journalInfo?.printPublicationDate || '') ? r.journalInfo!.printPublicationDate : undefined;
+    const doi = normalizeDoi(r.doi);
+
+    const authors: string[] = [];
+    const affiliations = new Set<string>();
+    for (const a of r.authorList?.author || []) {
+        const name = a.fullName || a.collectiveName;
+        if (name) authors.push(name);
+        for (const aff of a.authorAffiliationDetailsList?.authorAffiliation || []) {
+            if (aff.affiliation) affiliations.add(aff.affiliation);
+        }
+    }
+    if (authors.length === 0 && r.authorString) {
+        authors.push(...r.authorString.replace(/\.$/, '').split(',').map(s => s.trim()).filter(Boolean));
+    }
+
+    return {
+        key: r.pmid ? `pmid:${r.pmid}` : doi ? `doi:${doi}` : `epmc:${r.source}/${r.id}`,
+        source: 'europepmc',
+        title: stripTags(r.title),
+        abstract: stripTags(r.abstractText || ''),
+        authors,
+        affiliations: Array.from(affiliations),
+        journal: r.journalInfo?.journal?.title || r.bookOrReportDetails?.publisher || (isPreprint ? 'Preprint' : ''),
+        date: r.firstPublicationDate || '',
+        dateKind: isPreprint ? 'preprint-posted' : 'epub',
+        otherDates: printDate && printDate !== r.firstPublicationDate ? [paperDate(printDate, 'print', 'registry')] : undefined,
+        url: doi ? `https://doi.org/${doi}` : `https://europepmc.org/article/${r.source}/${r.id}`,
+        doi,
+        pmid: r.pmid,
+        pmcid: r.pmcid,
+        isPreprint,
+        publicationTypes: r.pubTypeList?.pubType || []
+    };
+};
+
+export const createEuropePmcAdapter = (config: EuropePmcAdapterConfig = {}): SourceAdapter => {
+    const fetchImpl = config.fetch || fetch.bind(globalThis);
+    const base = config.baseUrl || 'https://www.ebi.ac.uk/europepmc/webservices/rest';
+
+    return {
+        id: 'europepmc',
+        label: 'Europe PMC',
+
+        async search(query: SourceQuery): Promise<SourceRecord[]> {
+            const terms = query.terms.map(quoteTerm).join(' OR ');
+            const until = query.until || new Date();
+            const q = `(${terms}) AND FIRST_PDATE:[${toIsoDate(query.since)} TO ${toIsoDate(until)}]`;
+            const url = `${base}/search?format=json&resultType=core&sort=${encodeURIComponent('FIRST_PDATE desc')}`
+                + `&pageSize=${query.maxResults || DEFAULT_MAX_RESULTS}&query=${encodeURIComponent(q)}`;
+
+            const body = await getJson<EuropePmcResponse>(fetchImpl, url, query.signal);
+            return (body.resultList?.result || [])
+                .map(mapEuropePmcResult)
+                .filter((r): r is SourceRecord => r !== null);
+        }
+    };
+};
@@ -0,0 +1,23 @@
+import { HttpFetch } from "./sourceAdapter";
+
+// Serves recorded upstream responses instead of hitting the network.
+// Each exchange is matched by substring against the request URL; the first hit wins.
+
+export interface RecordedExchange {
+    match: string;
+    status?: number;
+    body: unknown; // Strings are served verbatim (XML), anything else as JSON
+}
+
+export const createFixtureFetch = (exchanges: RecordedExchange[]): HttpFetch => {
+    return async (input: string) => {
+        const hit = exchanges.find(e => input.includes(e.match));
+        if (!hit) return new Response(`No recorded response for ${input}`, { status: 404 });
+
+        const isText = typeof hit.body === 'string';
+        return new Response(isText ? (hit.body as string) : JSON.stringify(hit.body), {
+            status: hit.status ?? 200,
+            headers: { 'Content-Type': isText ? 'application/xml' : 'application/json' }
+        });
+    };
+};
@@ -0,0 +1,38 @@
+import { SourceAdapter } from "./sourceAdapter";
+import { createPubMedAdapter } from "./pubmedAdapter";
+import { createEuropePmcAdapter } from "./europePmcAdapter";
+import { createBiorxivAdapter } from "./biorxivAdapter";
+import { createFixtureFetch } from "./fixtureFetch";
+import { createClinicalTrialsAdapter, ClinicalTrialsAdapter } from "./clinicalTrialsAdapter";
+import pubmedFixtures from "./fixtures/pubmed.json";
+import europePmcFixtures from "./fixtures/europepmc.json";
+import biorxivFixtures from "./fixtures/biorxiv.json";
+import clinicalTrialsFixtures from "./fixtures/clinicaltrials.json";
+
+export * from "./sourceAdapter";
+export { createPubMedAdapter, parsePubMedXml } from "./pubmedAdapter";
+export { createEuropePmcAdapter } from "./europePmcAdapter";
+export { createBiorxivAdapter } from "./biorxivAdapter";
+export { createFixtureFetch } from "./fixtureFetch";
+export { createClinicalTrialsAdapter, extractNctIds, formatPhases, formatStatus } from "./clinicalTrialsAdapter";
+export type { ClinicalTrialsAdapter, TrialRecord, TrialQuery } from "./clinicalTrialsAdapter";
+export type { RecordedExchange } from "./fixtureFetch";
+
+// SOURCE_MODE=fixtures serves the recorded responses in ./fixtures so the Live Feed works offline
+export const getDefaultSourceAdapters = (): SourceAdapter[] => {
+    const offline = process.env.SOURCE_MODE === 'fixtures';
+    const fixtureFetch = offline
+        ? createFixtureFetch([...pubmedFixtures, ...europePmcFixtures, ...biorxivFixtures])
+        : undefined;
+
+    return [
+        createPubMedAdapter({ fetch: fixtureFetch, apiKey: process.env.NCBI_API_KEY }),
+        createEuropePmcAdapter({ fetch: fixtureFetch }),
+        createBiorxivAdapter({ fetch: fixtureFetch })
+    ];
+};
+
+export const getDefaultTrialsAdapter = (): ClinicalTrialsAdapter => createClinicalTrialsAdapter({
+    fetch: process.env.SOURCE_MODE === 'fixtures' ? createFixtureFetch(clinicalTrialsFixtures) : undefined,
+    baseUrl: process.env.CTGOV_BASE_URL
+});
@@ -0,0 +1,132 @@
+import { DateProvenance } from "../../types";
+import { paperDate } from "../paperDates";
+import { DEFAULT_MAX_RESULTS, HttpFetch, SourceAdapter, SourceQuery, SourceRecord, getJson, getText, normalizeDoi, quoteTerm } from "./sourceAdapter";
+
+// NCBI E-utilities: esearch for PMIDs in the date window, then efetch (XML) for abstracts and authors.
+// https://www.ncbi.nlm.nih.gov/books/NBK25499/
+
+export interface PubMedAdapterConfig {
+    fetch?: HttpFetch;
+    apiKey?: string; // Raises the NCBI rate limit from 3 to 10 requests/second
+    baseUrl?: string;
+}
+
+interface ESearchResponse {
+    esearchresult?: { idlist?: string[] };
+}
+
+const MONTHS: Record<string, string> = {
+    jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+    jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+const text = (el: Element | null | undefined): string => el?.textContent?.trim() || '';
+
+interface PubMedDate {
+    date: string;
+    precision: DateProvenance['precision'];
+}
+
+const readDateElement = (dateEl: Element | null): PubMedDate | null => {
+    if (!dateEl) return null;
+    const year = text(dateEl.querySelector('Year'));
+    if (!year) {
+        // "2023 Nov-Dec": only the year is reliable
+        const medlineYear = text(dateEl.querySelector('MedlineDate')).slice(0, 4);
+        return /^\d{4}$/.test(medlineYear) ? { date: `${medlineYear}-01-01`, precision: 'year' } : null;
+    }
+    const rawMonth = text(dateEl.querySelector('Month'));
+    const month = MONTHS[rawMonth.slice(0, 3).toLowerCase()] || (rawMonth ? rawMonth.padStart(2, '0') : '01');
+    const rawDay = text(dateEl.querySelector('Day'));
+    return { date: `${year}-${month}-${(rawDay || '01').padStart(2, '0')}`, precision: !rawMonth ? 'year' : rawDay ? 'day' : 'month' };
+};
+
+// Electronic publication date first, with the journal issue date kept alongside it
+const readPubMedDates = (article: Element): Pick<SourceRecord, 'date' | 'dateKind' | 'datePrecision' | 'otherDates'> => {
+    const epub = readDateElement(article.querySelector('ArticleDate'));
+    const print = readDateElement(article.querySelector('JournalIssue > PubDate'));
+    if (epub) {
+        return {
+            date: epub.date, dateKind: 'epub', datePrecision: epub.precision,
+            otherDates: print ? [paperDate(print.date, 'print', 'registry', print.precision)] : undefined
+        };
+    }
+    return { date: print?.date || '', dateKind: 'print', datePrecision: print?.precision };
+};
+
+export const parsePubMedXml = (xml: string): SourceRecord[] => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    const records: SourceRecord[] = [];
+
+    doc.querySelectorAll('PubmedArticle').forEach(article => {
+        const pmid = text(article.querySelector('MedlineCitation > PMID'));
+        const title = text(article.querySelector('ArticleTitle'));
+        if (!pmid || !title) return;
+
+        const ids = Array.from(article.querySelectorAll('ArticleIdList > ArticleId'));
+        const doi = normalizeDoi(text(ids.find(el => el.getAttribute('IdType') === 'doi')));
+        const pmcid = text(ids.find(el => el.getAttribute('IdType') === 'pmc')) || undefined;
+
+        const authors: string[] = [];
+        const affiliations = new Set<string>();
+        article.querySelectorAll('AuthorList > Author').forEach(a => {
+            const collective = text(a.querySelector('CollectiveName'));
+            const name = collective || [text(a.querySelector('ForeName')), text(a.querySelector('LastName'))].filter(Boolean).join(' ');
+            if (name) authors.push(name);
+            a.querySelectorAll('AffiliationInfo > Affiliation').forEach(aff => affiliations.add(text(aff)));
+        });
+
+        const abstract = Array.from(article.querySelectorAll('Abstract > AbstractText'))
+            .map(el => (el.getAttribute('Label') ? `${el.getAttribute('Label')}: ` : '') + text(el))
+            .join(' ');
+
+        const publicationTypes = Array.from(article.querySelectorAll('PublicationTypeList > PublicationType')).map(text);
+
+        records.push({
+            key: `pmid:${pmid}`,
+            source: 'pubmed',
+            title,
+            abstract,
+            authors,
+            affiliations: Array.from(affiliations),
+            journal: text(article.querySelector('Journal > Title')),
+            ...readPubMedDates(article),
+            url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+            doi,
+            pmid,
+            pmcid,
+            isPreprint: publicationTypes.includes('Preprint'),
+            publicationTypes
+        });
+    });
+
+    return records;
+};
+
+export const createPubMedAdapter = (config: PubMedAdapterConfig = {}): SourceAdapter => {
+    const fetchImpl = config.fetch || fetch.bind(globalThis);
+    const base = config.baseUrl || 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+    const keyParam = config.apiKey ? `&api_key=${encodeURIComponent(config.apiKey)}` : '';
+    const fmt = (d: Date) => d.toISOString().split('T')[0].replace(/-/g, '/');
+
+    return {
+        id: 'pubmed',
+        label: 'PubMed E-utilities',
+
+        async search(query: SourceQuery): Promise<SourceRecord[]> {
+            const term = query.terms.map(t => `${quoteTerm(t)}[tiab]`).join(' OR ');
+            const until = query.until || new Date();
+            const searchUrl = `${base}/esearch.fcgi?db=pubmed&retmode=json&sort=pub_date`
+                + `&retmax=${query.maxResults || DEFAULT_MAX_RESULTS}&datetype=edat`
+                + `&mindate=${fmt(query.since)}&maxdate=${fmt(until)}`
+                + `&term=${encodeURIComponent(term)}${keyParam}`;
+
+            const search = await getJson<ESearchResponse>(fetchImpl, searchUrl, query.signal);
+            const ids = search.esearchresult?.idlist || [];
+            if (ids.length === 0) return [];
+
+            const xml = await getText(fetchImpl, `${base}/efetch.fcgi?db=pubmed&retmode=xml&id=${ids.join(',')}${keyParam}`, query.signal);
+            return parsePubMedXml(xml);
+        }
+    };
+};
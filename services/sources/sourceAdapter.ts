@@ -0,0 +1,75 @@
+import { DateKind, DateProvenance, LiteratureSource, PaperDate } from "../../types";
+
+// --- BIBLIOGRAPHIC SOURCE CONTRACT ---
+// Adapters query a registry directly and return canonical metadata. The LLM only classifies
+// these records; it never invents titles, DOIs or authors for them.
+
+export type HttpFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface SourceQuery {
+    terms: string[]; // Plain phrases, OR-ed together by each adapter
+    since: Date;
+    until?: Date;
+    maxResults?: number;
+    signal?: AbortSignal; // Cancels in-flight requests when the user stops a scan
+}
+
+export interface SourceRecord {
+    key: string; // Stable within a run: "pmid:123", "doi:10.1101/..."
+    source: LiteratureSource;
+    title: string;
+    abstract: string;
+    authors: string[];
+    affiliations: string[];
+    journal: string;
+    date: string; // YYYY-MM-DD
+    dateKind: DateKind; // epub, print or preprint-posted
+    datePrecision?: DateProvenance['precision']; // Default 'day'
+    otherDates?: PaperDate[]; // e.g. the print issue date alongside the epub date
+    url: string;
+    doi?: string;
+    pmid?: string;
+    pmcid?: string;
+    isPreprint: boolean;
+    publicationTypes: string[];
+}
+
+export interface SourceAdapter {
+    readonly id: LiteratureSource | 'biorxiv+medrxiv';
+    readonly label: string;
+    search(query: SourceQuery): Promise<SourceRecord[]>;
+}
+
+export const DEFAULT_MAX_RESULTS = 25;
+
+export const toIsoDate = (d: Date): string => d.toISOString().split('T')[0];
+
+export const quoteTerm = (term: string): string => `"${term.replace(/"/g, '')}"`;
+
+// Case-insensitive whole-phrase check, used where the upstream API has no keyword search
+export const mentionsAnyTerm = (text: string, terms: string[]): boolean => {
+    const haystack = text.toLowerCase();
+    return terms.some(t => haystack.includes(t.toLowerCase()));
+};
+
+export const normalizeDoi = (doi?: string | null): string | undefined => {
+    if (!doi) return undefined;
+    const cleaned = doi.trim().replace(/^https?:\/\/(dx\.)?doi\.org\//i, '').replace(/^doi:\s*/i, '');
+    return cleaned.startsWith('10.') ? cleaned.toLowerCase() : undefined;
+};
+
+// Carries the HTTP status so the agent runner can tell rate limits and outages from bad requests
+export const httpError = (url: string, res: Response): Error =>
+    Object.assign(new Error(`${url} responded ${res.status}`), { status: res.status, retryAfter: res.headers.get('Retry-After') ?? undefined });
+
+export const getJson = async <T>(fetchImpl: HttpFetch, url: string, signal?: AbortSignal): Promise<T> => {
+    const res = await fetchImpl(url, { signal });
+    if (!res.ok) throw httpError(url, res);
+    return res.json();
+};
+
+export const getText = async (fetchImpl: HttpFetch, url: string, signal?: AbortSignal): Promise<string> => {
+    const res = await fetchImpl(url, { signal });
+    if (!res.ok) throw httpError(url, res);
+    return res.text();
+};
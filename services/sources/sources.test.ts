@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { createBiorxivAdapter, createClinicalTrialsAdapter, createEuropePmcAdapter, createFixtureFetch, createPubMedAdapter, parsePubMedXml } from ".";
+import { mapEuropePmcResult } from "./europePmcAdapter";
+import pubmedFixtures from "./fixtures/pubmed.json";
+import europePmcFixtures from "./fixtures/europepmc.json";
+import biorxivFixtures from "./fixtures/biorxiv.json";
+import clinicalTrialsFixtures from "./fixtures/clinicaltrials.json";
+
+// Every adapter reads its recorded responses through createFixtureFetch, as SOURCE_MODE=fixtures does
+const query = { terms: ['semaglutide', 'resmetirom', 'MASH', 'tirzepatide'], since: new Date('2024-01-01'), until: new Date('2024-07-01') };
+
+describe('PubMed', () => {
+    it('maps esearch + efetch to records with identifiers and dates', async () => {
+        const records = await createPubMedAdapter({ fetch: createFixtureFetch(pubmedFixtures) }).search(query);
+
+        expect(records.map(r => r.key)).toEqual(['pmid:38785209', 'pmid:38324483']);
+        const [flow, resmetirom] = records;
+        expect(flow).toMatchObject({
+            source: 'pubmed',
+            pmid: '38785209',
+            doi: '10.1056/nejmoa2403347',
+            pmcid: undefined,
+            journal: 'The New England journal of medicine',
+            url: 'https://pubmed.ncbi.nlm.nih.gov/38785209/',
+            isPreprint: false,
+            authors: ['Vlado Perkovic', 'Katherine R Tuttle', 'FLOW Trial Committees and Investigators'],
+            affiliations: ['University of New South Wales, Sydney, Australia.', 'University of Washington, Spokane.']
+        });
+        expect(flow.abstract).toMatch(/^BACKGROUND: Patients with type 2 diabetes/);
+        expect(flow.abstract).toContain('CONCLUSIONS: Semaglutide reduced');
+
+        // Electronic date first, print issue date kept alongside it
+        expect(flow).toMatchObject({ date: '2024-05-24', dateKind: 'epub', datePrecision: 'day' });
+        expect(flow.otherDates).toEqual([{ date: '2024-07-11', kind: 'print', source: 'registry', precision: 'day', confidence: 'high' }]);
+        // No ArticleDate: the print issue is the only date
+        expect(resmetirom).toMatchObject({ date: '2024-02-08', dateKind: 'print', datePrecision: 'day' });
+        expect(resmetirom.otherDates).toBeUndefined();
+    });
+
+    it('reads PMC ids and partial dates', () => {
+        const article = (pmid: string, pubDate: string, ids: string) => `<PubmedArticle><MedlineCitation><PMID>${pmid}</PMID><Article>
+            <Journal><JournalIssue><PubDate>${pubDate}</PubDate></JournalIssue><Title>Hepatology</Title></Journal>
+            <ArticleTitle>Title ${pmid}</ArticleTitle>
+            <PublicationTypeList><PublicationType>Preprint</PublicationType></PublicationTypeList>
+            </Article></MedlineCitation><PubmedData><ArticleIdList>${ids}</ArticleIdList></PubmedData></PubmedArticle>`;
+        const records = parsePubMedXml(`<?xml version="1.0" ?><PubmedArticleSet>
+            ${article('1', '<Year>2024</Year><Month>Mar</Month>', '<ArticleId IdType="pmc">PMC11000001</ArticleId><ArticleId IdType="doi">https://doi.org/10.1000/ABC</ArticleId>')}
+            ${article('2', '<MedlineDate>2023 Nov-Dec</MedlineDate>', '')}
+            ${article('3', '<Year>2022</Year>', '')}
+        </PubmedArticleSet>`);
+
+        expect(records.map(r => [r.pmid, r.pmcid, r.doi, r.date, r.datePrecision])).toEqual([
+            ['1', 'PMC11000001', '10.1000/abc', '2024-03-01', 'month'],
+            ['2', undefined, undefined, '2023-01-01', 'year'],
+            ['3', undefined, undefined, '2022-01-01', 'year']
+        ]);
+        expect(records[0].isPreprint).toBe(true);
+    });
+});
+
+describe('Europe PMC', () => {
+    it('maps journal articles and preprints', async () => {
+        const records = await createEuropePmcAdapter({ fetch: createFixtureFetch(europePmcFixtures) }).search(query);
+
+        expect(records).toHaveLength(2);
+        const [flow, preprint] = records;
+        expect(flow).toMatchObject({
+            key: 'pmid:38785209',
+            source: 'europepmc',
+            pmid: '38785209',
+            doi: '10.1056/nejmoa2403347',
+            date: '2024-05-24',
+            dateKind: 'epub',
+            journal: 'The New England journal of medicine',
+            url: 'https://doi.org/10.1056/nejmoa2403347',
+            authors: ['Perkovic V', 'Tuttle KR', 'Rossing P', 'FLOW Trial Committees and Investigators'],
+            isPreprint: false
+        });
+        // Markup in the abstract is stripped
+        expect(flow.abstract).toBe('BackgroundPatients with type 2 diabetes and chronic kidney disease are at high risk for kidney failure, cardiovascular events, and death.');
+        expect(preprint).toMatchObject({
+            key: 'doi:10.1101/2024.06.03.24308397',
+            pmid: undefined,
+            date: '2024-06-05',
+            dateKind: 'preprint-posted',
+            journal: 'medRxiv',
+            authors: ['Lindqvist A', 'Okafor C', 'Brenner J'],
+            isPreprint: true
+        });
+    });
+
+    it('keeps the PMC id and a differing print date', () => {
+        const record = mapEuropePmcResult({
+            id: 'PMC11000002', source: 'PMC', pmcid: 'PMC11000002', title: 'A <i>title</i>',
+            journalInfo: { journal: { title: 'Lancet' }, printPublicationDate: '2024-09-01' },
+            firstPublicationDate: '2024-08-15'
+        });
+        expect(record).toMatchObject({ key: 'epmc:PMC/PMC11000002', pmcid: 'PMC11000002', title: 'A title', date: '2024-08-15' });
+        expect(record?.otherDates).toEqual([{ date: '2024-09-01', kind: 'print', source: 'registry', precision: 'day', confidence: 'high' }]);
+    });
+});
+
+describe('bioRxiv / medRxiv', () => {
+    it('keeps preprints that mention a query term, from both servers', async () => {
+        const records = await createBiorxivAdapter({ fetch: createFixtureFetch(biorxivFixtures) }).search(query);
+
+        // The ABC transporter preprint mentions no query term
+        expect(records.map(r => r.key)).toEqual(['doi:10.1101/2024.05.28.596221', 'doi:10.1101/2024.06.03.24308397']);
+        const [organoid, proteomics] = records;
+        expect(organoid).toMatchObject({
+            source: 'biorxiv',
+            journal: 'bioRxiv',
+            date: '2024-05-30',
+            dateKind: 'preprint-posted',
+            doi: '10.1101/2024.05.28.596221',
+            url: 'https://www.biorxiv.org/content/10.1101/2024.05.28.596221v1',
+            authors: ['C. Moreau', 'T. Ishikawa', 'R. A. Feldman'],
+            affiliations: ['Karolinska Institutet'],
+            publicationTypes: ['Preprint', 'cell biology'],
+            isPreprint: true
+        });
+        expect(proteomics).toMatchObject({ source: 'medrxiv', journal: 'medRxiv', date: '2024-06-05', url: 'https://www.medrxiv.org/content/10.1101/2024.06.03.24308397v1' });
+    });
+});
+
+describe('ClinicalTrials.gov', () => {
+    it('maps studies to trial records', async () => {
+        const trials = await createClinicalTrialsAdapter({ fetch: createFixtureFetch(clinicalTrialsFixtures) })
+            .search({ conditionTerms: ['Obesity', 'Type 2 diabetes'], since: new Date('2024-01-01') });
+
+        expect(trials.map(t => t.nctId)).toEqual(['NCT03819153', 'NCT05556512']);
+        const [flow, surmount] = trials;
+        expect(flow).toMatchObject({
+            phase: 'Phase 3',
+            status: 'Completed',
+            sponsor: 'Novo Nordisk A/S',
+            enrollment: 3533,
+            interventions: ['Semaglutide (drug)', 'Placebo (semaglutide) (drug)'],
+            conditions: ['Diabetes Mellitus, Type 2', 'Chronic Kidney Disease'],
+            primaryCompletionDate: '2024-01-09',
+            lastUpdated: '2024-06-18',
+            studyType: 'INTERVENTIONAL',
+            url: 'https://clinicaltrials.gov/study/NCT03819153'
+        });
+        // Month-only dates are filled as the 1st
+        expect(surmount).toMatchObject({ status: 'Active, not recruiting', primaryCompletionDate: '2027-10-01', sponsor: 'Eli Lilly and Company' });
+    });
+});
@@ -0,0 +1,32 @@
+import { createPaperStore, PaperStore } from "./paperStore";
+import { migrateFromLocalStorage } from "./migration";
+
+export { createPaperStore, FEED_TTL_MS } from "./paperStore";
+export type { PaperStore, PaperStoreConfig, CacheEntryInfo, UserRatings } from "./paperStore";
+export { migrateFromLocalStorage } from "./migration";
+export type { MigrationReport } from "./migration";
+
+let defaultStore: PaperStore | null = null;
+let ready: Promise<PaperStore> | null = null;
+
+export const getDefaultPaperStore = (): PaperStore => {
+    if (!defaultStore) defaultStore = createPaperStore();
+    return defaultStore;
+};
+
+// Resolves once v2 localStorage data has been moved into the store (first run only)
+export const initPaperStore = (): Promise<PaperStore> => {
+    if (!ready) {
+        const store = getDefaultPaperStore();
+        ready = migrateFromLocalStorage(store)
+            .then(report => {
+                if (report) console.log(`[Paper Store] Migrated ${report.feedEntries} feed entries, ${report.bookmarks} bookmarks, ${report.ratings} ratings from localStorage.`);
+                return store;
+            })
+            .catch(e => {
+                console.warn("Paper store migration failed; localStorage data left in place", e);
+                return store;
+            });
+    }
+    return ready;
+};
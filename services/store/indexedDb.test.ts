@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { isQuotaError, jsonByteSize, openDatabase, requestToPromise, transactionDone } from "./indexedDb";
+
+describe('IndexedDB helpers', () => {
+    it('runs the upgrade only when the version increases', async () => {
+        const factory = new IDBFactory();
+        const upgrades: number[] = [];
+        const upgrade = (db: IDBDatabase, oldVersion: number) => {
+            upgrades.push(oldVersion);
+            if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+        };
+
+        const first = await openDatabase(factory, 'test', 1, upgrade);
+        const tx = first.transaction('meta', 'readwrite');
+        tx.objectStore('meta').put('value', 'key');
+        await transactionDone(tx);
+        first.close();
+
+        const again = await openDatabase(factory, 'test', 1, upgrade);
+        expect(await requestToPromise(again.transaction('meta').objectStore('meta').get('key'))).toBe('value');
+        again.close();
+        await openDatabase(factory, 'test', 2, upgrade);
+        expect(upgrades).toEqual([0, 1]);
+    });
+
+    it('rejects when a transaction aborts', async () => {
+        const db = await openDatabase(new IDBFactory(), 'test', 1, d => d.createObjectStore('meta'));
+        const tx = db.transaction('meta', 'readwrite');
+        const done = transactionDone(tx);
+        tx.abort();
+        await expect(done).rejects.toThrow();
+    });
+
+    it('recognises quota errors by name', () => {
+        expect(isQuotaError(new DOMException('full', 'QuotaExceededError'))).toBe(true);
+        expect(isQuotaError(new DOMException('full', 'NS_ERROR_DOM_QUOTA_REACHED'))).toBe(true);
+        expect(isQuotaError(new DOMException('no', 'DataCloneError'))).toBe(false);
+        expect(isQuotaError(new Error('QuotaExceededError'))).toBe(false);
+    });
+
+    it('measures entries in UTF-8 bytes of their JSON form', () => {
+        expect(jsonByteSize({ a: 'é' })).toBe('{"a":"é"}'.length + 1);
+    });
+});
@@ -0,0 +1,35 @@
+// --- INDEXEDDB HELPERS ---
+// Thin promise wrappers; the store keeps using raw IDB objects so no wrapper library is needed.
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+export const openDatabase = (
+    factory: IDBFactory,
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = factory.open(name, version);
+        request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error(`IndexedDB "${name}" upgrade blocked by another open tab`));
+    });
+
+export const isQuotaError = (e: unknown): boolean =>
+    e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// UTF-8 byte length of the JSON form; what the inspector reports as an entry's size
+export const jsonByteSize = (value: unknown): number => new TextEncoder().encode(JSON.stringify(value)).length;
@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../../types";
+import { createPaperStore, migrateFromLocalStorage } from ".";
+
+const paper = (id: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: `Paper ${id}`,
+    journalOrConference: 'The New England journal of medicine',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: '',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 80,
+    ...extra
+});
+
+// A v2 item from before multi-label topics: a single free-form `topic` and no `topics`
+const legacy = (id: string, topic: string) => {
+    const { topics: _topics, ...rest } = paper(id);
+    return { ...rest, topic };
+};
+
+const setup = () => ({ store: createPaperStore({ indexedDB: new IDBFactory() }) });
+
+beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('v2 localStorage migration', () => {
+    it('moves cached feeds, bookmarks and ratings into the store and removes the keys', async () => {
+        const { store } = setup();
+        localStorage.setItem('bioinsight_cache_v2_live_Diabetes', JSON.stringify({ timestamp: 1, papers: [legacy('a', 'Type 2 Diabetes'), paper('b')] }));
+        localStorage.setItem('bioinsight_cache_v2_patent_Obesity', JSON.stringify({ timestamp: 1, papers: [paper('c', { topics: ['Obesity'] })] }));
+        localStorage.setItem('bioinsight_bookmarks', JSON.stringify([legacy('saved', 'Diabetes')]));
+        localStorage.setItem('bioinsight_ratings', JSON.stringify({ a: 'up', c: 'down' }));
+        localStorage.setItem('bioinsight_topics', 'kept');
+
+        const report = await migrateFromLocalStorage(store, localStorage);
+
+        expect(report).toEqual({ feedEntries: 2, papers: 3, bookmarks: 1, ratings: 2, skippedKeys: [] });
+        expect((await store.getFeed('bioinsight_cache_v2_live_Diabetes'))?.map(p => [p.id, p.topics])).toEqual([['a', ['Diabetes']], ['b', ['Diabetes']]]);
+        expect((await store.listEntries()).find(e => e.feed === 'patent')).toMatchObject({ key: 'bioinsight_cache_v2_patent_Obesity', topics: ['Obesity'] });
+        expect(await store.loadBookmarks()).toMatchObject([{ id: 'saved', topics: ['Diabetes'] }]);
+        expect(await store.loadRatings()).toEqual({ a: 'up', c: 'down' });
+        expect(Object.keys(localStorage)).toEqual(['bioinsight_topics']);
+    });
+
+    it('runs once per browser', async () => {
+        const { store } = setup();
+        localStorage.setItem('bioinsight_ratings', JSON.stringify({ a: 'up' }));
+        await migrateFromLocalStorage(store, localStorage);
+
+        localStorage.setItem('bioinsight_ratings', JSON.stringify({ b: 'down' }));
+        expect(await migrateFromLocalStorage(store, localStorage)).toBeNull();
+        expect(await store.loadRatings()).toEqual({ a: 'up' });
+    });
+
+    it('keeps what the store already holds over the v2 copies', async () => {
+        const { store } = setup();
+        await store.saveBookmarks([paper('saved', { notes: ['Newer note'] })]);
+        await store.saveRatings({ a: 'down' });
+        localStorage.setItem('bioinsight_bookmarks', JSON.stringify([paper('saved'), paper('other')]));
+        localStorage.setItem('bioinsight_ratings', JSON.stringify({ a: 'up', b: 'up' }));
+
+        await migrateFromLocalStorage(store, localStorage);
+        expect(await store.loadBookmarks()).toMatchObject([{ id: 'saved', notes: ['Newer note'] }, { id: 'other' }]);
+        expect(await store.loadRatings()).toEqual({ a: 'down', b: 'up' });
+    });
+
+    it('leaves unreadable keys in place and retries them on the next load', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { store } = setup();
+        localStorage.setItem('bioinsight_cache_v2_live_Diabetes', '{"timestamp":1,"papers":');
+        localStorage.setItem('bioinsight_cache_v2_unknown_Diabetes', JSON.stringify({ timestamp: 1, papers: [] }));
+        localStorage.setItem('bioinsight_ratings', JSON.stringify({ a: 'up' }));
+
+        const report = await migrateFromLocalStorage(store, localStorage);
+        expect(report?.skippedKeys.sort()).toEqual(['bioinsight_cache_v2_live_Diabetes', 'bioinsight_cache_v2_unknown_Diabetes']);
+        expect(report?.ratings).toBe(1);
+        expect(localStorage.getItem('bioinsight_ratings')).toBeNull();
+
+        localStorage.setItem('bioinsight_cache_v2_live_Diabetes', JSON.stringify({ timestamp: 1, papers: [paper('a')] }));
+        localStorage.removeItem('bioinsight_cache_v2_unknown_Diabetes');
+        expect(await migrateFromLocalStorage(store, localStorage)).toMatchObject({ feedEntries: 1, skippedKeys: [] });
+        expect(await migrateFromLocalStorage(store, localStorage)).toBeNull();
+    });
+});
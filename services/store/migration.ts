@@ -0,0 +1,85 @@
+import { CacheEntry, FeedType, PaperData } from "../../types";
+import { normalizeLegacyTopics } from "../topics";
+import { PaperStore, UserRatings } from "./paperStore";
+
+// --- LOCALSTORAGE MIGRATION ---
+// Moves v2 data out of localStorage into the paper store, once per browser:
+//   bioinsight_cache_v2_<feed>_<topics...>  whole feeds as { timestamp, papers }
+//   bioinsight_bookmarks                     PaperData[]
+//   bioinsight_ratings                       Record<id, 'up' | 'down'>
+// Keys are removed only after the store accepted their data, so a failed run is retried next load.
+
+const V2_CACHE_PREFIX = 'bioinsight_cache_v2_';
+const BOOKMARKS_KEY = 'bioinsight_bookmarks';
+const RATINGS_KEY = 'bioinsight_ratings';
+const MIGRATION_MARKER = 'migratedFromLocalStorageV2';
+
+const FEEDS: FeedType[] = ['live', 'ai', 'patent', 'trial'];
+
+export interface MigrationReport {
+    feedEntries: number;
+    papers: number;
+    bookmarks: number;
+    ratings: number;
+    skippedKeys: string[]; // Unparseable values, left in place
+}
+
+const readJson = <T>(storage: Storage, key: string): T | null => {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+};
+
+export const migrateFromLocalStorage = async (store: PaperStore, storage: Storage = localStorage): Promise<MigrationReport | null> => {
+    if (await store.getMeta<boolean>(MIGRATION_MARKER)) return null;
+    const report: MigrationReport = { feedEntries: 0, papers: 0, bookmarks: 0, ratings: 0, skippedKeys: [] };
+
+    const cacheKeys = Array.from({ length: storage.length }, (_, i) => storage.key(i))
+        .filter((k): k is string => !!k && k.startsWith(V2_CACHE_PREFIX));
+
+    for (const key of cacheKeys) {
+        const feed = FEEDS.find(f => key.startsWith(`${V2_CACHE_PREFIX}${f}_`));
+        try {
+            const entry = readJson<CacheEntry>(storage, key);
+            if (!feed || !entry || !Array.isArray(entry.papers)) throw new Error('Unrecognised cache entry');
+            const papers = entry.papers.map(normalizeLegacyTopics);
+            const topics = Array.from(new Set(papers.flatMap(p => p.topics)));
+            // The key is reused verbatim: entries written by this version keep hitting, older key shapes age out by TTL
+            await store.putFeed(key, feed, topics, papers);
+            report.feedEntries++;
+            report.papers += papers.length;
+            storage.removeItem(key);
+        } catch (e) {
+            console.warn(`Skipping localStorage cache entry ${key}`, e);
+            report.skippedKeys.push(key);
+        }
+    }
+
+    try {
+        const bookmarks = readJson<PaperData[]>(storage, BOOKMARKS_KEY);
+        if (bookmarks) {
+            const current = await store.loadBookmarks();
+            const ids = new Set(current.map(p => p.id));
+            await store.saveBookmarks([...current, ...bookmarks.map(normalizeLegacyTopics).filter(p => !ids.has(p.id))]);
+            report.bookmarks = bookmarks.length;
+            storage.removeItem(BOOKMARKS_KEY);
+        }
+    } catch (e) {
+        console.warn("Skipping localStorage bookmarks", e);
+        report.skippedKeys.push(BOOKMARKS_KEY);
+    }
+
+    try {
+        const ratings = readJson<UserRatings>(storage, RATINGS_KEY);
+        if (ratings) {
+            await store.saveRatings({ ...ratings, ...await store.loadRatings() });
+            report.ratings = Object.keys(ratings).length;
+            storage.removeItem(RATINGS_KEY);
+        }
+    } catch (e) {
+        console.warn("Skipping localStorage ratings", e);
+        report.skippedKeys.push(RATINGS_KEY);
+    }
+
+    if (report.skippedKeys.length === 0) await store.setMeta(MIGRATION_MARKER, true);
+    return report;
+};
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory, IDBObjectStore } from "fake-indexeddb";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../../types";
+import { FEED_TTL_MS, PaperStoreConfig, createPaperStore } from ".";
+
+// Every store gets a fresh in-memory IndexedDB and a clock the test moves by hand
+
+const paper = (id: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title: `Paper ${id}`,
+    journalOrConference: 'The New England journal of medicine',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Other,
+    abstractHighlight: '',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 80,
+    ...extra
+});
+
+const setup = (config: PaperStoreConfig = {}) => {
+    const clock = { at: 1_700_000_000_000 };
+    const store = createPaperStore({ indexedDB: new IDBFactory(), now: () => clock.at, ...config });
+    const keys = async () => (await store.listEntries()).map(e => e.key).sort();
+    return { store, clock, keys };
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('paper store', () => {
+    it('expires feed entries by their feed TTL and drops their papers', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const { store, clock, keys } = setup();
+        await store.putFeed('live_diabetes', 'live', ['Diabetes'], [paper('a'), paper('b')]);
+        await store.putFeed('patent_diabetes', 'patent', ['Diabetes'], [paper('c')]);
+
+        clock.at += FEED_TTL_MS.live - 1;
+        expect((await store.getFeed('live_diabetes'))?.map(p => p.id)).toEqual(['a', 'b']);
+
+        clock.at += 1;
+        expect(await store.getFeed('live_diabetes')).toBeNull();
+        expect(await store.getFeed('patent_diabetes')).toHaveLength(1);
+        expect(await keys()).toEqual(['patent_diabetes']);
+
+        await store.evict();
+        expect(await store.countPapers()).toBe(1);
+        expect(await store.getPaper('a')).toBeNull();
+    });
+
+    it('evicts the least recently used entries beyond the entry budget', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const { store, clock, keys } = setup({ maxFeedEntries: 2 });
+        await store.putFeed('ai_1', 'ai', [], [paper('a')]);
+        clock.at += 1000;
+        await store.putFeed('ai_2', 'ai', [], [paper('b')]);
+        clock.at += 1000;
+        await store.getFeed('ai_1'); // Now the most recently used
+        clock.at += 1000;
+        await store.putFeed('ai_3', 'ai', [], [paper('c')]);
+
+        expect(await keys()).toEqual(['ai_1', 'ai_3']);
+        expect(await store.getPaper('b')).toBeNull();
+        expect(await store.countPapers()).toBe(2);
+    });
+
+    it('evicts the least recently used entries beyond the paper budget, keeping shared papers', async () => {
+        const { store, clock, keys } = setup({ maxPapers: 3 });
+        await store.putFeed('ai_1', 'ai', [], [paper('a'), paper('b')]);
+        clock.at += 1000;
+        await store.putFeed('ai_2', 'ai', [], [paper('b'), paper('c')]);
+        expect(await keys()).toEqual(['ai_1', 'ai_2']); // Three distinct papers fit
+
+        clock.at += 1000;
+        await store.putFeed('ai_3', 'ai', [], [paper('d')]);
+        expect(await keys()).toEqual(['ai_2', 'ai_3']);
+        expect(await store.getPaper('a')).toBeNull();
+        expect(await store.getPaper('b')).not.toBeNull();
+        expect(await store.countPapers()).toBe(3);
+    });
+
+    it('always keeps the newest entry, even when it alone exceeds the paper budget', async () => {
+        const { store, keys } = setup({ maxPapers: 1 });
+        await store.putFeed('ai_1', 'ai', [], [paper('a'), paper('b')]);
+        expect(await keys()).toEqual(['ai_1']);
+        expect(await store.countPapers()).toBe(2);
+    });
+
+    it('evicts half the entries and retries once when the write exceeds the quota', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { store, clock, keys } = setup({ maxFeedEntries: 4 });
+        for (const n of [1, 2, 3, 4]) {
+            await store.putFeed(`ai_${n}`, 'ai', [], [paper(`p${n}`)]);
+            clock.at += 1000;
+        }
+
+        vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        });
+        await store.putFeed('ai_5', 'ai', [], [paper('p5')]);
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(await keys()).toEqual(['ai_3', 'ai_4', 'ai_5']);
+        expect((await store.getFeed('ai_5'))?.map(p => p.id)).toEqual(['p5']);
+    });
+
+    it('passes other write errors through without evicting', async () => {
+        const { store, keys } = setup();
+        await store.putFeed('ai_1', 'ai', [], [paper('a')]);
+        vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+            throw new DOMException('Not cloneable', 'DataCloneError');
+        });
+
+        await expect(store.putFeed('ai_2', 'ai', [], [paper('b')])).rejects.toThrow('Not cloneable');
+        expect(await keys()).toEqual(['ai_1']);
+    });
+
+    it('merges a run into the previous one, expired or not, and restarts its TTL', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const { store, clock } = setup();
+        await store.putFeed('live_diabetes', 'live', [], [paper('a')]);
+        clock.at += FEED_TTL_MS.live + 1;
+        await store.putFeed('live_diabetes', 'live', [], [paper('b')], { merge: true });
+
+        expect((await store.getFeed('live_diabetes'))?.map(p => p.id)).toEqual(['b', 'a']);
+        expect((await store.listEntries())[0]).toMatchObject({ itemCount: 2, ageMs: 0 });
+    });
+
+    it('never evicts bookmarks or ratings', async () => {
+        const { store, keys } = setup();
+        await store.saveBookmarks([paper('saved')]);
+        await store.saveRatings({ saved: 'up' });
+        await store.putFeed('ai_1', 'ai', [], [paper('a')]);
+        await store.invalidate();
+
+        expect(await keys()).toEqual([]);
+        expect(await store.countPapers()).toBe(0);
+        expect((await store.loadBookmarks()).map(p => p.id)).toEqual(['saved']);
+        expect(await store.loadRatings()).toEqual({ saved: 'up' });
+    });
+});
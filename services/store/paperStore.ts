@@ -0,0 +1,351 @@
+import { FeedType, PaperCollection, PaperData, TopicId } from "../../types";
+import { normalizeLegacyTopics } from "../topics";
+import { isQuotaError, jsonByteSize, openDatabase, requestToPromise, transactionDone } from "./indexedDb";
+
+// --- PAPER STORE ---
+// IndexedDB persistence for feed results, bookmarks and ratings.
+//  - `papers`: one record per stable paper ID, indexed by the feeds and topics it appeared under
+//  - `feeds`: a cached stream run (feed + topic set + configuration), listing the paper IDs it yielded
+//  - `bookmarks`: saved papers, never evicted
+//  - `meta`: small key/value records (ratings, named collections, migration markers)
+// Feed entries expire by per-feed TTL and are evicted least-recently-used once the entry or paper
+// budget is exceeded; papers no longer referenced by any feed entry are removed with them.
+
+const DB_NAME = 'bioinsight';
+const DB_VERSION = 1;
+
+export const FEED_TTL_MS: Record<FeedType, number> = {
+    live: 15 * 60 * 1000, // Live Feed: 15 Minutes
+    ai: 24 * 60 * 60 * 1000, // AI Feed: 24 Hours
+    patent: 7 * 24 * 60 * 60 * 1000, // Patent Feed: 7 Days
+    trial: 24 * 60 * 60 * 1000 // Trial Registry Feed: 24 Hours
+};
+
+interface StoredPaper {
+    id: string;
+    paper: PaperData;
+    feeds: FeedType[];
+    topics: TopicId[];
+    storedAt: number;
+    lastAccessed: number;
+}
+
+interface StoredFeedEntry {
+    key: string;
+    feed: FeedType;
+    topics: TopicId[];
+    paperIds: string[];
+    timestamp: number; // When the stream produced these results; TTLs count from here
+    lastAccessed: number;
+    sizeBytes: number;
+}
+
+interface StoredBookmark {
+    id: string;
+    paper: PaperData;
+    savedAt: number;
+}
+
+export type UserRatings = Record<string, 'up' | 'down'>;
+
+// One row in the cache inspector
+export interface CacheEntryInfo {
+    key: string;
+    feed: FeedType;
+    topics: TopicId[];
+    itemCount: number;
+    sizeBytes: number;
+    ageMs: number;
+    expiresInMs: number; // Negative once expired (removed on next read or eviction pass)
+    lastAccessed: number;
+}
+
+export interface PaperStoreConfig {
+    indexedDB?: IDBFactory;
+    dbName?: string;
+    maxFeedEntries?: number;
+    maxPapers?: number;
+    ttls?: Partial<Record<FeedType, number>>;
+    now?: () => number;
+}
+
+export const createPaperStore = (config: PaperStoreConfig = {}) => {
+    const factory = config.indexedDB ?? globalThis.indexedDB;
+    const dbName = config.dbName ?? DB_NAME;
+    const maxFeedEntries = config.maxFeedEntries ?? 60;
+    const maxPapers = config.maxPapers ?? 3000;
+    const ttls: Record<FeedType, number> = { ...FEED_TTL_MS, ...config.ttls };
+    const now = config.now ?? Date.now;
+
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const db = (): Promise<IDBDatabase> => {
+        if (!factory) return Promise.reject(new Error('IndexedDB is not available'));
+        if (!dbPromise) {
+            dbPromise = openDatabase(factory, dbName, DB_VERSION, (database) => {
+                const papers = database.createObjectStore('papers', { keyPath: 'id' });
+                papers.createIndex('feeds', 'feeds', { multiEntry: true });
+                papers.createIndex('topics', 'topics', { multiEntry: true });
+                papers.createIndex('lastAccessed', 'lastAccessed');
+                const feeds = database.createObjectStore('feeds', { keyPath: 'key' });
+                feeds.createIndex('feed', 'feed');
+                feeds.createIndex('lastAccessed', 'lastAccessed');
+                database.createObjectStore('bookmarks', { keyPath: 'id' });
+                database.createObjectStore('meta');
+            });
+            dbPromise.catch(() => { dbPromise = null; });
+        }
+        return dbPromise;
+    };
+
+    const isExpired = (entry: StoredFeedEntry, at: number) => at - entry.timestamp >= ttls[entry.feed];
+
+    // --- FEED CACHE ---
+
+    // Papers for a cached stream run, or null when absent/expired. A hit refreshes the LRU clock.
+    const getFeed = async (key: string): Promise<PaperData[] | null> => {
+        const database = await db();
+        const tx = database.transaction(['feeds', 'papers'], 'readwrite');
+        const feeds = tx.objectStore('feeds');
+        const papers = tx.objectStore('papers');
+        const at = now();
+
+        const entry = await requestToPromise<StoredFeedEntry | undefined>(feeds.get(key));
+        let result: PaperData[] | null = null;
+        if (entry && isExpired(entry, at)) {
+            console.log(`[Cache Expired - ${entry.feed}] Removing old data.`);
+            feeds.delete(key);
+        } else if (entry) {
+            const stored = await Promise.all(entry.paperIds.map(id => requestToPromise<StoredPaper | undefined>(papers.get(id))));
+            result = [];
+            for (const record of stored) {
+                if (!record) continue;
+                result.push(normalizeLegacyTopics(record.paper));
+                papers.put({ ...record, lastAccessed: at });
+            }
+            feeds.put({ ...entry, lastAccessed: at });
+            console.log(`[Cache Hit - ${entry.feed}] Returning ${result.length} items.`);
+        }
+        await transactionDone(tx);
+        return result;
+    };
+
+    const writeFeed = async (entry: StoredFeedEntry, items: PaperData[], merge: boolean) => {
+        const database = await db();
+        const tx = database.transaction(['feeds', 'papers'], 'readwrite');
+        const papers = tx.objectStore('papers');
+        const feeds = tx.objectStore('feeds');
+        // Merging keeps the previous run's papers (expired or not) and restarts the TTL from this run
+        const previousEntry = merge ? await requestToPromise<StoredFeedEntry | undefined>(feeds.get(entry.key)) : undefined;
+        if (previousEntry) {
+            entry.paperIds = Array.from(new Set([...entry.paperIds, ...previousEntry.paperIds]));
+            entry.sizeBytes += previousEntry.sizeBytes;
+        }
+        const existing = await Promise.all(items.map(p => requestToPromise<StoredPaper | undefined>(papers.get(p.id))));
+        items.forEach((paper, i) => {
+            const previous = existing[i];
+            papers.put({
+                id: paper.id,
+                paper,
+                feeds: Array.from(new Set([...(previous?.feeds || []), entry.feed])),
+                topics: paper.topics,
+                storedAt: previous?.storedAt ?? entry.timestamp,
+                lastAccessed: entry.timestamp
+            } satisfies StoredPaper);
+        });
+        feeds.put(entry);
+        await transactionDone(tx);
+    };
+
+    const putFeed = async (key: string, feed: FeedType, topics: TopicId[], items: PaperData[], options: { merge?: boolean } = {}): Promise<void> => {
+        const at = now();
+        const entry: StoredFeedEntry = {
+            key, feed, topics,
+            paperIds: items.map(p => p.id),
+            timestamp: at,
+            lastAccessed: at,
+            sizeBytes: jsonByteSize(items)
+        };
+        try {
+            await writeFeed({ ...entry }, items, !!options.merge);
+        } catch (e) {
+            if (!isQuotaError(e)) throw e;
+            // Out of space: drop half of the least-recently-used entries and try once more
+            console.warn("Paper store quota reached, evicting older feed entries", e);
+            await evict({ maxEntries: Math.floor(maxFeedEntries / 2) });
+            await writeFeed({ ...entry }, items, !!options.merge);
+        }
+        await evict();
+    };
+
+    // Removes expired entries, then LRU entries beyond the budgets, then papers nothing references
+    const evict = async (limits: { maxEntries?: number } = {}): Promise<number> => {
+        const database = await db();
+        const tx = database.transaction(['feeds', 'papers'], 'readwrite');
+        const feeds = tx.objectStore('feeds');
+        const papers = tx.objectStore('papers');
+        const at = now();
+
+        const entries = (await requestToPromise<StoredFeedEntry[]>(feeds.getAll()))
+            .sort((a, b) => b.lastAccessed - a.lastAccessed); // Most recent first
+        const entryBudget = limits.maxEntries ?? maxFeedEntries;
+        const kept: StoredFeedEntry[] = [];
+        const referenced = new Set<string>();
+        let removed = 0;
+
+        for (const entry of entries) {
+            const wouldReference = entry.paperIds.filter(id => !referenced.has(id)).length;
+            const overBudget = kept.length >= entryBudget || (kept.length > 0 && referenced.size + wouldReference > maxPapers);
+            if (isExpired(entry, at) || overBudget) {
+                feeds.delete(entry.key);
+                removed++;
+                continue;
+            }
+            kept.push(entry);
+            entry.paperIds.forEach(id => referenced.add(id));
+        }
+
+        const paperIds = await requestToPromise(papers.getAllKeys());
+        for (const id of paperIds) {
+            if (!referenced.has(id as string)) papers.delete(id);
+        }
+        await transactionDone(tx);
+        return removed;
+    };
+
+    // Drops every cached entry for one feed, or for all feeds
+    const invalidate = async (feed?: FeedType): Promise<void> => {
+        const database = await db();
+        const tx = database.transaction(['feeds'], 'readwrite');
+        const feeds = tx.objectStore('feeds');
+        if (feed) {
+            const keys = await requestToPromise(feeds.index('feed').getAllKeys(feed));
+            keys.forEach(k => feeds.delete(k));
+        } else {
+            feeds.clear();
+        }
+        await transactionDone(tx);
+        // Orphaned papers go with the next eviction pass; run it now so sizes update immediately
+        await evict();
+    };
+
+    const listEntries = async (): Promise<CacheEntryInfo[]> => {
+        const database = await db();
+        const entries = await requestToPromise<StoredFeedEntry[]>(database.transaction('feeds').objectStore('feeds').getAll());
+        const at = now();
+        return entries
+            .map(e => ({
+                key: e.key,
+                feed: e.feed,
+                topics: e.topics,
+                itemCount: e.paperIds.length,
+                sizeBytes: e.sizeBytes,
+                ageMs: at - e.timestamp,
+                expiresInMs: e.timestamp + ttls[e.feed] - at,
+                lastAccessed: e.lastAccessed
+            }))
+            .sort((a, b) => b.lastAccessed - a.lastAccessed);
+    };
+
+    // --- PAPER LOOKUPS ---
+
+    const getPaper = async (id: string): Promise<PaperData | null> => {
+        const database = await db();
+        const record = await requestToPromise<StoredPaper | undefined>(database.transaction('papers').objectStore('papers').get(id));
+        return record ? normalizeLegacyTopics(record.paper) : null;
+    };
+
+    const getPapersByIndex = async (index: 'feeds' | 'topics', value: string): Promise<PaperData[]> => {
+        const database = await db();
+        const records = await requestToPromise<StoredPaper[]>(database.transaction('papers').objectStore('papers').index(index).getAll(value));
+        return records.map(r => normalizeLegacyTopics(r.paper));
+    };
+
+    // Writes changed copies of papers already stored (in a feed or as a bookmark) back in place, keeping
+    // their feed membership and LRU clock. Papers the store does not hold are skipped; returns how many
+    // records were updated.
+    const updatePapers = async (updated: PaperData[]): Promise<number> => {
+        const database = await db();
+        const tx = database.transaction(['papers', 'bookmarks'], 'readwrite');
+        const papers = tx.objectStore('papers');
+        const bookmarks = tx.objectStore('bookmarks');
+        const [stored, saved] = await Promise.all([
+            Promise.all(updated.map(p => requestToPromise<StoredPaper | undefined>(papers.get(p.id)))),
+            Promise.all(updated.map(p => requestToPromise<StoredBookmark | undefined>(bookmarks.get(p.id))))
+        ]);
+        let count = 0;
+        updated.forEach((paper, i) => {
+            if (stored[i]) { papers.put({ ...stored[i]!, paper }); count++; }
+            if (saved[i]) { bookmarks.put({ ...saved[i]!, paper }); count++; }
+        });
+        await transactionDone(tx);
+        return count;
+    };
+
+    const countPapers = async (): Promise<number> => {
+        const database = await db();
+        return requestToPromise(database.transaction('papers').objectStore('papers').count());
+    };
+
+    // --- BOOKMARKS & RATINGS ---
+
+    const loadBookmarks = async (): Promise<PaperData[]> => {
+        const database = await db();
+        const records = await requestToPromise<StoredBookmark[]>(database.transaction('bookmarks').objectStore('bookmarks').getAll());
+        return records.sort((a, b) => a.savedAt - b.savedAt).map(r => normalizeLegacyTopics(r.paper));
+    };
+
+    // Replaces the stored set; savedAt is kept for bookmarks that were already present
+    const saveBookmarks = async (bookmarks: PaperData[]): Promise<void> => {
+        const database = await db();
+        const tx = database.transaction('bookmarks', 'readwrite');
+        const store = tx.objectStore('bookmarks');
+        const existing = new Map((await requestToPromise<StoredBookmark[]>(store.getAll())).map(r => [r.id, r]));
+        const at = now();
+        store.clear();
+        bookmarks.forEach((paper, i) => store.put({ id: paper.id, paper, savedAt: existing.get(paper.id)?.savedAt ?? at + i } satisfies StoredBookmark));
+        await transactionDone(tx);
+    };
+
+    const getMeta = async <T>(key: string): Promise<T | undefined> => {
+        const database = await db();
+        return requestToPromise<T | undefined>(database.transaction('meta').objectStore('meta').get(key));
+    };
+
+    const setMeta = async (key: string, value: unknown): Promise<void> => {
+        const database = await db();
+        const tx = database.transaction('meta', 'readwrite');
+        tx.objectStore('meta').put(value, key);
+        await transactionDone(tx);
+    };
+
+    const loadRatings = async (): Promise<UserRatings> => (await getMeta<UserRatings>('ratings')) || {};
+    const saveRatings = (ratings: UserRatings): Promise<void> => setMeta('ratings', ratings);
+
+    // Named collections hold their own paper copies, like bookmarks, and are never evicted
+    const loadCollections = async (): Promise<PaperCollection[]> =>
+        ((await getMeta<PaperCollection[]>('collections')) || []).map(c => ({ ...c, papers: c.papers.map(normalizeLegacyTopics) }));
+    const saveCollections = (collections: PaperCollection[]): Promise<void> => setMeta('collections', collections);
+
+    return {
+        getFeed,
+        putFeed,
+        evict,
+        invalidate,
+        listEntries,
+        getPaper,
+        getPapersByFeed: (feed: FeedType) => getPapersByIndex('feeds', feed),
+        getPapersByTopic: (topic: TopicId) => getPapersByIndex('topics', topic),
+        updatePapers,
+        countPapers,
+        loadBookmarks,
+        saveBookmarks,
+        loadRatings,
+        saveRatings,
+        loadCollections,
+        saveCollections,
+        getMeta,
+        setMeta
+    };
+};
+
+export type PaperStore = ReturnType<typeof createPaperStore>;
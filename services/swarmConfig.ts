@@ -0,0 +1,234 @@
+import { SwarmAgentConfig, SwarmConfig } from "../types";
+
+// --- SWARM CONFIGURATION ---
+// Web-search agents are data: each names its sites, keyword groups, exclusions and lookback window.
+// The defaults below reproduce the v2.2 queries. Edited configurations are persisted per browser
+// and can be shared across a team as JSON files (see exportSwarmConfig / importSwarmConfig).
+
+const SWARM_STORAGE_KEY = 'bioinsight_swarms_v1';
+export const SWARM_CONFIG_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SWARM_CONFIG: SwarmConfig = {
+    version: SWARM_CONFIG_VERSION,
+    revision: 0,
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    registryLookbackDays: 30,
+    maxConcurrentAgents: 2,
+    maxAttempts: 3,
+    agents: [
+        // Swarm A: Targets the "Big 6" and critical society journals (AHA, ADA, Cell, Science).
+        {
+            id: 'prestige-society',
+            name: 'Prestige & Society Swarm',
+            feed: 'live',
+            enabled: true,
+            sites: ['nature.com', 'science.org', 'nejm.org', 'thelancet.com', 'jamanetwork.com', 'cell.com', 'diabetesjournals.org', 'ahajournals.org'],
+            keywordGroups: [['p-value', 'confidence interval', 'randomized', 'cohort']],
+            exclusions: ['news', 'editorial', 'commentary'],
+            lookbackDays: 30
+        },
+        // Swarm B: High-volume publisher hubs, for articles not yet indexed by the registry agents.
+        {
+            id: 'aggregator',
+            name: 'Aggregator Swarm',
+            feed: 'live',
+            enabled: true,
+            sites: ['sciencedirect.com', 'onlinelibrary.wiley.com', 'academic.oup.com', 'link.springer.com'],
+            keywordGroups: [],
+            exclusions: ['news'],
+            lookbackDays: 30
+        },
+        {
+            id: 'ai-specialist',
+            name: 'AI Specialist Agent',
+            feed: 'ai',
+            enabled: true,
+            sites: ['nature.com', 'arxiv.org', 'medrxiv.org', 'pubmed.ncbi.nlm.nih.gov'],
+            keywordGroups: [
+                ['Machine Learning', 'Deep Learning', 'Transformer', 'Large Language Model', 'Computer Vision', 'Generative AI'],
+                ['EHR', 'Electronic Health Records', 'MRI', 'CT Scan', 'Histopathology', 'Clinical Cohort', 'Real-world evidence']
+            ],
+            // IMPL: Option 2 (Enhanced Exclusion)
+            exclusions: ['mouse', 'rat', 'murine', 'vitro', 'preclinical', 'animal model', 'editorial', 'commentary', 'opinion'],
+            lookbackDays: 30
+        },
+        {
+            id: 'patent-clerk',
+            name: 'Patent Clerk Agent',
+            feed: 'patent',
+            enabled: true,
+            sites: ['patents.google.com/patent/', 'freepatentsonline.com'],
+            keywordGroups: [['Method', 'System', 'Composition', 'Apparatus']],
+            exclusions: [],
+            lookbackDays: 90 // Patents move slower
+        }
+    ]
+};
+
+let currentConfig: SwarmConfig = DEFAULT_SWARM_CONFIG;
+
+export const getSwarmConfig = (): SwarmConfig => currentConfig;
+
+export const loadSwarmConfig = (): SwarmConfig => {
+    try {
+        const stored = localStorage.getItem(SWARM_STORAGE_KEY);
+        if (stored) {
+            const { config, issues } = validateSwarmConfig(JSON.parse(stored));
+            if (config) currentConfig = config;
+            else console.warn("Stored swarm configuration is invalid, using defaults", issues);
+        }
+    } catch (e) {
+        console.error("Failed to load swarm configuration", e);
+    }
+    return currentConfig;
+};
+
+// Bumps the revision so feed caches built from the previous configuration are not reused
+export const saveSwarmConfig = (config: SwarmConfig): SwarmConfig => {
+    const saved = { ...config, revision: currentConfig.revision + 1, updatedAt: new Date().toISOString() };
+    currentConfig = saved;
+    try {
+        localStorage.setItem(SWARM_STORAGE_KEY, JSON.stringify(saved));
+    } catch (e) {
+        console.warn("Failed to save swarm configuration (likely quota)", e);
+    }
+    return saved;
+};
+
+// --- QUERY BUILDING ---
+
+const quote = (term: string) => `"${term.replace(/"/g, '')}"`;
+
+export const swarmCutoffDate = (lookbackDays: number, now: Date = new Date()): Date =>
+    new Date(now.getTime() - lookbackDays * DAY_MS);
+
+export const buildSwarmQuery = (agent: SwarmAgentConfig, topicClause: string, cutoffDate: Date): string => {
+    const parts: string[] = [];
+    if (agent.sites.length > 0) parts.push(`(${agent.sites.map(s => `site:${s}`).join(' OR ')})`);
+    const groups = agent.keywordGroups.filter(g => g.length > 0).map(g => `(${g.map(quote).join(' OR ')})`);
+    // Multi-topic clauses read "(a) OR (b)"; parenthesise them so the ANDed groups apply to every topic
+    const topic = groups.length > 0 && topicClause.includes(' OR ') ? `(${topicClause})` : topicClause;
+    parts.push([topic, ...groups].filter(Boolean).join(' AND '));
+    parts.push(...agent.exclusions.map(term => `-${/\s/.test(term) ? quote(term) : term}`));
+    parts.push(`after:${cutoffDate.toISOString().split('T')[0]}`);
+    return parts.join(' ');
+};
+
+export const agentsForFeed = (config: SwarmConfig, feed: SwarmAgentConfig['feed']): SwarmAgentConfig[] =>
+    config.agents.filter(a => a.enabled && a.feed === feed);
+
+// --- VALIDATION ---
+
+export interface SwarmConfigIssue {
+    path: string; // e.g. "agents[2].lookbackDays"
+    reason: string;
+}
+
+const FEEDS: SwarmAgentConfig['feed'][] = ['live', 'ai', 'patent'];
+const MAX_LOOKBACK_DAYS = 3650;
+const MAX_CONCURRENT_AGENTS = 8;
+const MAX_ATTEMPTS = 6;
+
+const isWholeNumberIn = (value: unknown, min: number, max: number): boolean =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const cleanList = (list: string[]) => list.map(s => s.trim()).filter(Boolean);
+
+// Accepts parsed JSON of any shape. Returns a normalized config, or null with the reasons it was rejected.
+export const validateSwarmConfig = (value: unknown): { config: SwarmConfig | null; issues: SwarmConfigIssue[] } => {
+    const issues: SwarmConfigIssue[] = [];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { config: null, issues: [{ path: '', reason: 'Expected a JSON object' }] };
+    }
+    const raw = value as Record<string, unknown>;
+
+    if (typeof raw.version !== 'number') issues.push({ path: 'version', reason: 'Missing schema version' });
+    else if (raw.version > SWARM_CONFIG_VERSION) issues.push({ path: 'version', reason: `Version ${raw.version} is newer than this app supports (${SWARM_CONFIG_VERSION})` });
+
+    const registryLookbackDays = raw.registryLookbackDays ?? DEFAULT_SWARM_CONFIG.registryLookbackDays;
+    if (typeof registryLookbackDays !== 'number' || !Number.isInteger(registryLookbackDays) || registryLookbackDays < 1 || registryLookbackDays > MAX_LOOKBACK_DAYS) {
+        issues.push({ path: 'registryLookbackDays', reason: `Must be a whole number of days between 1 and ${MAX_LOOKBACK_DAYS}` });
+    }
+
+    // Execution settings arrived after the v1 file format; files without them get the defaults
+    const maxConcurrentAgents = raw.maxConcurrentAgents ?? DEFAULT_SWARM_CONFIG.maxConcurrentAgents;
+    if (!isWholeNumberIn(maxConcurrentAgents, 1, MAX_CONCURRENT_AGENTS)) {
+        issues.push({ path: 'maxConcurrentAgents', reason: `Must be a whole number between 1 and ${MAX_CONCURRENT_AGENTS}` });
+    }
+    const maxAttempts = raw.maxAttempts ?? DEFAULT_SWARM_CONFIG.maxAttempts;
+    if (!isWholeNumberIn(maxAttempts, 1, MAX_ATTEMPTS)) {
+        issues.push({ path: 'maxAttempts', reason: `Must be a whole number between 1 and ${MAX_ATTEMPTS}` });
+    }
+
+    if (!Array.isArray(raw.agents)) {
+        issues.push({ path: 'agents', reason: 'Expected an array of agents' });
+        return { config: null, issues };
+    }
+
+    const seenIds = new Set<string>();
+    const agents: SwarmAgentConfig[] = [];
+    raw.agents.forEach((entry, i) => {
+        const path = `agents[${i}]`;
+        const before = issues.length;
+        if (!entry || typeof entry !== 'object') { issues.push({ path, reason: 'Expected an object' }); return; }
+        const a = entry as Record<string, unknown>;
+
+        const id = typeof a.id === 'string' ? a.id.trim() : '';
+        if (!id) issues.push({ path: `${path}.id`, reason: 'Missing id' });
+        else if (seenIds.has(id)) issues.push({ path: `${path}.id`, reason: `Duplicate id "${id}"` });
+        seenIds.add(id);
+
+        if (typeof a.name !== 'string' || !a.name.trim()) issues.push({ path: `${path}.name`, reason: 'Missing name' });
+        if (!FEEDS.includes(a.feed as SwarmAgentConfig['feed'])) issues.push({ path: `${path}.feed`, reason: `Must be one of ${FEEDS.join(', ')}` });
+        if (!isStringList(a.sites)) issues.push({ path: `${path}.sites`, reason: 'Expected a list of strings' });
+        else if (a.sites.some(s => /\s|^site:/i.test(s.trim()))) issues.push({ path: `${path}.sites`, reason: 'Sites are bare domains without spaces or "site:"' });
+        if (!Array.isArray(a.keywordGroups) || !a.keywordGroups.every(isStringList)) issues.push({ path: `${path}.keywordGroups`, reason: 'Expected a list of string lists' });
+        if (!isStringList(a.exclusions)) issues.push({ path: `${path}.exclusions`, reason: 'Expected a list of strings' });
+        if (typeof a.lookbackDays !== 'number' || !Number.isInteger(a.lookbackDays) || a.lookbackDays < 1 || a.lookbackDays > MAX_LOOKBACK_DAYS) {
+            issues.push({ path: `${path}.lookbackDays`, reason: `Must be a whole number of days between 1 and ${MAX_LOOKBACK_DAYS}` });
+        }
+        if (issues.length > before) return;
+
+        agents.push({
+            id,
+            name: (a.name as string).trim(),
+            feed: a.feed as SwarmAgentConfig['feed'],
+            enabled: a.enabled !== false,
+            sites: cleanList(a.sites as string[]),
+            keywordGroups: (a.keywordGroups as string[][]).map(cleanList).filter(g => g.length > 0),
+            exclusions: cleanList(a.exclusions as string[]),
+            lookbackDays: a.lookbackDays as number
+        });
+    });
+
+    if (issues.length > 0) return { config: null, issues };
+    return {
+        config: {
+            version: SWARM_CONFIG_VERSION,
+            revision: typeof raw.revision === 'number' ? raw.revision : 0,
+            updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+            registryLookbackDays: registryLookbackDays as number,
+            maxConcurrentAgents: maxConcurrentAgents as number,
+            maxAttempts: maxAttempts as number,
+            agents
+        },
+        issues
+    };
+};
+
+// --- IMPORT / EXPORT ---
+
+export const exportSwarmConfig = (config: SwarmConfig): string => JSON.stringify(config, null, 2);
+
+export const importSwarmConfig = (text: string): { config: SwarmConfig | null; issues: SwarmConfigIssue[] } => {
+    try {
+        return validateSwarmConfig(JSON.parse(text));
+    } catch (e: any) {
+        return { config: null, issues: [{ path: '', reason: `Not valid JSON: ${e.message}` }] };
+    }
+};
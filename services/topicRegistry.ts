@@ -0,0 +1,218 @@
+import { DiseaseTopic, TopicDefinition, TopicId } from "../types";
+
+// --- TOPIC REGISTRY ---
+// The editable list of tracked topics and their vocabularies. The Sidebar, every stream's query
+// builder and the topic classifier read from here, so adding a drug or a disease needs no release.
+
+const REGISTRY_STORAGE_KEY = 'bioinsight_topics_v1';
+
+// Strategy: Removed 'intitle:' constraints to improve Patent/Abstract recall.
+// Added 2024/2025 Pipeline Drugs (Retatrutide, CagriSema, etc).
+export const DEFAULT_TOPICS: TopicDefinition[] = [
+    { name: DiseaseTopic.CVD, builtIn: true, synonyms: ['CVD', 'Cardiovascular', 'Heart Failure', 'Atherosclerosis', 'Myocardial', 'HFrEF'], drugs: [] },
+    { name: DiseaseTopic.CKD, builtIn: true, synonyms: ['CKD', 'Chronic Kidney Disease', 'Renal Failure', 'Nephropathy', 'Glomerular'], drugs: [] },
+    { name: DiseaseTopic.MASH, builtIn: true, synonyms: ['MASH', 'NASH', 'MASLD', 'Steatohepatitis'], drugs: ['Resmetirom'] },
+    { name: DiseaseTopic.Diabetes, builtIn: true, synonyms: ['Diabetes', 'Type 2', 'T2D', 'HbA1c', 'Insulin'], drugs: ['SGLT2', 'Finerenone', 'Sotagliflozin'] },
+    {
+        name: DiseaseTopic.Obesity, builtIn: true,
+        synonyms: ['Obesity', 'Weight Loss', 'BMI', 'HFpEF', 'Sleep Apnea'],
+        drugs: ['Semaglutide', 'Tirzepatide', 'Retatrutide', 'CagriSema', 'Orforglipron', 'Amycretin', 'GLP-1', 'Amylin']
+    }
+];
+
+let currentRegistry: TopicDefinition[] = DEFAULT_TOPICS;
+
+export const getTopicRegistry = (): TopicDefinition[] => currentRegistry;
+
+export const setTopicRegistry = (registry: TopicDefinition[]) => {
+    currentRegistry = registry;
+};
+
+export const loadTopicRegistry = (): TopicDefinition[] => {
+    try {
+        const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+        if (stored) currentRegistry = JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to load topic registry", e);
+    }
+    return currentRegistry;
+};
+
+export const saveTopicRegistry = (registry: TopicDefinition[]) => {
+    currentRegistry = registry;
+    try {
+        localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+    } catch (e) {
+        console.warn("Failed to save topic registry (likely quota)", e);
+    }
+};
+
+export const findTopic = (name: TopicId, registry: TopicDefinition[] = currentRegistry): TopicDefinition | undefined =>
+    registry.find(t => t.name === name);
+
+// Name, synonyms and drugs, de-duplicated case-insensitively. Unknown names search for themselves.
+// Composite display names such as "MASH / NASH" are labels, not search phrases, and are skipped.
+export const getTopicSearchTerms = (name: TopicId, registry: TopicDefinition[] = currentRegistry): string[] => {
+    const topic = findTopic(name, registry);
+    const terms = topic ? [topic.name, ...topic.synonyms, ...topic.drugs] : [name];
+    const seen = new Set<string>();
+    return terms.filter(t => {
+        const key = t.trim().toLowerCase();
+        if (!key || key.includes(' / ') || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Web-search form: ("MASH" OR "NASH" OR ...)
+export const buildTopicQuery = (names: TopicId[], registry: TopicDefinition[] = currentRegistry): string =>
+    names.map(n => `(${getTopicSearchTerms(n, registry).map(t => `"${t.replace(/"/g, '')}"`).join(' OR ')})`).join(' OR ');
+
+// Short fingerprint of the vocabulary behind a set of topics. Feed caches include it in their key
+// so editing a synonym list invalidates results fetched with the old terms.
+export const topicVocabularyKey = (names: TopicId[], registry: TopicDefinition[] = currentRegistry): string => {
+    const text = [...names].sort().map(n => getTopicSearchTerms(n, registry).join('|')).join('#');
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    return (hash >>> 0).toString(36);
+};
+
+// Comma-separated list for prompts that ask the model to label records
+export const describeTopicsForPrompt = (registry: TopicDefinition[] = currentRegistry): string =>
+    registry.map(t => t.synonyms.length > 0 ? `${t.name} (${t.synonyms.slice(0, 4).join(', ')})` : t.name).join('; ');
+
+// --- EDITING ---
+
+export type TopicRegistryError = { field: 'name' | 'synonyms'; message: string };
+
+export const validateTopicDefinition = (topic: TopicDefinition, registry: TopicDefinition[], originalName?: TopicId): TopicRegistryError | null => {
+    const name = topic.name.trim();
+    if (!name) return { field: 'name', message: 'Topic name is required' };
+    if (name.toLowerCase() === 'unclassified') return { field: 'name', message: '"Unclassified" is reserved' };
+    const clash = registry.find(t => t.name.toLowerCase() === name.toLowerCase() && t.name !== originalName);
+    if (clash) return { field: 'name', message: `A topic named "${clash.name}" already exists` };
+    if (topic.synonyms.length === 0 && topic.drugs.length === 0) return { field: 'synonyms', message: 'Add at least one synonym or drug term' };
+    return null;
+};
+
+export const upsertTopic = (registry: TopicDefinition[], topic: TopicDefinition, originalName?: TopicId): TopicDefinition[] => {
+    const key = originalName ?? topic.name;
+    const exists = registry.some(t => t.name === key);
+    return exists ? registry.map(t => t.name === key ? { ...topic, builtIn: t.builtIn } : t) : [...registry, topic];
+};
+
+export const removeTopic = (registry: TopicDefinition[], name: TopicId): TopicDefinition[] =>
+    registry.filter(t => t.name !== name);
+
+// One term per line (or ";"-separated). Commas are kept: MeSH headings read "Obesity, Morbid".
+export const parseTermList = (raw: string): string[] => mergeTerms(raw.split(/[;\n]/));
+
+// Trimmed, de-duplicated case-insensitively, first spelling wins
+const mergeTerms = (terms: string[]): string[] => {
+    const seen = new Set<string>();
+    return terms.map(t => t.trim()).filter(t => {
+        const key = t.toLowerCase();
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// --- MeSH IMPORT ---
+// Two inputs are understood:
+//  1. An indented outline, optionally with tree numbers:  "Heart Diseases [C14.280]"
+//  2. MeSH ASCII descriptor records (d20xx.bin): MH = heading, MN = tree number, ENTRY / PRINT ENTRY = synonyms
+// Each root node becomes a topic (or extends the topic of the same name); descendants and entry terms
+// become its synonyms. With `targetTopic`, every term is added to that topic instead.
+
+interface MeshNode {
+    heading: string;
+    treeNumbers: string[];
+    entries: string[];
+    depth: number;
+}
+
+const parseMeshAscii = (text: string): MeshNode[] => {
+    const nodes: MeshNode[] = [];
+    for (const block of text.split(/\*NEWRECORD/).slice(1)) {
+        const heading = block.match(/^MH = (.+)$/m)?.[1]?.trim();
+        if (!heading) continue;
+        const treeNumbers = Array.from(block.matchAll(/^MN = (.+)$/gm)).map(m => m[1].trim());
+        // Entry terms carry "|"-separated qualifiers; the term itself is the first field
+        const entries = Array.from(block.matchAll(/^(?:PRINT )?ENTRY = (.+)$/gm)).map(m => m[1].split('|')[0].trim());
+        const depth = treeNumbers.length > 0 ? Math.min(...treeNumbers.map(n => n.split('.').length - 1)) : 0;
+        nodes.push({ heading, treeNumbers, entries, depth });
+    }
+    return nodes;
+};
+
+const parseMeshOutline = (text: string): MeshNode[] => {
+    const lines = text.split('\n').filter(l => l.trim());
+    const indents = lines.map(l => l.match(/^\s*/)![0].replace(/\t/g, '  ').length);
+    const minIndent = Math.min(...indents);
+    const step = Math.min(...indents.filter(i => i > minIndent), Infinity);
+
+    return lines.map((line, i) => {
+        const match = line.trim().match(/^(.*?)\s*(?:\[([A-Z]\d{2}(?:\.\d{3})*)\])?$/);
+        const depth = step === Infinity ? 0 : Math.round((indents[i] - minIndent) / step);
+        return { heading: match![1].trim(), treeNumbers: match![2] ? [match![2]] : [], entries: [], depth };
+    });
+};
+
+export const parseMeshTree = (text: string): MeshNode[] =>
+    text.includes('*NEWRECORD') ? parseMeshAscii(text) : parseMeshOutline(text);
+
+export interface MeshImportResult {
+    registry: TopicDefinition[];
+    added: TopicId[];
+    extended: TopicId[];
+    termCount: number;
+}
+
+export const importMeshTree = (registry: TopicDefinition[], text: string, targetTopic?: TopicId): MeshImportResult => {
+    const nodes = parseMeshTree(text);
+    const groups: { root: MeshNode; members: MeshNode[] }[] = [];
+
+    for (const node of nodes) {
+        // ASCII records: a node belongs to the root whose tree number prefixes its own
+        const byTree = node.treeNumbers.length > 0
+            ? groups.find(g => g.root.treeNumbers.some(rt => node.treeNumbers.some(n => n !== rt && n.startsWith(`${rt}.`))))
+            : undefined;
+        const byOutline = !byTree && node.depth > 0 ? groups[groups.length - 1] : undefined;
+        const parent = byTree || byOutline;
+        if (parent && !targetTopic) parent.members.push(node);
+        else if (targetTopic && groups.length > 0) groups[0].members.push(node);
+        else groups.push({ root: node, members: [] });
+    }
+
+    let next = registry;
+    const added: TopicId[] = [];
+    const extended: TopicId[] = [];
+    let termCount = 0;
+
+    for (const { root, members } of groups) {
+        const all = [root, ...members];
+        const terms = all.flatMap(n => [n.heading, ...n.entries]);
+        const treeNumbers = all.flatMap(n => n.treeNumbers);
+        // A heading that is already a synonym (e.g. "Heart Failure" under CVD) extends that topic
+        const existing = targetTopic
+            ? findTopic(targetTopic, next)
+            : findTopic(root.heading, next) ?? next.find(t => t.synonyms.some(syn => syn.toLowerCase() === root.heading.toLowerCase()));
+        const name = existing?.name ?? targetTopic ?? root.heading;
+        termCount += terms.length;
+
+        if (existing) {
+            next = upsertTopic(next, {
+                ...existing,
+                synonyms: mergeTerms([...existing.synonyms, ...terms]),
+                meshTreeNumbers: Array.from(new Set([...(existing.meshTreeNumbers || []), ...treeNumbers]))
+            });
+            if (!extended.includes(name)) extended.push(name);
+        } else {
+            next = upsertTopic(next, { name, synonyms: mergeTerms(terms), drugs: [], meshTreeNumbers: treeNumbers });
+            added.push(name);
+        }
+    }
+
+    return { registry: next, added, extended, termCount };
+};
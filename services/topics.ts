@@ -0,0 +1,54 @@
+import { PaperData, TopicConfidence, TopicDefinition, TopicId } from "../types";
+import { getTopicRegistry } from "./topicRegistry";
+
+// --- TOPIC CLASSIFICATION ---
+// Papers carry zero or more registry topic labels. An empty list is the explicit "Unclassified" state;
+// nothing is ever filed under a default topic.
+
+export const UNCLASSIFIED_LABEL = 'Unclassified';
+
+// Maps a free-form label onto a registered topic. Exact name/synonym matches win; otherwise the longest
+// synonym (4+ characters, so "BMI" or "T2D" must match exactly) contained in the label decides.
+// Returns null when the input names none of the registry's topics.
+export const mapToDiseaseTopic = (input: string, registry: TopicDefinition[] = getTopicRegistry()): TopicId | null => {
+    const upper = input?.trim().toUpperCase() || '';
+    if (!upper) return null;
+
+    const candidates = registry.flatMap(t => [t.name, ...t.synonyms].map(term => ({ topic: t.name, term: term.trim().toUpperCase() })));
+    const exact = candidates.find(c => c.term === upper);
+    if (exact) return exact.topic;
+
+    const partial = candidates
+        .filter(c => c.term.length >= 4 && upper.includes(c.term))
+        .sort((a, b) => b.term.length - a.term.length)[0];
+    return partial ? partial.topic : null;
+};
+
+// Splits free-form model output such as "Obesity | CVD" into individual labels
+export const splitTopicLabels = (input: string): string[] =>
+    input.split(/[|,;]|\band\b/i).map(s => s.trim()).filter(Boolean);
+
+// Builds the topics/topicConfidence pair from already-mapped labels, keeping the highest confidence per topic
+export const buildTopicLabels = (labels: { topic: TopicId; confidence?: number }[]): Pick<PaperData, 'topics' | 'topicConfidence'> => {
+    const topicConfidence: TopicConfidence = {};
+    for (const { topic, confidence } of labels) {
+        const value = confidence ?? 1;
+        topicConfidence[topic] = Math.max(topicConfidence[topic] ?? 0, value);
+    }
+    const topics = Object.keys(topicConfidence)
+        .sort((a, b) => (topicConfidence[b] ?? 0) - (topicConfidence[a] ?? 0));
+    return { topics, topicConfidence };
+};
+
+// Items persisted before multi-label support carry a single `topic`; lift it into `topics`
+export const normalizeLegacyTopics = (paper: PaperData & { topic?: string }): PaperData => {
+    if (Array.isArray(paper.topics)) return paper;
+    const { topic, ...rest } = paper;
+    const mapped = topic ? mapToDiseaseTopic(topic) : null;
+    return { ...rest, topics: mapped ? [mapped] : [] };
+};
+
+export const matchesTopicFilter = (paper: PaperData, activeTopics: TopicId[], showUnclassified: boolean): boolean => {
+    if (paper.topics.length === 0) return showUnclassified;
+    return paper.topics.some(t => activeTopics.includes(t));
+};
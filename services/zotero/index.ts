@@ -0,0 +1,26 @@
+import { createZoteroClient, ZoteroClient } from "./zoteroClient";
+import { createMockZoteroServer, MockZoteroServer } from "./mockZoteroServer";
+import { ZoteroConfig } from "./zoteroConfig";
+
+export { createZoteroClient, isVersionConflict } from "./zoteroClient";
+export type { ZoteroClient, ZoteroClientConfig, ZoteroLibrary, ZoteroItem, ZoteroItemData, ZoteroCollection, ZoteroCreator, ZoteroTag, ZoteroWriteResult } from "./zoteroClient";
+export { paperToItemData, itemToReference, itemToPaper, noteToHtml, htmlToNote, normalizeNote, TOPIC_TAG_PREFIX } from "./zoteroItem";
+export { syncZoteroCollection, emptySyncState } from "./zoteroSync";
+export type { ZoteroSyncState, ZoteroSyncResult, ZoteroSyncReport, ZoteroSyncOptions, ZoteroConflict, ZoteroConflictPolicy, ZoteroLink, ZoteroFields, ZoteroNoteRef } from "./zoteroSync";
+export { createMockZoteroServer } from "./mockZoteroServer";
+export type { MockZoteroServer, MockZoteroLibrary } from "./mockZoteroServer";
+export { DEFAULT_ZOTERO_CONFIG, isZoteroConfigured, loadZoteroConfig, saveZoteroConfig } from "./zoteroConfig";
+export type { ZoteroConfig } from "./zoteroConfig";
+
+let mockServer: MockZoteroServer | undefined;
+
+// ZOTERO_BASE_URL points at a local mock server; ZOTERO_MODE=mock uses the in-memory one for the session
+export const getDefaultZoteroClient = (config: ZoteroConfig): ZoteroClient => {
+    if (process.env.ZOTERO_MODE === 'mock') mockServer ??= createMockZoteroServer();
+    return createZoteroClient({
+        fetch: process.env.ZOTERO_MODE === 'mock' ? mockServer!.fetch : undefined,
+        baseUrl: process.env.ZOTERO_BASE_URL,
+        apiKey: config.apiKey,
+        library: config.library
+    });
+};
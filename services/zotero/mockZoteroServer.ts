@@ -0,0 +1,137 @@
+import { HttpFetch } from "../sources";
+import { ZoteroCollection, ZoteroItem, ZoteroItemData } from "./zoteroClient";
+
+// --- MOCK ZOTERO SERVER ---
+// An in-memory stand-in for the endpoints the sync uses, with Zotero's versioning rules: every write bumps
+// the library version, `since` filters by it, and a write whose If-Unmodified-Since-Version is older than
+// the item answers 412. ZOTERO_MODE=mock serves it in place of api.zotero.org; edit `library` directly
+// (or through the returned fetch) to play the other side of a sync.
+
+export interface MockZoteroLibrary {
+    version: number;
+    collections: ZoteroCollection[];
+    items: Map<string, ZoteroItem>;
+    deleted: Map<string, number>; // Item key -> library version it was deleted at
+}
+
+export interface MockZoteroServer {
+    fetch: HttpFetch;
+    library: MockZoteroLibrary;
+    // Applies a change as if made in the Zotero client, bumping versions
+    edit(key: string, change: Partial<ZoteroItemData>): ZoteroItem;
+    add(data: ZoteroItemData): ZoteroItem;
+}
+
+const KEY_CHARS = '23456789ABCDEFGHIJKLMNPQRSTUVWXYZ';
+
+export const createMockZoteroServer = (collections: { key: string; name: string }[] = [{ key: 'MOCKCOLL', name: 'BioInsight' }]): MockZoteroServer => {
+    const library: MockZoteroLibrary = {
+        version: 1,
+        collections: collections.map(c => ({ key: c.key, version: 1, data: { key: c.key, name: c.name, parentCollection: false } })),
+        items: new Map(),
+        deleted: new Map()
+    };
+    let nextKey = 0;
+    const newKey = () => {
+        let n = nextKey++;
+        let key = '';
+        for (let i = 0; i < 8; i++) { key = KEY_CHARS[n % KEY_CHARS.length] + key; n = Math.floor(n / KEY_CHARS.length); }
+        return key;
+    };
+
+    const write = (key: string, data: ZoteroItemData): ZoteroItem => {
+        library.version++;
+        const item = { key, version: library.version, data: { ...data, key, version: library.version } };
+        library.items.set(key, item);
+        return item;
+    };
+    const add = (data: ZoteroItemData) => write(newKey(), data);
+    const edit = (key: string, change: Partial<ZoteroItemData>) => {
+        const item = library.items.get(key);
+        if (!item) throw new Error(`No mock Zotero item ${key}`);
+        return write(key, { ...item.data, ...change });
+    };
+
+    const json = (body: unknown, status = 200, extra: Record<string, string> = {}) =>
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', 'Last-Modified-Version': String(library.version), ...extra } });
+    const empty = (status: number) => new Response(null, { status, headers: { 'Last-Modified-Version': String(library.version) } });
+
+    // Paged like the API: `start`/`limit`, with Total-Results
+    const list = (items: unknown[], params: URLSearchParams) => {
+        const start = Number(params.get('start')) || 0;
+        const limit = Number(params.get('limit')) || 25;
+        return json(items.slice(start, start + limit), 200, { 'Total-Results': String(items.length) });
+    };
+
+    const live = () => Array.from(library.items.values()).filter(item => !item.data.deleted);
+    const newer = (since: string | null) => (item: ZoteroItem) => item.version > (Number(since) || 0);
+
+    const fetchImpl: HttpFetch = async (input, init = {}) => {
+        const url = new URL(input);
+        const path = url.pathname.replace(/^\/(users|groups)\/[^/]+/, '');
+        const params = url.searchParams;
+        const method = (init.method || 'GET').toUpperCase();
+        const headers = new Headers(init.headers);
+        if (!headers.get('Zotero-API-Key')) return json({ message: 'Forbidden' }, 403);
+        const unmodifiedSince = headers.get('If-Unmodified-Since-Version');
+
+        let match: RegExpMatchArray | null;
+        if (method === 'GET' && path === '/collections') return list(library.collections, params);
+
+        if (method === 'GET' && (match = path.match(/^\/collections\/([^/]+)\/items\/top$/))) {
+            const collectionKey = decodeURIComponent(match[1]);
+            const members = live().filter(item => !item.data.parentItem && (item.data.collections || []).includes(collectionKey));
+            if (params.get('format') === 'keys') return new Response(members.map(i => i.key).join('\n'), { headers: { 'Last-Modified-Version': String(library.version) } });
+            return list(members.filter(newer(params.get('since'))), params);
+        }
+
+        if (method === 'GET' && path === '/items') {
+            const keys = params.get('itemKey')?.split(',');
+            const itemType = params.get('itemType');
+            return list(live().filter(item => (!keys || keys.includes(item.key)) && (!itemType || item.data.itemType === itemType)).filter(newer(params.get('since'))), params);
+        }
+
+        if (method === 'GET' && (match = path.match(/^\/items\/([^/]+)\/children$/))) {
+            const parent = decodeURIComponent(match[1]);
+            const itemType = params.get('itemType');
+            return list(live().filter(item => item.data.parentItem === parent && (!itemType || item.data.itemType === itemType)), params);
+        }
+
+        if (method === 'GET' && path === '/deleted') {
+            const since = Number(params.get('since')) || 0;
+            return json({ collections: [], searches: [], tags: [], items: Array.from(library.deleted).filter(([, version]) => version > since).map(([key]) => key) });
+        }
+
+        if (method === 'POST' && path === '/items') {
+            const body: ZoteroItemData[] = JSON.parse(String(init.body));
+            const successful: Record<string, ZoteroItem> = {};
+            const failed: Record<string, { code: number; message: string }> = {};
+            body.forEach((data, i) => {
+                if (!data.itemType) failed[i] = { code: 400, message: "'itemType' property not provided" };
+                else if (data.parentItem && !library.items.has(data.parentItem)) failed[i] = { code: 400, message: `Parent item ${data.parentItem} doesn't exist` };
+                else successful[i] = add(data);
+            });
+            return json({ successful, success: Object.fromEntries(Object.entries(successful).map(([i, item]) => [i, item.key])), unchanged: {}, failed });
+        }
+
+        if ((method === 'PATCH' || method === 'DELETE') && (match = path.match(/^\/items\/([^/]+)$/))) {
+            const key = decodeURIComponent(match[1]);
+            const item = library.items.get(key);
+            if (!item) return empty(404);
+            if (unmodifiedSince === null) return empty(428);
+            if (item.version > Number(unmodifiedSince)) return empty(412);
+            if (method === 'DELETE') {
+                library.items.delete(key);
+                library.version++;
+                library.deleted.set(key, library.version);
+                return empty(204);
+            }
+            write(key, { ...item.data, ...JSON.parse(String(init.body)) });
+            return empty(204);
+        }
+
+        return json({ message: `Not supported by the mock: ${method} ${path}` }, 400);
+    };
+
+    return { fetch: fetchImpl, library, edit, add };
+};
@@ -0,0 +1,191 @@
+import { HttpFetch, httpError } from "../sources";
+
+// --- ZOTERO WEB API v3 CLIENT ---
+// The subset the Saved-tab sync needs: a collection's member keys and changed items, child notes,
+// deletions, and versioned writes. Every write carries If-Unmodified-Since-Version, so an item edited in
+// Zotero since it was read fails with 412 instead of being overwritten.
+// https://www.zotero.org/support/dev/web_api/v3/basics · .../write_requests · .../syncing
+
+export interface ZoteroLibrary {
+    type: 'user' | 'group';
+    id: string; // Numeric user or group ID, shown at zotero.org/settings/keys
+}
+
+export interface ZoteroClientConfig {
+    fetch?: HttpFetch;
+    baseUrl?: string; // Default https://api.zotero.org; point at a local mock server for testing
+    apiKey: string;
+    library: ZoteroLibrary;
+}
+
+export interface ZoteroCreator {
+    creatorType: string; // author, inventor, contributor ...
+    firstName?: string;
+    lastName?: string;
+    name?: string; // Single-field names, e.g. organizations
+}
+
+export interface ZoteroTag {
+    tag: string;
+    type?: 0 | 1; // 1 = automatic (added by software), shown in a different colour in Zotero
+}
+
+// Item fields vary by itemType; only the ones the sync reads or writes are listed
+export interface ZoteroItemData {
+    key?: string;
+    version?: number;
+    itemType: string;
+    parentItem?: string;
+    title?: string;
+    creators?: ZoteroCreator[];
+    abstractNote?: string;
+    publicationTitle?: string;
+    proceedingsTitle?: string;
+    repository?: string;
+    websiteTitle?: string;
+    date?: string;
+    DOI?: string;
+    url?: string;
+    extra?: string;
+    patentNumber?: string;
+    country?: string;
+    issuingAuthority?: string;
+    assignee?: string;
+    priorityNumbers?: string;
+    note?: string; // HTML, notes only
+    tags?: ZoteroTag[];
+    collections?: string[];
+    deleted?: boolean | number;
+}
+
+export interface ZoteroItem {
+    key: string;
+    version: number;
+    data: ZoteroItemData;
+}
+
+export interface ZoteroCollection {
+    key: string;
+    version: number;
+    data: { key: string; name: string; parentCollection?: string | false };
+}
+
+export interface ZoteroWriteResult {
+    successful: Record<string, ZoteroItem>; // By index in the request
+    failed: Record<string, { code: number; message: string }>;
+}
+
+export interface ZoteroClient {
+    listCollections(signal?: AbortSignal): Promise<ZoteroCollection[]>;
+    // Top-level item keys in the collection, with the library version they were read at
+    getCollectionKeys(collectionKey: string, signal?: AbortSignal): Promise<{ keys: string[]; libraryVersion: number }>;
+    getCollectionItems(collectionKey: string, since: number, signal?: AbortSignal): Promise<ZoteroItem[]>;
+    getItems(keys: string[], signal?: AbortSignal): Promise<ZoteroItem[]>;
+    getChildNotes(itemKey: string, signal?: AbortSignal): Promise<ZoteroItem[]>;
+    getNotesSince(since: number, signal?: AbortSignal): Promise<ZoteroItem[]>;
+    getDeletedKeys(since: number, signal?: AbortSignal): Promise<string[]>;
+    createItems(items: ZoteroItemData[], signal?: AbortSignal): Promise<ZoteroWriteResult>;
+    // Resolves to the item's new version; rejects with status 412 if it changed since `version`
+    updateItem(key: string, version: number, data: Partial<ZoteroItemData>, signal?: AbortSignal): Promise<number>;
+    deleteItem(key: string, version: number, signal?: AbortSignal): Promise<void>;
+}
+
+const PAGE_SIZE = 100;
+const WRITE_BATCH = 50; // The API accepts at most 50 objects per write
+
+export const isVersionConflict = (e: unknown): boolean => (e as { status?: number })?.status === 412;
+
+export const createZoteroClient = (config: ZoteroClientConfig): ZoteroClient => {
+    const fetchImpl: HttpFetch = config.fetch || ((input, init) => fetch(input, init));
+    const base = `${(config.baseUrl || 'https://api.zotero.org').replace(/\/$/, '')}/${config.library.type}s/${encodeURIComponent(config.library.id)}`;
+    const headers = (extra: Record<string, string> = {}) => ({ 'Zotero-API-Version': '3', 'Zotero-API-Key': config.apiKey, ...extra });
+
+    const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+        const url = `${base}${path}`;
+        const res = await fetchImpl(url, { ...init, headers: headers(init.headers as Record<string, string>) });
+        if (!res.ok) throw httpError(url, res);
+        return res;
+    };
+
+    const libraryVersionOf = (res: Response) => Number(res.headers.get('Last-Modified-Version')) || 0;
+
+    // Follows `start` until Total-Results items have been read
+    const getAll = async <T>(path: string, signal?: AbortSignal): Promise<T[]> => {
+        const all: T[] = [];
+        for (let start = 0; ; start += PAGE_SIZE) {
+            const separator = path.includes('?') ? '&' : '?';
+            const res = await request(`${path}${separator}format=json&limit=${PAGE_SIZE}&start=${start}`, { signal });
+            const page: T[] = await res.json();
+            all.push(...page);
+            const total = Number(res.headers.get('Total-Results'));
+            if (page.length < PAGE_SIZE || (total && all.length >= total)) return all;
+        }
+    };
+
+    const collectionPath = (collectionKey: string) => `/collections/${encodeURIComponent(collectionKey)}/items/top`;
+
+    return {
+        listCollections: (signal) => getAll<ZoteroCollection>('/collections', signal),
+
+        getCollectionKeys: async (collectionKey, signal) => {
+            const res = await request(`${collectionPath(collectionKey)}?format=keys`, { signal });
+            const keys = (await res.text()).split('\n').map(k => k.trim()).filter(Boolean);
+            return { keys, libraryVersion: libraryVersionOf(res) };
+        },
+
+        getCollectionItems: (collectionKey, since, signal) =>
+            getAll<ZoteroItem>(`${collectionPath(collectionKey)}?since=${since}`, signal),
+
+        getItems: async (keys, signal) => {
+            const items: ZoteroItem[] = [];
+            for (let i = 0; i < keys.length; i += WRITE_BATCH) {
+                items.push(...await getAll<ZoteroItem>(`/items?itemKey=${keys.slice(i, i + WRITE_BATCH).join(',')}`, signal));
+            }
+            return items;
+        },
+
+        getChildNotes: (itemKey, signal) => getAll<ZoteroItem>(`/items/${encodeURIComponent(itemKey)}/children?itemType=note`, signal),
+
+        getNotesSince: (since, signal) => getAll<ZoteroItem>(`/items?itemType=note&since=${since}`, signal),
+
+        getDeletedKeys: async (since, signal) => {
+            const res = await request(`/deleted?since=${since}`, { signal });
+            const body: { items?: string[] } = await res.json();
+            return body.items || [];
+        },
+
+        createItems: async (items, signal) => {
+            const result: ZoteroWriteResult = { successful: {}, failed: {} };
+            for (let i = 0; i < items.length; i += WRITE_BATCH) {
+                const res = await request('/items', {
+                    method: 'POST',
+                    body: JSON.stringify(items.slice(i, i + WRITE_BATCH)),
+                    headers: { 'Content-Type': 'application/json' },
+                    signal
+                });
+                const body: Partial<ZoteroWriteResult> = await res.json();
+                Object.entries(body.successful || {}).forEach(([index, item]) => { result.successful[String(i + Number(index))] = item; });
+                Object.entries(body.failed || {}).forEach(([index, failure]) => { result.failed[String(i + Number(index))] = failure; });
+            }
+            return result;
+        },
+
+        updateItem: async (key, version, data, signal) => {
+            const res = await request(`/items/${encodeURIComponent(key)}`, {
+                method: 'PATCH',
+                body: JSON.stringify(data),
+                headers: { 'Content-Type': 'application/json', 'If-Unmodified-Since-Version': String(version) },
+                signal
+            });
+            return libraryVersionOf(res);
+        },
+
+        deleteItem: async (key, version, signal) => {
+            await request(`/items/${encodeURIComponent(key)}`, {
+                method: 'DELETE',
+                headers: { 'If-Unmodified-Since-Version': String(version) },
+                signal
+            });
+        }
+    };
+};
@@ -0,0 +1,49 @@
+import { ZoteroLibrary } from "./zoteroClient";
+import { ZoteroConflictPolicy } from "./zoteroSync";
+
+// --- ZOTERO CONNECTION SETTINGS ---
+// Which library and collection Saved syncs with, per browser. The API key needs read/write access to
+// that library (zotero.org/settings/keys). Sync state lives in the paper store alongside the bookmarks.
+
+const ZOTERO_STORAGE_KEY = 'bioinsight_zotero_v1';
+
+export interface ZoteroConfig {
+    library: ZoteroLibrary;
+    apiKey: string;
+    collectionKey: string;
+    collectionName: string;
+    conflictPolicy: ZoteroConflictPolicy; // Which side wins a field changed on both
+}
+
+export const DEFAULT_ZOTERO_CONFIG: ZoteroConfig = {
+    library: { type: 'user', id: '' },
+    apiKey: '',
+    collectionKey: '',
+    collectionName: '',
+    conflictPolicy: 'zotero'
+};
+
+export const isZoteroConfigured = (config: ZoteroConfig): boolean =>
+    !!(config.library.id && config.apiKey && config.collectionKey);
+
+export const loadZoteroConfig = (): ZoteroConfig => {
+    try {
+        const stored = localStorage.getItem(ZOTERO_STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            return { ...DEFAULT_ZOTERO_CONFIG, ...parsed, library: { ...DEFAULT_ZOTERO_CONFIG.library, ...parsed.library } };
+        }
+    } catch (e) {
+        console.error("Failed to load Zotero settings", e);
+    }
+    return DEFAULT_ZOTERO_CONFIG;
+};
+
+export const saveZoteroConfig = (config: ZoteroConfig): ZoteroConfig => {
+    try {
+        localStorage.setItem(ZOTERO_STORAGE_KEY, JSON.stringify(config));
+    } catch (e) {
+        console.warn("Failed to save Zotero settings", e);
+    }
+    return config;
+};
@@ -0,0 +1,166 @@
+import { PaperData } from "../../types";
+import { parseLooseDate } from "../paperDates";
+import { CitationName, CitationType, ImportedReference, readReferenceDate, referenceToPaper, toCitationRecord, withPatentOffice } from "../citations";
+import { ZoteroCreator, ZoteroItem, ZoteroItemData, ZoteroTag } from "./zoteroClient";
+
+// --- ZOTERO ITEM MAPPING ---
+// Papers go to Zotero through the same citation record the export formats use, and Zotero items come
+// back through the reference-import path, so a Zotero round trip keeps the same entry types and names.
+// Keywords are the item's tags; topics travel as automatic tags prefixed "BioInsight/" so they do not
+// mix with the team's own tags. Notes are plain text here and simple HTML paragraphs in Zotero.
+
+export const TOPIC_TAG_PREFIX = 'BioInsight/';
+
+const ITEM_TYPES: Record<CitationType, string> = {
+    'article': 'journalArticle',
+    'review': 'journalArticle',
+    'preprint': 'preprint',
+    'conference': 'conferencePaper',
+    'news': 'newspaperArticle',
+    'patent': 'patent',
+    'trial-registration': 'webpage'
+};
+
+const CONTAINER_FIELDS: Record<string, 'publicationTitle' | 'repository' | 'proceedingsTitle' | 'websiteTitle'> = {
+    journalArticle: 'publicationTitle',
+    newspaperArticle: 'publicationTitle',
+    preprint: 'repository',
+    conferencePaper: 'proceedingsTitle',
+    webpage: 'websiteTitle'
+};
+
+// Item types with a DOI field; on others Zotero rejects the field, so the DOI is kept in Extra
+export const DOI_ITEM_TYPES = new Set(['journalArticle', 'preprint', 'conferencePaper']);
+
+// --- NOTES ---
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Same form the note comes back in from Zotero, so an unchanged note compares equal after a round trip
+export const normalizeNote = (text: string): string =>
+    text.replace(/\r/g, '').split('\n').map(line => line.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+
+export const noteToHtml = (text: string): string =>
+    normalizeNote(text).split('\n').map(line => `<p>${escapeHtml(line)}</p>`).join('');
+
+export const htmlToNote = (html: string): string => normalizeNote(html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h\d|li|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+        if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }));
+
+// --- TAGS ---
+
+export const topicTags = (topics: string[]): ZoteroTag[] => topics.map(t => ({ tag: `${TOPIC_TAG_PREFIX}${t}`, type: 1 }));
+
+// The team's tags: everything but ours
+export const plainTags = (tags: ZoteroTag[] = []): string[] =>
+    Array.from(new Set(tags.map(t => t.tag.trim()).filter(t => t && !t.startsWith(TOPIC_TAG_PREFIX))));
+
+export const topicsFromTags = (tags: ZoteroTag[] = []): string[] =>
+    tags.filter(t => t.tag.startsWith(TOPIC_TAG_PREFIX)).map(t => t.tag.slice(TOPIC_TAG_PREFIX.length)).filter(Boolean);
+
+// Keeps the type Zotero has for tags it already holds; new ones are manual
+export const withTags = (existing: ZoteroTag[] = [], tags: string[], topics: string[]): ZoteroTag[] => [
+    ...tags.map(tag => existing.find(t => t.tag === tag) || { tag }),
+    ...topicTags(topics)
+];
+
+// --- PAPER -> ZOTERO ---
+
+const toCreator = (name: CitationName, creatorType: string): ZoteroCreator =>
+    name.literal ? { creatorType, name: name.literal } : { creatorType, lastName: name.family || '', firstName: name.given || '' };
+
+const extraLines = (lines: [string, string | undefined][]) =>
+    lines.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`).join('\n');
+
+export const paperToItemData = (paper: PaperData, collectionKey: string): ZoteroItemData => {
+    const record = toCitationRecord(paper, '');
+    const itemType = ITEM_TYPES[record.type];
+    const data: ZoteroItemData = {
+        itemType,
+        title: record.title,
+        creators: record.type === 'patent' ? [] : record.authors.map(a => toCreator(a, record.type === 'trial-registration' ? 'contributor' : 'author')),
+        abstractNote: record.abstract || '',
+        date: record.date || record.year || '',
+        url: record.url || '',
+        tags: withTags([], paper.keywords || [], paper.topics),
+        collections: [collectionKey]
+    };
+    const containerField = CONTAINER_FIELDS[itemType];
+    if (containerField && record.container) data[containerField] = record.container;
+    if (DOI_ITEM_TYPES.has(itemType)) data.DOI = record.doi || '';
+    if (record.patent) {
+        data.patentNumber = record.patent.number;
+        data.country = record.patent.office;
+        data.assignee = record.patent.assignees.join('; ');
+    }
+    data.extra = extraLines([
+        ['PMID', record.pmid],
+        ['PMCID', record.pmcid],
+        ['DOI', DOI_ITEM_TYPES.has(itemType) ? undefined : record.doi],
+        ['Priority Date', record.patent?.priorityDate],
+        ['ClinicalTrials.gov', record.trial?.nctId]
+    ]);
+    return data;
+};
+
+// --- ZOTERO -> PAPER ---
+
+const CITATION_TYPES: Record<string, CitationType> = {
+    journalArticle: 'article',
+    magazineArticle: 'article',
+    preprint: 'preprint',
+    conferencePaper: 'conference',
+    newspaperArticle: 'news',
+    blogPost: 'news',
+    patent: 'patent'
+};
+
+const fromExtra = (extra: string | undefined, label: string): string | undefined =>
+    extra?.match(new RegExp(`^${label}:\\s*(\\S+)`, 'mi'))?.[1];
+
+const creatorName = (c: ZoteroCreator): string =>
+    c.name || [c.lastName, c.firstName].filter(Boolean).join(', ');
+
+// Zotero dates are free text: "2024-05-02", "May 2, 2024", "2024"
+export const readItemDate = (raw?: string) => readReferenceDate(raw) ?? parseLooseDate(raw || '') ?? undefined;
+
+export const itemDoi = (data: ZoteroItemData): string | undefined => data.DOI?.trim() || fromExtra(data.extra, 'DOI');
+
+export const itemToReference = (data: ZoteroItemData): ImportedReference => {
+    const nctId = `${fromExtra(data.extra, 'ClinicalTrials.gov') || ''} ${data.url || ''} ${data.title || ''}`.match(/NCT\d{8}/)?.[0];
+    const type = CITATION_TYPES[data.itemType] || (data.itemType === 'webpage' && nctId ? 'trial-registration' : 'article');
+    const date = readItemDate(data.date);
+    const assignees = data.assignee?.split(';').map(a => a.trim()).filter(Boolean) || [];
+    return {
+        type,
+        title: data.title || '',
+        authors: type === 'patent' && assignees.length > 0 ? assignees : (data.creators || []).map(creatorName).filter(Boolean),
+        container: data.publicationTitle || data.proceedingsTitle || data.repository || data.websiteTitle || undefined,
+        date: date?.date,
+        datePrecision: date?.precision,
+        doi: itemDoi(data),
+        pmid: fromExtra(data.extra, 'PMID'),
+        pmcid: fromExtra(data.extra, 'PMCID'),
+        url: data.url || undefined,
+        abstract: data.abstractNote || undefined,
+        keywords: plainTags(data.tags),
+        publicationTypes: [data.itemType],
+        patentNumber: withPatentOffice(data.patentNumber, data.country),
+        priorityDate: readReferenceDate(fromExtra(data.extra, 'Priority Date'))?.date,
+        nctId
+    };
+};
+
+export const itemToPaper = (item: ZoteroItem, notes: string[], label: string): PaperData => {
+    const paper = referenceToPaper(itemToReference(item.data), label);
+    const topics = topicsFromTags(item.data.tags);
+    return { ...paper, topics, notes: notes.length > 0 ? notes : undefined };
+};
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { Methodology, PaperData, PublicationType, ResearchModality, StudyType } from "../../types";
+import { HttpFetch } from "../sources";
+import { MockZoteroServer, ZoteroConflictPolicy, ZoteroSyncState, createMockZoteroServer, createZoteroClient, emptySyncState, htmlToNote, syncZoteroCollection } from ".";
+
+// Every sync runs against the in-memory server that ZOTERO_MODE=mock serves; the tests edit its library
+// to play the Zotero side
+
+const COLLECTION = 'MOCKCOLL';
+
+const paper = (id: string, title: string, extra: Partial<PaperData> = {}): PaperData => ({
+    id,
+    title,
+    journalOrConference: 'The New England journal of medicine',
+    date: '2024-05-24',
+    authors: ['Vlado Perkovic', 'Katherine R Tuttle'],
+    topics: ['Diabetes'],
+    publicationType: PublicationType.PeerReviewed,
+    studyType: StudyType.ClinicalTrial,
+    methodology: Methodology.Statistical,
+    modality: ResearchModality.Genetics,
+    abstractHighlight: '',
+    drugAndTarget: '',
+    context: '',
+    validationScore: 90,
+    ...extra
+});
+
+const flow = paper('flow', 'Effects of Semaglutide on Chronic Kidney Disease in Patients with Type 2 Diabetes', {
+    doi: '10.1056/nejmoa2403347',
+    abstract: 'Patients with type 2 diabetes and chronic kidney disease are at high risk for kidney failure.',
+    keywords: ['ckd'],
+    notes: ['Primary outcome met early']
+});
+const maestro = paper('maestro', 'A Phase 3, Randomized, Controlled Trial of Resmetirom in NASH with Liver Fibrosis', {
+    doi: '10.1056/nejmoa2309000',
+    topics: ['MASH'],
+    date: '2024-02-08'
+});
+
+const setup = (wrap: (fetch: HttpFetch, server: MockZoteroServer) => HttpFetch = f => f) => {
+    const server = createMockZoteroServer();
+    const client = createZoteroClient({ fetch: wrap(server.fetch, server), apiKey: 'test-key', library: { type: 'user', id: '1' } });
+    const sync = (saved: PaperData[], state: ZoteroSyncState, conflictPolicy: ZoteroConflictPolicy = 'zotero') =>
+        syncZoteroCollection(saved, state, client, { collectionKey: COLLECTION, collectionName: 'BioInsight', conflictPolicy });
+    const itemOf = (state: ZoteroSyncState, paperId: string) => server.library.items.get(state.links.find(l => l.paperId === paperId)!.key)!;
+    const notesOf = (key: string) => Array.from(server.library.items.values())
+        .filter(item => item.data.parentItem === key)
+        .map(item => htmlToNote(item.data.note || ''));
+    return { server, sync, itemOf, notesOf };
+};
+
+// Saved as the app holds it after applying a sync result
+const applyResult = (saved: PaperData[], result: Awaited<ReturnType<typeof syncZoteroCollection>>): PaperData[] => [
+    ...saved.filter(p => !result.removed.includes(p.id)).map(p => result.updated.find(u => u.id === p.id) || p),
+    ...result.added
+];
+
+describe('Zotero sync', () => {
+    it('creates Saved items in the collection with their tags and notes', async () => {
+        const { server, sync, itemOf, notesOf } = setup();
+        const { state, report } = await sync([flow, maestro], emptySyncState(COLLECTION));
+
+        expect(report).toMatchObject({ created: 2, added: 0, pushed: 0, pulled: 0, conflicts: [], failures: [] });
+        expect(state.links.map(l => l.paperId)).toEqual(['flow', 'maestro']);
+        const item = itemOf(state, 'flow');
+        expect(item.data).toMatchObject({
+            itemType: 'journalArticle',
+            title: flow.title,
+            DOI: '10.1056/nejmoa2403347',
+            date: '2024-05-24',
+            publicationTitle: 'The New England journal of medicine',
+            collections: [COLLECTION]
+        });
+        expect(item.data.tags).toEqual([{ tag: 'ckd' }, { tag: 'BioInsight/Diabetes', type: 1 }]);
+        expect(notesOf(item.key)).toEqual(['Primary outcome met early']);
+    });
+
+    it('adds items new in the collection to Saved', async () => {
+        const { server, sync } = setup();
+        const { state } = await sync([flow], emptySyncState(COLLECTION));
+        server.add({
+            itemType: 'journalArticle', title: 'Tirzepatide for the Treatment of Obesity', date: 'June 4, 2024', DOI: '10.1056/nejmoa2206038',
+            creators: [{ creatorType: 'author', lastName: 'Jastreboff', firstName: 'Ania M.' }],
+            tags: [{ tag: 'obesity' }, { tag: 'BioInsight/Obesity', type: 1 }], collections: [COLLECTION]
+        });
+
+        const result = await sync([flow], state);
+        expect(result.report).toMatchObject({ added: 1, created: 0, pushed: 0 });
+        expect(result.added[0]).toMatchObject({ title: 'Tirzepatide for the Treatment of Obesity', date: '2024-06-04', doi: '10.1056/nejmoa2206038', keywords: ['obesity'], topics: ['Obesity'] });
+        expect(result.state.links).toHaveLength(2);
+    });
+
+    it('writes nothing when neither side changed', async () => {
+        const { server, sync } = setup();
+        const first = await sync([flow, maestro], emptySyncState(COLLECTION));
+        const version = server.library.version;
+
+        const second = await sync([flow, maestro], first.state);
+        expect(second.report).toEqual({ pulled: 0, pushed: 0, created: 0, added: 0, removedLocally: 0, removedRemotely: 0, conflicts: [], failures: [] });
+        expect(second).toMatchObject({ updated: [], added: [], removed: [] });
+        expect(server.library.version).toBe(version);
+        expect(second.state.links).toEqual(first.state.links);
+    });
+
+    it('pulls Zotero edits and pushes Saved edits to the same item', async () => {
+        const { server, sync, itemOf, notesOf } = setup();
+        const { state } = await sync([flow], emptySyncState(COLLECTION));
+        const item = itemOf(state, 'flow');
+        server.edit(item.key, { abstractNote: 'Revised abstract.', tags: [...item.data.tags!, { tag: 'kidney' }] });
+        const edited = { ...flow, url: 'https://www.nejm.org/doi/full/10.1056/NEJMoa2403347', notes: [...flow.notes!, 'Check the eGFR slope'] };
+
+        const result = await sync([edited], state);
+        expect(result.report).toMatchObject({ pulled: 1, pushed: 1, conflicts: [], failures: [] });
+        expect(result.updated[0]).toMatchObject({ abstract: 'Revised abstract.', keywords: ['ckd', 'kidney'], url: edited.url });
+        expect(itemOf(result.state, 'flow').data).toMatchObject({ abstractNote: 'Revised abstract.', url: edited.url });
+        expect(notesOf(item.key).sort()).toEqual(['Check the eGFR slope', 'Primary outcome met early']);
+
+        // The merged item is the new baseline
+        const again = await sync(applyResult([edited], result), result.state);
+        expect(again.report).toMatchObject({ pulled: 0, pushed: 0, conflicts: [] });
+    });
+
+    it('settles a field changed on both sides by the conflict policy', async () => {
+        for (const policy of ['zotero', 'local'] as const) {
+            const { server, sync, itemOf } = setup();
+            const { state } = await sync([flow], emptySyncState(COLLECTION));
+            server.edit(itemOf(state, 'flow').key, { title: 'Semaglutide and Kidney Outcomes (FLOW)' });
+            const edited = { ...flow, title: 'Semaglutide in CKD with Type 2 Diabetes' };
+
+            const result = await sync([edited], state, policy);
+            expect(result.report.conflicts).toEqual([{
+                paperId: 'flow', title: edited.title, field: 'title', local: edited.title, remote: 'Semaglutide and Kidney Outcomes (FLOW)', kept: policy
+            }]);
+            const kept = policy === 'zotero' ? 'Semaglutide and Kidney Outcomes (FLOW)' : edited.title;
+            expect(itemOf(result.state, 'flow').data.title).toBe(kept);
+            expect(applyResult([edited], result)[0].title).toBe(kept);
+        }
+    });
+
+    it('drops an item from Saved when it was removed from the collection in Zotero', async () => {
+        const { server, sync, itemOf } = setup();
+        const { state } = await sync([flow, maestro], emptySyncState(COLLECTION));
+        server.edit(itemOf(state, 'maestro').key, { collections: [] });
+
+        const result = await sync([flow, maestro], state);
+        expect(result.removed).toEqual(['maestro']);
+        expect(result.report).toMatchObject({ removedLocally: 1, removedRemotely: 0, conflicts: [] });
+        expect(result.state.links.map(l => l.paperId)).toEqual(['flow']);
+    });
+
+    it('takes an item out of the collection, not the library, when it was removed from Saved', async () => {
+        const { server, sync, itemOf } = setup();
+        const { state } = await sync([flow, maestro], emptySyncState(COLLECTION));
+        const key = itemOf(state, 'maestro').key;
+
+        const result = await sync([flow], state);
+        expect(result.report).toMatchObject({ removedRemotely: 1, removedLocally: 0 });
+        expect(server.library.items.get(key)?.data.collections).toEqual([]);
+        expect(result.state.links.map(l => l.paperId)).toEqual(['flow']);
+    });
+
+    it('leaves an item edited in Zotero mid-sync (412) for the next sync', async () => {
+        let racing = false;
+        // Another Zotero client saves the item between the sync's read and its write
+        const { sync, itemOf } = setup((fetch, server) => async (input, init = {}) => {
+            if (racing && init.method === 'PATCH') {
+                racing = false;
+                server.edit(decodeURIComponent(new URL(input).pathname.split('/').pop()!), { extra: 'PMID: 38785209' });
+            }
+            return fetch(input, init);
+        });
+        const { state } = await sync([flow], emptySyncState(COLLECTION));
+        const edited = { ...flow, abstract: 'Updated abstract from Saved.' };
+
+        racing = true;
+        const result = await sync([edited], state);
+        expect(result.report.pushed).toBe(0);
+        expect(result.report.failures).toEqual([`"${flow.title}" changed in Zotero during the sync and will be merged next time`]);
+        expect(result.state.links[0]).toEqual(state.links[0]);
+        expect(itemOf(result.state, 'flow').data.abstractNote).toBe(flow.abstract);
+
+        const retry = await sync(applyResult([edited], result), result.state);
+        expect(retry.report).toMatchObject({ pushed: 1, conflicts: [], failures: [] });
+        expect(itemOf(retry.state, 'flow').data).toMatchObject({ abstractNote: 'Updated abstract from Saved.', extra: 'PMID: 38785209' });
+    });
+});
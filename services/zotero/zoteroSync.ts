@@ -0,0 +1,395 @@
+import { PaperData } from "../../types";
+import { sameWork } from "../citations";
+import { dateKindForPublication, paperDate, provenanceOf } from "../paperDates";
+import { ZoteroClient, ZoteroItem, ZoteroItemData, isVersionConflict } from "./zoteroClient";
+import { DOI_ITEM_TYPES, htmlToNote, itemDoi, itemToPaper, noteToHtml, normalizeNote, paperToItemData, plainTags, readItemDate, withTags } from "./zoteroItem";
+
+// --- SAVED <-> ZOTERO COLLECTION SYNC ---
+// Two-way sync between Saved and one Zotero collection. Each linked item remembers the fields as last
+// synced on both sides, so a sync can tell which side changed what (a three-way merge):
+//   - a field changed on one side is copied to the other;
+//   - tags and notes are sets: additions from either side are kept, removals from either side applied;
+//   - a title, abstract, date, DOI or URL changed differently on both sides is a conflict, settled by
+//     the conflict policy and listed in the report.
+// Removing an item on one side removes it on the other (from the collection, not the Zotero library),
+// unless the other side changed it since the last sync; then the policy decides.
+// Zotero's library version numbers keep each pull to what changed since the previous sync.
+
+export type ZoteroConflictPolicy = 'zotero' | 'local';
+
+// The synced fields, as one side holds them
+export interface ZoteroFields {
+    title: string;
+    abstract: string;
+    date: string;
+    doi: string;
+    url: string;
+    tags: string[];
+    notes: string[];
+}
+
+export interface ZoteroNoteRef {
+    key: string;
+    version: number;
+    text: string;
+}
+
+export interface ZoteroLink {
+    key: string; // Zotero item key
+    paperId: string;
+    version: number; // Item version at the last sync
+    local: ZoteroFields; // As last synced in Saved
+    remote: ZoteroFields; // As last synced in Zotero
+    topics: string[]; // Last written as BioInsight/ tags
+    notes: ZoteroNoteRef[]; // The item's child notes in Zotero
+}
+
+export interface ZoteroSyncState {
+    collectionKey: string;
+    libraryVersion: number; // 0 = never synced
+    links: ZoteroLink[];
+    lastSyncedAt?: string;
+}
+
+export interface ZoteroConflict {
+    paperId: string;
+    title: string;
+    field: string; // A synced field, or "item" when one side removed what the other changed
+    local: string;
+    remote: string;
+    kept: ZoteroConflictPolicy;
+}
+
+export interface ZoteroSyncReport {
+    pulled: number; // Saved items updated from Zotero
+    pushed: number; // Zotero items updated from Saved
+    created: number; // Saved items added to the collection
+    added: number; // Collection items added to Saved
+    removedLocally: number;
+    removedRemotely: number;
+    conflicts: ZoteroConflict[];
+    failures: string[]; // Items left for the next sync, and why
+}
+
+export interface ZoteroSyncResult {
+    updated: PaperData[]; // Saved items with changes from Zotero
+    added: PaperData[]; // New to Saved
+    removed: string[]; // Paper ids to drop from Saved
+    state: ZoteroSyncState;
+    report: ZoteroSyncReport;
+}
+
+export interface ZoteroSyncOptions {
+    collectionKey: string;
+    collectionName: string;
+    conflictPolicy: ZoteroConflictPolicy;
+    canonicalId?: (id: string) => string; // Saved ids can be renamed by identity merges between syncs
+    signal?: AbortSignal;
+    onProgress?: (message: string) => void;
+}
+
+export const emptySyncState = (collectionKey: string): ZoteroSyncState => ({ collectionKey, libraryVersion: 0, links: [] });
+
+const SCALAR_FIELDS = ['title', 'abstract', 'date', 'doi', 'url'] as const;
+type ScalarField = typeof SCALAR_FIELDS[number];
+
+const sortedSet = (values: string[]) => Array.from(new Set(values)).sort();
+const sameSet = (a: string[], b: string[]) => a.length === b.length && sortedSet(a).join('\u0000') === sortedSet(b).join('\u0000');
+
+const localFields = (paper: PaperData): ZoteroFields => ({
+    title: paper.title,
+    abstract: paper.abstract || '',
+    date: paper.date || '',
+    doi: paper.doi || '',
+    url: paper.url || '',
+    tags: sortedSet(paper.keywords || []),
+    notes: sortedSet((paper.notes || []).map(normalizeNote).filter(Boolean))
+});
+
+const remoteFields = (data: ZoteroItemData, notes: ZoteroNoteRef[]): ZoteroFields => ({
+    title: data.title || '',
+    abstract: data.abstractNote || '',
+    date: data.date || '',
+    doi: itemDoi(data) || '',
+    url: data.url || '',
+    tags: sortedSet(plainTags(data.tags)),
+    notes: sortedSet(notes.map(n => n.text).filter(Boolean))
+});
+
+// Additions from either side are kept; anything one side removed since the last sync goes
+const mergeSet = (local: string[], remote: string[], baseLocal: string[], baseRemote: string[]): string[] => {
+    const removed = new Set([...baseLocal.filter(v => !local.includes(v)), ...baseRemote.filter(v => !remote.includes(v))]);
+    return sortedSet([...local, ...remote].filter(v => !removed.has(v)));
+};
+
+// Saved keeps YYYY-MM-DD with provenance; Zotero's free-text date is read the way imports read it
+const withDate = (paper: PaperData, raw: string): PaperData => {
+    const read = readItemDate(raw);
+    if (!read) return paper;
+    const dated = paperDate(read.date, dateKindForPublication(paper.publicationType), 'import', read.precision);
+    return { ...paper, date: dated.date, dateInfo: provenanceOf(dated) };
+};
+
+const applyToPaper = (paper: PaperData, field: ScalarField, value: string): PaperData => {
+    switch (field) {
+        case 'title': return value ? { ...paper, title: value } : paper;
+        case 'abstract': return { ...paper, abstract: value || undefined };
+        case 'date': return withDate(paper, value);
+        case 'doi': return { ...paper, doi: value || undefined };
+        case 'url': return { ...paper, url: value || undefined };
+    }
+};
+
+const ITEM_FIELDS: Record<ScalarField, 'title' | 'abstractNote' | 'date' | 'DOI' | 'url'> = { title: 'title', abstract: 'abstractNote', date: 'date', doi: 'DOI', url: 'url' };
+
+export const syncZoteroCollection = async (
+    saved: PaperData[],
+    state: ZoteroSyncState,
+    client: ZoteroClient,
+    options: ZoteroSyncOptions
+): Promise<ZoteroSyncResult> => {
+    const { collectionKey, conflictPolicy, signal } = options;
+    const canonicalId = options.canonicalId || ((id: string) => id);
+    const label = `Zotero collection "${options.collectionName}"`;
+    const previous = state.collectionKey === collectionKey ? state : emptySyncState(collectionKey);
+    const since = previous.libraryVersion;
+    const report: ZoteroSyncReport = { pulled: 0, pushed: 0, created: 0, added: 0, removedLocally: 0, removedRemotely: 0, conflicts: [], failures: [] };
+    const updated: PaperData[] = [];
+    const added: PaperData[] = [];
+    const removed: string[] = [];
+    const links: ZoteroLink[] = [];
+
+    // --- PULL ---
+    options.onProgress?.('Reading the Zotero collection...');
+    const { keys: members, libraryVersion } = await client.getCollectionKeys(collectionKey, signal);
+    const memberSet = new Set(members);
+    const items = new Map<string, ZoteroItem>((await client.getCollectionItems(collectionKey, since, signal)).map(item => [item.key, item]));
+    const linkedKeys = new Set(previous.links.map(l => l.key));
+    const unfetched = members.filter(key => !linkedKeys.has(key) && !items.has(key));
+    if (unfetched.length > 0) (await client.getItems(unfetched, signal)).forEach(item => items.set(item.key, item));
+
+    // Child notes of linked items: as last seen, then whatever changed or was deleted since
+    const changedNotes = since > 0 ? await client.getNotesSince(since, signal) : [];
+    const deletedKeys = new Set(since > 0 ? await client.getDeletedKeys(since, signal) : []);
+    const currentNotes = (link: ZoteroLink): ZoteroNoteRef[] => {
+        const notes = new Map(link.notes.map(n => [n.key, n]));
+        changedNotes.forEach(note => {
+            if (note.data.parentItem === link.key && !note.data.deleted) notes.set(note.key, { key: note.key, version: note.version, text: htmlToNote(note.data.note || '') });
+            else notes.delete(note.key); // Moved to another item or trashed
+        });
+        deletedKeys.forEach(key => notes.delete(key));
+        return Array.from(notes.values());
+    };
+    const fetchNotes = async (itemKey: string): Promise<ZoteroNoteRef[]> =>
+        (await client.getChildNotes(itemKey, signal))
+            .filter(note => !note.data.deleted)
+            .map(note => ({ key: note.key, version: note.version, text: htmlToNote(note.data.note || '') }));
+
+    const savedById = new Map(saved.map(p => [canonicalId(p.id), p]));
+    const linkedPaperIds = new Set<string>();
+    // Ids can also change across sessions (aliases are not kept), so fall back to the last synced title or DOI
+    const findSaved = (link: ZoteroLink): PaperData | undefined => savedById.get(canonicalId(link.paperId))
+        ?? saved.find(p => !linkedPaperIds.has(p.id) && !previous.links.some(l => l.paperId === p.id)
+            && (p.title === link.local.title || (!!link.local.doi && p.doi?.toLowerCase() === link.local.doi.toLowerCase())));
+
+    // Writes a merged item back to Zotero: fields, then notes. Returns the updated link, or null when the
+    // item changed in Zotero mid-sync (left for the next sync).
+    const pushItem = async (
+        paper: PaperData, item: ZoteroItem, remote: ZoteroFields, merged: ZoteroFields, notes: ZoteroNoteRef[], previousTopics: string[]
+    ): Promise<ZoteroLink | null> => {
+        const { key, data } = item;
+        const patch: Partial<ZoteroItemData> = {};
+        SCALAR_FIELDS.forEach(field => {
+            if (merged[field] === remote[field]) return;
+            if (field === 'doi' && !DOI_ITEM_TYPES.has(data.itemType)) return;
+            patch[ITEM_FIELDS[field]] = merged[field];
+        });
+        if (!sameSet(merged.tags, remote.tags) || !sameSet(paper.topics, previousTopics)) patch.tags = withTags(data.tags, merged.tags, paper.topics);
+
+        let newVersion = item.version;
+        try {
+            if (Object.keys(patch).length > 0) {
+                newVersion = await client.updateItem(key, item.version, patch, signal);
+                report.pushed++;
+            }
+            const keptNotes = notes.filter(n => merged.notes.includes(n.text));
+            for (const note of notes.filter(n => !merged.notes.includes(n.text))) await client.deleteItem(note.key, note.version, signal);
+            const newTexts = merged.notes.filter(text => !notes.some(n => n.text === text));
+            if (newTexts.length > 0) {
+                const result = await client.createItems(newTexts.map(text => ({ itemType: 'note', parentItem: key, note: noteToHtml(text) })), signal);
+                newTexts.forEach((text, i) => {
+                    const created = result.successful[String(i)];
+                    if (created) keptNotes.push({ key: created.key, version: created.version, text });
+                    else report.failures.push(`A note on "${paper.title}" could not be added: ${result.failed[String(i)]?.message || 'unknown error'}`);
+                });
+            }
+            const written: ZoteroFields = { ...merged, doi: DOI_ITEM_TYPES.has(data.itemType) ? merged.doi : remote.doi, notes: sortedSet(keptNotes.map(n => n.text)) };
+            return { key, paperId: paper.id, version: newVersion, local: localFields(paper), remote: written, topics: [...paper.topics], notes: keptNotes };
+        } catch (e) {
+            if (!isVersionConflict(e)) throw e;
+            report.failures.push(`"${paper.title}" changed in Zotero during the sync and will be merged next time`);
+            return null;
+        }
+    };
+
+    // Merges one linked pair. `base` is absent the first time a Saved item and a Zotero item are matched;
+    // then Zotero's bibliographic fields win where it has them, and tags and notes are combined.
+    // `merged` is what Zotero should hold afterwards; fields neither side changed are left as each side has them.
+    const mergeLinked = async (paper: PaperData, item: ZoteroItem, base: ZoteroLink | undefined, notes: ZoteroNoteRef[]): Promise<ZoteroLink | null> => {
+        const local = localFields(paper);
+        const remote = remoteFields(item.data, notes);
+        const merged = { ...remote };
+        let next = paper;
+        for (const field of SCALAR_FIELDS) {
+            const [l, r] = [local[field], remote[field]];
+            if (l === r) continue;
+            const localChanged = base ? l !== base.local[field] : !r;
+            const remoteChanged = base ? r !== base.remote[field] : !!r;
+            let take: ZoteroConflictPolicy | null = remoteChanged && !localChanged ? 'zotero' : localChanged && !remoteChanged ? 'local' : null;
+            if (localChanged && remoteChanged) {
+                take = conflictPolicy;
+                report.conflicts.push({ paperId: paper.id, title: paper.title, field, local: l, remote: r, kept: conflictPolicy });
+            }
+            if (take === 'zotero') next = applyToPaper(next, field, r);
+            if (take === 'local') merged[field] = l;
+        }
+        merged.tags = mergeSet(local.tags, remote.tags, base?.local.tags || [], base?.remote.tags || []);
+        merged.notes = mergeSet(local.notes, remote.notes, base?.local.notes || [], base?.remote.notes || []);
+        if (!sameSet(merged.tags, local.tags)) next = { ...next, keywords: merged.tags.length > 0 ? merged.tags : undefined };
+        if (!sameSet(merged.notes, local.notes)) next = { ...next, notes: merged.notes.length > 0 ? merged.notes : undefined };
+
+        const link = await pushItem(next, item, remote, merged, notes, base?.topics || []);
+        if (!link) return null;
+        if (next !== paper) {
+            updated.push(next);
+            report.pulled++;
+        }
+        // The date is stored as read, so compare what Saved now holds, not the Zotero text
+        return { ...link, local: localFields(next) };
+    };
+
+    // --- LINKED ITEMS ---
+    // Items to be written or removed need their current Zotero copy, even if unchanged since the last sync
+    const needed = previous.links.filter(link => {
+        if (items.has(link.key) || !memberSet.has(link.key)) return false;
+        const paper = findSaved(link);
+        return !paper || JSON.stringify(localFields(paper)) !== JSON.stringify(link.local) || !sameSet(paper.topics, link.topics)
+            || !sameSet(currentNotes(link).map(n => n.text), link.remote.notes);
+    });
+    if (needed.length > 0) (await client.getItems(needed.map(l => l.key), signal)).forEach(item => items.set(item.key, item));
+
+    for (const link of previous.links) {
+        signal?.throwIfAborted();
+        const paper = findSaved(link);
+        const inZotero = memberSet.has(link.key) && !deletedKeys.has(link.key);
+        const item = items.get(link.key);
+        const notes = currentNotes(link);
+        const remoteChanged = (item && item.version > link.version) || !sameSet(notes.map(n => n.text), link.remote.notes);
+        const localChanged = paper && JSON.stringify(localFields(paper)) !== JSON.stringify(link.local);
+
+        if (paper && inZotero) {
+            linkedPaperIds.add(paper.id);
+            if (!remoteChanged && !localChanged && sameSet(paper.topics, link.topics)) {
+                links.push({ ...link, paperId: paper.id });
+                continue;
+            }
+            if (!item) continue; // In the collection but not readable; the link is rebuilt next time
+            options.onProgress?.(`Merging "${paper.title}"...`);
+            const merged = await mergeLinked(paper, item, link, notes);
+            links.push(merged || { ...link, paperId: paper.id });
+        } else if (paper && !inZotero) {
+            // Removed from the collection (or the library) in Zotero
+            if (localChanged) {
+                report.conflicts.push({ paperId: paper.id, title: paper.title, field: 'item', local: 'edited in Saved', remote: 'removed from the collection', kept: conflictPolicy });
+                if (conflictPolicy === 'local') continue; // Unlinked: re-created in the collection below
+            }
+            linkedPaperIds.add(paper.id);
+            removed.push(paper.id);
+            report.removedLocally++;
+        } else if (!paper && inZotero) {
+            // Removed from Saved here
+            if (remoteChanged && item) {
+                report.conflicts.push({ paperId: link.paperId, title: link.remote.title, field: 'item', local: 'removed from Saved', remote: 'edited in Zotero', kept: conflictPolicy });
+                if (conflictPolicy === 'zotero') {
+                    const restored = itemToPaper(item, notes.map(n => n.text), label);
+                    added.push(restored);
+                    report.added++;
+                    links.push({ ...link, paperId: restored.id, version: item.version, local: localFields(restored), remote: remoteFields(item.data, notes), topics: [...restored.topics], notes });
+                    continue;
+                }
+            }
+            if (!item) continue;
+            try {
+                await client.updateItem(link.key, item.version, { collections: (item.data.collections || []).filter(c => c !== collectionKey) }, signal);
+                report.removedRemotely++;
+            } catch (e) {
+                if (!isVersionConflict(e)) throw e;
+                report.failures.push(`"${link.remote.title}" changed in Zotero during the sync and will be removed next time`);
+                links.push(link);
+            }
+        }
+        // Gone on both sides: the link is dropped
+    }
+
+    // --- NEW IN ZOTERO ---
+    // Matched to an unlinked Saved item when they are the same work, otherwise added to Saved
+    const unlinkedSaved = saved.filter(p => !linkedPaperIds.has(p.id) && !links.some(l => l.paperId === p.id));
+    const matchedSaved = new Set<string>();
+    for (const key of members.filter(k => !linkedKeys.has(k))) {
+        signal?.throwIfAborted();
+        const item = items.get(key);
+        if (!item || item.data.itemType === 'note' || item.data.itemType === 'attachment') continue;
+        const notes = await fetchNotes(key);
+        const incoming = itemToPaper(item, notes.map(n => n.text), label);
+        const match = unlinkedSaved.find(p => !matchedSaved.has(p.id) && sameWork(p, incoming));
+        if (match) {
+            matchedSaved.add(match.id);
+            options.onProgress?.(`Linking "${match.title}"...`);
+            const link = await mergeLinked(match, item, undefined, notes);
+            if (link) links.push(link);
+        } else {
+            added.push(incoming);
+            report.added++;
+            links.push({ key, paperId: incoming.id, version: item.version, local: localFields(incoming), remote: remoteFields(item.data, notes), topics: [...incoming.topics], notes });
+        }
+    }
+
+    // --- NEW IN SAVED ---
+    const toCreate = unlinkedSaved.filter(p => !matchedSaved.has(p.id));
+    if (toCreate.length > 0) {
+        options.onProgress?.(`Adding ${toCreate.length} items to Zotero...`);
+        const result = await client.createItems(toCreate.map(p => paperToItemData(p, collectionKey)), signal);
+        const noteRequests: { index: number; text: string }[] = [];
+        toCreate.forEach((paper, i) => {
+            const created = result.successful[String(i)];
+            if (!created) {
+                report.failures.push(`"${paper.title}" could not be added to Zotero: ${result.failed[String(i)]?.message || 'unknown error'}`);
+                return;
+            }
+            report.created++;
+            (paper.notes || []).map(normalizeNote).filter(Boolean).forEach(text => noteRequests.push({ index: links.length, text }));
+            links.push({ key: created.key, paperId: paper.id, version: created.version, local: localFields(paper), remote: remoteFields(created.data, []), topics: [...paper.topics], notes: [] });
+        });
+        if (noteRequests.length > 0) {
+            const notes = await client.createItems(noteRequests.map(({ index, text }) => ({ itemType: 'note', parentItem: links[index].key, note: noteToHtml(text) })), signal);
+            noteRequests.forEach(({ index, text }, i) => {
+                const created = notes.successful[String(i)];
+                const link = links[index];
+                if (!created) {
+                    report.failures.push(`A note on "${link.local.title}" could not be added: ${notes.failed[String(i)]?.message || 'unknown error'}`);
+                    return;
+                }
+                link.notes = [...link.notes, { key: created.key, version: created.version, text }];
+                link.remote = { ...link.remote, notes: sortedSet(link.notes.map(n => n.text)) };
+            });
+        }
+    }
+
+    return {
+        updated,
+        added,
+        removed,
+        state: { collectionKey, libraryVersion, links, lastSyncedAt: new Date().toISOString() },
+        report
+    };
+};
@@ -1,3 +1,5 @@
+// Built-in topic names. Users can register more at runtime (see services/topicRegistry.ts),
+// so papers and filters refer to topics by their TopicId string.
 export enum DiseaseTopic {
   CVD = 'CVD',
   CKD = 'CKD',
@@ -6,6 +8,62 @@ export enum DiseaseTopic {
   Obesity = 'Obesity'
 }
 
+export type TopicId = string;
+
+export type TopicConfidence = Record<TopicId, number>;
+
+export interface TopicDefinition {
+  name: TopicId; // Unique, shown in the UI and passed to the feeds
+  synonyms: string[]; // Disease vocabulary: search expansion and classification aliases
+  drugs: string[]; // Pipeline assets/drug classes added to search expansion only
+  meshTreeNumbers?: string[]; // e.g. C14.280.434, kept from MeSH imports
+  builtIn?: boolean;
+}
+
+// A drug in the entity dictionary, keyed by INN (or by asset name before an INN is assigned)
+export interface DrugDefinition {
+  name: string;
+  synonyms: string[]; // Brand names and spelling variants: Ozempic, Wegovy
+  codes: string[]; // Development codes: LY3437943, NN9535
+  targets: string[]; // HGNC gene symbols
+  mechanism: string; // Mechanism class, e.g. "GLP-1 receptor agonist"
+  indications?: string[]; // Lead indications, e.g. "Obesity"; absent in dictionaries saved before the pipeline view
+  builtIn?: boolean;
+}
+
+export interface TargetDefinition {
+  symbol: string; // HGNC gene symbol
+  synonyms: string[]; // Protein and receptor names: "GLP-1 receptor", "SGLT2"
+  builtIn?: boolean;
+}
+
+export interface EntityDictionary {
+  drugs: DrugDefinition[];
+  targets: TargetDefinition[];
+}
+
+// Normalized drug and target mentions (see services/entities)
+export interface PaperEntities {
+  drugs: string[]; // Dictionary names; development codes not in the dictionary are kept as written
+  targets: string[]; // Gene symbols, including those implied by a named drug
+  mechanisms: string[];
+  genes?: string[]; // HGNC symbols named in genetics, single-cell and transcriptomics items
+  variants?: VariantMention[];
+}
+
+export interface VariantMention {
+  rsId: string; // Lower-case dbSNP id, e.g. "rs738409"
+  gene?: string; // HGNC symbol, from the bundled table or the symbol written next to it
+  label?: string; // Common name, e.g. "I148M"
+}
+
+// One row of the bundled HGNC table (services/entities/fixtures/hgnc.json)
+export interface GeneDefinition {
+  symbol: string; // Approved symbol
+  name: string; // Approved name
+  aliases: string[]; // Alias and previous symbols that are normalized to `symbol`
+}
+
 export enum PublicationType {
   Preprint = 'Preprint',
   PeerReviewed = 'Peer Reviewed',
@@ -14,7 +72,8 @@ export enum PublicationType {
   Poster = 'Poster',
   ReviewArticle = 'Review Article',
   MetaAnalysis = 'Meta-Analysis',
-  Patent = 'Patent'
+  Patent = 'Patent',
+  TrialRegistration = 'Trial Registration'
 }
 
 export enum StudyType {
@@ -52,7 +111,8 @@ export interface PaperData {
   journalOrConference: string;
   date: string;
   authors: string[];
-  topic: DiseaseTopic;
+  topics: TopicId[]; // Empty = Unclassified
+  topicConfidence?: TopicConfidence; // 0-1 per label, absent for curated items
   publicationType: PublicationType;
   studyType: StudyType;
   methodology: Methodology;
@@ -66,9 +126,188 @@ export interface PaperData {
   // Extended Metadata
   affiliations?: string[];
   funding?: string;
-  keywords?: string[];
+  keywords?: string[]; // Also the item's tags in Zotero (see services/zotero)
+  notes?: string[]; // User notes, plain text; synced as Zotero child notes
   isLive?: boolean;
-  isPolished?: boolean; // New flag to track if we've run the deep link agent
+  retrievedAt?: string; // ISO timestamp of the stream run that produced the item; drives "new since last visit"
+  isPolished?: boolean; // Open-access resolution has run for this item (see services/enrichment/openAccessResolver.ts)
+  openAccess?: OpenAccessInfo;
+  // Canonical identifiers (populated by bibliographic source adapters)
+  doi?: string;
+  pmid?: string;
+  pmcid?: string;
+  abstract?: string;
+  source?: LiteratureSource;
+  doiStatus?: DoiStatus; // Set by the Crossref enrichment pass
+  evidence?: ScoreEvidence; // What the agent observed while verifying the item
+  scoreBreakdown?: ScoreComponent[]; // How validationScore was computed (absent for curated items)
+  nctIds?: string[]; // Trial registry numbers cited by the item
+  trial?: TrialDetails; // Present only for ClinicalTrials.gov registry entries
+  patent?: PatentDetails; // Present only for patent documents
+  provenance?: PaperProvenance; // Set when duplicate records were merged (see services/identity.ts)
+  dateInfo?: DateProvenance; // What `date` is and how it was established; absent for curated items
+  otherDates?: PaperDate[]; // Further dates on the record, e.g. print issue or patent priority
+  entities?: PaperEntities; // Drugs, targets and mechanisms found in the text
+  importedFrom?: string; // File name of the reference library the item was imported from (see services/citations)
+}
+
+// A named set of papers kept alongside Saved, e.g. a group's curated library
+export interface PaperCollection {
+  name: string;
+  papers: PaperData[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// A versioned set of curated papers shown in the Archive tab (see services/archive)
+export interface ArchivePack {
+  schemaVersion: number; // File format version, bumped when the format changes
+  id: string; // Stable slug, e.g. "glp1-cvots"; a pack with the same id is an update
+  name: string;
+  description?: string;
+  version: string; // Semantic version of the content, e.g. "1.2.0"
+  updatedAt: string; // YYYY-MM-DD
+  sourceUrl?: string; // Where newer versions are published, checked by "Check for update"
+  changelog: ArchivePackChange[]; // Newest first; the first entry describes `version`
+  papers: PaperData[]; // Entry ids are unique within the pack and stable across versions
+}
+
+export interface ArchivePackChange {
+  version: string;
+  date: string; // YYYY-MM-DD
+  notes: string[];
+}
+
+// A pack as installed in this browser. Enabled packs are stacked in list order; later packs override earlier ones.
+export interface InstalledArchivePack {
+  pack: ArchivePack;
+  enabled: boolean;
+  installedAt: string; // ISO timestamp
+}
+
+// epub / print: online and issue publication; registry-update: last change to a trial record
+export type DateKind = 'epub' | 'print' | 'preprint-posted' | 'patent-publication' | 'patent-priority' | 'conference' | 'registry-update';
+
+// registry: returned by a bibliographic API; page-metadata: read from the matched search result's title
+// or snippet; model: the LLM's own claim, unchecked; import: taken from an imported reference library
+export type DateSource = 'registry' | 'page-metadata' | 'model' | 'import';
+
+export type DateConfidence = 'high' | 'medium' | 'low';
+
+export interface DateProvenance {
+  kind: DateKind;
+  source: DateSource;
+  confidence: DateConfidence;
+  precision: 'day' | 'month' | 'year'; // Missing parts are filled as the 1st (month) or the latest plausible day (year)
+}
+
+export interface PaperDate extends DateProvenance {
+  date: string; // YYYY-MM-DD
+}
+
+// Field name -> origin of its merged value: a LiteratureSource, 'clinicaltrials', 'archive', 'import', 'patent-search' or 'web-search'
+export type PaperProvenance = Record<string, string>;
+
+export type PatentStatus = 'grant' | 'application' | 'unknown';
+
+export interface PatentDetails {
+  office: string; // US, EP, WO ...
+  publicationNumber: string; // Without office prefix or kind code
+  kindCode?: string; // A1, B2 ...
+  status: PatentStatus; // Derived from office + kind code
+  priorityDate?: string;
+  filingDate?: string;
+  cpcClasses: string[];
+  ipcClasses: string[];
+  claimsSummary?: string;
+  familyId?: string;
+  familyMembers: string[]; // Full publication numbers of collapsed family members, e.g. "EP4123456B1"
+}
+
+export interface TrialDetails {
+  nctId: string;
+  phase: string;
+  status: string;
+  sponsor: string;
+  enrollment?: number;
+  interventions: string[];
+  conditions: string[];
+  primaryCompletionDate?: string;
+}
+
+// One web-search agent in a swarm. The query is `(site:a OR site:b) <topics> AND (group 1) AND (group 2) -excluded after:<date>`.
+export interface SwarmAgentConfig {
+  id: string;
+  name: string;
+  feed: 'live' | 'ai' | 'patent';
+  enabled: boolean;
+  sites: string[]; // Domains or path prefixes for site: operators, e.g. "nejm.org", "patents.google.com/patent/"
+  keywordGroups: string[][]; // Terms inside a group are ORed; groups are ANDed with the topic clause
+  exclusions: string[]; // Rendered as -term / -"multi word term"
+  lookbackDays: number;
+}
+
+export interface SwarmConfig {
+  version: number; // Schema version, bumped when the file format changes
+  revision: number; // Incremented on every saved edit; part of the feed cache key
+  updatedAt: string;
+  registryLookbackDays: number; // Window for the PubMed / Europe PMC / bioRxiv registry agents
+  maxConcurrentAgents: number; // How many agents of one feed run at the same time
+  maxAttempts: number; // Per request, including the first try
+  agents: SwarmAgentConfig[];
+}
+
+export type FeedType = 'live' | 'ai' | 'patent' | 'trial';
+
+export type AgentRunState = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+// Progress of one agent (registry source, web-search swarm or trial query) within a scan
+export interface AgentRunStatus {
+  id: string; // Stable per agent, e.g. "source:pubmed", "prestige-society", "trials:Obesity"
+  name: string;
+  feed: FeedType;
+  state: AgentRunState;
+  attempt: number;
+  itemCount?: number; // Set on success
+  error?: string; // Last failure reason, kept while retrying
+  retryAt?: number; // Epoch ms of the next attempt while backing off
+  updatedAt: number;
+}
+
+// How an item was tied to a real source: returned by a registry API, an exact grounding URL, or a fuzzy title match
+export type GroundingMatch = 'registry' | 'exact-url' | 'fuzzy-title';
+
+export interface ScoreEvidence {
+  grounding: GroundingMatch;
+  groundingUri?: string; // Search result that verified a web-search item
+  auditRunId?: string; // Agent run that produced the item (see services/auditLog.ts)
+}
+
+export interface ScoreComponent {
+  label: string;
+  points: number;
+  max: number;
+  detail: string;
+}
+
+// resolved: registry metadata applied; not-found: DOI does not resolve; title-mismatch: DOI belongs to another work
+export type DoiStatus = 'resolved' | 'not-found' | 'title-mismatch';
+
+export type LiteratureSource = 'pubmed' | 'europepmc' | 'biorxiv' | 'medrxiv';
+
+// Unpaywall's classes: gold = OA journal, hybrid = OA article in a subscription journal, bronze = free
+// to read without a license, green = repository copy, closed = no free copy found. unknown: the
+// web-search fallback found a full-text link but cannot tell its license.
+export type OaStatus = 'gold' | 'hybrid' | 'bronze' | 'green' | 'closed' | 'unknown';
+
+export interface OpenAccessInfo {
+  status: OaStatus;
+  license?: string; // e.g. "cc-by", as the resolver reported it
+  pdfUrl?: string;
+  fullTextUrl?: string; // HTML full text
+  hostType?: 'publisher' | 'repository';
+  source: 'unpaywall' | 'europepmc' | 'web-search' | 'none'; // none: no DOI, PMID or PMCID to look up by
+  resolvedAt: string; // ISO timestamp
 }
 
 export interface DashboardStats {
@@ -12,7 +12,22 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LLM_RECORD': JSON.stringify(env.LLM_RECORD),
+        'process.env.SOURCE_MODE': JSON.stringify(env.SOURCE_MODE),
+        'process.env.NCBI_API_KEY': JSON.stringify(env.NCBI_API_KEY),
+        'process.env.CROSSREF_BASE_URL': JSON.stringify(env.CROSSREF_BASE_URL),
+        'process.env.CROSSREF_MAILTO': JSON.stringify(env.CROSSREF_MAILTO),
+        'process.env.CTGOV_BASE_URL': JSON.stringify(env.CTGOV_BASE_URL),
+        'process.env.UNPAYWALL_BASE_URL': JSON.stringify(env.UNPAYWALL_BASE_URL),
+        'process.env.UNPAYWALL_EMAIL': JSON.stringify(env.UNPAYWALL_EMAIL),
+        'process.env.EUROPEPMC_BASE_URL': JSON.stringify(env.EUROPEPMC_BASE_URL),
+        'process.env.ZOTERO_BASE_URL': JSON.stringify(env.ZOTERO_BASE_URL),
+        'process.env.ZOTERO_MODE': JSON.stringify(env.ZOTERO_MODE)
       },
       resolve: {
         alias: {